@@ -13,8 +13,12 @@ pub const typescript = @import("typescript.zig");
 pub const fsharp = @import("fsharp.zig");
 pub const testing_utilities = @import("freeform/testing_utilities.zig");
 pub const utilities = @import("freeform/utilities.zig");
+pub const diagnostics = @import("freeform/diagnostics.zig");
+const diff = @import("freeform/diff.zig");
 
 const DefinitionIterator = parser.DefinitionIterator;
+const DiagnosticsFormat = diagnostics.DiagnosticsFormat;
+const CompiledModule = diagnostics.CompiledModule;
 const ExpectError = tokenizer.ExpectError;
 const ParsingError = parser.ParsingError;
 
@@ -25,6 +29,36 @@ pub const OutputLanguages = struct {
 
     typescript: ?OutputPath = null,
     fsharp: ?OutputPath = null,
+    typescript_options: typescript.CompilationOptions = .{},
+    /// How field names are translated into names in the generated code of all languages, for
+    /// modules that don't set a naming convention themselves.
+    naming: parser.NamingConvention = .unchanged,
+    /// Writes an `index.ts` to each TypeScript output directory that re-exports every module
+    /// written to it.
+    typescript_index: bool = false,
+    /// Directories that hierarchical module names are relative to, which imported modules are also
+    /// read from when they aren't among the inputs. See `parser.moduleName`.
+    module_roots: []const []const u8 = &[_][]const u8{},
+
+    /// Constructors of different unions can only share names when every output namespaces them,
+    /// which F# doesn't, and enumeration values can only be as large as every output can represent.
+    pub fn parsingOptions(self: Self) parser.ParsingOptions {
+        return .{
+            .naming = self.naming,
+            .namespaced_constructors = self.typescript_options.namespaced_unions and
+                self.fsharp == null,
+            .module_roots = self.module_roots,
+            .maximum_enumeration_value = self.maximumEnumerationValue(),
+        };
+    }
+
+    fn maximumEnumerationValue(self: Self) u64 {
+        var maximum: u64 = std.math.maxInt(u64);
+        if (self.typescript != null) maximum = @min(maximum, typescript.max_safe_integer);
+        if (self.fsharp != null) maximum = @min(maximum, fsharp.max_enumeration_integer);
+
+        return maximum;
+    }
 
     pub fn print(self: Self, allocator: mem.Allocator) ![]const u8 {
         var outputs = std.ArrayList([]const u8).init(allocator);
@@ -32,8 +66,56 @@ pub const OutputLanguages = struct {
 
         if (self.typescript) |o| try outputs.append(try o.print(allocator, "\tTypeScript"));
 
+        if (self.typescript_options.runtime_module) |m| {
+            try outputs.append(try std.fmt.allocPrint(
+                allocator,
+                "\tTypeScript runtime: {s}",
+                .{m},
+            ));
+        }
+
+        if (self.typescript_options.strict) {
+            try outputs.append(try allocator.dupe(u8, "\tTypeScript: strict"));
+        }
+
+        if (self.typescript_options.date_objects) {
+            try outputs.append(try allocator.dupe(u8, "\tTypeScript: date objects"));
+        }
+
+        if (self.typescript_options.literal_enums) {
+            try outputs.append(try allocator.dupe(u8, "\tTypeScript: literal enums"));
+        }
+
+        if (self.typescript_options.namespaced_unions) {
+            try outputs.append(try allocator.dupe(u8, "\tTypeScript: namespaced unions"));
+        }
+
+        if (self.typescript_options.import_extension != .none) {
+            try outputs.append(try std.fmt.allocPrint(
+                allocator,
+                "\tTypeScript import extension: {s}",
+                .{self.typescript_options.import_extension.suffix()},
+            ));
+        }
+
+        if (self.typescript_index) {
+            try outputs.append(try allocator.dupe(u8, "\tTypeScript: index module"));
+        }
+
         if (self.fsharp) |o| try outputs.append(try o.print(allocator, "\tFSharp"));
 
+        if (self.naming == .camel_case) {
+            try outputs.append(try allocator.dupe(u8, "\tField names: camelCase"));
+        }
+
+        for (self.module_roots) |module_root| {
+            try outputs.append(try std.fmt.allocPrint(
+                allocator,
+                "\tModule root: {s}",
+                .{module_root},
+            ));
+        }
+
         return try mem.join(allocator, "\n", outputs.items);
     }
 };
@@ -64,75 +146,892 @@ pub const CompilationTimes = struct {
     fsharp: ?i128 = null,
 };
 
+/// Returns whether the modules could be parsed, which is only ever not the case with JSON
+/// diagnostics, since parsing errors are otherwise described before the process is stopped.
 pub fn compileModules(
     allocator: mem.Allocator,
     files: []const []const u8,
     output_languages: OutputLanguages,
     verbose: bool,
+    diagnostics_format: DiagnosticsFormat,
+) !bool {
+    const out = io.getStdOut().writer();
+
+    var unreadable_file: []const u8 = undefined;
+    const buffers = readModuleBuffers(
+        allocator,
+        files,
+        output_languages.module_roots,
+        &unreadable_file,
+    ) catch |e| switch (e) {
+        error.OutOfMemory => return e,
+        else => {
+            try reportUnreadableFile(allocator, diagnostics_format, unreadable_file, e);
+
+            return false;
+        },
+    };
+
+    var parsing_error: ParsingError = undefined;
+    var parsing_errors = std.ArrayList(ParsingError).init(allocator);
+    defer parsing_errors.deinit();
+    const modules = switch (diagnostics_format) {
+        .text => try parser.parseModulesWithDescribedError(
+            allocator,
+            allocator,
+            buffers,
+            output_languages.parsingOptions(),
+            &parsing_error,
+        ),
+        .json => parser.parseModulesReportingErrors(
+            allocator,
+            buffers,
+            output_languages.parsingOptions(),
+            &parsing_errors,
+        ) catch |e| {
+            if (parsing_errors.items.len == 0) return e;
+
+            try diagnostics.writeJsonReport(allocator, out, parsing_errors.items, buffers, &.{});
+
+            return false;
+        },
+    };
+
+    var compiled_modules = std.ArrayList(CompiledModule).init(allocator);
+    defer compiled_modules.deinit();
+
+    for (buffers) |buffer| {
+        var module_iterator = modules.modules.valueIterator();
+        while (module_iterator.next()) |module| {
+            if (!mem.eql(u8, module.filename, buffer.filename)) continue;
+
+            try compiled_modules.append(CompiledModule{
+                .name = module.name,
+                .input = module.filename,
+                .outputs = try compileModule(allocator, module.*, output_languages, verbose),
+            });
+        }
+    }
+
+    try writeTypeScriptRuntimeModules(allocator, modules, output_languages);
+    try writeTypeScriptIndexModules(allocator, modules, output_languages);
+
+    if (diagnostics_format == .json) {
+        try diagnostics.writeJsonReport(allocator, out, &.{}, buffers, compiled_modules.items);
+    }
+
+    return true;
+}
+
+/// Compiles the given files in memory and compares the outputs with the files on disk, printing a
+/// unified diff for each generated file that differs from the one on disk or is missing. Nothing
+/// is written. Returns whether the modules could be parsed and all of the files on disk were up to
+/// date. With JSON diagnostics standard output only has the JSON report of parsing errors, so the
+/// diffs are printed to standard error instead.
+pub fn checkModules(
+    allocator: mem.Allocator,
+    files: []const []const u8,
+    output_languages: OutputLanguages,
+    diagnostics_format: DiagnosticsFormat,
+) !bool {
+    const out = io.getStdOut().writer();
+    const error_out = io.getStdErr().writer();
+    const diff_out = if (diagnostics_format == .json) error_out else out;
+
+    var check_arena = heap.ArenaAllocator.init(allocator);
+    defer check_arena.deinit();
+    const check_allocator = check_arena.allocator();
+
+    var unreadable_file: []const u8 = undefined;
+    const buffers = readModuleBuffers(
+        check_allocator,
+        files,
+        output_languages.module_roots,
+        &unreadable_file,
+    ) catch |e| switch (e) {
+        error.OutOfMemory => return e,
+        else => {
+            try reportUnreadableFile(check_allocator, diagnostics_format, unreadable_file, e);
+
+            return false;
+        },
+    };
+
+    var parsing_error: ParsingError = undefined;
+    var parsing_errors = std.ArrayList(ParsingError).init(check_allocator);
+    const modules = switch (diagnostics_format) {
+        .text => try parser.parseModulesWithDescribedError(
+            check_allocator,
+            check_allocator,
+            buffers,
+            output_languages.parsingOptions(),
+            &parsing_error,
+        ),
+        .json => parser.parseModulesReportingErrors(
+            check_allocator,
+            buffers,
+            output_languages.parsingOptions(),
+            &parsing_errors,
+        ) catch |e| {
+            if (parsing_errors.items.len == 0) return e;
+
+            try diagnostics.writeJsonReport(
+                check_allocator,
+                out,
+                parsing_errors.items,
+                buffers,
+                &.{},
+            );
+
+            return false;
+        },
+    };
+
+    var outputs = std.ArrayList(OutputFile).init(check_allocator);
+
+    var module_iterator = modules.modules.valueIterator();
+    while (module_iterator.next()) |module| {
+        if (output_languages.typescript) |path| {
+            try outputs.append(try typeScriptOutput(
+                check_allocator,
+                module.*,
+                path,
+                output_languages,
+            ));
+        }
+
+        if (output_languages.fsharp) |path| {
+            try outputs.append(try fsharpOutput(check_allocator, module.*, path));
+        }
+    }
+
+    try outputs.appendSlice(try typeScriptRuntimeOutputs(check_allocator, modules, output_languages));
+    try outputs.appendSlice(try typeScriptIndexOutputs(check_allocator, modules, output_languages));
+
+    mem.sort(OutputFile, outputs.items, {}, OutputFile.lessThan);
+
+    var stale_count: usize = 0;
+    for (outputs.items) |output| {
+        const path = try output.path(check_allocator);
+        const existing_contents: ?[]const u8 = fs.cwd().readFileAlloc(
+            check_allocator,
+            path,
+            10_000_000,
+        ) catch |e| switch (e) {
+            error.FileNotFound => null,
+            else => return e,
+        };
+
+        if (try diff.unifiedDiff(
+            check_allocator,
+            if (existing_contents == null) "/dev/null" else path,
+            path,
+            existing_contents orelse "",
+            output.contents,
+        )) |output_diff| {
+            try diff_out.print("{s}", .{output_diff});
+            stale_count += 1;
+        }
+    }
+
+    if (stale_count != 0) {
+        try error_out.print(
+            "{} of {} generated file(s) are not up to date\n",
+            .{ stale_count, outputs.items.len },
+        );
+    }
+
+    if (diagnostics_format == .json) {
+        try diagnostics.writeJsonReport(check_allocator, out, &.{}, buffers, &.{});
+    }
+
+    return stale_count == 0;
+}
+
+/// A generated file, which is either written to `directory` or compared with the file there.
+pub const OutputFile = struct {
+    const Self = @This();
+
+    directory: []const u8,
+    filename: []const u8,
+    contents: []const u8,
+
+    pub fn path(self: Self, allocator: mem.Allocator) ![]const u8 {
+        return try fs.path.join(allocator, &[_][]const u8{ self.directory, self.filename });
+    }
+
+    /// For sorting files by directory and then by filename with `mem.sort`.
+    pub fn lessThan(context: void, a: Self, b: Self) bool {
+        _ = context;
+
+        return switch (mem.order(u8, a.directory, b.directory)) {
+            .lt => true,
+            .gt => false,
+            .eq => mem.lessThan(u8, a.filename, b.filename),
+        };
+    }
+
+    /// Output directories are created as needed, since hierarchical modules are written to
+    /// directories that don't necessarily exist yet.
+    pub fn write(self: Self) !void {
+        if (self.directory.len != 0) try fs.cwd().makePath(self.directory);
+
+        var output_directory = try fs.cwd().openDir(
+            if (self.directory.len == 0) "." else self.directory,
+            .{},
+        );
+        defer output_directory.close();
+
+        try output_directory.writeFile(self.filename, self.contents);
+    }
+};
+
+/// Writes the runtime module that generated TypeScript modules import when
+/// `typescript_options.runtime_module` is set.
+fn writeTypeScriptRuntimeModules(
+    allocator: mem.Allocator,
+    modules: parser.ModuleMap,
+    output_languages: OutputLanguages,
+) !void {
+    var runtime_arena = heap.ArenaAllocator.init(allocator);
+    defer runtime_arena.deinit();
+
+    const outputs = try typeScriptRuntimeOutputs(
+        runtime_arena.allocator(),
+        modules,
+        output_languages,
+    );
+    for (outputs) |output| try output.write();
+}
+
+/// Each output root gets one runtime module, holding what the modules written under it use. Modules
+/// in subdirectories of the root import it through a relative path, like they do other modules.
+fn typeScriptRuntimeOutputs(
+    allocator: mem.Allocator,
+    modules: parser.ModuleMap,
+    output_languages: OutputLanguages,
+) ![]const OutputFile {
+    const path = output_languages.typescript orelse return &[_]OutputFile{};
+    const runtime_module = output_languages.typescript_options.runtime_module orelse
+        return &[_]OutputFile{};
+
+    var outputs_by_root = std.StringArrayHashMap(std.ArrayList([]const u8)).init(allocator);
+    defer outputs_by_root.deinit();
+
+    var module_iterator = modules.modules.valueIterator();
+    while (module_iterator.next()) |module| {
+        const entry = try outputs_by_root.getOrPut(outputRoot(path, module.*));
+        if (!entry.found_existing) {
+            entry.value_ptr.* = std.ArrayList([]const u8).init(allocator);
+        }
+
+        try entry.value_ptr.append(try typescript.compileDefinitions(
+            allocator,
+            module.definitions,
+            output_languages.typescript_options,
+        ));
+    }
+
+    var outputs = std.ArrayList(OutputFile).init(allocator);
+    defer outputs.deinit();
+
+    var root_iterator = outputs_by_root.iterator();
+    while (root_iterator.next()) |entry| {
+        try outputs.append(OutputFile{
+            .directory = entry.key_ptr.*,
+            .filename = try std.fmt.allocPrint(allocator, "{s}.ts", .{runtime_module}),
+            .contents = try typescript.outputRuntimeModule(allocator, entry.value_ptr.items),
+        });
+    }
+
+    return try outputs.toOwnedSlice();
+}
+
+/// Writes the `index.ts` module re-exporting every module in a TypeScript output directory when
+/// `typescript_index` is set.
+fn writeTypeScriptIndexModules(
+    allocator: mem.Allocator,
+    modules: parser.ModuleMap,
+    output_languages: OutputLanguages,
+) !void {
+    var index_arena = heap.ArenaAllocator.init(allocator);
+    defer index_arena.deinit();
+
+    const outputs = try typeScriptIndexOutputs(index_arena.allocator(), modules, output_languages);
+    for (outputs) |output| try output.write();
+}
+
+/// Modules are exported in order of their names so that the output doesn't depend on the order of
+/// the inputs.
+fn typeScriptIndexOutputs(
+    allocator: mem.Allocator,
+    modules: parser.ModuleMap,
+    output_languages: OutputLanguages,
+) ![]const OutputFile {
+    if (!output_languages.typescript_index) return &[_]OutputFile{};
+    const path = output_languages.typescript orelse return &[_]OutputFile{};
+
+    var names_by_directory = std.StringArrayHashMap(std.ArrayList([]const u8)).init(allocator);
+    defer names_by_directory.deinit();
+
+    var module_iterator = modules.modules.valueIterator();
+    while (module_iterator.next()) |module| {
+        const output_path = try outputDirectory(allocator, path, module.*);
+
+        const entry = try names_by_directory.getOrPut(output_path);
+        if (!entry.found_existing) {
+            entry.value_ptr.* = std.ArrayList([]const u8).init(allocator);
+        }
+
+        try entry.value_ptr.append(parser.baseModuleName(module.name));
+    }
+
+    var outputs = std.ArrayList(OutputFile).init(allocator);
+    defer outputs.deinit();
+
+    var directory_iterator = names_by_directory.iterator();
+    while (directory_iterator.next()) |entry| {
+        mem.sort([]const u8, entry.value_ptr.items, {}, utilities.lessThanString);
+
+        try outputs.append(OutputFile{
+            .directory = entry.key_ptr.*,
+            .filename = "index.ts",
+            .contents = try typescript.outputIndexModule(
+                allocator,
+                output_languages.typescript_options,
+                entry.value_ptr.items,
+            ),
+        });
+    }
+
+    return try outputs.toOwnedSlice();
+}
+
+/// Reports that `filename` couldn't be read, as a diagnostic of its own with JSON diagnostics.
+fn reportUnreadableFile(
+    allocator: mem.Allocator,
+    diagnostics_format: DiagnosticsFormat,
+    filename: []const u8,
+    e: anyerror,
 ) !void {
+    switch (diagnostics_format) {
+        .text => try io.getStdErr().writer().print("Unable to read '{s}': {}\n", .{ filename, e }),
+        .json => try diagnostics.writeJsonReadErrorReport(
+            allocator,
+            io.getStdOut().writer(),
+            filename,
+            e,
+        ),
+    }
+}
+
+/// Reads the input files as well as the modules that they import, directly or through other
+/// modules, from the module roots when they aren't among the inputs. The buffers are ordered such
+/// that modules come after the modules they import, since those have to be parsed first. Imports
+/// that can't be found are left for the parser to report. When a file can't be read for any other
+/// reason, `unreadable_file` is set to it and the error is returned.
+fn readModuleBuffers(
+    allocator: mem.Allocator,
+    files: []const []const u8,
+    module_roots: []const []const u8,
+    unreadable_file: *[]const u8,
+) ![]parser.BufferData {
     const current_directory = fs.cwd();
 
-    var buffers = try allocator.alloc(parser.BufferData, files.len);
+    var buffers = std.ArrayList(parser.BufferData).init(allocator);
+    defer buffers.deinit();
+    var module_names = std.ArrayList([]const u8).init(allocator);
+    defer module_names.deinit();
 
-    for (files, 0..) |file, i| {
+    for (files) |file| {
         const sanitized_filename = try sanitizeFilename(allocator, file);
 
-        const file_contents = try current_directory.readFileAlloc(
+        const file_contents = current_directory.readFileAlloc(
             allocator,
             sanitized_filename,
             10_000_000,
-        );
+        ) catch |e| {
+            unreadable_file.* = sanitized_filename;
+
+            return e;
+        };
 
-        buffers[i] = parser.BufferData{ .filename = sanitized_filename, .buffer = file_contents };
+        try buffers.append(.{ .filename = sanitized_filename, .buffer = file_contents });
+        try module_names.append(try parser.moduleName(allocator, sanitized_filename, module_roots));
     }
 
-    var parsing_error: ParsingError = undefined;
-    const modules = try parser.parseModulesWithDescribedError(
+    var imports = std.ArrayList([]const []const u8).init(allocator);
+    defer imports.deinit();
+
+    // Modules read from the module roots are appended and have their imports read in turn.
+    var i: usize = 0;
+    while (i < buffers.items.len) : (i += 1) {
+        const imported_names = try parser.importedModuleNames(allocator, buffers.items[i].buffer);
+        try imports.append(imported_names);
+
+        for (imported_names) |imported_name| {
+            if (utilities.isStringEqualToOneOf(imported_name, module_names.items)) continue;
+
+            for (module_roots) |module_root| {
+                const module_path = try allocator.dupe(u8, imported_name);
+                mem.replaceScalar(u8, module_path, '.', '/');
+
+                const filename = try std.fmt.allocPrint(
+                    allocator,
+                    "{s}/{s}.gotyno",
+                    .{ mem.trimRight(u8, module_root, "/"), module_path },
+                );
+
+                const file_contents = current_directory.readFileAlloc(
+                    allocator,
+                    filename,
+                    10_000_000,
+                ) catch |e| switch (e) {
+                    error.FileNotFound => continue,
+                    else => {
+                        unreadable_file.* = filename;
+
+                        return e;
+                    },
+                };
+
+                try buffers.append(.{ .filename = filename, .buffer = file_contents });
+                try module_names.append(try parser.moduleName(allocator, filename, module_roots));
+
+                break;
+            }
+        }
+    }
+
+    var ordered_buffers = try allocator.alloc(parser.BufferData, buffers.items.len);
+    var ordered_names = std.ArrayList([]const u8).init(allocator);
+    defer ordered_names.deinit();
+    var is_ordered = try allocator.alloc(bool, buffers.items.len);
+    defer allocator.free(is_ordered);
+    @memset(is_ordered, false);
+
+    while (ordered_names.items.len < buffers.items.len) {
+        const ordered_before = ordered_names.items.len;
+
+        for (buffers.items, 0..) |buffer, j| {
+            if (is_ordered[j]) continue;
+
+            const imports_ordered = for (imports.items[j]) |imported_name| {
+                const is_known = utilities.isStringEqualToOneOf(imported_name, module_names.items);
+                const is_placed = utilities.isStringEqualToOneOf(imported_name, ordered_names.items);
+                if (is_known and !is_placed) break false;
+            } else true;
+
+            if (imports_ordered) {
+                ordered_buffers[ordered_names.items.len] = buffer;
+                try ordered_names.append(module_names.items[j]);
+                is_ordered[j] = true;
+            }
+        }
+
+        // Modules that import each other can't be ordered; they are kept in the order they were
+        // given in, such that the parser reports the first import that it can't find.
+        if (ordered_names.items.len == ordered_before) {
+            for (buffers.items, 0..) |buffer, j| {
+                if (is_ordered[j]) continue;
+
+                ordered_buffers[ordered_names.items.len] = buffer;
+                try ordered_names.append(module_names.items[j]);
+                is_ordered[j] = true;
+            }
+        }
+    }
+
+    return ordered_buffers;
+}
+
+/// How often input files are checked for modifications when watching them.
+const watch_interval = 250 * time.ns_per_ms;
+
+/// Compiles all of the given files and then keeps checking them for modifications. When a file
+/// changes, the module in it is recompiled together with every module that imports it, directly or
+/// through other modules. Modules that are imported from the module roots are watched as well.
+///
+/// Parsing errors are printed instead of ending the process, as the files being watched are
+/// expected to be in the middle of being edited. With JSON diagnostics, each compilation is
+/// reported on a line of its own. Only returns, with `false`, when the files can't be read to begin
+/// with.
+pub fn watchModules(
+    allocator: mem.Allocator,
+    files: []const []const u8,
+    output_languages: OutputLanguages,
+    verbose: bool,
+    diagnostics_format: DiagnosticsFormat,
+) !bool {
+    const out = io.getStdOut().writer();
+
+    var watched_files = WatchedFiles.init(allocator);
+    defer watched_files.deinit();
+
+    var unreadable_file: []const u8 = undefined;
+    updateWatchedFiles(
         allocator,
+        &watched_files,
+        files,
+        output_languages.module_roots,
+        &unreadable_file,
+    ) catch |e| switch (e) {
+        error.OutOfMemory => return e,
+        else => {
+            defer allocator.free(unreadable_file);
+            try reportUnreadableFile(allocator, diagnostics_format, unreadable_file, e);
+
+            return false;
+        },
+    };
+
+    for (watched_files.files.items, 0..) |watched_file, i| {
+        _ = try watched_files.update(i, try modificationTime(watched_file.filename));
+    }
+
+    if (try recompileModules(
         allocator,
+        files,
+        watched_files.changedFiles(),
+        output_languages,
+        verbose,
+        diagnostics_format,
+    )) watched_files.markCompiled();
+    if (diagnostics_format == .text) {
+        try out.print("Watching {} file(s) for changes...\n", .{watched_files.files.items.len});
+    }
+
+    while (true) {
+        time.sleep(watch_interval);
+
+        var has_changes = false;
+        for (watched_files.files.items, 0..) |watched_file, i| {
+            // Editors commonly replace files when saving them, so a file can be briefly missing.
+            const modification_time = modificationTime(watched_file.filename) catch continue;
+
+            if (try watched_files.update(i, modification_time)) has_changes = true;
+        }
+
+        if (has_changes) {
+            if (try recompileModules(
+                allocator,
+                files,
+                watched_files.changedFiles(),
+                output_languages,
+                verbose,
+                diagnostics_format,
+            )) watched_files.markCompiled();
+
+            // Changed modules can import modules from the module roots that weren't read before.
+            updateWatchedFiles(
+                allocator,
+                &watched_files,
+                files,
+                output_languages.module_roots,
+                &unreadable_file,
+            ) catch |e| switch (e) {
+                error.OutOfMemory => return e,
+                // recompiling has already reported that the files couldn't be read
+                else => allocator.free(unreadable_file),
+            };
+        }
+    }
+}
+
+const WatchedFile = struct {
+    filename: []const u8,
+    /// `null` until the file has been compiled, which makes files that start being watched after
+    /// a recompilation count as changed the next time files are checked.
+    modification_time: ?i128 = null,
+};
+
+/// The files being watched, together with the ones that have changed since the modules were last
+/// compiled. Changes stay pending for as long as compiling fails, so that the modules in files that
+/// changed while another module couldn't be parsed are still output once it can.
+const WatchedFiles = struct {
+    const Self = @This();
+
+    allocator: mem.Allocator,
+    files: std.ArrayList(WatchedFile),
+    pending_files: std.StringArrayHashMap(void),
+
+    pub fn init(allocator: mem.Allocator) Self {
+        return Self{
+            .allocator = allocator,
+            .files = std.ArrayList(WatchedFile).init(allocator),
+            .pending_files = std.StringArrayHashMap(void).init(allocator),
+        };
+    }
+
+    pub fn deinit(self: *Self) void {
+        for (self.files.items) |watched_file| self.allocator.free(watched_file.filename);
+        self.files.deinit();
+        self.pending_files.deinit();
+    }
+
+    /// Starts watching `filename` unless it's being watched already.
+    pub fn add(self: *Self, filename: []const u8) !void {
+        for (self.files.items) |watched_file| {
+            if (mem.eql(u8, watched_file.filename, filename)) return;
+        }
+
+        try self.files.append(.{ .filename = try self.allocator.dupe(u8, filename) });
+    }
+
+    /// Records the modification time of the file at `index` in `files`, marking the file as
+    /// changed when it's not the one it had before. Returns whether it was.
+    pub fn update(self: *Self, index: usize, modification_time: i128) !bool {
+        const watched_file = &self.files.items[index];
+        if (watched_file.modification_time == modification_time) return false;
+
+        watched_file.modification_time = modification_time;
+        try self.pending_files.put(watched_file.filename, {});
+
+        return true;
+    }
+
+    /// The files that have changed since the last successful compilation.
+    pub fn changedFiles(self: Self) []const []const u8 {
+        return self.pending_files.keys();
+    }
+
+    pub fn markCompiled(self: *Self) void {
+        self.pending_files.clearRetainingCapacity();
+    }
+};
+
+/// Adds the files that compiling `files` reads to `watched_files` when they aren't in it already,
+/// which includes the modules that are imported from the module roots. See `readModuleBuffers` for
+/// `unreadable_file`, which is allocated with `allocator` here.
+fn updateWatchedFiles(
+    allocator: mem.Allocator,
+    watched_files: *WatchedFiles,
+    files: []const []const u8,
+    module_roots: []const []const u8,
+    unreadable_file: *[]const u8,
+) !void {
+    var read_arena = heap.ArenaAllocator.init(allocator);
+    defer read_arena.deinit();
+
+    const buffers = readModuleBuffers(
+        read_arena.allocator(),
+        files,
+        module_roots,
+        unreadable_file,
+    ) catch |e| {
+        // the filename is in the arena that's about to be freed
+        if (e != error.OutOfMemory) unreadable_file.* = try allocator.dupe(u8, unreadable_file.*);
+
+        return e;
+    };
+
+    for (buffers) |buffer| try watched_files.add(buffer.filename);
+}
+
+fn modificationTime(filename: []const u8) !i128 {
+    const stat = try fs.cwd().statFile(filename);
+
+    return stat.mtime;
+}
+
+/// Parses all of `files`, since modules need the modules they import in order to be parsed, but
+/// only outputs the modules that are affected by the changes in `changed_files`. Errors are printed
+/// and will not stop the watching of files. Returns whether every affected module was output.
+fn recompileModules(
+    allocator: mem.Allocator,
+    files: []const []const u8,
+    changed_files: []const []const u8,
+    output_languages: OutputLanguages,
+    verbose: bool,
+    diagnostics_format: DiagnosticsFormat,
+) !bool {
+    const out = io.getStdOut().writer();
+    const error_out = io.getStdErr().writer();
+
+    var recompilation_arena = heap.ArenaAllocator.init(allocator);
+    defer recompilation_arena.deinit();
+    const recompilation_allocator = recompilation_arena.allocator();
+
+    var unreadable_file: []const u8 = undefined;
+    const buffers = readModuleBuffers(
+        recompilation_allocator,
+        files,
+        output_languages.module_roots,
+        &unreadable_file,
+    ) catch |e| switch (e) {
+        error.OutOfMemory => return e,
+        else => {
+            try reportUnreadableFile(recompilation_allocator, diagnostics_format, unreadable_file, e);
+
+            return false;
+        },
+    };
+
+    var parsing_errors = std.ArrayList(ParsingError).init(recompilation_allocator);
+    const modules = parser.parseModulesReportingErrors(
+        recompilation_allocator,
         buffers,
-        &parsing_error,
-    );
-    var module_iterator = modules.modules.iterator();
-    while (module_iterator.next()) |e| {
-        try compileModule(allocator, e.value_ptr.*, output_languages, verbose);
+        output_languages.parsingOptions(),
+        &parsing_errors,
+    ) catch |e| {
+        switch (e) {
+            error.UnexpectedToken,
+            error.InvalidToken,
+            error.UnknownKeyword,
+            error.UnknownReference,
+            error.UnknownModule,
+            error.InvalidPayload,
+            error.UnexpectedEndOfTokenStream,
+            error.DuplicateDefinition,
+            error.AppliedNameCount,
+            error.InvalidMapKey,
+            error.MixedEnumerationValues,
+            error.EnumerationValueOutOfRange,
+            error.ConstructorNameCollision,
+            error.FieldNameCollision,
+            => switch (diagnostics_format) {
+                .text => {
+                    const description = try parser.describeParsingErrors(
+                        recompilation_allocator,
+                        parsing_errors.items,
+                        buffers,
+                    );
+
+                    try error_out.print("{s}", .{description});
+                },
+                .json => try diagnostics.writeJsonReport(
+                    recompilation_allocator,
+                    out,
+                    parsing_errors.items,
+                    buffers,
+                    &.{},
+                ),
+            },
+            error.OutOfMemory => return e,
+        }
+
+        return false;
+    };
+
+    var affected_modules = try affectedModules(recompilation_allocator, modules, changed_files);
+    var compiled_modules = std.ArrayList(CompiledModule).init(recompilation_allocator);
+    var all_compiled = true;
+
+    for (buffers) |buffer| {
+        var module_iterator = modules.modules.valueIterator();
+        while (module_iterator.next()) |module| {
+            if (!mem.eql(u8, module.filename, buffer.filename)) continue;
+            if (!affected_modules.contains(module.name)) continue;
+
+            const output_paths = compileModule(
+                recompilation_allocator,
+                module.*,
+                output_languages,
+                verbose,
+            ) catch |e| {
+                try error_out.print("Unable to compile '{s}': {}\n", .{ module.filename, e });
+                all_compiled = false;
+
+                continue;
+            };
+
+            switch (diagnostics_format) {
+                .text => try out.print("Compiled {s}\n", .{module.filename}),
+                .json => try compiled_modules.append(CompiledModule{
+                    .name = module.name,
+                    .input = module.filename,
+                    .outputs = output_paths,
+                }),
+            }
+        }
+    }
+
+    writeTypeScriptRuntimeModules(recompilation_allocator, modules, output_languages) catch |e| {
+        try error_out.print("Unable to write TypeScript runtime module: {}\n", .{e});
+    };
+
+    writeTypeScriptIndexModules(recompilation_allocator, modules, output_languages) catch |e| {
+        try error_out.print("Unable to write TypeScript index module: {}\n", .{e});
+    };
+
+    if (diagnostics_format == .json) {
+        try diagnostics.writeJsonReport(
+            recompilation_allocator,
+            out,
+            &.{},
+            buffers,
+            compiled_modules.items,
+        );
+    }
+
+    return all_compiled;
+}
+
+/// Returns the names of the modules in `changed_files` as well as the names of all modules that
+/// import them, directly or indirectly.
+fn affectedModules(
+    allocator: mem.Allocator,
+    modules: parser.ModuleMap,
+    changed_files: []const []const u8,
+) !std.StringHashMap(void) {
+    var affected_modules = std.StringHashMap(void).init(allocator);
+
+    var module_iterator = modules.modules.valueIterator();
+    while (module_iterator.next()) |module| {
+        for (changed_files) |changed_file| {
+            if (mem.eql(u8, module.filename, changed_file)) {
+                try affected_modules.put(module.name, {});
+            }
+        }
     }
+
+    var found_new_module = true;
+    while (found_new_module) {
+        found_new_module = false;
+
+        module_iterator = modules.modules.valueIterator();
+        while (module_iterator.next()) |module| {
+            if (affected_modules.contains(module.name)) continue;
+
+            for (module.definitions) |definition| {
+                switch (definition) {
+                    .import => |i| if (affected_modules.contains(i.name.value)) {
+                        try affected_modules.put(module.name, {});
+                        found_new_module = true;
+
+                        break;
+                    },
+                    else => {},
+                }
+            }
+        }
+    }
+
+    return affected_modules;
 }
 
+/// Returns the paths of the files that the module was output to.
 pub fn compileModule(
     allocator: mem.Allocator,
     module: parser.Module,
     output_languages: OutputLanguages,
     verbose: bool,
-) !void {
+) ![]const []const u8 {
     var compilation_times = CompilationTimes{};
     const compilation_start_time = time.nanoTimestamp();
     var compilation_arena = heap.ArenaAllocator.init(allocator);
     const compilation_allocator = compilation_arena.allocator();
     defer compilation_arena.deinit();
 
+    var output_paths = std.ArrayList([]const u8).init(allocator);
+    defer output_paths.deinit();
+
     if (output_languages.typescript) |path| {
         const typescript_start_time = time.nanoTimestamp();
 
-        const output_path = switch (path) {
-            .input => directoryOfInput(module.filename),
-            .path => |p| p,
-        };
-
-        var output_directory = try fs.cwd().openDir(output_path, .{});
-        defer output_directory.close();
-
-        const typescript_filename = try typescript.outputFilename(
-            compilation_allocator,
-            module.filename,
-        );
-
-        const typescript_output = try typescript.compileDefinitions(
-            compilation_allocator,
-            module.definitions,
-        );
-
-        try output_directory.writeFile(typescript_filename, typescript_output);
+        const output = try typeScriptOutput(compilation_allocator, module, path, output_languages);
+        try output.write();
+        try output_paths.append(try output.path(allocator));
         const typescript_end_time = time.nanoTimestamp();
         const compilation_time_difference = typescript_end_time - typescript_start_time;
         compilation_times.typescript = compilation_time_difference;
@@ -141,26 +1040,9 @@ pub fn compileModule(
     if (output_languages.fsharp) |path| {
         const fsharp_start_time = time.nanoTimestamp();
 
-        const output_path = switch (path) {
-            .input => directoryOfInput(module.filename),
-            .path => |p| p,
-        };
-
-        var output_directory = try fs.cwd().openDir(output_path, .{});
-        defer output_directory.close();
-
-        const fsharp_filename = try fsharp.outputFilename(
-            compilation_allocator,
-            module.filename,
-        );
-
-        const fsharp_output = try fsharp.compileDefinitions(
-            compilation_allocator,
-            module.definitions,
-            fsharp_filename,
-        );
-
-        try output_directory.writeFile(fsharp_filename, fsharp_output);
+        const output = try fsharpOutput(compilation_allocator, module, path);
+        try output.write();
+        try output_paths.append(try output.path(allocator));
         const fsharp_end_time = time.nanoTimestamp();
         const compilation_time_difference = fsharp_end_time - fsharp_start_time;
         compilation_times.fsharp = compilation_time_difference;
@@ -202,6 +1084,38 @@ pub fn compileModule(
             },
         );
     }
+
+    return try output_paths.toOwnedSlice();
+}
+
+fn typeScriptOutput(
+    allocator: mem.Allocator,
+    module: parser.Module,
+    path: OutputPath,
+    output_languages: OutputLanguages,
+) !OutputFile {
+    var typescript_options = output_languages.typescript_options;
+    typescript_options.module_name = module.name;
+
+    return OutputFile{
+        .directory = try outputDirectory(allocator, path, module),
+        .filename = try typescript.outputFilename(allocator, module.filename),
+        .contents = try typescript.compileDefinitions(
+            allocator,
+            module.definitions,
+            typescript_options,
+        ),
+    };
+}
+
+fn fsharpOutput(allocator: mem.Allocator, module: parser.Module, path: OutputPath) !OutputFile {
+    const filename = try fsharp.outputFilename(allocator, module.filename);
+
+    return OutputFile{
+        .directory = try outputDirectory(allocator, path, module),
+        .filename = filename,
+        .contents = try fsharp.compileDefinitions(allocator, module.definitions, filename),
+    };
 }
 
 pub fn compile(
@@ -247,6 +1161,7 @@ pub fn compile(
         const typescript_output = try typescript.compileDefinitions(
             compilation_allocator,
             definitions.definitions,
+            output_languages.typescript_options,
         );
 
         try output_directory.writeFile(typescript_filename, typescript_output);
@@ -332,6 +1247,42 @@ pub fn sanitizeFilename(allocator: mem.Allocator, filename: []const u8) ![]const
     } else filename;
 }
 
+/// The directory that the output for `module` is written to. Outputs go next to their input, or in
+/// the output path under the directories that the module's name gives, `shared/common` for
+/// `shared.common`.
+fn outputDirectory(allocator: mem.Allocator, path: OutputPath, module: parser.Module) ![]const u8 {
+    switch (path) {
+        .input => return directoryOfInput(module.filename),
+        .path => |p| {
+            const base_name = parser.baseModuleName(module.name);
+            if (base_name.len == module.name.len) return p;
+
+            const directory = try std.fmt.allocPrint(
+                allocator,
+                "{s}/{s}",
+                .{ p, module.name[0..(module.name.len - base_name.len - 1)] },
+            );
+            mem.replaceScalar(u8, directory[(p.len + 1)..], '.', '/');
+
+            return directory;
+        },
+    }
+}
+
+/// The directory that the output directories of modules are relative to, which the output of a
+/// module without dots in its name is written to.
+fn outputRoot(path: OutputPath, module: parser.Module) []const u8 {
+    switch (path) {
+        .input => {
+            var directory = directoryOfInput(module.filename);
+            for (0..mem.count(u8, module.name, ".")) |_| directory = directoryOfInput(directory);
+
+            return directory;
+        },
+        .path => |p| return p,
+    }
+}
+
 fn directoryOfInput(filename: []const u8) []const u8 {
     return if (mem.lastIndexOf(u8, filename, "/")) |index|
         filename[0..index]
@@ -405,3 +1356,114 @@ test "Compilation gives expected output" {
 }
 
 const expected_typescript_compilation_output = @embedFile("../test_files/test_expected.ts");
+
+test "Affected modules are the changed ones and the ones importing them, directly or not" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const buffers = [_]parser.BufferData{
+        .{ .filename = "base.gotyno", .buffer = "struct Base {\n    value: String\n}\n" },
+        .{
+            .filename = "middle.gotyno",
+            .buffer = "import base\n\nstruct Middle {\n    base: base.Base\n}\n",
+        },
+        .{
+            .filename = "top.gotyno",
+            .buffer = "import middle\n\nstruct Top {\n    middle: middle.Middle\n}\n",
+        },
+        .{ .filename = "other.gotyno", .buffer = "struct Other {\n    value: String\n}\n" },
+    };
+
+    var parsing_error: ParsingError = undefined;
+    const modules = try parser.parseModules(allocator, allocator, &buffers, .{}, &parsing_error);
+
+    const affected_by_base = try affectedModules(allocator, modules, &.{"base.gotyno"});
+    try testing.expectEqual(@as(usize, 3), affected_by_base.count());
+    try testing.expect(affected_by_base.contains("base"));
+    try testing.expect(affected_by_base.contains("middle"));
+    try testing.expect(affected_by_base.contains("top"));
+
+    const affected_by_top = try affectedModules(allocator, modules, &.{ "top.gotyno", "other.gotyno" });
+    try testing.expectEqual(@as(usize, 2), affected_by_top.count());
+    try testing.expect(affected_by_top.contains("top"));
+    try testing.expect(affected_by_top.contains("other"));
+}
+
+test "TypeScript runtime modules are written once to the root of each output" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const buffers = [_]parser.BufferData{
+        .{
+            .filename = "schemas/basic.gotyno",
+            .buffer = "struct Basic {\n    value: String\n}\n",
+        },
+        .{
+            .filename = "schemas/billing/invoice.gotyno",
+            .buffer = "struct Invoice {\n    amounts: []U32\n}\n",
+        },
+    };
+
+    var parsing_error: ParsingError = undefined;
+    const modules = try parser.parseModules(
+        allocator,
+        allocator,
+        &buffers,
+        .{ .module_roots = &.{"schemas"} },
+        &parsing_error,
+    );
+
+    for ([_]OutputPath{ .input, .{ .path = "generated" } }) |path| {
+        const outputs = try typeScriptRuntimeOutputs(allocator, modules, .{
+            .typescript = path,
+            .typescript_options = .{ .runtime_module = "gotyno_runtime" },
+        });
+
+        try testing.expectEqual(@as(usize, 1), outputs.len);
+        try testing.expectEqualStrings(switch (path) {
+            .input => "schemas",
+            .path => |p| p,
+        }, outputs[0].directory);
+        try testing.expectEqualStrings("gotyno_runtime.ts", outputs[0].filename);
+        // holds what both modules use
+        try testing.expect(mem.indexOf(u8, outputs[0].contents, "function validateString(") != null);
+        try testing.expect(mem.indexOf(u8, outputs[0].contents, "function validateArray<") != null);
+    }
+}
+
+test "Watched files stay changed until they have been compiled" {
+    var watched_files = WatchedFiles.init(testing.allocator);
+    defer watched_files.deinit();
+
+    try watched_files.add("a.gotyno");
+    try watched_files.add("c.gotyno");
+    try watched_files.add("a.gotyno");
+    try testing.expectEqual(@as(usize, 2), watched_files.files.items.len);
+
+    // files count as changed the first time they're checked
+    try testing.expect(try watched_files.update(0, 1));
+    try testing.expect(try watched_files.update(1, 1));
+    watched_files.markCompiled();
+    try testing.expect(!try watched_files.update(0, 1));
+    try testing.expectEqual(@as(usize, 0), watched_files.changedFiles().len);
+
+    // `a` is broken and `c` edited while compiling fails, after which `a` is fixed
+    try testing.expect(try watched_files.update(0, 2));
+    try testing.expect(try watched_files.update(1, 2));
+    try testing.expect(try watched_files.update(0, 3));
+    try testing.expectEqual(@as(usize, 2), watched_files.changedFiles().len);
+    try testing.expectEqualStrings("a.gotyno", watched_files.changedFiles()[0]);
+    try testing.expectEqualStrings("c.gotyno", watched_files.changedFiles()[1]);
+
+    watched_files.markCompiled();
+    try testing.expectEqual(@as(usize, 0), watched_files.changedFiles().len);
+}
+
+test {
+    // project files are only read by `main.zig`, which isn't part of the tests
+    const project = @import("project.zig");
+
+    std.testing.refAllDecls(project);
+}
@@ -0,0 +1,281 @@
+const std = @import("std");
+const mem = std.mem;
+const heap = std.heap;
+const json = std.json;
+const testing = std.testing;
+
+const parser = @import("parser.zig");
+const tokenizer = @import("tokenizer.zig");
+const utilities = @import("utilities.zig");
+
+const ArrayList = std.ArrayList;
+const BufferData = parser.BufferData;
+const ParsingError = parser.ParsingError;
+const TokenIterator = tokenizer.TokenIterator;
+const Location = utilities.Location;
+
+/// How parsing errors and the results of compilation are reported.
+pub const DiagnosticsFormat = enum {
+    /// Parsing errors are described together with the lines they're on, for people to read.
+    text,
+    /// Parsing errors and compiled modules are written to standard output as a JSON object per
+    /// compilation, for editors and CI annotations.
+    json,
+
+    pub fn fromString(string: []const u8) ?DiagnosticsFormat {
+        return if (mem.eql(u8, string, "text"))
+            .text
+        else if (mem.eql(u8, string, "json"))
+            .json
+        else
+            null;
+    }
+};
+
+/// A module that was compiled, with the paths of the files that it was output to.
+pub const CompiledModule = struct {
+    name: []const u8,
+    input: []const u8,
+    outputs: []const []const u8,
+};
+
+const Position = struct {
+    line: usize,
+    column: usize,
+};
+
+/// Another place in the source that has to do with a diagnostic, like where a name was first
+/// defined.
+const RelatedLocation = struct {
+    message: []const u8,
+    file: []const u8,
+    start: Position,
+    end: Position,
+};
+
+const Diagnostic = struct {
+    /// The name of the `ParsingError` variant, i.e. `unknown_reference`, or `unreadable_file` when
+    /// an input file couldn't be read.
+    kind: []const u8,
+    message: []const u8,
+    file: []const u8,
+    start: Position,
+    end: Position,
+    related: []const RelatedLocation,
+};
+
+const Report = struct {
+    diagnostics: []const Diagnostic,
+    modules: []const CompiledModule,
+};
+
+/// Writes `parsing_errors` and `modules` as a JSON object on one line:
+/// `{"diagnostics":[{"kind":"unknown_reference","message":...,"file":"a.gotyno","start":{...},
+/// "end":{...},"related":[]}],"modules":[{"name":"a","input":"a.gotyno","outputs":["a.ts"]}]}`.
+/// Each location ends where the token at it in `buffers` does.
+pub fn writeJsonReport(
+    allocator: mem.Allocator,
+    writer: anytype,
+    parsing_errors: []const ParsingError,
+    buffers: []const BufferData,
+    modules: []const CompiledModule,
+) !void {
+    var report_arena = heap.ArenaAllocator.init(allocator);
+    defer report_arena.deinit();
+    const report_allocator = report_arena.allocator();
+
+    var diagnostics = try report_allocator.alloc(Diagnostic, parsing_errors.len);
+    for (parsing_errors, 0..) |parsing_error, i| {
+        const location = parsing_error.location();
+        const description = try parser.describeParsingError(report_allocator, parsing_error);
+
+        diagnostics[i] = Diagnostic{
+            .kind = @tagName(parsing_error),
+            .message = mem.trimRight(u8, description, "\n"),
+            .file = location.filename,
+            .start = position(location),
+            .end = position(tokenEnd(buffers, location)),
+            .related = try relatedLocations(report_allocator, parsing_error, buffers),
+        };
+    }
+
+    try json.stringify(Report{ .diagnostics = diagnostics, .modules = modules }, .{}, writer);
+    try writer.writeAll("\n");
+}
+
+/// Writes a report like `writeJsonReport` with a diagnostic for `filename` not being readable
+/// because of `e`. It has no place in the file, so it's at the start of it.
+pub fn writeJsonReadErrorReport(
+    allocator: mem.Allocator,
+    writer: anytype,
+    filename: []const u8,
+    e: anyerror,
+) !void {
+    const message = try std.fmt.allocPrint(allocator, "Unable to read '{s}': {}", .{ filename, e });
+    defer allocator.free(message);
+
+    const start = Position{ .line = 1, .column = 1 };
+    const diagnostic = Diagnostic{
+        .kind = "unreadable_file",
+        .message = message,
+        .file = filename,
+        .start = start,
+        .end = start,
+        .related = &.{},
+    };
+
+    try json.stringify(
+        Report{ .diagnostics = &[_]Diagnostic{diagnostic}, .modules = &.{} },
+        .{},
+        writer,
+    );
+    try writer.writeAll("\n");
+}
+
+fn relatedLocations(
+    allocator: mem.Allocator,
+    parsing_error: ParsingError,
+    buffers: []const BufferData,
+) ![]const RelatedLocation {
+    const related_location: RelatedLocation = switch (parsing_error) {
+        .duplicate_definition => |d| relatedLocation(
+            "Previously defined here",
+            d.previous_location,
+            buffers,
+        ),
+        .constructor_name_collision => |d| relatedLocation(
+            "Name already used here",
+            d.previous_location,
+            buffers,
+        ),
+        .field_name_collision => |d| relatedLocation(
+            "Name already used here",
+            d.previous_location,
+            buffers,
+        ),
+        .mixed_enumeration_values => |d| relatedLocation(
+            "First value of the enum",
+            d.first_value_location,
+            buffers,
+        ),
+        else => return &[_]RelatedLocation{},
+    };
+
+    return try allocator.dupe(RelatedLocation, &[_]RelatedLocation{related_location});
+}
+
+fn relatedLocation(
+    message: []const u8,
+    location: Location,
+    buffers: []const BufferData,
+) RelatedLocation {
+    return RelatedLocation{
+        .message = message,
+        .file = location.filename,
+        .start = position(location),
+        .end = position(tokenEnd(buffers, location)),
+    };
+}
+
+fn position(location: Location) Position {
+    return Position{ .line = location.line, .column = location.column };
+}
+
+/// Where the token at `location` ends, or `location` itself when there's no token there, as at the
+/// end of the input.
+fn tokenEnd(buffers: []const BufferData, location: Location) Location {
+    const buffer = for (buffers) |b| {
+        if (mem.eql(u8, b.filename, location.filename)) break b.buffer;
+    } else return location;
+
+    var token_iterator = TokenIterator.init(location.filename, buffer);
+    token_iterator.i = bufferIndex(buffer, location) orelse return location;
+    token_iterator.line = location.line;
+    token_iterator.column = location.column;
+
+    const token = (token_iterator.peek() catch return location) orelse return location;
+
+    return Location{
+        .filename = location.filename,
+        .line = location.line,
+        .column = location.column + token.size(),
+    };
+}
+
+fn bufferIndex(buffer: []const u8, location: Location) ?usize {
+    var line_start: usize = 0;
+    var line: usize = 1;
+    while (line < location.line) : (line += 1) {
+        line_start += 1 + (mem.indexOfScalar(u8, buffer[line_start..], '\n') orelse return null);
+    }
+
+    const line_end = line_start +
+        (mem.indexOfScalar(u8, buffer[line_start..], '\n') orelse buffer.len - line_start);
+    const index = line_start + location.column - 1;
+
+    return if (index <= line_end) index else null;
+}
+
+test "JSON reports have the kind, locations and related locations of errors" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const module_buffer =
+        \\struct Recruiter {
+        \\    name: String
+        \\}
+        \\
+        \\struct Recruiter {
+        \\    company: String
+        \\}
+        \\
+    ;
+
+    var buffers = [_]BufferData{.{ .filename = "module.gotyno", .buffer = module_buffer }};
+    var parsing_errors = ArrayList(ParsingError).init(allocator);
+
+    try testing.expectError(
+        error.DuplicateDefinition,
+        parser.parseModulesReportingErrors(allocator, &buffers, .{}, &parsing_errors),
+    );
+
+    var output = ArrayList(u8).init(allocator);
+    try writeJsonReport(allocator, output.writer(), parsing_errors.items, &buffers, &.{});
+
+    const expected_output =
+        \\{"diagnostics":[{"kind":"duplicate_definition","message":"Duplicate definition found at module.gotyno:5:8, name: Recruiter, previously defined at module.gotyno:1:8","file":"module.gotyno","start":{"line":5,"column":8},"end":{"line":5,"column":17},"related":[{"message":"Previously defined here","file":"module.gotyno","start":{"line":1,"column":8},"end":{"line":1,"column":17}}]}],"modules":[]}
+        \\
+    ;
+
+    try testing.expectEqualStrings(expected_output, output.items);
+
+    output.clearRetainingCapacity();
+    try writeJsonReport(allocator, output.writer(), &.{}, &buffers, &[_]CompiledModule{.{
+        .name = "module",
+        .input = "module.gotyno",
+        .outputs = &[_][]const u8{ "module.ts", "module.fs" },
+    }});
+
+    try testing.expectEqualStrings(
+        "{\"diagnostics\":[],\"modules\":[{\"name\":\"module\",\"input\":\"module.gotyno\",\"outputs\":[\"module.ts\",\"module.fs\"]}]}\n",
+        output.items,
+    );
+}
+
+test "JSON reports of files that can't be read point at the start of the file" {
+    var output = ArrayList(u8).init(testing.allocator);
+    defer output.deinit();
+
+    try writeJsonReadErrorReport(
+        testing.allocator,
+        output.writer(),
+        "missing.gotyno",
+        error.FileNotFound,
+    );
+
+    try testing.expectEqualStrings(
+        "{\"diagnostics\":[{\"kind\":\"unreadable_file\",\"message\":\"Unable to read 'missing.gotyno': error.FileNotFound\",\"file\":\"missing.gotyno\",\"start\":{\"line\":1,\"column\":1},\"end\":{\"line\":1,\"column\":1},\"related\":[]}],\"modules\":[]}\n",
+        output.items,
+    );
+}
@@ -0,0 +1,293 @@
+const std = @import("std");
+const mem = std.mem;
+const fmt = std.fmt;
+const heap = std.heap;
+const testing = std.testing;
+
+const ArrayList = std.ArrayList;
+
+/// How many unchanged lines are shown before and after each change.
+const context_line_count = 3;
+
+/// Finding the longest common sequence of the lines that differ takes memory proportional to the
+/// product of their counts. Above this the differing lines are shown as replaced in full instead.
+const max_comparison_size = 16_000_000;
+
+const Operation = enum { equal, delete, insert };
+
+/// An edit of one line, with the positions in both texts before it is applied.
+const Edit = struct {
+    operation: Operation,
+    old_index: usize,
+    new_index: usize,
+};
+
+/// Outputs the differences between `old` and `new` as a unified diff, or `null` when they are the
+/// same. Lines are separated by newlines; a missing file can be compared as an empty `old`.
+pub fn unifiedDiff(
+    allocator: mem.Allocator,
+    old_name: []const u8,
+    new_name: []const u8,
+    old: []const u8,
+    new: []const u8,
+) !?[]const u8 {
+    if (mem.eql(u8, old, new)) return null;
+
+    const old_lines = try splitLines(allocator, old);
+    defer allocator.free(old_lines);
+    const new_lines = try splitLines(allocator, new);
+    defer allocator.free(new_lines);
+
+    const edits = try diffLines(allocator, old_lines, new_lines);
+    defer allocator.free(edits);
+
+    var output = ArrayList(u8).init(allocator);
+    defer output.deinit();
+    const writer = output.writer();
+
+    try writer.print("--- {s}\n+++ {s}\n", .{ old_name, new_name });
+
+    var index: usize = 0;
+    while (nextChange(edits, index)) |first_change| {
+        // A hunk goes on for as long as the unchanged lines between changes would be shown anyway.
+        var last_change = first_change;
+        while (nextChange(edits, last_change + 1)) |change| {
+            if (change - last_change > 2 * context_line_count + 1) break;
+            last_change = change;
+        }
+
+        const start = first_change -| context_line_count;
+        const end = @min(edits.len, last_change + 1 + context_line_count);
+
+        var old_count: usize = 0;
+        var new_count: usize = 0;
+        for (edits[start..end]) |edit| {
+            if (edit.operation != .insert) old_count += 1;
+            if (edit.operation != .delete) new_count += 1;
+        }
+
+        // Empty ranges start at the line before them, as in other diff tools.
+        try writer.print("@@ -{},{} +{},{} @@\n", .{
+            if (old_count == 0) edits[start].old_index else edits[start].old_index + 1,
+            old_count,
+            if (new_count == 0) edits[start].new_index else edits[start].new_index + 1,
+            new_count,
+        });
+
+        for (edits[start..end]) |edit| {
+            switch (edit.operation) {
+                .equal => try writer.print(" {s}\n", .{old_lines[edit.old_index]}),
+                .delete => try writer.print("-{s}\n", .{old_lines[edit.old_index]}),
+                .insert => try writer.print("+{s}\n", .{new_lines[edit.new_index]}),
+            }
+        }
+
+        index = end;
+    }
+
+    return try output.toOwnedSlice();
+}
+
+fn splitLines(allocator: mem.Allocator, text: []const u8) ![]const []const u8 {
+    var lines = ArrayList([]const u8).init(allocator);
+    defer lines.deinit();
+
+    if (text.len == 0) return try lines.toOwnedSlice();
+
+    var iterator = mem.split(u8, text, "\n");
+    while (iterator.next()) |line| try lines.append(line);
+
+    return try lines.toOwnedSlice();
+}
+
+fn nextChange(edits: []const Edit, start: usize) ?usize {
+    var index = start;
+    while (index < edits.len) : (index += 1) {
+        if (edits[index].operation != .equal) return index;
+    }
+
+    return null;
+}
+
+/// Lines that are the same at the start and end of both texts are kept as they are, such that only
+/// the lines in between have to be compared.
+fn diffLines(
+    allocator: mem.Allocator,
+    old_lines: []const []const u8,
+    new_lines: []const []const u8,
+) ![]const Edit {
+    var edits = ArrayList(Edit).init(allocator);
+    defer edits.deinit();
+
+    var prefix_length: usize = 0;
+    while (prefix_length < old_lines.len and prefix_length < new_lines.len and
+        mem.eql(u8, old_lines[prefix_length], new_lines[prefix_length])) : (prefix_length += 1)
+    {}
+
+    var suffix_length: usize = 0;
+    while (suffix_length < old_lines.len - prefix_length and
+        suffix_length < new_lines.len - prefix_length and
+        mem.eql(
+        u8,
+        old_lines[old_lines.len - 1 - suffix_length],
+        new_lines[new_lines.len - 1 - suffix_length],
+    )) : (suffix_length += 1) {}
+
+    for (0..prefix_length) |i| {
+        try edits.append(Edit{ .operation = .equal, .old_index = i, .new_index = i });
+    }
+
+    const old_middle = old_lines[prefix_length..(old_lines.len - suffix_length)];
+    const new_middle = new_lines[prefix_length..(new_lines.len - suffix_length)];
+    try appendMiddleEdits(allocator, &edits, old_middle, new_middle, prefix_length);
+
+    for (0..suffix_length) |i| {
+        try edits.append(Edit{
+            .operation = .equal,
+            .old_index = old_lines.len - suffix_length + i,
+            .new_index = new_lines.len - suffix_length + i,
+        });
+    }
+
+    return try edits.toOwnedSlice();
+}
+
+fn appendMiddleEdits(
+    allocator: mem.Allocator,
+    edits: *ArrayList(Edit),
+    old_lines: []const []const u8,
+    new_lines: []const []const u8,
+    offset: usize,
+) !void {
+    const width = new_lines.len + 1;
+
+    if ((old_lines.len + 1) * width > max_comparison_size) {
+        for (0..old_lines.len) |i| {
+            try edits.append(Edit{
+                .operation = .delete,
+                .old_index = offset + i,
+                .new_index = offset,
+            });
+        }
+
+        for (0..new_lines.len) |j| {
+            try edits.append(Edit{
+                .operation = .insert,
+                .old_index = offset + old_lines.len,
+                .new_index = offset + j,
+            });
+        }
+
+        return;
+    }
+
+    // `common[i * width + j]` is the length of the longest common sequence of the lines from `i`
+    // and `j` onwards.
+    var common = try allocator.alloc(u32, (old_lines.len + 1) * width);
+    defer allocator.free(common);
+    @memset(common, 0);
+
+    var i = old_lines.len;
+    while (i > 0) {
+        i -= 1;
+        var j = new_lines.len;
+        while (j > 0) {
+            j -= 1;
+            common[i * width + j] = if (mem.eql(u8, old_lines[i], new_lines[j]))
+                common[(i + 1) * width + j + 1] + 1
+            else
+                @max(common[(i + 1) * width + j], common[i * width + j + 1]);
+        }
+    }
+
+    i = 0;
+    var j: usize = 0;
+    while (i < old_lines.len or j < new_lines.len) {
+        const operation: Operation = if (i == old_lines.len)
+            .insert
+        else if (j == new_lines.len)
+            .delete
+        else if (mem.eql(u8, old_lines[i], new_lines[j]))
+            .equal
+        else if (common[(i + 1) * width + j] >= common[i * width + j + 1])
+            .delete
+        else
+            .insert;
+
+        try edits.append(Edit{
+            .operation = operation,
+            .old_index = offset + i,
+            .new_index = offset + j,
+        });
+
+        if (operation != .insert) i += 1;
+        if (operation != .delete) j += 1;
+    }
+}
+
+test "Unified diffs show changed lines with context in hunks" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const old =
+        \\one
+        \\two
+        \\three
+        \\four
+        \\five
+        \\six
+        \\seven
+        \\eight
+        \\nine
+        \\ten
+        \\eleven
+        \\twelve
+    ;
+
+    const new =
+        \\one
+        \\2
+        \\three
+        \\four
+        \\five
+        \\six
+        \\seven
+        \\eight
+        \\nine
+        \\ten
+        \\eleven
+        \\twelve
+        \\thirteen
+    ;
+
+    const expected_diff =
+        \\--- old.ts
+        \\+++ new.ts
+        \\@@ -1,5 +1,5 @@
+        \\ one
+        \\-two
+        \\+2
+        \\ three
+        \\ four
+        \\ five
+        \\@@ -10,3 +10,4 @@
+        \\ ten
+        \\ eleven
+        \\ twelve
+        \\+thirteen
+        \\
+    ;
+
+    try testing.expectEqualStrings(
+        expected_diff,
+        (try unifiedDiff(allocator, "old.ts", "new.ts", old, new)).?,
+    );
+
+    try testing.expectEqualStrings(
+        "--- /dev/null\n+++ new.ts\n@@ -0,0 +1,2 @@\n+one\n+two\n",
+        (try unifiedDiff(allocator, "/dev/null", "new.ts", "", "one\ntwo")).?,
+    );
+
+    try testing.expect((try unifiedDiff(allocator, "old.ts", "new.ts", old, old)) == null);
+}
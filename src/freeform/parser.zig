@@ -5,6 +5,9 @@ const heap = std.heap;
 const testing = std.testing;
 const fmt = std.fmt;
 const meta = std.meta;
+const math = std.math;
+const io = std.io;
+const process = std.process;
 
 const tokenizer = @import("tokenizer.zig");
 const utilities = @import("utilities.zig");
@@ -12,19 +15,94 @@ const utilities = @import("utilities.zig");
 const Token = tokenizer.Token;
 const TokenTag = tokenizer.TokenTag;
 const ExpectError = tokenizer.ExpectError;
+const InvalidToken = tokenizer.InvalidToken;
 const TokenIterator = tokenizer.TokenIterator;
 const ArrayList = std.ArrayList;
 const Location = utilities.Location;
 
 pub const ParsingError = union(enum) {
+    const Self = @This();
+
     /// Represents errors from the tokenizer, which involve expectations on what upcoming tokens
     /// should be.
     expect: ExpectError,
+    invalid_token: InvalidToken,
+    unknown_keyword: UnknownKeyword,
     invalid_payload: InvalidPayload,
     unknown_reference: UnknownReference,
     unknown_module: UnknownModule,
     duplicate_definition: DuplicateDefinition,
     applied_name_count: AppliedNameCount,
+    unexpected_end_of_input: UnexpectedEndOfInput,
+    invalid_map_key: InvalidMapKey,
+    mixed_enumeration_values: MixedEnumerationValues,
+    enumeration_value_out_of_range: EnumerationValueOutOfRange,
+    constructor_name_collision: ConstructorNameCollision,
+    field_name_collision: FieldNameCollision,
+
+    /// Where the error is in the source, which is also where it's shown when described in it.
+    pub fn location(self: Self) Location {
+        return switch (self) {
+            .expect => |expect| switch (expect) {
+                .token => |token| token.location,
+                .one_of => |one_of| one_of.location,
+            },
+            inline else => |e| e.location,
+        };
+    }
+};
+
+/// Indicates that a keyword other than the ones expected was used, such as for what kind of
+/// definition comes next.
+pub const UnknownKeyword = struct {
+    keyword: []const u8,
+    expectations: []const []const u8,
+    location: Location,
+};
+
+/// Indicates that a union constructor has the same name as a definition or another constructor in
+/// the same module, which would make their names collide in the output.
+pub const ConstructorNameCollision = struct {
+    name: []const u8,
+    location: Location,
+    previous_location: Location,
+};
+
+/// Indicates that two fields in a structure end up with the same name in code, either because they
+/// have the same key or because `as` or the naming convention gives them the same code name.
+pub const FieldNameCollision = struct {
+    name: []const u8,
+    location: Location,
+    previous_location: Location,
+};
+
+/// Indicates that an enumeration has both string and integer values, which can't be represented
+/// as one type in the output languages.
+pub const MixedEnumerationValues = struct {
+    name: []const u8,
+    location: Location,
+    first_value_location: Location,
+};
+
+/// Indicates that an enumeration value is larger than one of the output languages can represent
+/// in its enums, see `ParsingOptions.maximum_enumeration_value`.
+pub const EnumerationValueOutOfRange = struct {
+    name: []const u8,
+    value: u64,
+    maximum: u64,
+    location: Location,
+};
+
+/// Indicates that we've used a type as the key of a `Map` that isn't represented as a string on
+/// the wire.
+pub const InvalidMapKey = struct {
+    key: Type,
+    location: Location,
+};
+
+/// Indicates that the input ended in the middle of a definition.
+pub const UnexpectedEndOfInput = struct {
+    location: Location,
 };
 
 /// Indicates that we've passed the wrong number of type parameters to an applied name.
@@ -101,6 +179,8 @@ pub const Definition = union(enum) {
     enumeration: Enumeration,
     untagged_union: UntaggedUnion,
     import: Import,
+    declaration: Declaration,
+    newtype: Newtype,
 
     pub fn free(self: *Self, allocator: mem.Allocator) void {
         switch (self.*) {
@@ -109,6 +189,8 @@ pub const Definition = union(enum) {
             .enumeration => |*e| e.free(allocator),
             .untagged_union => |*u| u.free(allocator),
             .import => |*i| i.free(allocator),
+            .declaration => |*d| d.free(allocator),
+            .newtype => |*n| n.free(allocator),
         }
     }
 
@@ -122,7 +204,8 @@ pub const Definition = union(enum) {
                 .generic => |g| g.open_names,
                 .plain, .embedded => &[_][]const u8{},
             },
-            .enumeration, .untagged_union, .import => &[_][]const u8{},
+            .declaration => |d| d.open_names,
+            .enumeration, .untagged_union, .import, .newtype => &[_][]const u8{},
         };
     }
 
@@ -135,6 +218,9 @@ pub const Definition = union(enum) {
             .untagged_union => |u| meta.activeTag(other) == .untagged_union and
                 u.isEqual(other.untagged_union),
             .import => |i| meta.activeTag(other) == .import and i.isEqual(other.import),
+            .declaration => |d| meta.activeTag(other) == .declaration and
+                d.isEqual(other.declaration),
+            .newtype => |n| meta.activeTag(other) == .newtype and n.isEqual(other.newtype),
         };
     }
 
@@ -145,9 +231,50 @@ pub const Definition = union(enum) {
             .enumeration => |e| e.name,
             .untagged_union => |u| u.name,
             .import => |i| i.name,
+            .declaration => |d| d.name,
+            .newtype => |n| n.name,
+        };
+    }
+
+    pub fn docComment(self: Self) ?[]const u8 {
+        return switch (self) {
+            .structure => |s| switch (s) {
+                .plain => |p| p.doc_comment,
+                .generic => |g| g.doc_comment,
+            },
+            .@"union" => |u| switch (u) {
+                .plain => |p| p.doc_comment,
+                .generic => |g| g.doc_comment,
+                .embedded => |e| e.doc_comment,
+            },
+            .enumeration => |e| e.doc_comment,
+            .untagged_union => |u| u.doc_comment,
+            .declaration => |d| d.doc_comment,
+            .newtype => |n| n.doc_comment,
+            .import => null,
         };
     }
 
+    /// Attaches the doc comment preceding the definition to it. Imports don't have doc comments.
+    fn setDocComment(self: *Self, doc_comment: ?[]const u8) void {
+        switch (self.*) {
+            .structure => |*s| switch (s.*) {
+                .plain => |*p| p.doc_comment = doc_comment,
+                .generic => |*g| g.doc_comment = doc_comment,
+            },
+            .@"union" => |*u| switch (u.*) {
+                .plain => |*p| p.doc_comment = doc_comment,
+                .generic => |*g| g.doc_comment = doc_comment,
+                .embedded => |*e| e.doc_comment = doc_comment,
+            },
+            .enumeration => |*e| e.doc_comment = doc_comment,
+            .untagged_union => |*u| u.doc_comment = doc_comment,
+            .declaration => |*d| d.doc_comment = doc_comment,
+            .newtype => |*n| n.doc_comment = doc_comment,
+            .import => unreachable,
+        }
+    }
+
     pub fn format(
         self: Self,
         comptime format_string: []const u8,
@@ -162,6 +289,8 @@ pub const Definition = union(enum) {
             .enumeration => |e| try fmt.format(writer, "{}", .{e}),
             .untagged_union => |u| try fmt.format(writer, "{}", .{u}),
             .import => |i| try fmt.format(writer, "{}", .{i}),
+            .declaration => |d| try fmt.format(writer, "{s}.{}", .{ d.module, d.name }),
+            .newtype => |n| try fmt.format(writer, "{} = {}", .{ n.name, n.type.* }),
         };
     }
 };
@@ -171,6 +300,17 @@ pub const ImportedDefinition = struct {
 
     import_name: []const u8,
     definition: Definition,
+    /// The name the module was imported as, `import module as alias`, if it was given one.
+    alias: ?[]const u8 = null,
+    /// Set when the definition was imported by name, `import module (Name)`, and is referred to
+    /// without the module name.
+    unqualified: bool = false,
+
+    /// The name that references to the definition are qualified with in the importing module, if
+    /// any.
+    pub fn qualifier(self: Self) ?[]const u8 {
+        return if (self.unqualified) null else self.alias orelse self.import_name;
+    }
 
     pub fn format(
         self: Self,
@@ -180,7 +320,23 @@ pub const ImportedDefinition = struct {
     ) !void {
         _ = options;
         _ = format_string;
-        try fmt.format(writer, "{s}.{}", .{ self.import_name, self.definition });
+        if (self.qualifier()) |q| {
+            try fmt.format(writer, "{s}.{}", .{ q, self.definition });
+        } else {
+            try fmt.format(writer, "{}", .{self.definition});
+        }
+    }
+};
+
+/// A definition named in a selective import, `import module (Name, ...)`.
+pub const ImportedName = struct {
+    const Self = @This();
+
+    name: DefinitionName,
+    definition: Definition,
+
+    pub fn isEqual(self: Self, other: Self) bool {
+        return self.name.isEqual(other.name) and self.definition.isEqual(other.definition);
     }
 };
 
@@ -189,6 +345,9 @@ pub const Import = struct {
 
     name: DefinitionName,
     alias: []const u8,
+    /// The definitions imported by name; when there are any, the module itself is not bound and
+    /// the names are used without qualification.
+    names: []const ImportedName = &[_]ImportedName{},
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         // Check if the alias is the same string as the value, in which case we free one instance
@@ -198,11 +357,79 @@ pub const Import = struct {
             allocator.free(self.name.value);
             allocator.free(self.alias);
         }
+
+        if (self.names.len != 0) {
+            for (self.names) |n| allocator.free(n.name.value);
+            allocator.free(self.names);
+        }
     }
 
     pub fn isEqual(self: Self, other: Self) bool {
+        if (self.names.len != other.names.len) return false;
+        for (self.names, other.names) |n, o| {
+            if (!n.isEqual(o)) return false;
+        }
+
         return self.name.isEqual(other.name) and mem.eql(u8, self.alias, other.alias);
     }
+
+    pub fn isSelective(self: Self) bool {
+        return self.names.len != 0;
+    }
+};
+
+/// A type that is defined by hand outside of gotyno, in the module `module`. The definition itself
+/// is not output; languages instead refer to the external type and its supporting functions.
+pub const Declaration = struct {
+    const Self = @This();
+
+    name: DefinitionName,
+    module: []const u8,
+    open_names: []const []const u8,
+    doc_comment: ?[]const u8 = null,
+
+    pub fn free(self: Self, allocator: mem.Allocator) void {
+        allocator.free(self.name.value);
+        allocator.free(self.module);
+        freeDocComment(allocator, self.doc_comment);
+        for (self.open_names) |n| allocator.free(n);
+        allocator.free(self.open_names);
+    }
+
+    pub fn isEqual(self: Self, other: Self) bool {
+        if (!self.name.isEqual(other.name)) return false;
+        if (!mem.eql(u8, self.module, other.module)) return false;
+        if (!isEqualDocComment(self.doc_comment, other.doc_comment)) return false;
+        if (self.open_names.len != other.open_names.len) return false;
+
+        for (self.open_names, 0..) |open_name, i| {
+            if (!mem.eql(u8, open_name, other.open_names[i])) return false;
+        }
+
+        return true;
+    }
+};
+
+/// A distinct type that has the same representation as another type, e.g.
+/// `newtype UserId = String`. Values are sent over the wire as the underlying type.
+pub const Newtype = struct {
+    const Self = @This();
+
+    name: DefinitionName,
+    type: *Type,
+    doc_comment: ?[]const u8 = null,
+
+    pub fn free(self: Self, allocator: mem.Allocator) void {
+        allocator.free(self.name.value);
+        self.type.free(allocator);
+        allocator.destroy(self.type);
+        freeDocComment(allocator, self.doc_comment);
+    }
+
+    pub fn isEqual(self: Self, other: Self) bool {
+        return self.name.isEqual(other.name) and self.type.isEqual(other.type.*) and
+            isEqualDocComment(self.doc_comment, other.doc_comment);
+    }
 };
 
 pub const UntaggedUnion = struct {
@@ -210,15 +437,18 @@ pub const UntaggedUnion = struct {
 
     name: DefinitionName,
     values: []const UntaggedUnionValue,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.name.value);
+        freeDocComment(allocator, self.doc_comment);
         for (self.values) |*value| value.free(allocator);
         allocator.free(self.values);
     }
 
     pub fn isEqual(self: Self, other: Self) bool {
         if (!self.name.isEqual(other.name)) return false;
+        if (!isEqualDocComment(self.doc_comment, other.doc_comment)) return false;
 
         if (self.values.len != other.values.len) return false;
 
@@ -255,15 +485,18 @@ pub const Enumeration = struct {
 
     name: DefinitionName,
     fields: []const EnumerationField,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: *Self, allocator: mem.Allocator) void {
         allocator.free(self.name.value);
+        freeDocComment(allocator, self.doc_comment);
         for (self.fields) |*field| field.free(allocator);
         allocator.free(self.fields);
     }
 
     pub fn isEqual(self: Self, other: Self) bool {
         if (!self.name.isEqual(other.name)) return false;
+        if (!isEqualDocComment(self.doc_comment, other.doc_comment)) return false;
 
         if (self.fields.len != other.fields.len) return false;
 
@@ -280,14 +513,17 @@ pub const EnumerationField = struct {
 
     tag: []const u8,
     value: EnumerationValue,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.tag);
         self.value.free(allocator);
+        freeDocComment(allocator, self.doc_comment);
     }
 
     pub fn isEqual(self: Self, other: Self) bool {
-        return mem.eql(u8, self.tag, other.tag) and self.value.isEqual(other.value);
+        return mem.eql(u8, self.tag, other.tag) and self.value.isEqual(other.value) and
+            isEqualDocComment(self.doc_comment, other.doc_comment);
     }
 };
 
@@ -371,15 +607,19 @@ pub const PlainStructure = struct {
 
     name: DefinitionName,
     fields: []const Field,
+    strict: bool = false,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.name.value);
         for (self.fields) |f| f.free(allocator);
         allocator.free(self.fields);
+        freeDocComment(allocator, self.doc_comment);
     }
 
     pub fn isEqual(self: Self, other: Self) bool {
-        if (!self.name.isEqual(other.name))
+        if (!self.name.isEqual(other.name) or self.strict != other.strict or
+            !isEqualDocComment(self.doc_comment, other.doc_comment))
             return false
         else {
             for (self.fields, 0..) |sf, i| {
@@ -412,9 +652,12 @@ pub const GenericStructure = struct {
     name: DefinitionName,
     fields: []const Field,
     open_names: []const []const u8,
+    strict: bool = false,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.name.value);
+        freeDocComment(allocator, self.doc_comment);
         for (self.fields) |f| f.free(allocator);
         allocator.free(self.fields);
         for (self.open_names) |n| allocator.free(n);
@@ -422,7 +665,8 @@ pub const GenericStructure = struct {
     }
 
     pub fn isEqual(self: Self, other: Self) bool {
-        if (!self.name.isEqual(other.name))
+        if (!self.name.isEqual(other.name) or self.strict != other.strict or
+            !isEqualDocComment(self.doc_comment, other.doc_comment))
             return false
         else {
             for (self.open_names, 0..) |name, i| {
@@ -460,16 +704,42 @@ pub const GenericStructure = struct {
 pub const Field = struct {
     const Self = @This();
 
+    /// The key used for the field on the wire.
     name: []const u8,
     type: Type,
+    /// Whether the key may be left out entirely, written as `name?: Type`. This is separate from
+    /// the value being optional, which is expressed by the type (`name: ?Type`).
+    optional_key: bool = false,
+    /// Whether the key has to be present even when the value is `null`, written as
+    /// `name!: ?Type`. Keys of fields with optional types may otherwise be left out as well.
+    required_key: bool = false,
+    /// The name used for the field in generated code, when it's not the same as `name`. Set either
+    /// per field with `wire_name as codeName: Type` or by the naming convention of the module.
+    code_name: ?[]const u8 = null,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.name);
+        if (self.code_name) |code_name| allocator.free(code_name);
+        freeDocComment(allocator, self.doc_comment);
         self.type.free(allocator);
     }
 
     pub fn isEqual(self: Self, other: Self) bool {
-        return self.type.isEqual(other.type) and mem.eql(u8, self.name, other.name);
+        return self.type.isEqual(other.type) and
+            mem.eql(u8, self.name, other.name) and
+            mem.eql(u8, self.codeName(), other.codeName()) and
+            self.optional_key == other.optional_key and
+            self.required_key == other.required_key and
+            isEqualDocComment(self.doc_comment, other.doc_comment);
+    }
+
+    pub fn codeName(self: Self) []const u8 {
+        return self.code_name orelse self.name;
+    }
+
+    pub fn isRenamed(self: Self) bool {
+        return !mem.eql(u8, self.codeName(), self.name);
     }
 
     pub fn format(
@@ -480,7 +750,8 @@ pub const Field = struct {
     ) !void {
         _ = options;
         _ = format_string;
-        try fmt.format(writer, "{s}: {}", .{ self.name, self.type });
+        const key_marker = if (self.optional_key) "?" else if (self.required_key) "!" else "";
+        try fmt.format(writer, "{s}{s}: {}", .{ self.name, key_marker, self.type });
     }
 };
 
@@ -494,10 +765,17 @@ pub const Type = union(enum) {
     slice: Slice,
     pointer: Pointer,
     optional: Optional,
+    map: Map,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         switch (self) {
             .string => |s| allocator.free(s),
+            .map => |*m| {
+                m.*.key.free(allocator);
+                allocator.destroy(m.*.key);
+                m.*.value.free(allocator);
+                allocator.destroy(m.*.value);
+            },
             .array => |*a| {
                 a.*.type.free(allocator);
                 allocator.destroy(a.*.type);
@@ -531,6 +809,7 @@ pub const Type = union(enum) {
                 pointer.isEqual(other.pointer),
             .optional => |optional| meta.activeTag(other) == .optional and
                 optional.isEqual(other.optional),
+            .map => |map| meta.activeTag(other) == .map and map.isEqual(other.map),
         };
     }
 
@@ -550,6 +829,7 @@ pub const Type = union(enum) {
             .slice => |slice| fmt.format(writer, "[]{}", .{slice.type}),
             .pointer => |pointer| fmt.format(writer, "*{}", .{pointer.type}),
             .optional => |optional| fmt.format(writer, "?{}", .{optional.type}),
+            .map => |map| fmt.format(writer, "Map<{}, {}>", .{ map.key, map.value }),
         };
     }
 
@@ -562,6 +842,7 @@ pub const Type = union(enum) {
             .slice => |slice| slice.type.openNames(),
             .pointer => |pointer| pointer.type.openNames(),
             .optional => |optional| optional.type.openNames(),
+            .map => |map| map.value.openNames(),
         };
     }
 };
@@ -580,11 +861,10 @@ pub const TypeReference = union(enum) {
         return switch (self) {
             .builtin => |b| try allocator.dupe(u8, b.toString()),
             .definition => |d| try allocator.dupe(u8, d.name().value),
-            .imported_definition => |id| try fmt.allocPrint(
-                allocator,
-                "{s}.{s}",
-                .{ id.import_name, id.definition.name().value },
-            ),
+            .imported_definition => |id| if (id.qualifier()) |q|
+                try fmt.allocPrint(allocator, "{s}.{s}", .{ q, id.definition.name().value })
+            else
+                try allocator.dupe(u8, id.definition.name().value),
             .applied_name => |a| try allocator.dupe(u8, a.reference.name()),
             .loose => |l| try allocator.dupe(u8, l.name),
             .open => |o| try allocator.dupe(u8, o),
@@ -629,6 +909,11 @@ pub const TypeReference = union(enum) {
                 u8,
                 id.import_name,
                 other.imported_definition.import_name,
+            ) and
+                mem.eql(
+                u8,
+                id.qualifier() orelse "",
+                other.imported_definition.qualifier() orelse "",
             ) and
                 id.definition.isEqual(other.imported_definition.definition),
             .applied_name => |a| meta.activeTag(other) == .applied_name and
@@ -685,6 +970,12 @@ pub const Builtin = enum {
     F32,
     F64,
     F128,
+    /// An ISO-8601 calendar date, e.g. `2021-03-14`.
+    Date,
+    /// An ISO-8601 date and time with an offset, e.g. `2021-03-14T15:09:26Z`.
+    DateTime,
+    /// An ISO-8601 duration, e.g. `P1DT12H`.
+    Duration,
 
     pub fn toString(self: Self) []const u8 {
         return switch (self) {
@@ -703,6 +994,9 @@ pub const Builtin = enum {
             .F32 => "F32",
             .F64 => "F64",
             .F128 => "F128",
+            .Date => "Date",
+            .DateTime => "DateTime",
+            .Duration => "Duration",
         };
     }
 
@@ -738,6 +1032,12 @@ pub const Builtin = enum {
             Builtin.F64
         else if (mem.eql(u8, string, "F128"))
             Builtin.F128
+        else if (mem.eql(u8, string, "Date"))
+            Builtin.Date
+        else if (mem.eql(u8, string, "DateTime"))
+            Builtin.DateTime
+        else if (mem.eql(u8, string, "Duration"))
+            Builtin.Duration
         else
             debug.panic("Invalid builtin referenced; check with `isBuiltin`", .{});
     }
@@ -828,6 +1128,19 @@ pub const Optional = struct {
     }
 };
 
+/// A map from keys to values, represented as an object on the wire. Keys are always strings on
+/// the wire, so only string-like types can be used as keys.
+pub const Map = struct {
+    const Self = @This();
+
+    key: *Type,
+    value: *Type,
+
+    pub fn isEqual(self: Self, other: Self) bool {
+        return self.key.isEqual(other.key.*) and self.value.isEqual(other.value.*);
+    }
+};
+
 pub const AppliedName = struct {
     const Self = @This();
 
@@ -942,6 +1255,13 @@ pub const Union = union(enum) {
 pub const UnionOptions = struct {
     tag_field: []const u8,
     embedded: bool,
+    strict: bool = false,
+};
+
+/// Options given in parentheses after the `struct` keyword, e.g. `struct(strict) Name { ... }`.
+pub const StructureOptions = struct {
+    /// Makes type guards and validators reject objects with keys that aren't fields.
+    strict: bool = false,
 };
 
 pub const PlainUnion = struct {
@@ -950,9 +1270,12 @@ pub const PlainUnion = struct {
     name: DefinitionName,
     constructors: []const Constructor,
     tag_field: []const u8,
+    strict: bool = false,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.name.value);
+        freeDocComment(allocator, self.doc_comment);
         for (self.constructors) |c| c.free(allocator);
         allocator.free(self.constructors);
         allocator.free(self.tag_field);
@@ -961,6 +1284,8 @@ pub const PlainUnion = struct {
     pub fn isEqual(self: Self, other: Self) bool {
         if (!self.name.isEqual(other.name)) return false;
         if (!mem.eql(u8, self.tag_field, other.tag_field)) return false;
+        if (self.strict != other.strict) return false;
+        if (!isEqualDocComment(self.doc_comment, other.doc_comment)) return false;
 
         for (self.constructors, 0..) |constructor, i| {
             if (!constructor.isEqual(other.constructors[i])) return false;
@@ -977,9 +1302,12 @@ pub const GenericUnion = struct {
     constructors: []const Constructor,
     open_names: []const []const u8,
     tag_field: []const u8,
+    strict: bool = false,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.name.value);
+        freeDocComment(allocator, self.doc_comment);
         for (self.constructors) |c| c.free(allocator);
         allocator.free(self.constructors);
         allocator.free(self.tag_field);
@@ -990,6 +1318,8 @@ pub const GenericUnion = struct {
     pub fn isEqual(self: Self, other: Self) bool {
         if (!self.name.isEqual(other.name)) return false;
         if (!mem.eql(u8, self.tag_field, other.tag_field)) return false;
+        if (self.strict != other.strict) return false;
+        if (!isEqualDocComment(self.doc_comment, other.doc_comment)) return false;
 
         for (self.constructors, 0..) |constructor, i| {
             if (!constructor.isEqual(other.constructors[i])) return false;
@@ -1029,9 +1359,12 @@ pub const EmbeddedUnion = struct {
     constructors: []const ConstructorWithEmbeddedTypeTag,
     open_names: []const []const u8,
     tag_field: []const u8,
+    strict: bool = false,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.name.value);
+        freeDocComment(allocator, self.doc_comment);
         allocator.free(self.tag_field);
         for (self.constructors) |*c| c.free(allocator);
         allocator.free(self.constructors);
@@ -1041,6 +1374,8 @@ pub const EmbeddedUnion = struct {
     pub fn isEqual(self: Self, other: Self) bool {
         if (!mem.eql(u8, self.name.value, other.name.value)) return false;
         if (!mem.eql(u8, self.tag_field, other.tag_field)) return false;
+        if (self.strict != other.strict) return false;
+        if (!isEqualDocComment(self.doc_comment, other.doc_comment)) return false;
 
         for (self.constructors, 0..) |constructor, i| {
             if (!constructor.isEqual(other.constructors[i])) return false;
@@ -1059,9 +1394,11 @@ pub const ConstructorWithEmbeddedTypeTag = struct {
 
     tag: []const u8,
     parameter: ?Structure,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.tag);
+        freeDocComment(allocator, self.doc_comment);
     }
 
     pub fn isEqual(self: Self, other: Self) bool {
@@ -1071,7 +1408,8 @@ pub const ConstructorWithEmbeddedTypeTag = struct {
             if (other.parameter != null) return false;
         }
 
-        return mem.eql(u8, self.tag, other.tag);
+        return mem.eql(u8, self.tag, other.tag) and
+            isEqualDocComment(self.doc_comment, other.doc_comment);
     }
 };
 
@@ -1080,14 +1418,17 @@ pub const Constructor = struct {
 
     tag: []const u8,
     parameter: Type,
+    doc_comment: ?[]const u8 = null,
 
     pub fn free(self: Self, allocator: mem.Allocator) void {
         allocator.free(self.tag);
         self.parameter.free(allocator);
+        freeDocComment(allocator, self.doc_comment);
     }
 
     pub fn isEqual(self: Self, other: Self) bool {
-        return mem.eql(u8, self.tag, other.tag) and self.parameter.isEqual(other.parameter);
+        return mem.eql(u8, self.tag, other.tag) and self.parameter.isEqual(other.parameter) and
+            isEqualDocComment(self.doc_comment, other.doc_comment);
     }
 
     pub fn format(
@@ -1102,6 +1443,36 @@ pub const Constructor = struct {
     }
 };
 
+/// How the names of fields are translated into names used in generated code.
+pub const NamingConvention = enum {
+    unchanged,
+    camel_case,
+
+    pub fn fromString(string: []const u8) ?NamingConvention {
+        return if (mem.eql(u8, string, "unchanged"))
+            .unchanged
+        else if (mem.eql(u8, string, "camelCase"))
+            .camel_case
+        else
+            null;
+    }
+};
+
+pub const ParsingOptions = struct {
+    /// Used for modules that don't set their own naming convention with `naming`.
+    naming: NamingConvention = .unchanged,
+    /// Allows constructors of different unions to have the same name, for when every output puts
+    /// constructors in a namespace per union. They still can't share names with definitions, since
+    /// those are referred to from inside the namespaces.
+    namespaced_constructors: bool = false,
+    /// Directories that module names are relative to; a module in `root/shared/common.gotyno` is
+    /// named `shared.common`. Modules outside of them are named after their filenames.
+    module_roots: []const []const u8 = &[_][]const u8{},
+    /// The largest integer value an enumeration can have, which is the smallest of the largest
+    /// values that the output languages can represent exactly in their enums.
+    maximum_enumeration_value: u64 = math.maxInt(u64),
+};
+
 pub const Module = struct {
     const Self = @This();
 
@@ -1112,6 +1483,7 @@ pub const Module = struct {
     allocator: mem.Allocator,
 
     pub fn deinit(self: *Self) void {
+        self.allocator.free(self.name);
         self.allocator.free(self.filename);
         self.allocator.free(self.definitions);
         self.definition_iterator.deinit();
@@ -1126,42 +1498,112 @@ pub fn parse(
     modules: ?ModuleMap,
     parsing_error: *ParsingError,
 ) !Module {
-    _ = error_allocator;
-    debug.assert(mem.endsWith(u8, filename, ".gotyno"));
+    return parseWithOptions(
+        allocator,
+        error_allocator,
+        filename,
+        buffer,
+        modules,
+        .{},
+        parsing_error,
+    );
+}
 
-    var split_iterator = mem.split(u8, filename, ".gotyno");
-    const before_extension = split_iterator.next().?;
+pub fn parseWithOptions(
+    allocator: mem.Allocator,
+    error_allocator: mem.Allocator,
+    filename: []const u8,
+    buffer: []const u8,
+    modules: ?ModuleMap,
+    options: ParsingOptions,
+    parsing_error: *ParsingError,
+) !Module {
+    var parsing_errors = ArrayList(ParsingError).init(error_allocator);
+    defer parsing_errors.deinit();
 
-    const only_filename = if (mem.lastIndexOf(u8, before_extension, "/")) |index|
-        before_extension[(index + 1)..]
-    else
-        before_extension;
+    return parseReportingErrors(
+        allocator,
+        filename,
+        buffer,
+        modules,
+        options,
+        &parsing_errors,
+    ) catch |e| {
+        if (parsing_errors.items.len != 0) parsing_error.* = parsing_errors.items[0];
+
+        return e;
+    };
+}
 
-    const module_name = only_filename;
+/// Parses a module, carrying on with the next definition after each one that has an error, such
+/// that every error in the module is appended to `parsing_errors`. Errors that only follow from
+/// earlier ones, like references to definitions that couldn't be parsed, are left out. The first
+/// error is returned once the whole module has been parsed.
+pub fn parseReportingErrors(
+    allocator: mem.Allocator,
+    filename: []const u8,
+    buffer: []const u8,
+    modules: ?ModuleMap,
+    options: ParsingOptions,
+    parsing_errors: *ArrayList(ParsingError),
+) !Module {
+    const module_name = try moduleName(allocator, filename, options.module_roots);
 
     const copied_filename = try allocator.dupe(u8, filename);
     var definitions = ArrayList(Definition).init(allocator);
     var expect_error: ExpectError = undefined;
+    var parsing_error: ParsingError = undefined;
     var definition_iterator = DefinitionIterator.init(
         allocator,
         copied_filename,
         buffer,
         if (modules) |m| m else ModuleMap.init(allocator),
-        parsing_error,
+        &parsing_error,
         &expect_error,
     );
+    definition_iterator.naming = options.naming;
+    definition_iterator.namespaced_constructors = options.namespaced_constructors;
+    definition_iterator.maximum_enumeration_value = options.maximum_enumeration_value;
+
+    var skipped_names = ArrayList([]const u8).init(allocator);
+    defer skipped_names.deinit();
+    const error_count = parsing_errors.items.len;
+
+    while (true) {
+        const definition = definition_iterator.next() catch |e| {
+            switch (e) {
+                error.OutOfMemory => return e,
+                error.UnexpectedToken => parsing_error = ParsingError{ .expect = expect_error },
+                error.InvalidToken => parsing_error = ParsingError{
+                    .invalid_token = definition_iterator.token_iterator.invalid_token,
+                },
+                error.UnexpectedEndOfTokenStream => parsing_error = ParsingError{
+                    .unexpected_end_of_input = .{
+                        .location = definition_iterator.token_iterator.location(),
+                    },
+                },
+                // the rest are set by the definition iterator itself
+                else => {},
+            }
+
+            if (!followsSkippedDefinition(parsing_error, skipped_names.items)) {
+                try parsing_errors.append(parsing_error);
+            }
 
-    while (definition_iterator.next() catch |e| switch (e) {
-        error.UnexpectedToken, error.UnexpectedEndOfTokenStream => {
-            definition_iterator.parsing_error.* = ParsingError{ .expect = expect_error };
+            if (e == error.UnexpectedEndOfTokenStream) break;
+
+            if (definition_iterator.skipDefinition()) |name| try skipped_names.append(name);
+
+            continue;
+        } orelse break;
 
-            return e;
-        },
-        else => return e,
-    }) |definition| {
         try definitions.append(definition);
     }
 
+    if (parsing_errors.items.len != error_count) {
+        return parsingErrorCode(parsing_errors.items[error_count]);
+    }
+
     return Module{
         .name = module_name,
         .filename = copied_filename,
@@ -1171,6 +1613,52 @@ pub fn parse(
     };
 }
 
+/// Whether `parsing_error` is a reference to a definition that was skipped because of an error in
+/// it, which would only repeat that error.
+fn followsSkippedDefinition(parsing_error: ParsingError, skipped_names: []const []const u8) bool {
+    return switch (parsing_error) {
+        .unknown_reference => |d| utilities.isStringEqualToOneOf(d.name, skipped_names),
+        else => false,
+    };
+}
+
+const ParsingErrorCode = error{
+    UnexpectedToken,
+    InvalidToken,
+    UnknownKeyword,
+    InvalidPayload,
+    UnknownReference,
+    UnknownModule,
+    DuplicateDefinition,
+    AppliedNameCount,
+    UnexpectedEndOfTokenStream,
+    InvalidMapKey,
+    MixedEnumerationValues,
+    EnumerationValueOutOfRange,
+    ConstructorNameCollision,
+    FieldNameCollision,
+};
+
+/// The error that parsing returns when `parsing_error` is the first error in a module.
+fn parsingErrorCode(parsing_error: ParsingError) ParsingErrorCode {
+    return switch (parsing_error) {
+        .expect => error.UnexpectedToken,
+        .invalid_token => error.InvalidToken,
+        .unknown_keyword => error.UnknownKeyword,
+        .invalid_payload => error.InvalidPayload,
+        .unknown_reference => error.UnknownReference,
+        .unknown_module => error.UnknownModule,
+        .duplicate_definition => error.DuplicateDefinition,
+        .applied_name_count => error.AppliedNameCount,
+        .unexpected_end_of_input => error.UnexpectedEndOfTokenStream,
+        .invalid_map_key => error.InvalidMapKey,
+        .mixed_enumeration_values => error.MixedEnumerationValues,
+        .enumeration_value_out_of_range => error.EnumerationValueOutOfRange,
+        .constructor_name_collision => error.ConstructorNameCollision,
+        .field_name_collision => error.FieldNameCollision,
+    };
+}
+
 pub fn parseWithDescribedError(
     allocator: mem.Allocator,
     error_allocator: mem.Allocator,
@@ -1179,176 +1667,544 @@ pub fn parseWithDescribedError(
     modules: ?ModuleMap,
     parsing_error: *ParsingError,
 ) !Module {
-    return parse(allocator, error_allocator, filename, buffer, modules, parsing_error) catch |e| {
-        switch (e) {
-            error.UnexpectedToken,
-            error.UnknownReference,
-            error.UnknownModule,
-            error.InvalidPayload,
-            error.UnexpectedEndOfTokenStream,
-            error.DuplicateDefinition,
-            error.AppliedNameCount,
-            => {
-                switch (parsing_error.*) {
-                    .expect => |expect| switch (expect) {
-                        .token => |token| {
-                            debug.panic(
-                                "Unexpected token at {s}:{}:{}:\n\tExpected: {}\n\tGot: {}",
-                                .{
-                                    token.location.filename,
-                                    token.location.line,
-                                    token.location.column,
-                                    token.expectation,
-                                    token.got,
-                                },
-                            );
-                        },
-                        .one_of => |one_of| {
-                            debug.print(
-                                "Unexpected token at {s}:{}:{}:\n\tExpected one of: {}",
-                                .{
-                                    one_of.location.filename,
-                                    one_of.location.line,
-                                    one_of.location.column,
-                                    one_of.expectations[0],
-                                },
-                            );
-                            for (one_of.expectations[1..]) |expectation| {
-                                debug.print(", {}", .{expectation});
-                            }
-                            debug.panic("\n\tGot: {}\n", .{one_of.got});
-                        },
-                    },
-
-                    .invalid_payload => |invalid_payload| {
-                        debug.panic(
-                            "Invalid payload found at {s}:{}:{}, payload: {}\n",
-                            .{
-                                invalid_payload.location.filename,
-                                invalid_payload.location.line,
-                                invalid_payload.location.column,
-                                invalid_payload.payload,
-                            },
-                        );
-                    },
-
-                    .unknown_reference => |unknown_reference| {
-                        debug.panic(
-                            "Unknown reference found at {s}:{}:{}, name: {s}\n",
-                            .{
-                                unknown_reference.location.filename,
-                                unknown_reference.location.line,
-                                unknown_reference.location.column,
-                                unknown_reference.name,
-                            },
-                        );
-                    },
-
-                    .unknown_module => |unknown_module| {
-                        debug.panic(
-                            "Unknown module found at {s}:{}:{}, name: {s}\n",
-                            .{
-                                unknown_module.location.filename,
-                                unknown_module.location.line,
-                                unknown_module.location.column,
-                                unknown_module.name,
-                            },
-                        );
-                    },
+    var parsing_errors = ArrayList(ParsingError).init(error_allocator);
+    defer parsing_errors.deinit();
 
-                    .duplicate_definition => |d| {
-                        debug.panic(
-                            "Duplicate definition found at {s}:{}:{}, name: {s}, previously defined at {s}:{}:{}\n",
-                            .{
-                                d.location.filename,
-                                d.location.line,
-                                d.location.column,
-                                d.definition.name().value,
-                                d.previous_location.filename,
-                                d.previous_location.line,
-                                d.previous_location.column,
-                            },
-                        );
-                    },
+    return parseReportingErrors(allocator, filename, buffer, modules, .{}, &parsing_errors) catch |e| {
+        if (parsing_errors.items.len != 0) parsing_error.* = parsing_errors.items[0];
 
-                    .applied_name_count => |d| {
-                        debug.panic(
-                            "Wrong number of type parameters for type {s} at {s}:{}:{}, expected: {}, got: {}\n",
-                            .{
-                                d.name,
-                                d.location.filename,
-                                d.location.line,
-                                d.location.column,
-                                d.expected,
-                                d.actual,
-                            },
-                        );
-                    },
-                }
-            },
-            error.OutOfMemory, error.Overflow, error.InvalidCharacter => return e,
-        }
+        return exitWithDescribedErrors(
+            error_allocator,
+            e,
+            parsing_errors.items,
+            &[_]BufferData{.{ .filename = filename, .buffer = buffer }},
+        );
     };
 }
 
-pub fn parseModules(
-    allocator: mem.Allocator,
+/// Writes the descriptions of `parsing_errors` to standard error and exits with status 1, so that
+/// invalid input is reported like any other failed compilation instead of as a crash.
+fn exitWithDescribedErrors(
     error_allocator: mem.Allocator,
+    e: anytype,
+    parsing_errors: []const ParsingError,
     buffers: []const BufferData,
-    parsing_error: *ParsingError,
-) !ModuleMap {
-    var modules = ModuleMap.init(allocator);
-    for (buffers) |b| {
-        const module = try parse(
-            allocator,
-            error_allocator,
-            b.filename,
-            b.buffer,
-            modules,
-            parsing_error,
-        );
-
-        if (modules.get(module.name)) |_| {
-            debug.panic("Multiple definitions of module with name '{s}'\n", .{b.filename});
-        } else {
-            try modules.add(module);
-        }
+) @TypeOf(e) {
+    switch (e) {
+        error.UnexpectedToken,
+        error.InvalidToken,
+        error.UnknownKeyword,
+        error.UnknownReference,
+        error.UnknownModule,
+        error.InvalidPayload,
+        error.UnexpectedEndOfTokenStream,
+        error.DuplicateDefinition,
+        error.AppliedNameCount,
+        error.InvalidMapKey,
+        error.MixedEnumerationValues,
+        error.EnumerationValueOutOfRange,
+        error.ConstructorNameCollision,
+        error.FieldNameCollision,
+        => {
+            const description = try describeParsingErrors(error_allocator, parsing_errors, buffers);
+            io.getStdErr().writeAll(description) catch {};
+
+            process.exit(1);
+        },
+        error.OutOfMemory => return e,
     }
-
-    return modules;
 }
 
-pub fn parseModulesWithDescribedError(
+/// Describes each of `parsing_errors` like `describeParsingError`, followed by the line in `buffers`
+/// that it's on with a caret pointing at where on the line it is.
+pub fn describeParsingErrors(
     allocator: mem.Allocator,
-    error_allocator: mem.Allocator,
+    parsing_errors: []const ParsingError,
     buffers: []const BufferData,
-    parsing_error: *ParsingError,
-) !ModuleMap {
-    var modules = ModuleMap.init(allocator);
-    for (buffers) |b| {
-        const module = try parseWithDescribedError(
-            allocator,
-            error_allocator,
-            b.filename,
-            b.buffer,
-            modules,
-            parsing_error,
-        );
-
-        if (modules.get(module.name)) |_| {
-            debug.panic("Multiple definitions of module with name '{s}'\n", .{b.filename});
-        } else {
-            try modules.add(module);
+) ![]const u8 {
+    var descriptions = ArrayList(u8).init(allocator);
+    defer descriptions.deinit();
+    const writer = descriptions.writer();
+
+    for (parsing_errors, 0..) |parsing_error, i| {
+        if (i != 0) try writer.writeAll("\n");
+
+        const description = try describeParsingError(allocator, parsing_error);
+        defer allocator.free(description);
+        try writer.print("{s}\n", .{mem.trimRight(u8, description, "\n")});
+
+        const location = parsing_error.location();
+        for (buffers) |b| {
+            if (mem.eql(u8, b.filename, location.filename)) {
+                try writeSourceLine(writer, b.buffer, location);
+                break;
+            }
         }
     }
 
-    return modules;
+    return try descriptions.toOwnedSlice();
 }
 
-const ModuleMap = struct {
-    const Self = @This();
+fn writeSourceLine(writer: anytype, buffer: []const u8, location: Location) !void {
+    var lines = mem.split(u8, buffer, "\n");
+    var line_number: usize = 1;
+    while (lines.next()) |line| : (line_number += 1) {
+        if (line_number != location.line) continue;
+
+        const source_line = mem.trimRight(u8, line, "\r");
+        const gutter_width = fmt.count("{}", .{line_number});
+        try writer.print("{} | {s}\n", .{ line_number, source_line });
+        try writer.writeByteNTimes(' ', gutter_width);
+        try writer.writeAll(" | ");
+        // tabs are kept as they are such that the caret lines up with the source line
+        for (0..(location.column -| 1)) |column| {
+            const c = if (column < source_line.len) source_line[column] else ' ';
+            try writer.writeByte(if (c == '\t') '\t' else ' ');
+        }
+        try writer.writeAll("^\n");
 
-    modules: std.StringHashMap(Module),
+        return;
+    }
+}
+
+/// Returns a human readable description of a parsing error, such that it can be reported without
+/// stopping the program, as is needed when watching files for changes.
+pub fn describeParsingError(
+    allocator: mem.Allocator,
+    parsing_error: ParsingError,
+) ![]const u8 {
+    return switch (parsing_error) {
+        .expect => |expect| switch (expect) {
+            .token => |token| description: {
+                var description = ArrayList(u8).init(allocator);
+                const writer = description.writer();
+
+                try writer.print(
+                    "Unexpected token at {s}:{}:{}:\n\tExpected: {s}\n\tGot: ",
+                    .{
+                        token.location.filename,
+                        token.location.line,
+                        token.location.column,
+                        @tagName(token.expectation),
+                    },
+                );
+                try writeToken(writer, token.got);
+                try writer.writeAll("\n");
+
+                break :description try description.toOwnedSlice();
+            },
+            .one_of => |one_of| description: {
+                var description = ArrayList(u8).init(allocator);
+                const writer = description.writer();
+
+                try writer.print(
+                    "Unexpected token at {s}:{}:{}:\n\tExpected one of: {s}",
+                    .{
+                        one_of.location.filename,
+                        one_of.location.line,
+                        one_of.location.column,
+                        @tagName(one_of.expectations[0]),
+                    },
+                );
+                for (one_of.expectations[1..]) |expectation| {
+                    try writer.print(", {s}", .{@tagName(expectation)});
+                }
+                try writer.writeAll("\n\tGot: ");
+                try writeToken(writer, one_of.got);
+                try writer.writeAll("\n");
+
+                break :description try description.toOwnedSlice();
+            },
+        },
+
+        .invalid_token => |d| switch (d.reason) {
+            // control characters like tabs are escaped such that they can be seen
+            .unknown_character => if (d.text.len == 1 and std.ascii.isControl(d.text[0]))
+                try fmt.allocPrint(
+                    allocator,
+                    "Unknown character `{}` at {s}:{}:{}\n",
+                    .{
+                        std.zig.fmtEscapes(d.text),
+                        d.location.filename,
+                        d.location.line,
+                        d.location.column,
+                    },
+                )
+            else
+                try fmt.allocPrint(
+                    allocator,
+                    "Unknown character `{s}` at {s}:{}:{}\n",
+                    .{ d.text, d.location.filename, d.location.line, d.location.column },
+                ),
+            .unterminated_string => try fmt.allocPrint(
+                allocator,
+                "Unterminated string at {s}:{}:{}: {s}\n",
+                .{ d.location.filename, d.location.line, d.location.column, d.text },
+            ),
+            .invalid_number => try fmt.allocPrint(
+                allocator,
+                "Invalid number `{s}` at {s}:{}:{}\n",
+                .{ d.text, d.location.filename, d.location.line, d.location.column },
+            ),
+            .lone_carriage_return => try fmt.allocPrint(
+                allocator,
+                "Carriage return not followed by a line feed at {s}:{}:{}\n",
+                .{ d.location.filename, d.location.line, d.location.column },
+            ),
+        },
+
+        .unknown_keyword => |d| description: {
+            var description = ArrayList(u8).init(allocator);
+            const writer = description.writer();
+
+            try writer.print(
+                "Unknown keyword `{s}` at {s}:{}:{}, expected one of: `{s}`",
+                .{
+                    d.keyword,
+                    d.location.filename,
+                    d.location.line,
+                    d.location.column,
+                    d.expectations[0],
+                },
+            );
+            for (d.expectations[1..]) |expectation| {
+                try writer.print(", `{s}`", .{expectation});
+            }
+            try writer.writeAll("\n");
+
+            break :description try description.toOwnedSlice();
+        },
+
+        .invalid_payload => |invalid_payload| try fmt.allocPrint(
+            allocator,
+            "Invalid payload found at {s}:{}:{}, payload: {}\n",
+            .{
+                invalid_payload.location.filename,
+                invalid_payload.location.line,
+                invalid_payload.location.column,
+                invalid_payload.payload,
+            },
+        ),
+
+        .unknown_reference => |unknown_reference| try fmt.allocPrint(
+            allocator,
+            "Unknown reference found at {s}:{}:{}, name: {s}\n",
+            .{
+                unknown_reference.location.filename,
+                unknown_reference.location.line,
+                unknown_reference.location.column,
+                unknown_reference.name,
+            },
+        ),
+
+        .unknown_module => |unknown_module| try fmt.allocPrint(
+            allocator,
+            "Unknown module found at {s}:{}:{}, name: {s}\n",
+            .{
+                unknown_module.location.filename,
+                unknown_module.location.line,
+                unknown_module.location.column,
+                unknown_module.name,
+            },
+        ),
+
+        .duplicate_definition => |d| try fmt.allocPrint(
+            allocator,
+            "Duplicate definition found at {s}:{}:{}, name: {s}, previously defined at {s}:{}:{}\n",
+            .{
+                d.location.filename,
+                d.location.line,
+                d.location.column,
+                d.definition.name().value,
+                d.previous_location.filename,
+                d.previous_location.line,
+                d.previous_location.column,
+            },
+        ),
+
+        .applied_name_count => |d| try fmt.allocPrint(
+            allocator,
+            "Wrong number of type parameters for type {s} at {s}:{}:{}, expected: {}, got: {}\n",
+            .{
+                d.name,
+                d.location.filename,
+                d.location.line,
+                d.location.column,
+                d.expected,
+                d.actual,
+            },
+        ),
+
+        .unexpected_end_of_input => |d| try fmt.allocPrint(
+            allocator,
+            "Unexpected end of input at {s}:{}:{}\n",
+            .{ d.location.filename, d.location.line, d.location.column },
+        ),
+
+        .invalid_map_key => |d| try fmt.allocPrint(
+            allocator,
+            "Invalid map key at {s}:{}:{}, key: {}, expected a string, string literal, enum with string values or newtype of one of those\n",
+            .{ d.location.filename, d.location.line, d.location.column, d.key },
+        ),
+
+        .mixed_enumeration_values => |d| try fmt.allocPrint(
+            allocator,
+            "Mixed string and integer values in enum {s} at {s}:{}:{}, first value at {s}:{}:{}\n",
+            .{
+                d.name,
+                d.location.filename,
+                d.location.line,
+                d.location.column,
+                d.first_value_location.filename,
+                d.first_value_location.line,
+                d.first_value_location.column,
+            },
+        ),
+
+        .enumeration_value_out_of_range => |d| try fmt.allocPrint(
+            allocator,
+            "Enumeration value out of range in enum {s} at {s}:{}:{}, value: {}, largest value the output languages can represent: {}\n",
+            .{
+                d.name,
+                d.location.filename,
+                d.location.line,
+                d.location.column,
+                d.value,
+                d.maximum,
+            },
+        ),
+
+        .constructor_name_collision => |d| try fmt.allocPrint(
+            allocator,
+            "Constructor name collision for `{s}` at {s}:{}:{}, name already used at {s}:{}:{}\n",
+            .{
+                d.name,
+                d.location.filename,
+                d.location.line,
+                d.location.column,
+                d.previous_location.filename,
+                d.previous_location.line,
+                d.previous_location.column,
+            },
+        ),
+
+        .field_name_collision => |d| try fmt.allocPrint(
+            allocator,
+            "Field name collision for `{s}` at {s}:{}:{}, name already used at {s}:{}:{}\n",
+            .{
+                d.name,
+                d.location.filename,
+                d.location.line,
+                d.location.column,
+                d.previous_location.filename,
+                d.previous_location.line,
+                d.previous_location.column,
+            },
+        ),
+    };
+}
+
+fn writeToken(writer: anytype, token: Token) !void {
+    switch (token) {
+        .name, .symbol => |text| try writer.print("{s} `{s}`", .{ @tagName(token), text }),
+        .string => |string| try writer.print("string \"{s}\"", .{string}),
+        .unsigned_integer => |n| try writer.print("unsigned_integer {}", .{n}),
+        else => try writer.writeAll(@tagName(token)),
+    }
+}
+
+/// The hierarchical name of the module in `filename`, relative to the first of `module_roots` that
+/// it is in, i.e. `shared.common` for `root/shared/common.gotyno`. Modules outside of the roots are
+/// named after their filenames.
+pub fn moduleName(
+    allocator: mem.Allocator,
+    filename: []const u8,
+    module_roots: []const []const u8,
+) ![]const u8 {
+    debug.assert(mem.endsWith(u8, filename, ".gotyno"));
+
+    const before_extension = trimCurrentDirectory(filename[0..(filename.len - ".gotyno".len)]);
+
+    const relative_path = for (module_roots) |module_root| {
+        const root = mem.trimRight(u8, trimCurrentDirectory(module_root), "/");
+        if (root.len == 0 or mem.eql(u8, root, ".")) break before_extension;
+
+        if (mem.startsWith(u8, before_extension, root) and
+            before_extension.len > root.len and
+            before_extension[root.len] == '/')
+        {
+            break before_extension[(root.len + 1)..];
+        }
+    } else if (mem.lastIndexOf(u8, before_extension, "/")) |index|
+        before_extension[(index + 1)..]
+    else
+        before_extension;
+
+    const module_name = try allocator.dupe(u8, relative_path);
+    mem.replaceScalar(u8, module_name, '/', '.');
+
+    return module_name;
+}
+
+/// The last part of a module name, `common` for `shared.common`, which is also the name of the file
+/// that the module is in.
+pub fn baseModuleName(module_name: []const u8) []const u8 {
+    return if (mem.lastIndexOfScalar(u8, module_name, '.')) |index|
+        module_name[(index + 1)..]
+    else
+        module_name;
+}
+
+fn trimCurrentDirectory(path: []const u8) []const u8 {
+    var trimmed = path;
+    while (mem.startsWith(u8, trimmed, "./")) trimmed = trimmed[2..];
+
+    return trimmed;
+}
+
+/// The names of the modules that `buffer` imports, found without parsing it such that modules can
+/// be read and put in order before any of them are parsed.
+pub fn importedModuleNames(allocator: mem.Allocator, buffer: []const u8) ![]const []const u8 {
+    var names = ArrayList([]const u8).init(allocator);
+    defer names.deinit();
+
+    var lines = mem.split(u8, buffer, "\n");
+    while (lines.next()) |line| {
+        if (!mem.startsWith(u8, line, "import ")) continue;
+
+        const rest = line["import ".len..];
+        const end = mem.indexOfAny(u8, rest, " (\r") orelse rest.len;
+        if (end != 0) try names.append(rest[0..end]);
+    }
+
+    return try names.toOwnedSlice();
+}
+
+pub fn parseModules(
+    allocator: mem.Allocator,
+    error_allocator: mem.Allocator,
+    buffers: []const BufferData,
+    options: ParsingOptions,
+    parsing_error: *ParsingError,
+) !ModuleMap {
+    var modules = ModuleMap.init(allocator);
+    for (buffers) |b| {
+        const module = try parseWithOptions(
+            allocator,
+            error_allocator,
+            b.filename,
+            b.buffer,
+            modules,
+            options,
+            parsing_error,
+        );
+
+        if (modules.get(module.name)) |_| {
+            debug.panic("Multiple definitions of module with name '{s}'\n", .{b.filename});
+        } else {
+            try modules.add(module);
+        }
+    }
+
+    return modules;
+}
+
+/// Parses modules like `parseModules`, but appends every error in every module to `parsing_errors`
+/// instead of only the first one. Modules that have errors are left out of the module map, so the
+/// unknown module errors that importing them gives are left out as well. The first error is
+/// returned once all of the modules have been parsed.
+pub fn parseModulesReportingErrors(
+    allocator: mem.Allocator,
+    buffers: []const BufferData,
+    options: ParsingOptions,
+    parsing_errors: *ArrayList(ParsingError),
+) !ModuleMap {
+    var modules = ModuleMap.init(allocator);
+    var failed_module_names = ArrayList([]const u8).init(allocator);
+    defer failed_module_names.deinit();
+    const error_count = parsing_errors.items.len;
+
+    for (buffers) |b| {
+        const module_error_count = parsing_errors.items.len;
+        const module = parseReportingErrors(
+            allocator,
+            b.filename,
+            b.buffer,
+            modules,
+            options,
+            parsing_errors,
+        ) catch |e| switch (e) {
+            error.OutOfMemory => return e,
+            else => {
+                removeUnknownModuleErrors(
+                    parsing_errors,
+                    module_error_count,
+                    failed_module_names.items,
+                );
+                try failed_module_names.append(
+                    try moduleName(allocator, b.filename, options.module_roots),
+                );
+
+                continue;
+            },
+        };
+
+        if (modules.get(module.name)) |_| {
+            debug.panic("Multiple definitions of module with name '{s}'\n", .{b.filename});
+        } else {
+            try modules.add(module);
+        }
+    }
+
+    if (parsing_errors.items.len != error_count) {
+        return parsingErrorCode(parsing_errors.items[error_count]);
+    }
+
+    return modules;
+}
+
+/// Removes the errors from `start` on that are about importing one of `module_names`.
+fn removeUnknownModuleErrors(
+    parsing_errors: *ArrayList(ParsingError),
+    start: usize,
+    module_names: []const []const u8,
+) void {
+    var i = start;
+    while (i < parsing_errors.items.len) {
+        switch (parsing_errors.items[i]) {
+            .unknown_module => |d| if (utilities.isStringEqualToOneOf(d.name, module_names)) {
+                _ = parsing_errors.orderedRemove(i);
+
+                continue;
+            },
+            else => {},
+        }
+
+        i += 1;
+    }
+}
+
+pub fn parseModulesWithDescribedError(
+    allocator: mem.Allocator,
+    error_allocator: mem.Allocator,
+    buffers: []const BufferData,
+    options: ParsingOptions,
+    parsing_error: *ParsingError,
+) !ModuleMap {
+    var parsing_errors = ArrayList(ParsingError).init(error_allocator);
+    defer parsing_errors.deinit();
+
+    return parseModulesReportingErrors(allocator, buffers, options, &parsing_errors) catch |e| {
+        if (parsing_errors.items.len != 0) parsing_error.* = parsing_errors.items[0];
+
+        return exitWithDescribedErrors(error_allocator, e, parsing_errors.items, buffers);
+    };
+}
+
+pub const ModuleMap = struct {
+    const Self = @This();
+
+    modules: std.StringHashMap(Module),
 
     pub fn init(allocator: mem.Allocator) Self {
         return Self{ .modules = std.StringHashMap(Module).init(allocator) };
@@ -1373,6 +2229,15 @@ const ModuleMap = struct {
     }
 };
 const DefinitionMap = std.StringHashMap(Definition);
+const ConstructorNameMap = std.StringHashMap(ConstructorName);
+/// The names in code of the fields parsed so far in a structure and where those fields are.
+const FieldCodeNameMap = std.StringHashMap(Location);
+
+/// Where a union constructor was defined, used for detecting constructor name collisions.
+const ConstructorName = struct {
+    union_name: []const u8,
+    location: Location,
+};
 
 /// `DefinitionIterator` is iterator that attempts to return the next definition in a source, based
 /// on a `TokenIterator` that it holds inside of its instance. It's an unapologetically stateful
@@ -1397,6 +2262,23 @@ pub const DefinitionIterator = struct {
     /// We hold a list to the imports such that we can also free them properly.
     imports: ArrayList(Import),
 
+    /// The naming convention for fields, which a module can set with `naming`.
+    naming: NamingConvention = .unchanged,
+
+    /// Holds the constructors of all tagged unions parsed so far, since they end up as top-level
+    /// names in the output and can't collide with each other or with definitions.
+    constructor_names: ConstructorNameMap,
+
+    /// Whether constructors of different unions are allowed to have the same name.
+    namespaced_constructors: bool = false,
+
+    /// The largest integer value that enumerations can have.
+    maximum_enumeration_value: u64 = math.maxInt(u64),
+
+    /// Where the definition that is being parsed starts, such that parsing can carry on after it
+    /// when it has errors.
+    definition_start: TokenIterator,
+
     pub fn init(
         allocator: mem.Allocator,
         filename: []const u8,
@@ -1415,6 +2297,8 @@ pub const DefinitionIterator = struct {
             .named_definitions = DefinitionMap.init(allocator),
             .imports = ArrayList(Import).init(allocator),
             .expect_error = expect_error,
+            .constructor_names = ConstructorNameMap.init(allocator),
+            .definition_start = token_iterator,
         };
     }
 
@@ -1427,20 +2311,37 @@ pub const DefinitionIterator = struct {
         while (definition_iterator.next()) |entry| entry.*.value.free(self.allocator);
 
         self.named_definitions.deinit();
+        self.constructor_names.deinit();
     }
 
     pub fn next(self: *Self) !?Definition {
         const tokens = &self.token_iterator;
 
-        while (try tokens.next(.{})) |token| {
+        while (true) {
+            const doc_comment = try self.parseDocComment();
+            self.definition_start = tokens.*;
+            const token = (try tokens.next(.{})) orelse {
+                freeDocComment(self.allocator, doc_comment);
+
+                return null;
+            };
+
             switch (token) {
                 .symbol => |s| {
                     if (mem.eql(u8, s, "struct")) {
-                        _ = try tokens.expect(Token.space, self.expect_error);
+                        const options = switch (try tokens.expectOneOf(
+                            &[_]TokenTag{ .space, .left_parenthesis },
+                            self.expect_error,
+                        )) {
+                            .space => StructureOptions{},
+                            .left_parenthesis => try self.parseStructureOptions(),
+                            else => unreachable,
+                        };
 
-                        const definition = Definition{
-                            .structure = try self.parseStructureDefinition(),
+                        var definition = Definition{
+                            .structure = try self.parseStructureDefinition(options),
                         };
+                        definition.setDocComment(doc_comment);
                         try self.addDefinition(definition.structure.name(), definition);
 
                         return definition;
@@ -1452,11 +2353,13 @@ pub const DefinitionIterator = struct {
 
                         switch (space_or_left_parenthesis) {
                             .space => {
-                                const definition = Definition{
+                                var definition = Definition{
                                     .@"union" = try self.parseUnionDefinition(
                                         try self.allocator.dupe(u8, "type"),
+                                        false,
                                     ),
                                 };
+                                definition.setDocComment(doc_comment);
                                 try self.addDefinition(definition.@"union".name(), definition);
 
                                 return definition;
@@ -1464,7 +2367,7 @@ pub const DefinitionIterator = struct {
                             .left_parenthesis => {
                                 const options = try self.parseUnionOptions();
 
-                                const definition = if (options.embedded)
+                                var definition = if (options.embedded)
                                     Definition{
                                         .@"union" = Union{
                                             .embedded = try self.parseEmbeddedUnionDefinition(
@@ -1476,8 +2379,10 @@ pub const DefinitionIterator = struct {
                                     Definition{
                                         .@"union" = try self.parseUnionDefinition(
                                             options.tag_field,
+                                            options.strict,
                                         ),
                                     };
+                                definition.setDocComment(doc_comment);
 
                                 try self.addDefinition(definition.@"union".name(), definition);
 
@@ -1488,9 +2393,10 @@ pub const DefinitionIterator = struct {
                     } else if (mem.eql(u8, s, "enum")) {
                         _ = try tokens.expect(Token.space, self.expect_error);
 
-                        const definition = Definition{
+                        var definition = Definition{
                             .enumeration = try self.parseEnumerationDefinition(),
                         };
+                        definition.setDocComment(doc_comment);
                         try self.addDefinition(definition.enumeration.name, definition);
 
                         return definition;
@@ -1503,34 +2409,130 @@ pub const DefinitionIterator = struct {
                         debug.assert(mem.eql(u8, union_keyword, "union"));
                         _ = try tokens.expect(Token.space, self.expect_error);
 
-                        const definition = Definition{
+                        var definition = Definition{
                             .untagged_union = try self.parseUntaggedUnionDefinition(
                                 &[_][]const u8{},
                             ),
                         };
+                        definition.setDocComment(doc_comment);
                         try self.addDefinition(definition.untagged_union.name, definition);
 
                         return definition;
                     } else if (mem.eql(u8, s, "import")) {
+                        freeDocComment(self.allocator, doc_comment);
                         _ = try tokens.expect(Token.space, self.expect_error);
 
                         const import = try self.parseImport();
                         try self.imports.append(import);
                         const definition = Definition{ .import = import };
 
+                        return definition;
+                    } else if (mem.eql(u8, s, "naming")) {
+                        freeDocComment(self.allocator, doc_comment);
+                        _ = try tokens.expect(Token.space, self.expect_error);
+
+                        const convention_location = tokens.location();
+                        const convention = (try tokens.expect(Token.symbol, self.expect_error)).symbol;
+                        self.naming = NamingConvention.fromString(convention) orelse {
+                            self.parsing_error.* = ParsingError{
+                                .unknown_keyword = .{
+                                    .keyword = convention,
+                                    .expectations = &[_][]const u8{ "camelCase", "unchanged" },
+                                    .location = convention_location,
+                                },
+                            };
+
+                            return error.UnknownKeyword;
+                        };
+                        try self.expectNewline();
+                    } else if (mem.eql(u8, s, "newtype")) {
+                        _ = try tokens.expect(Token.space, self.expect_error);
+
+                        var definition = Definition{ .newtype = try self.parseNewtypeDefinition() };
+                        definition.setDocComment(doc_comment);
+                        try self.addDefinition(definition.newtype.name, definition);
+
+                        return definition;
+                    } else if (mem.eql(u8, s, "declare")) {
+                        _ = try tokens.expect(Token.space, self.expect_error);
+
+                        var definition = Definition{
+                            .declaration = try self.parseDeclaration(),
+                        };
+                        definition.setDocComment(doc_comment);
+                        try self.addDefinition(definition.declaration.name, definition);
+
                         return definition;
                     } else {
-                        debug.panic(
-                            "Expected one of `struct`, `union`, `enum`, `untagged` or `import`, got: `{s}`",
-                            .{s},
-                        );
+                        freeDocComment(self.allocator, doc_comment);
+                        self.parsing_error.* = ParsingError{
+                            .unknown_keyword = .{
+                                .keyword = s,
+                                .expectations = &[_][]const u8{
+                                    "struct",
+                                    "union",
+                                    "enum",
+                                    "untagged",
+                                    "newtype",
+                                    "import",
+                                    "declare",
+                                    "naming",
+                                },
+                                .location = self.definition_start.location(),
+                            },
+                        };
+
+                        return error.UnknownKeyword;
                     }
                 },
+                // a doc comment that isn't directly followed by a definition isn't attached to
+                // anything
+                else => freeDocComment(self.allocator, doc_comment),
+            }
+        }
+    }
+
+    /// Skips the definition that is being parsed after an error in it, by moving on to the next
+    /// line that starts with a keyword, and returns its name if it can be found. Lines inside of
+    /// definitions are indented, so they are never mistaken for the start of the next one.
+    pub fn skipDefinition(self: *Self) ?[]const u8 {
+        const tokens = &self.token_iterator;
+
+        tokens.* = self.definition_start;
+        const definition_line = self.definition_start.buffer[self.definition_start.i..];
+        tokens.skipLine();
+
+        while (tokens.i < tokens.buffer.len) : (tokens.skipLine()) {
+            switch (tokens.buffer[tokens.i]) {
+                'a'...'z' => break,
                 else => {},
             }
         }
 
-        return null;
+        return definitionNameInLine(definition_line);
+    }
+
+    /// Parses the doc comment lines (`/// ...`) preceding a definition, field, constructor or
+    /// enumeration field, joining them with newlines.
+    fn parseDocComment(self: *Self) !?[]const u8 {
+        const tokens = &self.token_iterator;
+
+        var lines = ArrayList([]const u8).init(self.allocator);
+        defer lines.deinit();
+
+        while (try tokens.peek()) |t| {
+            switch (t) {
+                .doc_comment => |c| {
+                    _ = try tokens.next(.{});
+                    try lines.append(tokenizer.docCommentText(c));
+                },
+                else => break,
+            }
+        }
+
+        if (lines.items.len == 0) return null;
+
+        return try mem.join(self.allocator, "\n", lines.items);
     }
 
     fn parseDefinitionName(self: *Self) !DefinitionName {
@@ -1572,17 +2574,48 @@ pub const DefinitionIterator = struct {
     fn parseImport(self: *Self) !Import {
         const tokens = &self.token_iterator;
 
-        const import_name = try self.parseDefinitionName();
+        const import_name = try self.parseModuleName();
+        // Hierarchical modules are bound by the last part of their names, `common` for
+        // `shared.common`.
+        const base_name = baseModuleName(import_name.value);
+        const default_alias = if (base_name.len == import_name.value.len)
+            import_name.value
+        else
+            try self.allocator.dupe(u8, base_name);
 
         return switch (try tokens.expectOneOf(
             &[_]TokenTag{ .newline, .crlf, .space },
             self.expect_error,
         )) {
-            .newline, .crlf => Import{ .name = import_name, .alias = import_name.value },
+            .newline, .crlf => Import{ .name = import_name, .alias = default_alias },
             .space => with_alias: {
-                _ = try tokens.expect(Token.equals, self.expect_error);
+                const token = try tokens.expectOneOf(
+                    &[_]TokenTag{ .equals, .symbol, .left_parenthesis },
+                    self.expect_error,
+                );
+                if (token == .left_parenthesis) {
+                    break :with_alias Import{
+                        .name = import_name,
+                        .alias = default_alias,
+                        .names = try self.parseImportedNames(import_name),
+                    };
+                }
+
+                if (token == .symbol and !mem.eql(u8, token.symbol, "as")) {
+                    self.expect_error.* = ExpectError{
+                        .one_of = .{
+                            .expectations = &[_]TokenTag{ .equals, .left_parenthesis },
+                            .got = token,
+                            .location = tokens.location(),
+                        },
+                    };
+
+                    return error.UnexpectedToken;
+                }
                 _ = try tokens.expect(Token.space, self.expect_error);
 
+                if (default_alias.ptr != import_name.value.ptr) self.allocator.free(default_alias);
+
                 const import_alias = switch (try tokens.expectOneOf(
                     &[_]TokenTag{ .symbol, .name },
                     self.expect_error,
@@ -1591,6 +2624,7 @@ pub const DefinitionIterator = struct {
                     .name => |name| try self.allocator.dupe(u8, name),
                     else => unreachable,
                 };
+                try self.expectNewline();
 
                 break :with_alias Import{ .name = import_name, .alias = import_alias };
             },
@@ -1598,6 +2632,138 @@ pub const DefinitionIterator = struct {
         };
     }
 
+    /// Parses `module` or `directory.module`, where the parts of the name are separate tokens.
+    fn parseModuleName(self: *Self) !DefinitionName {
+        const tokens = &self.token_iterator;
+
+        const first_part = try self.parseDefinitionName();
+        if (!try self.nextIsPeriod()) return first_part;
+        defer self.allocator.free(first_part.value);
+
+        var name = ArrayList(u8).init(self.allocator);
+        defer name.deinit();
+        try name.appendSlice(first_part.value);
+
+        while (try self.nextIsPeriod()) {
+            _ = try tokens.expect(Token.period, self.expect_error);
+            try name.append('.');
+            try name.appendSlice((try tokens.expect(Token.symbol, self.expect_error)).symbol);
+        }
+
+        return DefinitionName{ .value = try name.toOwnedSlice(), .location = first_part.location };
+    }
+
+    fn nextIsPeriod(self: *Self) !bool {
+        return if (try self.token_iterator.peek()) |token| token == .period else false;
+    }
+
+    /// Parses the `Name, ...)` part of `import module (Name, ...)`, checking that each name is
+    /// defined in the imported module.
+    fn parseImportedNames(self: *Self, import_name: DefinitionName) ![]const ImportedName {
+        const tokens = &self.token_iterator;
+
+        const module = self.getModule(import_name.value) orelse
+            return try self.returnUnknownModuleError(
+            []const ImportedName,
+            import_name.value,
+            tokens.filename,
+        );
+
+        var names = ArrayList(ImportedName).init(self.allocator);
+        defer names.deinit();
+        errdefer for (names.items) |n| self.allocator.free(n.name.value);
+
+        while (true) {
+            // The name is not freed on errors, since an unknown reference error refers to it
+            const name = try self.parsePascalDefinitionName();
+
+            const definition = module.definition_iterator.getDefinition(name.value) orelse
+                return try self.returnUnknownReferenceError(
+                []const ImportedName,
+                name.value,
+                name.location,
+            );
+            try names.append(ImportedName{ .name = name, .definition = definition });
+
+            switch (try tokens.expectOneOf(
+                &[_]TokenTag{ .comma, .right_parenthesis },
+                self.expect_error,
+            )) {
+                .comma => _ = try tokens.expect(Token.space, self.expect_error),
+                .right_parenthesis => break,
+                else => unreachable,
+            }
+        }
+        try self.expectNewline();
+
+        return try names.toOwnedSlice();
+    }
+
+    /// Finds the definition named `name` in the selective imports of the module, if any.
+    fn getImportedName(self: Self, name: []const u8) ?ImportedDefinition {
+        for (self.imports.items) |import| {
+            for (import.names) |n| {
+                if (mem.eql(u8, n.name.value, name)) {
+                    return ImportedDefinition{
+                        .import_name = import.name.value,
+                        .definition = n.definition,
+                        .unqualified = true,
+                    };
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /// Parses `module.Name` or `module.Name<T, ...>` for a type defined outside of gotyno.
+    fn parseDeclaration(self: *Self) !Declaration {
+        const tokens = &self.token_iterator;
+
+        const module = switch (try tokens.expectOneOf(
+            &[_]TokenTag{ .symbol, .name },
+            self.expect_error,
+        )) {
+            .symbol => |symbol| try self.allocator.dupe(u8, symbol),
+            .name => |name| try self.allocator.dupe(u8, name),
+            else => unreachable,
+        };
+        _ = try tokens.expect(Token.period, self.expect_error);
+
+        const name = try self.parsePascalDefinitionName();
+
+        const open_names = switch (try tokens.expectOneOf(
+            &[_]TokenTag{ .newline, .crlf, .left_angle },
+            self.expect_error,
+        )) {
+            .newline, .crlf => &[_][]const u8{},
+            .left_angle => open_names: {
+                const open_names = try self.parseOpenNames();
+                _ = try tokens.expectOneOf(&[_]TokenTag{ .newline, .crlf }, self.expect_error);
+
+                break :open_names open_names;
+            },
+            else => unreachable,
+        };
+
+        return Declaration{ .name = name, .module = module, .open_names = open_names };
+    }
+
+    fn parseNewtypeDefinition(self: *Self) !Newtype {
+        const tokens = &self.token_iterator;
+
+        const name = try self.parsePascalDefinitionName();
+
+        _ = try tokens.expect(Token.space, self.expect_error);
+        _ = try tokens.expect(Token.equals, self.expect_error);
+        _ = try tokens.expect(Token.space, self.expect_error);
+
+        const underlying_type = try self.allocator.create(Type);
+        underlying_type.* = try self.parseFieldType(name, &[_][]const u8{});
+
+        return Newtype{ .name = name, .type = underlying_type };
+    }
+
     fn parseUnionOptions(self: *Self) !UnionOptions {
         const tokens = &self.token_iterator;
 
@@ -1620,6 +2786,8 @@ pub const DefinitionIterator = struct {
                 );
             } else if (mem.eql(u8, symbol, "embedded")) {
                 options.embedded = true;
+            } else if (mem.eql(u8, symbol, "strict")) {
+                options.strict = true;
             }
 
             if (try tokens.peek()) |t| {
@@ -1644,6 +2812,35 @@ pub const DefinitionIterator = struct {
         return options;
     }
 
+    fn parseStructureOptions(self: *Self) !StructureOptions {
+        const tokens = &self.token_iterator;
+
+        var options = StructureOptions{};
+
+        var done_parsing_options = false;
+        while (!done_parsing_options) {
+            const symbol = (try tokens.expect(Token.symbol, self.expect_error)).symbol;
+            if (mem.eql(u8, symbol, "strict")) {
+                options.strict = true;
+            }
+
+            if (try tokens.peek()) |t| {
+                switch (t) {
+                    .right_parenthesis => done_parsing_options = true,
+                    else => {
+                        _ = try tokens.expect(Token.comma, self.expect_error);
+                        _ = try tokens.expect(Token.space, self.expect_error);
+                    },
+                }
+            }
+        }
+
+        _ = try tokens.expect(Token.right_parenthesis, self.expect_error);
+        _ = try tokens.expect(Token.space, self.expect_error);
+
+        return options;
+    }
+
     fn expectNewline(self: *Self) !void {
         _ = try self.token_iterator.expectOneOf(&[_]TokenTag{ .newline, .crlf }, self.expect_error);
     }
@@ -1696,8 +2893,10 @@ pub const DefinitionIterator = struct {
         try self.expectNewline();
 
         var fields = ArrayList(EnumerationField).init(self.allocator);
+        var first_value_location: Location = undefined;
         var done_parsing_fields = false;
         while (!done_parsing_fields) {
+            const doc_comment = try self.parseDocComment();
             try tokens.skipMany(Token.space, 4, self.expect_error);
             const tag = switch (try tokens.expectOneOf(
                 &[_]TokenTag{ .symbol, .name },
@@ -1712,6 +2911,11 @@ pub const DefinitionIterator = struct {
             _ = try tokens.expect(Token.equals, self.expect_error);
             _ = try tokens.expect(Token.space, self.expect_error);
 
+            const value_location = Location{
+                .filename = tokens.filename,
+                .line = tokens.line,
+                .column = tokens.column,
+            };
             const value = switch (try tokens.expectOneOf(
                 &[_]TokenTag{ .string, .unsigned_integer },
                 self.expect_error,
@@ -1721,6 +2925,36 @@ pub const DefinitionIterator = struct {
                 else => unreachable,
             };
 
+            switch (value) {
+                .unsigned_integer => |ui| if (ui > self.maximum_enumeration_value) {
+                    self.parsing_error.* = ParsingError{
+                        .enumeration_value_out_of_range = EnumerationValueOutOfRange{
+                            .name = name.value,
+                            .value = ui,
+                            .maximum = self.maximum_enumeration_value,
+                            .location = value_location,
+                        },
+                    };
+
+                    return error.EnumerationValueOutOfRange;
+                },
+                .string => {},
+            }
+
+            if (fields.items.len == 0) {
+                first_value_location = value_location;
+            } else if (meta.activeTag(value) != meta.activeTag(fields.items[0].value)) {
+                self.parsing_error.* = ParsingError{
+                    .mixed_enumeration_values = MixedEnumerationValues{
+                        .name = name.value,
+                        .location = value_location,
+                        .first_value_location = first_value_location,
+                    },
+                };
+
+                return error.MixedEnumerationValues;
+            }
+
             try self.expectNewline();
             if (try tokens.peek()) |t| {
                 switch (t) {
@@ -1729,13 +2963,17 @@ pub const DefinitionIterator = struct {
                 }
             }
 
-            try fields.append(EnumerationField{ .tag = tag, .value = value });
+            try fields.append(EnumerationField{
+                .tag = tag,
+                .value = value,
+                .doc_comment = doc_comment,
+            });
         }
 
         return Enumeration{ .name = name, .fields = fields.items };
     }
 
-    fn parseStructureDefinition(self: *Self) !Structure {
+    fn parseStructureDefinition(self: *Self, options: StructureOptions) !Structure {
         var tokens = &self.token_iterator;
 
         const definition_name = try self.parsePascalDefinitionName();
@@ -1747,7 +2985,7 @@ pub const DefinitionIterator = struct {
             self.expect_error,
         );
 
-        return switch (left_angle_or_left_brace) {
+        var structure = switch (left_angle_or_left_brace) {
             .left_brace => Structure{
                 .plain = try self.parsePlainStructureDefinition(definition_name),
             },
@@ -1759,6 +2997,13 @@ pub const DefinitionIterator = struct {
                 .{left_angle_or_left_brace},
             ),
         };
+
+        switch (structure) {
+            .plain => |*p| p.strict = options.strict,
+            .generic => |*g| g.strict = options.strict,
+        }
+
+        return structure;
     }
 
     fn parsePlainStructureDefinition(
@@ -1766,6 +3011,8 @@ pub const DefinitionIterator = struct {
         definition_name: DefinitionName,
     ) !PlainStructure {
         var fields = ArrayList(Field).init(self.allocator);
+        var code_names = FieldCodeNameMap.init(self.allocator);
+        defer code_names.deinit();
         const tokens = &self.token_iterator;
 
         try self.expectNewline();
@@ -1776,11 +3023,15 @@ pub const DefinitionIterator = struct {
                     .right_brace => done_parsing_fields = true,
                     else => {
                         try fields.append(
-                            try self.parseStructureField(definition_name, &[_][]const u8{}),
+                            try self.parseStructureField(
+                                definition_name,
+                                &[_][]const u8{},
+                                &code_names,
+                            ),
                         );
                     },
                 }
-            }
+            } else return error.UnexpectedEndOfTokenStream;
         }
         _ = try tokens.expect(Token.right_brace, self.expect_error);
 
@@ -1819,6 +3070,8 @@ pub const DefinitionIterator = struct {
         definition_name: DefinitionName,
     ) !GenericStructure {
         var fields = ArrayList(Field).init(self.allocator);
+        var code_names = FieldCodeNameMap.init(self.allocator);
+        defer code_names.deinit();
         const tokens = &self.token_iterator;
 
         const open_names = try self.parseOpenNames();
@@ -1834,7 +3087,9 @@ pub const DefinitionIterator = struct {
                 }
             }
             if (!done_parsing_fields) {
-                try fields.append(try self.parseStructureField(definition_name, open_names));
+                try fields.append(
+                    try self.parseStructureField(definition_name, open_names, &code_names),
+                );
             }
         }
         _ = try tokens.expect(Token.right_brace, self.expect_error);
@@ -1846,7 +3101,7 @@ pub const DefinitionIterator = struct {
         };
     }
 
-    fn parseUnionDefinition(self: *Self, tag_field: []const u8) !Union {
+    fn parseUnionDefinition(self: *Self, tag_field: []const u8, strict: bool) !Union {
         const tokens = &self.token_iterator;
 
         const definition_name = try self.parsePascalDefinitionName();
@@ -1858,7 +3113,7 @@ pub const DefinitionIterator = struct {
             self.expect_error,
         );
 
-        return switch (left_angle_or_left_brace) {
+        var u = switch (left_angle_or_left_brace) {
             .left_brace => Union{
                 .plain = try self.parsePlainUnionDefinition(definition_name, tag_field),
             },
@@ -1870,6 +3125,14 @@ pub const DefinitionIterator = struct {
                 .{left_angle_or_left_brace},
             ),
         };
+
+        switch (u) {
+            .plain => |*p| p.strict = strict,
+            .generic => |*g| g.strict = strict,
+            .embedded => unreachable,
+        }
+
+        return u;
     }
 
     fn parseEmbeddedUnionDefinition(self: *Self, options: UnionOptions) !EmbeddedUnion {
@@ -1898,6 +3161,7 @@ pub const DefinitionIterator = struct {
         var constructors = ArrayList(ConstructorWithEmbeddedTypeTag).init(self.allocator);
         var done_parsing_constructors = false;
         while (!done_parsing_constructors) {
+            const doc_comment = try self.parseDocComment();
             try tokens.skipMany(Token.space, 4, self.expect_error);
             const tag = switch (try tokens.expectOneOf(
                 &[_]TokenTag{ .name, .symbol },
@@ -1907,11 +3171,17 @@ pub const DefinitionIterator = struct {
                 .symbol => |s| try self.allocator.dupe(u8, s),
                 else => unreachable,
             };
+            try self.addConstructorName(definition_name, tag, Location{
+                .filename = tokens.filename,
+                .line = tokens.line,
+                .column = tokens.column - tag.len,
+            });
 
             switch (try tokens.expectOneOf(&[_]TokenTag{ .colon, .newline, .crlf }, self.expect_error)) {
                 .newline, .crlf => try constructors.append(ConstructorWithEmbeddedTypeTag{
                     .tag = tag,
                     .parameter = null,
+                    .doc_comment = doc_comment,
                 }),
                 .colon => {
                     _ = try tokens.expect(Token.space, self.expect_error);
@@ -1941,6 +3211,7 @@ pub const DefinitionIterator = struct {
                         try constructors.append(ConstructorWithEmbeddedTypeTag{
                             .tag = tag,
                             .parameter = parameter,
+                            .doc_comment = doc_comment,
                         });
 
                         try self.expectNewline();
@@ -1970,6 +3241,7 @@ pub const DefinitionIterator = struct {
             .constructors = constructors.items,
             .open_names = open_names,
             .tag_field = options.tag_field,
+            .strict = options.strict,
         };
     }
 
@@ -2028,7 +3300,7 @@ pub const DefinitionIterator = struct {
                         );
                     },
                 }
-            }
+            } else return error.UnexpectedEndOfTokenStream;
         }
         _ = try tokens.expect(Token.right_brace, self.expect_error);
 
@@ -2047,6 +3319,7 @@ pub const DefinitionIterator = struct {
     ) !Constructor {
         const tokens = &self.token_iterator;
 
+        const doc_comment = try self.parseDocComment();
         _ = try tokens.skipMany(Token.space, 4, self.expect_error);
 
         const tag = switch (try tokens.expectOneOf(
@@ -2057,6 +3330,11 @@ pub const DefinitionIterator = struct {
             .symbol => |s| try self.allocator.dupe(u8, s),
             else => unreachable,
         };
+        try self.addConstructorName(definition_name, tag, Location{
+            .filename = tokens.filename,
+            .line = tokens.line,
+            .column = tokens.column - tag.len,
+        });
 
         const colon_or_newline = try tokens.expectOneOf(
             &[_]TokenTag{ .colon, .newline, .crlf },
@@ -2064,14 +3342,14 @@ pub const DefinitionIterator = struct {
         );
 
         if (colon_or_newline == Token.newline or colon_or_newline == Token.crlf) {
-            return Constructor{ .tag = tag, .parameter = Type.empty };
+            return Constructor{ .tag = tag, .parameter = Type.empty, .doc_comment = doc_comment };
         }
 
         _ = try tokens.expect(Token.space, self.expect_error);
 
         const parameter = try self.parseFieldType(definition_name, open_names);
 
-        return Constructor{ .tag = tag, .parameter = parameter };
+        return Constructor{ .tag = tag, .parameter = parameter, .doc_comment = doc_comment };
     }
 
     fn parseAdditionalName(self: *Self) ![]const u8 {
@@ -2086,19 +3364,105 @@ pub const DefinitionIterator = struct {
         self: *Self,
         definition_name: DefinitionName,
         open_names: []const []const u8,
+        code_names: *FieldCodeNameMap,
     ) !Field {
         var tokens = &self.token_iterator;
+        const doc_comment = try self.parseDocComment();
         _ = try tokens.skipMany(Token.space, 4, self.expect_error);
+        const field_location = tokens.location();
         const field_name = try self.allocator.dupe(
             u8,
             (try tokens.expect(Token.symbol, self.expect_error)).symbol,
         );
-        _ = try tokens.expect(Token.colon, self.expect_error);
+        var code_name: ?[]const u8 = null;
+        var optional_key = false;
+        var required_key = false;
+        var token = try tokens.expectOneOf(
+            &[_]TokenTag{ .colon, .question_mark, .exclamation_mark, .space },
+            self.expect_error,
+        );
+        if (token == .space) {
+            const as_location = tokens.location();
+            const as_keyword = try tokens.expect(Token.symbol, self.expect_error);
+            if (!mem.eql(u8, as_keyword.symbol, "as")) {
+                self.expect_error.* = ExpectError{
+                    .one_of = .{
+                        .expectations = &[_]TokenTag{ .colon, .question_mark, .exclamation_mark },
+                        .got = as_keyword,
+                        .location = as_location,
+                    },
+                };
+
+                return error.UnexpectedToken;
+            }
+            _ = try tokens.expect(Token.space, self.expect_error);
+            code_name = try self.allocator.dupe(
+                u8,
+                (try tokens.expect(Token.symbol, self.expect_error)).symbol,
+            );
+            token = try tokens.expectOneOf(
+                &[_]TokenTag{ .colon, .question_mark, .exclamation_mark },
+                self.expect_error,
+            );
+        }
+        switch (token) {
+            .question_mark => optional_key = true,
+            .exclamation_mark => required_key = true,
+            else => {},
+        }
+        if (token != .colon) _ = try tokens.expect(Token.colon, self.expect_error);
         _ = try tokens.expect(Token.space, self.expect_error);
 
+        // `!` only makes a difference for optional types, whose keys can otherwise be left out
+        if (required_key) {
+            const type_location = tokens.location();
+            const type_token = (try tokens.peek()) orelse return error.UnexpectedEndOfTokenStream;
+            if (type_token != .question_mark) {
+                self.expect_error.* = ExpectError{
+                    .token = .{
+                        .expectation = .question_mark,
+                        .got = type_token,
+                        .location = type_location,
+                    },
+                };
+
+                return error.UnexpectedToken;
+            }
+        }
+
         const field_type = try self.parseFieldType(definition_name, open_names);
 
-        return Field{ .name = field_name, .type = field_type };
+        if (code_name == null and self.naming == .camel_case) {
+            const camel_case_name = try utilities.snakeCaseToCamelCase(self.allocator, field_name);
+            if (mem.eql(u8, camel_case_name, field_name)) {
+                self.allocator.free(camel_case_name);
+            } else {
+                code_name = camel_case_name;
+            }
+        }
+
+        const code_name_result = try code_names.getOrPut(code_name orelse field_name);
+        if (code_name_result.found_existing) {
+            self.parsing_error.* = ParsingError{
+                .field_name_collision = FieldNameCollision{
+                    .name = code_name orelse field_name,
+                    .location = field_location,
+                    .previous_location = code_name_result.value_ptr.*,
+                },
+            };
+
+            return error.FieldNameCollision;
+        }
+        code_name_result.value_ptr.* = field_location;
+
+        return Field{
+            .name = field_name,
+            .type = field_type,
+            .optional_key = optional_key,
+            .required_key = required_key,
+            .code_name = code_name,
+            .doc_comment = doc_comment,
+        };
     }
 
     fn parseMaybeAppliedName(
@@ -2160,11 +3524,11 @@ pub const DefinitionIterator = struct {
         OutOfMemory,
         UnexpectedToken,
         UnexpectedEndOfTokenStream,
-        Overflow,
-        InvalidCharacter,
+        InvalidToken,
         UnknownModule,
         UnknownReference,
         AppliedNameCount,
+        InvalidMapKey,
     };
 
     fn parseImportedMaybeAppliedName(
@@ -2174,7 +3538,7 @@ pub const DefinitionIterator = struct {
         definition_name: DefinitionName,
         name: []const u8,
         open_names: []const []const u8,
-        import_name: []const u8,
+        import: Import,
     ) ParseImportedMaybeAppliedNameErrors!?AppliedName {
         const name_location = Location{
             .filename = tokens.filename,
@@ -2204,7 +3568,7 @@ pub const DefinitionIterator = struct {
                         source_definitions,
                         name,
                         name_location,
-                        import_name,
+                        import,
                     );
 
                     const expected_applied_name_count = reference.openNames().len;
@@ -2232,11 +3596,11 @@ pub const DefinitionIterator = struct {
         OutOfMemory,
         UnexpectedToken,
         UnexpectedEndOfTokenStream,
-        Overflow,
-        InvalidCharacter,
+        InvalidToken,
         UnknownModule,
         UnknownReference,
         AppliedNameCount,
+        InvalidMapKey,
     };
 
     fn parseAppliedOpenNames(
@@ -2260,7 +3624,7 @@ pub const DefinitionIterator = struct {
                     "Invalid type parsed for applied open name: {}\n",
                     .{parsed_type},
                 ),
-                .array, .slice, .pointer, .optional, .reference => {
+                .array, .slice, .pointer, .optional, .reference, .map => {
                     try applied_open_names.append(AppliedOpenName{ .reference = parsed_type });
                 },
             }
@@ -2281,11 +3645,11 @@ pub const DefinitionIterator = struct {
         OutOfMemory,
         UnexpectedToken,
         UnexpectedEndOfTokenStream,
-        InvalidCharacter,
-        Overflow,
+        InvalidToken,
         UnknownModule,
         UnknownReference,
         AppliedNameCount,
+        InvalidMapKey,
     };
 
     fn parseType(
@@ -2303,6 +3667,10 @@ pub const DefinitionIterator = struct {
         return switch (start_token) {
             .string => |s| Type{ .string = try self.allocator.dupe(u8, s) },
             .name => |name| result: {
+                if (mem.eql(u8, name, "Map")) {
+                    break :result Type{ .map = try self.parseMap(definition_name, open_names) };
+                }
+
                 if (try self.parseMaybeAppliedName(
                     definition_name,
                     name,
@@ -2326,13 +3694,13 @@ pub const DefinitionIterator = struct {
                 }
             },
             .symbol => |s| result: {
-                const module_name = s;
-                if (!self.hasImport(module_name))
+                const import = self.getQualifiedImport(s) orelse
                     return try self.returnUnknownModuleError(
-                        Type,
-                        module_name,
-                        tokens.filename,
-                    );
+                    Type,
+                    s,
+                    tokens.filename,
+                );
+                const module_name = import.name.value;
                 _ = try tokens.expect(Token.period, self.expect_error);
                 const module_definition_name = (try tokens.expect(
                     Token.name,
@@ -2352,7 +3720,7 @@ pub const DefinitionIterator = struct {
                         definition_name,
                         module_definition_name,
                         open_names,
-                        module_name,
+                        import,
                     )) |applied_name| {
                         break :result Type{ .reference = TypeReference{ .applied_name = applied_name } };
                     } else if (module.definition_iterator.getDefinition(
@@ -2363,6 +3731,7 @@ pub const DefinitionIterator = struct {
                                 .imported_definition = ImportedDefinition{
                                     .import_name = module_name,
                                     .definition = d,
+                                    .alias = import.alias,
                                 },
                             },
                         };
@@ -2434,20 +3803,53 @@ pub const DefinitionIterator = struct {
         };
     }
 
-    fn hasImport(self: Self, import_name: []const u8) bool {
+    fn parseMap(
+        self: *Self,
+        definition_name: DefinitionName,
+        open_names: []const []const u8,
+    ) ParseTypeError!Map {
+        const tokens = &self.token_iterator;
+
+        _ = try tokens.expect(Token.left_angle, self.expect_error);
+        const key_location = Location{
+            .filename = tokens.filename,
+            .line = tokens.line,
+            .column = tokens.column,
+        };
+        const key = try self.allocator.create(Type);
+        key.* = try self.parseType(definition_name, open_names);
+        if (!isValidMapKey(key.*)) {
+            self.parsing_error.* = ParsingError{
+                .invalid_map_key = InvalidMapKey{ .key = key.*, .location = key_location },
+            };
+
+            return error.InvalidMapKey;
+        }
+
+        _ = try tokens.expect(Token.comma, self.expect_error);
+        _ = try tokens.expect(Token.space, self.expect_error);
+        const value = try self.allocator.create(Type);
+        value.* = try self.parseType(definition_name, open_names);
+        _ = try tokens.expect(Token.right_angle, self.expect_error);
+
+        return Map{ .key = key, .value = value };
+    }
+
+    /// Finds the import that binds `qualifier` as a module name, either the module's own name or the
+    /// alias it was imported as. Selective imports only bind the names they list.
+    fn getQualifiedImport(self: Self, qualifier: []const u8) ?Import {
         // This matters mostly because otherwise we might output code that,
         // while it outputs the correct validators and knows that the imported module has been
         // parsed, it doesn't have a reference to the other module in the output.
         // Ideally this would be automatic from imported modules, but that's more work than I care
         // to put into that particular part right now.
-        for (self.imports.items, 0..) |import, i| {
-            _ = i;
-            if (mem.eql(u8, import.name.value, import_name)) {
-                return true;
+        for (self.imports.items) |import| {
+            if (!import.isSelective() and mem.eql(u8, import.alias, qualifier)) {
+                return import;
             }
         }
 
-        return false;
+        return null;
     }
 
     fn parseFieldType(
@@ -2463,6 +3865,19 @@ pub const DefinitionIterator = struct {
     }
 
     fn addDefinition(self: *Self, name: DefinitionName, definition: Definition) !void {
+        if (self.constructor_names.get(name.value)) |constructor_name| {
+            try self.returnConstructorNameCollision(
+                void,
+                name.value,
+                name.location,
+                constructor_name.location,
+            );
+        }
+
+        if (self.getImportedName(name.value)) |imported_definition| {
+            try self.returnDuplicateDefinition(void, name, definition, imported_definition.definition);
+        }
+
         const result = try self.named_definitions.getOrPut(name.value);
 
         if (result.found_existing)
@@ -2471,6 +3886,30 @@ pub const DefinitionIterator = struct {
             result.value_ptr.* = definition;
     }
 
+    fn addConstructorName(
+        self: *Self,
+        union_name: DefinitionName,
+        tag: []const u8,
+        location: Location,
+    ) !void {
+        if (self.getDefinition(tag)) |definition| {
+            try self.returnConstructorNameCollision(void, tag, location, definition.name().location);
+        }
+
+        if (mem.eql(u8, tag, union_name.value)) {
+            try self.returnConstructorNameCollision(void, tag, location, union_name.location);
+        }
+
+        const result = try self.constructor_names.getOrPut(tag);
+        if (!result.found_existing) {
+            result.value_ptr.* = ConstructorName{ .union_name = union_name.value, .location = location };
+        } else if (!self.namespaced_constructors or
+            mem.eql(u8, result.value_ptr.union_name, union_name.value))
+        {
+            try self.returnConstructorNameCollision(void, tag, location, result.value_ptr.location);
+        }
+    }
+
     pub fn getDefinition(self: Self, name: []const u8) ?Definition {
         return if (self.named_definitions.getEntry(name)) |definition|
             definition.value_ptr.*
@@ -2491,6 +3930,8 @@ pub const DefinitionIterator = struct {
             TypeReference{ .builtin = Builtin.fromString(name) }
         else if (self.getDefinition(name)) |found_definition|
             TypeReference{ .definition = found_definition }
+        else if (self.getImportedName(name)) |imported_definition|
+            TypeReference{ .imported_definition = imported_definition }
         else if (mem.eql(u8, name, current_definition_name.value))
             TypeReference{
                 .loose = LooseReference{
@@ -2509,14 +3950,15 @@ pub const DefinitionIterator = struct {
         source_definitions: *DefinitionIterator,
         name: []const u8,
         name_location: Location,
-        import_name: []const u8,
+        import: Import,
     ) !TypeReference {
         _ = source_definitions;
         return if (self.getDefinition(name)) |found_definition|
             TypeReference{
                 .imported_definition = ImportedDefinition{
-                    .import_name = import_name,
+                    .import_name = import.name.value,
                     .definition = found_definition,
+                    .alias = import.alias,
                 },
             }
         else
@@ -2582,6 +4024,24 @@ pub const DefinitionIterator = struct {
         return error.DuplicateDefinition;
     }
 
+    fn returnConstructorNameCollision(
+        self: Self,
+        comptime T: type,
+        name: []const u8,
+        location: Location,
+        previous_location: Location,
+    ) !T {
+        self.parsing_error.* = ParsingError{
+            .constructor_name_collision = ConstructorNameCollision{
+                .name = name,
+                .location = location,
+                .previous_location = previous_location,
+            },
+        };
+
+        return error.ConstructorNameCollision;
+    }
+
     fn returnAppliedNameCountError(
         self: Self,
         comptime T: type,
@@ -2603,6 +4063,65 @@ pub const DefinitionIterator = struct {
     }
 };
 
+/// The name that a definition starting on `line` defines, i.e. `Name` for
+/// `union(tag = kind) Name<T> {`, or `null` for imports and other lines that don't define names.
+fn definitionNameInLine(line: []const u8) ?[]const u8 {
+    const line_end = mem.indexOfAny(u8, line, "\r\n") orelse line.len;
+    if (mem.startsWith(u8, line, "import ") or mem.startsWith(u8, line, "naming ")) return null;
+
+    // options in parentheses can contain anything, but they always come before the name
+    const options_end = if (mem.indexOfScalar(u8, line[0..line_end], ')')) |i| i + 1 else 0;
+    const name_start = options_end + (mem.indexOfAny(
+        u8,
+        line[options_end..line_end],
+        "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+    ) orelse return null);
+
+    var name_end = name_start;
+    while (name_end < line_end and
+        (std.ascii.isAlphanumeric(line[name_end]) or line[name_end] == '_')) : (name_end += 1)
+    {}
+
+    return line[name_start..name_end];
+}
+
+fn freeDocComment(allocator: mem.Allocator, doc_comment: ?[]const u8) void {
+    if (doc_comment) |c| allocator.free(c);
+}
+
+fn isEqualDocComment(a: ?[]const u8, b: ?[]const u8) bool {
+    if (a) |a_comment| {
+        return if (b) |b_comment| mem.eql(u8, a_comment, b_comment) else false;
+    }
+
+    return b == null;
+}
+
+/// Map keys are always strings on the wire, so we only allow types that are represented as
+/// strings.
+fn isValidMapKey(t: Type) bool {
+    return switch (t) {
+        .string => true,
+        .reference => |r| switch (r) {
+            .builtin => |b| b == .String,
+            .definition => |d| isValidMapKeyDefinition(d),
+            .imported_definition => |id| isValidMapKeyDefinition(id.definition),
+            .loose, .open, .applied_name => false,
+        },
+        .empty, .array, .slice, .pointer, .optional, .map => false,
+    };
+}
+
+fn isValidMapKeyDefinition(d: Definition) bool {
+    return switch (d) {
+        .enumeration => |e| for (e.fields) |f| {
+            if (f.value != .string) break false;
+        } else true,
+        .newtype => |n| isValidMapKey(n.type.*),
+        .structure, .@"union", .untagged_union, .import, .declaration => false,
+    };
+}
+
 fn isBuiltin(name: []const u8) bool {
     return utilities.isStringEqualToOneOf(name, &[_][]const u8{
         "String",
@@ -2611,12 +4130,18 @@ fn isBuiltin(name: []const u8) bool {
         "U16",
         "U32",
         "U64",
+        "U128",
         "I8",
         "I16",
         "I32",
         "I64",
+        "I128",
         "F32",
         "F64",
+        "F128",
+        "Date",
+        "DateTime",
+        "Duration",
     });
 }
 
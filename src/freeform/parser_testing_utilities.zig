@@ -145,6 +145,15 @@ pub fn expectEqualDefinitions(as: []const Definition, bs: []const Definition) vo
                 .import => |import| {
                     expectEqualImports(import, b.import);
                 },
+
+                .declaration => |d| {
+                    if (!d.isEqual(b.declaration)) {
+                        testing_utilities.testPanic(
+                            "Different declarations: {s}.{} != {s}.{}\n",
+                            .{ d.module, d.name, b.declaration.module, b.declaration.name },
+                        );
+                    }
+                },
             }
         }
     }
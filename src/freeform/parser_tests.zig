@@ -1,5 +1,6 @@
 const std = @import("std");
 const mem = std.mem;
+const heap = std.heap;
 const testing = std.testing;
 const debug = std.debug;
 
@@ -23,6 +24,7 @@ const EnumerationValue = parser.EnumerationValue;
 const DefinitionName = parser.DefinitionName;
 const BufferData = parser.BufferData;
 const Import = parser.Import;
+const Declaration = parser.Declaration;
 const Location = utilities.Location;
 const Slice = parser.Slice;
 const Array = parser.Array;
@@ -1030,6 +1032,7 @@ test "Parsing an import reference leads to two identical definitions in definiti
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
 
@@ -1278,6 +1281,7 @@ test "Parsing an imported reference works even with nested ones" {
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
 
@@ -1326,6 +1330,7 @@ test "Parsing an imported definition without importing it errors out" {
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
     testing.expectError(error.UnknownModule, modules);
@@ -1378,6 +1383,7 @@ test "Parsing a slice type of an imported definition without importing it errors
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
     testing.expectError(error.UnknownModule, modules);
@@ -1441,6 +1447,7 @@ test "Parsing a slice type of an imported definition in an already imported appl
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
     testing.expectError(error.UnknownModule, modules);
@@ -1483,6 +1490,7 @@ test "Using an applied name with less open names than it requires errors out" {
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
     testing.expectError(error.AppliedNameCount, modules);
@@ -1529,6 +1537,7 @@ test "Using an imported applied name with less open names than it requires error
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
     testing.expectError(error.AppliedNameCount, modules);
@@ -1564,6 +1573,7 @@ test "Parsing an applied name that doesn't exist gives correct error" {
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
     testing.expectError(error.UnknownReference, compiled_modules);
@@ -1609,6 +1619,7 @@ test "Parsing an imported applied name that doesn't exist gives correct error" {
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
     testing.expectError(error.UnknownReference, compiled_modules);
@@ -1623,3 +1634,986 @@ test "Parsing an imported applied name that doesn't exist gives correct error" {
         else => unreachable,
     }
 }
+
+test "Parsing declarations of external types makes them referable" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\declare money.Money
+        \\
+        \\declare external.Result<T, E>
+        \\
+        \\struct Wallet {
+        \\    balance: Money
+        \\    last: Result<Money, String>
+        \\}
+        \\
+    ;
+
+    const expected_declarations = [_]Definition{
+        .{
+            .declaration = Declaration{
+                .name = DefinitionName{
+                    .value = "Money",
+                    .location = Location{ .filename = "test.gotyno", .line = 1, .column = 15 },
+                },
+                .module = "money",
+                .open_names = &[_][]const u8{},
+            },
+        },
+        .{
+            .declaration = Declaration{
+                .name = DefinitionName{
+                    .value = "Result",
+                    .location = Location{ .filename = "test.gotyno", .line = 3, .column = 18 },
+                },
+                .module = "external",
+                .open_names = &[_][]const u8{ "T", "E" },
+            },
+        },
+    };
+
+    var parsing_error: ParsingError = undefined;
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    for (expected_declarations, 0..) |expected, i| {
+        try testing.expect(expected.isEqual(module.definitions[i]));
+    }
+
+    const fields = module.definitions[2].structure.plain.fields;
+    try testing.expect(fields[0].type.reference.definition.isEqual(module.definitions[0]));
+    try testing.expect(
+        fields[1].type.reference.applied_name.reference.definition.isEqual(module.definitions[1]),
+    );
+}
+
+test "Parsing `strict` options marks structures and unions as strict" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct(strict) Credentials {
+        \\    username: String
+        \\}
+        \\
+        \\struct Loose {
+        \\    name: String
+        \\}
+        \\
+        \\union(strict) Plain {
+        \\    Nothing
+        \\}
+        \\
+        \\union(tag = kind, embedded, strict) Command {
+        \\    Login: Credentials
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    try testing.expect(module.definitions[0].structure.plain.strict);
+    try testing.expect(!module.definitions[1].structure.plain.strict);
+    try testing.expect(module.definitions[2].@"union".plain.strict);
+    try testing.expect(module.definitions[3].@"union".embedded.strict);
+    try testing.expectEqualStrings("kind", module.definitions[3].@"union".embedded.tag_field);
+}
+
+test "Field names are translated by `as`, the module's naming convention or the parsing options" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const buffers = [_]BufferData{
+        .{
+            .filename = "convention.gotyno",
+            .buffer =
+            \\naming unchanged
+            \\
+            \\struct Kept {
+            \\    poster_path: String
+            \\}
+            \\
+            ,
+        },
+        .{
+            .filename = "options.gotyno",
+            .buffer =
+            \\struct Renamed {
+            \\    poster_path: String
+            \\    title: String
+            \\    on_vacation as away: Boolean
+            \\}
+            \\
+            ,
+        },
+    };
+
+    var parsing_error: ParsingError = undefined;
+    const modules = try parser.parseModules(
+        allocator,
+        allocator,
+        &buffers,
+        .{ .naming = .camel_case },
+        &parsing_error,
+    );
+
+    const kept = modules.get("convention").?.definitions[0].structure.plain.fields;
+    try testing.expectEqualStrings("poster_path", kept[0].codeName());
+    try testing.expect(!kept[0].isRenamed());
+
+    const renamed = modules.get("options").?.definitions[0].structure.plain.fields;
+    try testing.expectEqualStrings("poster_path", renamed[0].name);
+    try testing.expectEqualStrings("posterPath", renamed[0].codeName());
+    try testing.expect(!renamed[1].isRenamed());
+    try testing.expectEqualStrings("on_vacation", renamed[2].name);
+    try testing.expectEqualStrings("away", renamed[2].codeName());
+}
+
+test "Fields with the same names in code give collision errors with both locations" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const camel_case_buffer =
+        \\struct Person {
+        \\    firstName: String
+        \\    first_name: String
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    _ = try parser.parse(allocator, allocator, "test.gotyno", camel_case_buffer, null, &parsing_error);
+
+    try testing.expectError(
+        error.FieldNameCollision,
+        parser.parseWithOptions(
+            allocator,
+            allocator,
+            "test.gotyno",
+            camel_case_buffer,
+            null,
+            .{ .naming = .camel_case },
+            &parsing_error,
+        ),
+    );
+
+    try testing.expectEqualStrings(
+        "Field name collision for `firstName` at test.gotyno:3:5, name already used at test.gotyno:2:5\n",
+        try parser.describeParsingError(allocator, parsing_error),
+    );
+
+    const as_buffer =
+        \\struct Pair <T>{
+        \\    left as value: T
+        \\    right as value: T
+        \\}
+        \\
+    ;
+
+    try testing.expectError(
+        error.FieldNameCollision,
+        parser.parse(allocator, allocator, "test.gotyno", as_buffer, null, &parsing_error),
+    );
+
+    switch (parsing_error) {
+        .field_name_collision => |d| {
+            try testing.expectEqualStrings("value", d.name);
+            try testing.expectEqual(d.location.line, 3);
+            try testing.expectEqual(d.location.column, 5);
+            try testing.expectEqual(d.previous_location.line, 2);
+            try testing.expectEqual(d.previous_location.column, 5);
+        },
+        else => unreachable,
+    }
+}
+
+test "Fields with `?` after their names have optional keys and ones with `!` required keys" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Profile {
+        \\    nickname?: String
+        \\    middle_name!: ?String
+        \\    website: ?String
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+    const module = try parser.parse(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const fields = module.definitions[0].structure.plain.fields;
+    try testing.expect(fields[0].optional_key and !fields[0].required_key);
+    try testing.expect(!fields[1].optional_key and fields[1].required_key);
+    try testing.expect(!fields[2].optional_key and !fields[2].required_key);
+
+    try testing.expectError(
+        error.UnexpectedToken,
+        parser.parse(
+            allocator,
+            allocator,
+            "test.gotyno",
+            "struct Profile {\n    nickname!: String\n}\n",
+            null,
+            &parsing_error,
+        ),
+    );
+
+    switch (parsing_error) {
+        .expect => |expect| switch (expect) {
+            .token => |token| {
+                try testing.expectEqual(TokenTag.question_mark, token.expectation);
+                try testing.expectEqualStrings("String", token.got.name);
+                try testing.expectEqual(token.location.line, 2);
+                try testing.expectEqual(token.location.column, 16);
+            },
+            else => unreachable,
+        },
+        else => unreachable,
+    }
+}
+
+test "Words other than `as` after field names give an unexpected token error" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Person {
+        \\    on_vacation is away: Boolean
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    try testing.expectError(
+        error.UnexpectedToken,
+        parser.parse(allocator, allocator, "test.gotyno", definition_buffer, null, &parsing_error),
+    );
+
+    switch (parsing_error) {
+        .expect => |expect| switch (expect) {
+            .one_of => |one_of| {
+                try testing.expectEqualSlices(
+                    TokenTag,
+                    &[_]TokenTag{ .colon, .question_mark, .exclamation_mark },
+                    one_of.expectations,
+                );
+                try testing.expectEqualStrings("is", one_of.got.symbol);
+                try testing.expectEqual(one_of.location.line, 2);
+                try testing.expectEqual(one_of.location.column, 17);
+            },
+            else => unreachable,
+        },
+        else => unreachable,
+    }
+}
+
+test "Comments are skipped and doc comments are attached to what follows them" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\// Nothing in here is output
+        \\/// A person.
+        \\///
+        \\/// Has a name.
+        \\struct Person {
+        \\    /// The full name
+        \\    name: String // not a doc comment
+        \\    // nor is this
+        \\    age: U8
+        \\}
+        \\
+        \\/// Not attached to anything
+        \\
+        \\union Maybe <T>{
+        \\    Nothing
+        \\    /// Holds a value
+        \\    Just: T
+        \\}
+        \\
+        \\enum Color {
+        \\    /// Like blood
+        \\    red = "red"
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    try testing.expectEqual(@as(usize, 3), module.definitions.len);
+
+    const person = module.definitions[0];
+    try testing.expectEqualStrings("A person.\n\nHas a name.", person.docComment().?);
+    try testing.expectEqualStrings("The full name", person.structure.plain.fields[0].doc_comment.?);
+    try testing.expect(person.structure.plain.fields[1].doc_comment == null);
+
+    const maybe = module.definitions[1];
+    try testing.expect(maybe.docComment() == null);
+    try testing.expect(maybe.@"union".generic.constructors[0].doc_comment == null);
+    try testing.expectEqualStrings("Holds a value", maybe.@"union".generic.constructors[1].doc_comment.?);
+
+    const color = module.definitions[2];
+    try testing.expectEqualStrings("Like blood", color.enumeration.fields[0].doc_comment.?);
+}
+
+test "Parsing newtypes gives the underlying type, including generic applications" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\union Maybe <T>{
+        \\    Nothing
+        \\    Just: T
+        \\}
+        \\
+        \\newtype UserId = String
+        \\newtype Nickname = Maybe<String>
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const user_id = module.definitions[1].newtype;
+    try testing.expectEqualStrings("UserId", user_id.name.value);
+    try testing.expect(user_id.type.isEqual(Type{ .reference = TypeReference{ .builtin = .String } }));
+
+    const nickname = module.definitions[2].newtype;
+    try testing.expectEqualStrings("Nickname", nickname.name.value);
+    const applied_name = nickname.type.reference.applied_name;
+    try testing.expectEqualStrings("Maybe", applied_name.reference.name());
+    try testing.expect(applied_name.open_names[0].reference.isEqual(
+        Type{ .reference = TypeReference{ .builtin = .String } },
+    ));
+}
+
+test "Input ending in the middle of a definition gives an unexpected end of input error" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    var parsing_error: ParsingError = undefined;
+
+    const module1_filename = "module1.gotyno";
+    const module1_buffer =
+        \\struct One {
+        \\    field1: String
+        \\
+    ;
+
+    var buffers = [_]BufferData{
+        .{ .filename = module1_filename, .buffer = module1_buffer },
+    };
+
+    const compiled_modules = parser.parseModules(
+        allocator,
+        allocator,
+        &buffers,
+        .{},
+        &parsing_error,
+    );
+    try testing.expectError(error.UnexpectedEndOfTokenStream, compiled_modules);
+
+    switch (parsing_error) {
+        .unexpected_end_of_input => |d| {
+            try testing.expectEqualStrings("module1.gotyno", d.location.filename);
+            try testing.expectEqual(d.location.line, 3);
+            try testing.expectEqual(d.location.column, 1);
+        },
+        else => unreachable,
+    }
+
+    try testing.expectEqualStrings(
+        "Unexpected end of input at module1.gotyno:3:1\n",
+        try parser.describeParsingError(allocator, parsing_error),
+    );
+}
+
+test "Parsing maps gives key and value types, and keys that aren't strings on the wire are invalid" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\enum Color {
+        \\    red = "red"
+        \\}
+        \\
+        \\newtype UserId = String
+        \\
+        \\struct Maps {
+        \\    byName: Map<String, U32>
+        \\    byColor: Map<Color, []String>
+        \\    byUser: Map<UserId, Boolean>
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const fields = module.definitions[2].structure.plain.fields;
+    const by_name = fields[0].type.map;
+    try testing.expect(by_name.key.isEqual(Type{ .reference = TypeReference{ .builtin = .String } }));
+    try testing.expect(by_name.value.isEqual(Type{ .reference = TypeReference{ .builtin = .U32 } }));
+    try testing.expectEqualStrings("Color", fields[1].type.map.key.reference.name());
+    try testing.expect(fields[1].type.map.value.* == .slice);
+    try testing.expectEqualStrings("UserId", fields[2].type.map.key.reference.name());
+
+    const invalid_buffer =
+        \\struct Invalid {
+        \\    byNumber: Map<U32, String>
+        \\}
+        \\
+    ;
+
+    try testing.expectError(
+        error.InvalidMapKey,
+        parser.parse(allocator, allocator, "invalid.gotyno", invalid_buffer, null, &parsing_error),
+    );
+
+    switch (parsing_error) {
+        .invalid_map_key => |d| {
+            try testing.expectEqual(d.location.line, 2);
+            try testing.expectEqual(d.location.column, 19);
+        },
+        else => unreachable,
+    }
+
+    try testing.expectEqualStrings(
+        "Invalid map key at invalid.gotyno:2:19, key: U32, expected a string, string literal, enum with string values or newtype of one of those\n",
+        try parser.describeParsingError(allocator, parsing_error),
+    );
+}
+
+test "Enumerations with both string and integer values give an error with both locations" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\enum Priority {
+        \\    low = 1
+        \\    medium = "medium"
+        \\    high = 3
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    try testing.expectError(
+        error.MixedEnumerationValues,
+        parser.parse(allocator, allocator, "test.gotyno", definition_buffer, null, &parsing_error),
+    );
+
+    switch (parsing_error) {
+        .mixed_enumeration_values => |d| {
+            try testing.expectEqualStrings("Priority", d.name);
+            try testing.expectEqual(d.location.line, 3);
+            try testing.expectEqual(d.location.column, 14);
+            try testing.expectEqual(d.first_value_location.line, 2);
+            try testing.expectEqual(d.first_value_location.column, 11);
+        },
+        else => unreachable,
+    }
+
+    try testing.expectEqualStrings(
+        "Mixed string and integer values in enum Priority at test.gotyno:3:14, first value at test.gotyno:2:11\n",
+        try parser.describeParsingError(allocator, parsing_error),
+    );
+}
+
+test "Enumeration values larger than the output languages can represent give an error" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\enum Limits {
+        \\    safe = 9007199254740991
+        \\    unsafe = 9007199254740992
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    try testing.expectError(
+        error.EnumerationValueOutOfRange,
+        parser.parseWithOptions(
+            allocator,
+            allocator,
+            "test.gotyno",
+            definition_buffer,
+            null,
+            .{ .maximum_enumeration_value = 9007199254740991 },
+            &parsing_error,
+        ),
+    );
+
+    switch (parsing_error) {
+        .enumeration_value_out_of_range => |d| {
+            try testing.expectEqualStrings("Limits", d.name);
+            try testing.expectEqual(d.value, 9007199254740992);
+            try testing.expectEqual(d.location.line, 3);
+            try testing.expectEqual(d.location.column, 14);
+        },
+        else => unreachable,
+    }
+
+    try testing.expectEqualStrings(
+        "Enumeration value out of range in enum Limits at test.gotyno:3:14, value: 9007199254740992, largest value the output languages can represent: 9007199254740991\n",
+        try parser.describeParsingError(allocator, parsing_error),
+    );
+
+    const module = try parser.parse(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+    const fields = module.definitions[0].enumeration.fields;
+    try testing.expectEqual(fields[1].value.unsigned_integer, 9007199254740992);
+}
+
+test "Constructors with the same names as other constructors or definitions give collision errors" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const constructors_buffer =
+        \\union Outcome {
+        \\    Ok: String
+        \\    Failed: U32
+        \\}
+        \\
+        \\union Lookup {
+        \\    Ok: U32
+        \\    None
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    try testing.expectError(
+        error.ConstructorNameCollision,
+        parser.parse(allocator, allocator, "test.gotyno", constructors_buffer, null, &parsing_error),
+    );
+
+    try testing.expectEqualStrings(
+        "Constructor name collision for `Ok` at test.gotyno:7:5, name already used at test.gotyno:2:5\n",
+        try parser.describeParsingError(allocator, parsing_error),
+    );
+
+    const module = try parser.parseWithOptions(
+        allocator,
+        allocator,
+        "test.gotyno",
+        constructors_buffer,
+        null,
+        .{ .namespaced_constructors = true },
+        &parsing_error,
+    );
+    try testing.expectEqual(module.definitions.len, 2);
+
+    const definition_buffer =
+        \\union Event {
+        \\    LogIn: String
+        \\}
+        \\
+        \\struct LogIn {
+        \\    name: String
+        \\}
+        \\
+    ;
+
+    try testing.expectError(
+        error.ConstructorNameCollision,
+        parser.parseWithOptions(
+            allocator,
+            allocator,
+            "test.gotyno",
+            definition_buffer,
+            null,
+            .{ .namespaced_constructors = true },
+            &parsing_error,
+        ),
+    );
+
+    switch (parsing_error) {
+        .constructor_name_collision => |d| {
+            try testing.expectEqualStrings("LogIn", d.name);
+            try testing.expectEqual(d.location.line, 5);
+            try testing.expectEqual(d.location.column, 8);
+            try testing.expectEqual(d.previous_location.line, 2);
+            try testing.expectEqual(d.previous_location.column, 5);
+        },
+        else => unreachable,
+    }
+}
+
+test "Imports can alias the module or name definitions that are then used without qualification" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const basic_buffer =
+        \\struct Event {
+        \\    name: String
+        \\}
+        \\
+        \\union Maybe <T>{
+        \\    Nothing
+        \\    Just: T
+        \\}
+        \\
+    ;
+
+    const aliased_buffer =
+        \\import basic as b
+        \\
+        \\struct Holder {
+        \\    event: b.Event
+        \\}
+        \\
+    ;
+
+    const selective_buffer =
+        \\import basic (Event, Maybe)
+        \\
+        \\struct Holder {
+        \\    event: Event
+        \\    maybe: Maybe<Event>
+        \\}
+        \\
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const modules = try parser.parseModules(
+        allocator,
+        allocator,
+        &[_]BufferData{
+            .{ .filename = "basic.gotyno", .buffer = basic_buffer },
+            .{ .filename = "aliased.gotyno", .buffer = aliased_buffer },
+            .{ .filename = "selective.gotyno", .buffer = selective_buffer },
+        },
+        .{},
+        &parsing_error,
+    );
+
+    const aliased = modules.get("aliased").?;
+    try testing.expectEqualStrings("b", aliased.definitions[0].import.alias);
+    const aliased_event = aliased.definitions[1].structure.plain.fields[0].type.reference;
+    try testing.expectEqualStrings("basic", aliased_event.imported_definition.import_name);
+    try testing.expectEqualStrings("b", aliased_event.imported_definition.qualifier().?);
+
+    const selective = modules.get("selective").?;
+    const selective_import = selective.definitions[0].import;
+    try testing.expectEqual(selective_import.names.len, 2);
+    try testing.expectEqualStrings("Maybe", selective_import.names[1].name.value);
+    try testing.expectEqual(selective_import.names[1].name.location.column, 22);
+
+    const selective_fields = selective.definitions[1].structure.plain.fields;
+    const selective_event = selective_fields[0].type.reference.imported_definition;
+    try testing.expectEqualStrings("basic", selective_event.import_name);
+    try testing.expect(selective_event.qualifier() == null);
+    const selective_maybe = selective_fields[1].type.reference.applied_name;
+    try testing.expect(selective_maybe.reference.imported_definition.unqualified);
+
+    const qualified_buffer =
+        \\import basic (Event)
+        \\
+        \\struct Holder {
+        \\    event: basic.Event
+        \\}
+        \\
+    ;
+
+    try testing.expectError(
+        error.UnknownModule,
+        parser.parse(allocator, allocator, "qualified.gotyno", qualified_buffer, modules, &parsing_error),
+    );
+
+    const unknown_name_buffer =
+        \\import basic (Event, Person)
+        \\
+    ;
+
+    try testing.expectError(
+        error.UnknownReference,
+        parser.parse(allocator, allocator, "unknown.gotyno", unknown_name_buffer, modules, &parsing_error),
+    );
+
+    switch (parsing_error) {
+        .unknown_reference => |d| {
+            try testing.expectEqualStrings("Person", d.name);
+            try testing.expectEqual(d.location.line, 1);
+            try testing.expectEqual(d.location.column, 22);
+        },
+        else => unreachable,
+    }
+}
+
+test "Modules are named by their paths relative to module roots and imported by those names" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const module_roots = [_][]const u8{ "schemas/", "vendor" };
+
+    try testing.expectEqualStrings(
+        "shared.common",
+        try parser.moduleName(allocator, "./schemas/shared/common.gotyno", &module_roots),
+    );
+    try testing.expectEqualStrings(
+        "money",
+        try parser.moduleName(allocator, "vendor/money.gotyno", &module_roots),
+    );
+    try testing.expectEqualStrings(
+        "basic",
+        try parser.moduleName(allocator, "test_files/basic.gotyno", &module_roots),
+    );
+
+    const common_buffer =
+        \\struct Money {
+        \\    amount: I32
+        \\}
+        \\
+    ;
+
+    const invoice_buffer =
+        \\import shared.common
+        \\import shared.common as c
+        \\
+        \\struct Invoice {
+        \\    total: common.Money
+        \\    tax: c.Money
+        \\}
+        \\
+    ;
+
+    const imported_module_names = try parser.importedModuleNames(allocator, invoice_buffer);
+    try testing.expectEqual(imported_module_names.len, 2);
+    for (imported_module_names) |name| try testing.expectEqualStrings("shared.common", name);
+
+    var parsing_error: ParsingError = undefined;
+
+    const modules = try parser.parseModules(
+        allocator,
+        allocator,
+        &[_]BufferData{
+            .{ .filename = "schemas/shared/common.gotyno", .buffer = common_buffer },
+            .{ .filename = "schemas/billing/invoice.gotyno", .buffer = invoice_buffer },
+        },
+        .{ .module_roots = &module_roots },
+        &parsing_error,
+    );
+
+    const invoice = modules.get("billing.invoice").?;
+    try testing.expectEqualStrings("shared.common", invoice.definitions[0].import.name.value);
+    try testing.expectEqualStrings("common", invoice.definitions[0].import.alias);
+    try testing.expectEqualStrings("c", invoice.definitions[1].import.alias);
+
+    const fields = invoice.definitions[2].structure.plain.fields;
+    try testing.expectEqualStrings(
+        "shared.common",
+        fields[0].type.reference.imported_definition.import_name,
+    );
+    try testing.expectEqualStrings("c", fields[1].type.reference.imported_definition.qualifier().?);
+}
+
+test "Parsing carries on after errors and every error is described with its source line" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const module_buffer =
+        \\struct One {
+        \\    field1: Strin
+        \\}
+        \\
+        \\strcut Two {
+        \\    field2: String
+        \\}
+        \\
+        \\struct Three {
+        \\    two: Two
+        \\    count: 12ab
+        \\}
+        \\
+        \\struct Four {
+        \\    field4: String %
+        \\}
+        \\
+        \\newtype Five = String
+    ;
+
+    var buffers = [_]BufferData{.{ .filename = "module.gotyno", .buffer = module_buffer }};
+    var parsing_errors = std.ArrayList(ParsingError).init(allocator);
+
+    try testing.expectError(
+        error.UnknownReference,
+        parser.parseModulesReportingErrors(allocator, &buffers, .{}, &parsing_errors),
+    );
+
+    // the reference to `Two` is left out since `Two` couldn't be parsed, and `Five` is parsed even
+    // though the input doesn't end with a line ending
+    try testing.expectEqual(@as(usize, 3), parsing_errors.items.len);
+    try testing.expectEqual(parsing_errors.items[0].location().line, 2);
+    try testing.expectEqual(parsing_errors.items[0].location().column, 13);
+
+    const expected_description =
+        \\Unknown reference found at module.gotyno:2:13, name: Strin
+        \\2 |     field1: Strin
+        \\  |             ^
+        \\
+        \\Unknown keyword `strcut` at module.gotyno:5:1, expected one of: `struct`, `union`, `enum`, `untagged`, `newtype`, `import`, `declare`, `naming`
+        \\5 | strcut Two {
+        \\  | ^
+        \\
+        \\Unexpected token at module.gotyno:15:19:
+        \\	Expected one of: newline, crlf
+        \\	Got: space
+        \\15 |     field4: String %
+        \\   |                   ^
+        \\
+    ;
+
+    try testing.expectEqualStrings(
+        expected_description,
+        try parser.describeParsingErrors(allocator, parsing_errors.items, &buffers),
+    );
+}
+
+test "Parsing several modules carries on after the modules that have errors" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const one_buffer =
+        \\struct One {
+        \\    field1: Strin
+        \\}
+        \\
+    ;
+
+    const two_buffer =
+        \\import one
+        \\
+        \\struct Two {
+        \\    one: one.One
+        \\}
+        \\
+        \\struct Count {
+        \\    count: U3
+        \\}
+        \\
+    ;
+
+    const three_buffer =
+        \\struct Three {
+        \\    field3: Boolean
+        \\    field3: String
+        \\}
+        \\
+    ;
+
+    var buffers = [_]BufferData{
+        .{ .filename = "one.gotyno", .buffer = one_buffer },
+        .{ .filename = "two.gotyno", .buffer = two_buffer },
+        .{ .filename = "three.gotyno", .buffer = three_buffer },
+    };
+    var parsing_errors = std.ArrayList(ParsingError).init(allocator);
+
+    try testing.expectError(
+        error.UnknownReference,
+        parser.parseModulesReportingErrors(allocator, &buffers, .{}, &parsing_errors),
+    );
+
+    // `one` and its uses in `two` don't give errors of their own since the errors in `one` are
+    // already there
+    const expected_description =
+        \\Unknown reference found at one.gotyno:2:13, name: Strin
+        \\2 |     field1: Strin
+        \\  |             ^
+        \\
+        \\Unknown reference found at two.gotyno:8:12, name: U3
+        \\8 |     count: U3
+        \\  |            ^
+        \\
+        \\Field name collision for `field3` at three.gotyno:3:5, name already used at three.gotyno:2:5
+        \\3 |     field3: String
+        \\  |     ^
+        \\
+    ;
+
+    try testing.expectEqualStrings(
+        expected_description,
+        try parser.describeParsingErrors(allocator, parsing_errors.items, &buffers),
+    );
+}
@@ -8,6 +8,7 @@ const process = std.process;
 const io = std.io;
 const fs = std.fs;
 const meta = std.meta;
+const unicode = std.unicode;
 
 const type_examples = @import("type_examples.zig");
 const testing_utilities = @import("testing_utilities.zig");
@@ -38,12 +39,16 @@ pub const Token = union(enum) {
     crlf,
     space,
     question_mark,
+    exclamation_mark,
     asterisk,
     period,
     name: []const u8,
     symbol: []const u8,
     unsigned_integer: usize,
     string: []const u8,
+    /// A line consisting of only a doc comment (`/// ...`), including its indentation and line
+    /// ending. Use `docCommentText` to get the text of the comment.
+    doc_comment: []const u8,
 
     pub fn isEqual(self: Self, t: Self) bool {
         return switch (self) {
@@ -64,6 +69,7 @@ pub const Token = union(enum) {
             .crlf,
             .space,
             .question_mark,
+            .exclamation_mark,
             .asterisk,
             .period,
             => meta.activeTag(self) == meta.activeTag(t),
@@ -75,6 +81,8 @@ pub const Token = union(enum) {
             .unsigned_integer => |n| meta.activeTag(t) == .unsigned_integer and
                 n == t.unsigned_integer,
             .string => |s| meta.activeTag(t) == .string and mem.eql(u8, s, t.string),
+            .doc_comment => |c| meta.activeTag(t) == .doc_comment and
+                mem.eql(u8, c, t.doc_comment),
         };
     }
 
@@ -96,6 +104,7 @@ pub const Token = union(enum) {
             .newline,
             .space,
             .question_mark,
+            .exclamation_mark,
             .asterisk,
             .period,
             => 1,
@@ -106,10 +115,11 @@ pub const Token = union(enum) {
             .name => |n| n.len,
             // +2 because of the quotes
             .string => |s| s.len + 2,
+            .doc_comment => |c| c.len,
             .unsigned_integer => |n| size: {
                 var remainder: usize = n;
                 var digits: usize = 1;
-                while (remainder > 10) : (remainder = @divFloor(remainder, 10)) {
+                while (remainder >= 10) : (remainder = @divFloor(remainder, 10)) {
                     digits += 1;
                 }
 
@@ -119,6 +129,15 @@ pub const Token = union(enum) {
     }
 };
 
+/// Returns the text of a `doc_comment` token, without the slashes, the space following them and
+/// the line ending.
+pub fn docCommentText(doc_comment: []const u8) []const u8 {
+    const comment = mem.trimLeft(u8, doc_comment, " \t");
+    const text = mem.trimRight(u8, comment["///".len..], " \t\r\n");
+
+    return if (mem.startsWith(u8, text, " ")) text[1..] else text;
+}
+
 pub const TokenizeOptions = struct {
     print: bool = false,
 };
@@ -163,9 +182,25 @@ pub const ExpectError = union(enum) {
     one_of: ExpectOneOfError,
 };
 
+pub const InvalidTokenReason = enum {
+    unknown_character,
+    unterminated_string,
+    invalid_number,
+    lone_carriage_return,
+};
+
+/// Indicates that the input has a character that no token starts with, or a token that can't be
+/// read in full.
+pub const InvalidToken = struct {
+    /// The text of the token, or the character that no token starts with.
+    text: []const u8,
+    reason: InvalidTokenReason,
+    location: utilities.Location,
+};
+
 pub const TokenIterator = struct {
     const Self = @This();
-    const delimiters = ";:\" \t\r\n{}[]<>(),.";
+    const delimiters = ";:\" \t\r\n{}[]<>(),.?!";
 
     filename: []const u8,
     buffer: []const u8,
@@ -173,6 +208,12 @@ pub const TokenIterator = struct {
     line: usize,
     column: usize,
 
+    /// Set when `next` returns `error.InvalidToken`.
+    invalid_token: InvalidToken = undefined,
+
+    /// Whether the line ending that is added to input not ending with one has been returned.
+    ended_last_line: bool = false,
+
     pub const NextOptions = struct {
         peek: bool = false,
     };
@@ -196,10 +237,24 @@ pub const TokenIterator = struct {
     }
 
     pub fn next(self: *Self, options: NextOptions) !?Token {
-        if (self.i >= self.buffer.len) return null;
+        self.skipComments();
+
+        if (self.i >= self.buffer.len) {
+            // definitions end with line endings, so input that doesn't end with one is read as if
+            // it did
+            if (self.buffer.len == 0 or self.buffer[self.buffer.len - 1] == '\n' or
+                self.ended_last_line) return null;
+
+            if (!options.peek) self.ended_last_line = true;
+
+            return Token.newline;
+        }
 
         const c = self.buffer[self.i];
-        const token: Token = switch (c) {
+        const token: Token = if (self.docCommentLine()) |line| token: {
+            if (!options.peek) self.line += 1;
+            break :token Token{ .doc_comment = line };
+        } else switch (c) {
             '{' => Token.left_brace,
             '}' => Token.right_brace,
             '[' => Token.left_bracket,
@@ -213,15 +268,16 @@ pub const TokenIterator = struct {
             ',' => Token.comma,
             ':' => Token.colon,
             '?' => Token.question_mark,
+            '!' => Token.exclamation_mark,
             '*' => Token.asterisk,
             '.' => Token.period,
             ' ' => Token.space,
             '\r' => token: {
-                if (self.buffer[self.i + 1] == '\n') {
+                if (self.i + 1 < self.buffer.len and self.buffer[self.i + 1] == '\n') {
                     if (!options.peek) self.line += 1;
                     break :token Token.crlf;
                 } else {
-                    @panic("Carriage return not followed up by line feed");
+                    return self.invalidToken(self.buffer[self.i..(self.i + 1)], .lone_carriage_return);
                 }
             },
             '\n' => token: {
@@ -229,36 +285,16 @@ pub const TokenIterator = struct {
                 break :token Token.newline;
             },
 
-            'A'...'Z' => token: {
-                if (mem.indexOfAny(u8, self.buffer[self.i..], delimiters)) |delimiter_index| {
-                    const name_end = self.i + delimiter_index;
-                    break :token Token{ .name = self.buffer[self.i..name_end] };
-                } else {
-                    @panic("unexpected endless pascal symbol");
-                }
-            },
-
-            'a'...'z' => token: {
-                if (mem.indexOfAny(u8, self.buffer[self.i..], delimiters)) |delimiter_index| {
-                    const symbol_end = self.i + delimiter_index;
-                    break :token Token{ .symbol = self.buffer[self.i..symbol_end] };
-                } else {
-                    @panic("unexpected endless lowercase symbol");
-                }
-            },
+            // names, symbols and numbers can end the input, since they end where the input does
+            'A'...'Z' => Token{ .name = self.buffer[self.i..self.delimiterIndex()] },
+            'a'...'z' => Token{ .symbol = self.buffer[self.i..self.delimiterIndex()] },
 
             '0'...'9' => token: {
-                if (mem.indexOfAny(u8, self.buffer[self.i..], delimiters)) |delimiter_index| {
-                    const unsigned_integer_end = self.i + delimiter_index;
-                    const unsigned_integer = try fmt.parseInt(
-                        usize,
-                        self.buffer[self.i..unsigned_integer_end],
-                        10,
-                    );
-                    break :token Token{ .unsigned_integer = unsigned_integer };
-                } else {
-                    @panic("unexpected endless number");
-                }
+                const number = self.buffer[self.i..self.delimiterIndex()];
+                const unsigned_integer = fmt.parseInt(usize, number, 10) catch
+                    return self.invalidToken(number, .invalid_number);
+
+                break :token Token{ .unsigned_integer = unsigned_integer };
             },
 
             '"' => token: {
@@ -267,17 +303,29 @@ pub const TokenIterator = struct {
                     const string_end = string_start + quote_index;
                     break :token Token{ .string = self.buffer[string_start..string_end] };
                 } else {
-                    @panic("unexpected endless string");
+                    const line_end = mem.indexOfAny(u8, self.buffer[self.i..], "\r\n") orelse
+                        self.buffer.len - self.i;
+
+                    return self.invalidToken(
+                        self.buffer[self.i..(self.i + line_end)],
+                        .unterminated_string,
+                    );
                 }
             },
-            else => debug.panic("unknown token at {}:{}: {c}\n", .{ self.line, self.column, c }),
+
+            else => {
+                const length = unicode.utf8ByteSequenceLength(c) catch 1;
+                const end = @min(self.buffer.len, self.i + length);
+
+                return self.invalidToken(self.buffer[self.i..end], .unknown_character);
+            },
         };
 
         if (!options.peek) {
             self.i += token.size();
             self.column =
                 switch (meta.activeTag(token)) {
-                .newline, .crlf => 1,
+                .newline, .crlf, .doc_comment => 1,
                 else => self.column + token.size(),
             };
         }
@@ -285,7 +333,84 @@ pub const TokenIterator = struct {
         return token;
     }
 
+    /// The index in the buffer of the delimiter that ends the token starting at the current
+    /// position, or the end of the buffer if there is none.
+    fn delimiterIndex(self: Self) usize {
+        return if (mem.indexOfAny(u8, self.buffer[self.i..], delimiters)) |delimiter_index|
+            self.i + delimiter_index
+        else
+            self.buffer.len;
+    }
+
+    fn invalidToken(self: *Self, text: []const u8, reason: InvalidTokenReason) error{InvalidToken} {
+        self.invalid_token = InvalidToken{
+            .text = text,
+            .reason = reason,
+            .location = self.location(),
+        };
+
+        return error.InvalidToken;
+    }
+
+    /// Moves to the start of the next line, skipping whatever is left of the current one, such
+    /// that tokenizing can carry on after errors.
+    pub fn skipLine(self: *Self) void {
+        if (mem.indexOfScalar(u8, self.buffer[self.i..], '\n')) |line_end| {
+            self.i += line_end + 1;
+            self.line += 1;
+        } else {
+            self.i = self.buffer.len;
+        }
+
+        self.column = 1;
+    }
+
+    /// Skips line comments (`// ...`), which are ignored entirely. A comment that takes up a whole
+    /// line is skipped together with its line ending, whereas one that follows other tokens leaves
+    /// the line ending in place. Since skipping a comment never changes which token comes next, this
+    /// is done even when peeking.
+    fn skipComments(self: *Self) void {
+        while (self.i < self.buffer.len) {
+            const rest = self.buffer[self.i..];
+            const comment_start = mem.indexOfNone(u8, rest, " \t") orelse return;
+            if (!mem.startsWith(u8, rest[comment_start..], "//")) return;
+
+            const starts_line = self.column == 1;
+            if (starts_line and mem.startsWith(u8, rest[comment_start..], "///")) return;
+
+            const line_end = mem.indexOfScalar(u8, rest, '\n') orelse rest.len;
+            if (starts_line) {
+                self.i += if (line_end < rest.len) line_end + 1 else line_end;
+                self.line += 1;
+            } else {
+                const comment_end = if (line_end > 0 and rest[line_end - 1] == '\r')
+                    line_end - 1
+                else
+                    line_end;
+                self.i += comment_end;
+                self.column += comment_end;
+
+                return;
+            }
+        }
+    }
+
+    /// Returns the current line if it consists of only a doc comment (`/// ...`).
+    fn docCommentLine(self: Self) ?[]const u8 {
+        if (self.column != 1) return null;
+
+        const rest = self.buffer[self.i..];
+        const comment_start = mem.indexOfNone(u8, rest, " \t") orelse return null;
+        if (!mem.startsWith(u8, rest[comment_start..], "///")) return null;
+
+        const line_end = mem.indexOfScalar(u8, rest, '\n') orelse return rest;
+
+        return rest[0 .. line_end + 1];
+    }
+
     pub fn expect(self: *Self, expected_token: TokenTag, expect_error: *ExpectError) !Token {
+        self.skipComments();
+        const token_location = self.location();
         const token = try self.next(.{});
 
         if (token) |t| {
@@ -295,7 +420,7 @@ pub const TokenIterator = struct {
                 .token = .{
                     .expectation = expected_token,
                     .got = t,
-                    .location = self.location(),
+                    .location = token_location,
                 },
             };
 
@@ -312,6 +437,8 @@ pub const TokenIterator = struct {
     ) !Token {
         debug.assert(token_tags.len > 0);
 
+        self.skipComments();
+        const token_location = self.location();
         if (try self.next(.{})) |token| {
             for (token_tags) |t| {
                 if (meta.activeTag(token) == t) return token;
@@ -321,7 +448,7 @@ pub const TokenIterator = struct {
                 .one_of = .{
                     .expectations = token_tags,
                     .got = token,
-                    .location = self.location(),
+                    .location = token_location,
                 },
             };
             return error.UnexpectedToken;
@@ -431,6 +558,41 @@ test "`expect` for `List` union" {
     );
 }
 
+test "Invalid tokens give errors with their locations and input can end in the middle of a line" {
+    var token_iterator = TokenIterator.init("test.gotyno", "newtype Id = String");
+    const expected_tokens = [_]Token{
+        .{ .symbol = "newtype" },
+        Token.space,
+        .{ .name = "Id" },
+        Token.space,
+        Token.equals,
+        Token.space,
+        .{ .name = "String" },
+        Token.newline,
+    };
+    for (expected_tokens) |expected_token| {
+        try testing.expect(expected_token.isEqual((try token_iterator.next(.{})).?));
+    }
+    try testing.expect((try token_iterator.next(.{})) == null);
+
+    token_iterator = TokenIterator.init("test.gotyno", "struct A {\n    b: %\n}\n");
+    while (token_iterator.next(.{})) |_| {} else |e| try testing.expectEqual(error.InvalidToken, e);
+    try testing.expectEqual(InvalidTokenReason.unknown_character, token_iterator.invalid_token.reason);
+    try testing.expectEqualStrings("%", token_iterator.invalid_token.text);
+    try testing.expectEqual(@as(usize, 2), token_iterator.invalid_token.location.line);
+    try testing.expectEqual(@as(usize, 8), token_iterator.invalid_token.location.column);
+
+    token_iterator = TokenIterator.init("test.gotyno", "a: 12ab\n");
+    while (token_iterator.next(.{})) |_| {} else |e| try testing.expectEqual(error.InvalidToken, e);
+    try testing.expectEqual(InvalidTokenReason.invalid_number, token_iterator.invalid_token.reason);
+    try testing.expectEqualStrings("12ab", token_iterator.invalid_token.text);
+
+    token_iterator = TokenIterator.init("test.gotyno", "a: \"b\nc\n");
+    while (token_iterator.next(.{})) |_| {} else |e| try testing.expectEqual(error.InvalidToken, e);
+    try testing.expectEqual(InvalidTokenReason.unterminated_string, token_iterator.invalid_token.reason);
+    try testing.expectEqualStrings("\"b", token_iterator.invalid_token.text);
+}
+
 const expected_person_struct_tokens = [_]Token{
     .{ .symbol = "struct" },
     Token.space,
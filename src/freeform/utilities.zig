@@ -31,6 +31,13 @@ pub fn isStringEqualToOneOf(value: []const u8, compared_values: []const []const
     return false;
 }
 
+/// For sorting strings in ascending order with `mem.sort`.
+pub fn lessThanString(context: void, a: []const u8, b: []const u8) bool {
+    _ = context;
+
+    return mem.lessThan(u8, a, b);
+}
+
 pub fn deepCopySlice(
     comptime T: type,
     allocator: mem.Allocator,
@@ -61,6 +68,29 @@ pub fn camelCaseWord(allocator: mem.Allocator, word: []const u8) ![]const u8 {
     return fmt.allocPrint(allocator, "{c}{s}", .{ std.ascii.toLower(word[0]), word[1..] });
 }
 
+/// Turns `snake_case` into `camelCase`. Leading underscores are kept as they are.
+pub fn snakeCaseToCamelCase(allocator: mem.Allocator, name: []const u8) ![]const u8 {
+    var output = try ArrayList(u8).initCapacity(allocator, name.len);
+    const leading_underscores = for (name, 0..) |c, i| {
+        if (c != '_') break i;
+    } else name.len;
+    try output.appendSlice(name[0..leading_underscores]);
+
+    var capitalize_next = false;
+    for (name[leading_underscores..]) |c| {
+        if (c == '_') {
+            capitalize_next = true;
+        } else if (capitalize_next) {
+            try output.append(std.ascii.toUpper(c));
+            capitalize_next = false;
+        } else {
+            try output.append(c);
+        }
+    }
+
+    return try output.toOwnedSlice();
+}
+
 pub fn withoutExtension(allocator: mem.Allocator, path: []const u8) ![]const u8 {
     return if (mem.lastIndexOf(u8, path, ".")) |index|
         try allocator.dupe(u8, path[0..index])
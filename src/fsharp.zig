@@ -2,6 +2,7 @@ const std = @import("std");
 const debug = std.debug;
 const fmt = std.fmt;
 const heap = std.heap;
+const math = std.math;
 const mem = std.mem;
 const testing = std.testing;
 
@@ -18,6 +19,7 @@ const Definition = parser.Definition;
 const AppliedOpenName = parser.AppliedOpenName;
 const Import = parser.Import;
 const UntaggedUnion = parser.UntaggedUnion;
+const Newtype = parser.Newtype;
 const UntaggedUnionValue = parser.UntaggedUnionValue;
 const Enumeration = parser.Enumeration;
 const EnumerationField = parser.EnumerationField;
@@ -73,7 +75,7 @@ pub fn compileDefinitions(
     var definitions_without_imports = ArrayList(Definition).init(allocator);
     for (definitions) |d| {
         switch (d) {
-            .import => {},
+            .import, .declaration => {},
             else => try definitions_without_imports.append(d),
         }
     }
@@ -95,7 +97,9 @@ pub fn compileDefinitions(
 }
 
 fn outputDefinition(allocator: mem.Allocator, definition: Definition) ![]const u8 {
-    return switch (definition) {
+    const doc_comment = definition.docComment();
+
+    const output = switch (definition) {
         .structure => |structure| switch (structure) {
             .plain => |plain| try outputPlainStructure(allocator, plain),
             .generic => |generic| try outputGenericStructure(allocator, generic),
@@ -107,8 +111,90 @@ fn outputDefinition(allocator: mem.Allocator, definition: Definition) ![]const u
         },
         .enumeration => |enumeration| try outputEnumeration(allocator, enumeration),
         .untagged_union => |u| try outputUntaggedUnion(allocator, u),
+        .newtype => |n| try outputNewtype(allocator, n),
         .import => try outputImport(allocator),
+        .declaration => debug.panic("declarations are not output\n", .{}),
+    };
+
+    return try withDocComment(
+        allocator,
+        doc_comment,
+        "",
+        try withCoderDocComments(allocator, doc_comment, output),
+    );
+}
+
+/// Puts `doc_comment` on the `Decoder` and `Encoder` of a definition as well, since those are what
+/// code using the definition refers to. Takes ownership of `output`.
+fn withCoderDocComments(
+    allocator: mem.Allocator,
+    doc_comment: ?[]const u8,
+    output: []const u8,
+) ![]const u8 {
+    if (doc_comment == null) return output;
+    defer allocator.free(output);
+
+    var lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(lines);
+
+    var line_iterator = mem.split(u8, output, "\n");
+    while (line_iterator.next()) |line| {
+        try lines.append(if (isCoderDeclaration(line))
+            try withDocComment(allocator, doc_comment, "    ", try allocator.dupe(u8, line))
+        else
+            try allocator.dupe(u8, line));
+    }
+
+    return try mem.join(allocator, "\n", lines.items);
+}
+
+/// Whether `line` declares the decoder or encoder of the definition itself, as opposed to the
+/// decoders for each of a union's constructors.
+fn isCoderDeclaration(line: []const u8) bool {
+    const declarations = [_][]const u8{
+        "    static member Decoder",
+        "    static member Encoder",
+        "    let Decoder",
+        "    let Encoder",
     };
+
+    for (declarations) |declaration| {
+        if (mem.startsWith(u8, line, declaration) and
+            (line.len == declaration.len or !std.ascii.isAlphanumeric(line[declaration.len])))
+        {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+/// Prefixes `output` with `doc_comment` as an XML documentation comment with the given indentation.
+/// Takes ownership of `output`.
+fn withDocComment(
+    allocator: mem.Allocator,
+    doc_comment: ?[]const u8,
+    indentation: []const u8,
+    output: []const u8,
+) ![]const u8 {
+    const comment = doc_comment orelse return output;
+    defer allocator.free(output);
+
+    var lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(lines);
+
+    var line_iterator = mem.split(u8, comment, "\n");
+    while (line_iterator.next()) |line| {
+        try lines.append(if (line.len == 0)
+            try fmt.allocPrint(allocator, "{s}///", .{indentation})
+        else
+            try fmt.allocPrint(allocator, "{s}/// {s}", .{ indentation, line }));
+    }
+
+    const comment_output = try mem.join(allocator, "\n", lines.items);
+    defer allocator.free(comment_output);
+
+    return try fmt.allocPrint(allocator, "{s}\n{s}", .{ comment_output, output });
 }
 
 fn outputPlainStructure(allocator: mem.Allocator, s: PlainStructure) ![]const u8 {
@@ -246,14 +332,16 @@ fn outputDecoderForField(
     comptime indentation_size: u32,
 ) ![]const u8 {
     _ = open_names;
-    const name = try maybeEscapeName(allocator, f.name);
+    const name = try maybeEscapeName(allocator, f.codeName());
     defer allocator.free(name);
     const indentation = [_]u8{' '} ** indentation_size;
 
     const format = "{s}{s} = get.Required.Field \"{s}\" {s}";
     const format_for_optional = "{s}{s} = get.Optional.Field \"{s}\" {s}";
 
-    if (isOptionalType(f.type)) {
+    // `get.Optional.Field` decodes both missing keys and `null` values as `None`, so only fields
+    // written as `name!: ?Type` need the key to be present.
+    if (f.optional_key or (isOptionalType(f.type) and !f.required_key)) {
         const decoder_for_nested_type = try decoderForType(
             allocator,
             seeThroughOptional(f.type).?,
@@ -319,6 +407,13 @@ fn decoderForType(allocator: mem.Allocator, t: Type) error{OutOfMemory}![]const
 
             break :o try fmt.allocPrint(allocator, "(Decode.option {s})", .{nested_type_output});
         },
+        // keys are always strings on the wire, so they are kept as strings
+        .map => |d| o: {
+            const nested_type_output = try decoderForType(allocator, d.value.*);
+            defer allocator.free(nested_type_output);
+
+            break :o try fmt.allocPrint(allocator, "(Decode.dict {s})", .{nested_type_output});
+        },
         .empty => debug.panic("Structure field cannot be empty\n", .{}),
     };
 }
@@ -374,6 +469,12 @@ fn translatedDecoderName(
         try allocator.dupe(u8, "Decode.float128")
     else if (mem.eql(u8, name, "Boolean"))
         try allocator.dupe(u8, "Decode.bool")
+    else if (mem.eql(u8, name, "Date"))
+        try allocator.dupe(u8, date_decoder)
+    else if (mem.eql(u8, name, "DateTime"))
+        try allocator.dupe(u8, "Decode.datetimeOffset")
+    else if (mem.eql(u8, name, "Duration"))
+        try allocator.dupe(u8, duration_decoder)
     else
         try fmt.allocPrint(allocator, "{s}.Decoder", .{name});
 }
@@ -429,6 +530,12 @@ fn translatedEncoderName(
         try allocator.dupe(u8, "Encode.float128")
     else if (mem.eql(u8, name, "Boolean"))
         try allocator.dupe(u8, "Encode.bool")
+    else if (mem.eql(u8, name, "Date"))
+        try allocator.dupe(u8, date_encoder)
+    else if (mem.eql(u8, name, "DateTime"))
+        try allocator.dupe(u8, "Encode.datetimeOffset")
+    else if (mem.eql(u8, name, "Duration"))
+        try allocator.dupe(u8, duration_encoder)
     else
         try fmt.allocPrint(allocator, "{s}.Encoder", .{name});
 }
@@ -442,9 +549,13 @@ fn decoderForTypeReference(
         .definition => |d| try decoderForDefinition(allocator, d),
         .imported_definition => |id| id: {
             const definition_decoder = try decoderForDefinition(allocator, id.definition);
+            if (id.definition == .declaration) break :id definition_decoder;
             defer allocator.free(definition_decoder);
 
-            const module_name = try utilities.titleCaseWord(allocator, id.import_name);
+            const module_name = try utilities.titleCaseWord(
+                allocator,
+                parser.baseModuleName(id.import_name),
+            );
             defer allocator.free(module_name);
 
             break :id try fmt.allocPrint(
@@ -491,6 +602,22 @@ fn appliedOpenNameDecoders(
     return outputs;
 }
 
+// Dates and durations are sent as ISO-8601 strings, which Thoth only has decoders for in the case
+// of date and time with an offset.
+const date_decoder =
+    "(Decode.string |> Decode.andThen (fun date -> " ++
+    "match System.DateTime.TryParseExact(date, \"yyyy-MM-dd\", " ++
+    "System.Globalization.CultureInfo.InvariantCulture, System.Globalization.DateTimeStyles.None) with " ++
+    "| true, value -> Decode.succeed value | _ -> Decode.fail \"Expected ISO-8601 date\"))";
+const duration_decoder =
+    "(Decode.string |> Decode.andThen (fun duration -> " ++
+    "try Decode.succeed (System.Xml.XmlConvert.ToTimeSpan duration) " ++
+    "with _ -> Decode.fail \"Expected ISO-8601 duration\"))";
+const date_encoder =
+    "(fun (date: System.DateTime) -> Encode.string (date.ToString \"yyyy-MM-dd\"))";
+const duration_encoder =
+    "(fun (duration: System.TimeSpan) -> Encode.string (System.Xml.XmlConvert.ToString duration))";
+
 fn decoderForBuiltin(allocator: mem.Allocator, b: Builtin) ![]const u8 {
     return try allocator.dupe(u8, switch (b) {
         .String => "Decode.string",
@@ -508,15 +635,37 @@ fn decoderForBuiltin(allocator: mem.Allocator, b: Builtin) ![]const u8 {
         .F32 => "Decode.float32",
         .F64 => "Decode.float64",
         .F128 => "Decode.float128",
+        .Date => date_decoder,
+        .DateTime => "Decode.datetimeOffset",
+        .Duration => duration_decoder,
     });
 }
 
 fn decoderForDefinition(allocator: mem.Allocator, d: Definition) ![]const u8 {
-    const name = d.name().value;
+    const name = try definitionName(allocator, d);
+    defer allocator.free(name);
 
     return try fmt.allocPrint(allocator, "{s}.Decoder", .{name});
 }
 
+/// Declared types live in their own, hand-written module and are referred to through it, no matter
+/// which module the declaration was made in.
+fn definitionName(allocator: mem.Allocator, d: Definition) ![]const u8 {
+    return switch (d) {
+        .declaration => |declaration| name: {
+            const module_name = try utilities.titleCaseWord(allocator, declaration.module);
+            defer allocator.free(module_name);
+
+            break :name try fmt.allocPrint(
+                allocator,
+                "{s}.{s}",
+                .{ module_name, declaration.name.value },
+            );
+        },
+        else => try allocator.dupe(u8, d.name().value),
+    };
+}
+
 fn outputEncoderForPlainStructure(allocator: mem.Allocator, s: PlainStructure) ![]const u8 {
     const encoders_output = try outputEncodersForFields(
         allocator,
@@ -578,14 +727,32 @@ fn outputEncodersForFields(
     var encoder_outputs = try allocator.alloc([]const u8, fields.len);
     defer utilities.freeStringArray(allocator, encoder_outputs);
 
+    // Leaving out keys requires a `match` in the list, which means every other entry needs an
+    // explicit `yield` as well.
+    const explicit_yields = for (fields) |f| {
+        if (f.optional_key) break true;
+    } else false;
+
     for (fields, 0..) |f, i| {
-        encoder_outputs[i] = try outputEncoderForField(
+        const encoder_output = try outputEncoderForField(
             allocator,
             f,
             indentation,
             value_name,
             open_names,
         );
+
+        if (explicit_yields and !f.optional_key) {
+            defer allocator.free(encoder_output);
+            const indentation_buffer = [_]u8{' '} ** indentation;
+            encoder_outputs[i] = try fmt.allocPrint(
+                allocator,
+                "{s}yield {s}",
+                .{ indentation_buffer, encoder_output[indentation..] },
+            );
+        } else {
+            encoder_outputs[i] = encoder_output;
+        }
     }
 
     return try mem.join(allocator, "\n", encoder_outputs);
@@ -606,7 +773,40 @@ fn outputEncoderForField(
     _ = open_names;
     const indentation_buffer = [_]u8{' '} ** indentation;
 
-    const encoder = try encoderForType(allocator, f.type, f.name, value_name, false);
+    if (f.optional_key) {
+        const present_type = seeThroughOptional(f.type).?;
+        // Literal string encoders don't take the value, but it's a `string` all the same.
+        const encoder = if (present_type == .string)
+            try allocator.dupe(u8, "Encode.string")
+        else
+            try encoderForType(allocator, present_type, null, null, false);
+        defer allocator.free(encoder);
+
+        const name = try maybeEscapeName(allocator, f.codeName());
+        defer allocator.free(name);
+
+        const format =
+            \\{s}match {s}.{s} with
+            \\{s}| Some fieldValue -> yield "{s}", {s} fieldValue
+            \\{s}| None -> ()
+        ;
+
+        return try fmt.allocPrint(
+            allocator,
+            format,
+            .{
+                indentation_buffer,
+                value_name,
+                name,
+                indentation_buffer,
+                f.name,
+                encoder,
+                indentation_buffer,
+            },
+        );
+    }
+
+    const encoder = try encoderForType(allocator, f.type, f.codeName(), value_name, false);
     defer allocator.free(encoder);
 
     const format = "{s}\"{s}\", {s}";
@@ -716,6 +916,23 @@ fn encoderForType(
             );
         },
 
+        .map => |d| o: {
+            const nested_type_output = try encoderForType(
+                allocator,
+                d.value.*,
+                null,
+                null,
+                true,
+            );
+            defer allocator.free(nested_type_output);
+
+            break :o try fmt.allocPrint(
+                allocator,
+                "(Map.map (fun _ -> {s}) >> Encode.dict){s}",
+                .{ nested_type_output, value_field_output },
+            );
+        },
+
         .empty => debug.panic("Structure field cannot be empty\n", .{}),
     };
 }
@@ -729,9 +946,13 @@ fn encoderForTypeReference(
         .definition => |d| try encoderForDefinition(allocator, d),
         .imported_definition => |id| id: {
             const definition_encoder = try encoderForDefinition(allocator, id.definition);
+            if (id.definition == .declaration) break :id definition_encoder;
             defer allocator.free(definition_encoder);
 
-            const module_name = try utilities.titleCaseWord(allocator, id.import_name);
+            const module_name = try utilities.titleCaseWord(
+                allocator,
+                parser.baseModuleName(id.import_name),
+            );
             defer allocator.free(module_name);
 
             break :id try fmt.allocPrint(
@@ -791,11 +1012,15 @@ fn encoderForBuiltin(allocator: mem.Allocator, b: Builtin) ![]const u8 {
         .F32 => "Encode.float32",
         .F64 => "Encode.float64",
         .F128 => "Encode.float128",
+        .Date => date_encoder,
+        .DateTime => "Encode.datetimeOffset",
+        .Duration => duration_encoder,
     });
 }
 
 fn encoderForDefinition(allocator: mem.Allocator, d: Definition) ![]const u8 {
-    const name = d.name().value;
+    const name = try definitionName(allocator, d);
+    defer allocator.free(name);
 
     return try fmt.allocPrint(allocator, "{s}.Encoder", .{name});
 }
@@ -810,11 +1035,19 @@ fn outputStructureField(
     defer allocator.free(type_output);
 
     const format = "        {s}: {s}";
+    // Fields that are both optional keys and nullable collapse into one `option`, as `None` is
+    // decoded from either and encoded by leaving the key out.
+    const format_for_optional_key = "        {s}: option<{s}>";
 
-    const name = try maybeEscapeName(allocator, field.name);
+    const name = try maybeEscapeName(allocator, field.codeName());
     defer allocator.free(name);
 
-    return try fmt.allocPrint(allocator, format, .{ name, type_output });
+    const field_output = if (field.optional_key and !isOptionalType(field.type))
+        try fmt.allocPrint(allocator, format_for_optional_key, .{ name, type_output })
+    else
+        try fmt.allocPrint(allocator, format, .{ name, type_output });
+
+    return try withDocComment(allocator, field.doc_comment, "        ", field_output);
 }
 
 fn outputType(allocator: mem.Allocator, t: Type) error{OutOfMemory}![]const u8 {
@@ -845,6 +1078,12 @@ fn outputType(allocator: mem.Allocator, t: Type) error{OutOfMemory}![]const u8 {
 
             break :o try fmt.allocPrint(allocator, optional_format, .{nested_type_output});
         },
+        .map => |d| o: {
+            const nested_type_output = try outputType(allocator, d.value.*);
+            defer allocator.free(nested_type_output);
+
+            break :o try fmt.allocPrint(allocator, "Map<string, {s}>", .{nested_type_output});
+        },
         .empty => debug.panic("Structure field cannot be empty\n", .{}),
     };
 }
@@ -855,9 +1094,14 @@ fn outputTypeReference(
 ) error{OutOfMemory}![]const u8 {
     return switch (r) {
         .builtin => |b| try outputBuiltinReference(allocator, b),
-        .definition => |d| try allocator.dupe(u8, d.name().value),
+        .definition => |d| try definitionName(allocator, d),
         .imported_definition => |id| d: {
-            const module_name = try utilities.titleCaseWord(allocator, id.import_name);
+            if (id.definition == .declaration) break :d try definitionName(allocator, id.definition);
+
+            const module_name = try utilities.titleCaseWord(
+                allocator,
+                parser.baseModuleName(id.import_name),
+            );
             defer allocator.free(module_name);
 
             break :d try fmt.allocPrint(
@@ -953,6 +1197,12 @@ fn translateName(name: []const u8) []const u8 {
         "float128"
     else if (mem.eql(u8, name, "Boolean"))
         "bool"
+    else if (mem.eql(u8, name, "Date"))
+        "System.DateTime"
+    else if (mem.eql(u8, name, "DateTime"))
+        "System.DateTimeOffset"
+    else if (mem.eql(u8, name, "Duration"))
+        "System.TimeSpan"
     else
         name;
 }
@@ -975,6 +1225,9 @@ fn translateReference(reference: TypeReference) []const u8 {
             .F32 => "float32",
             .F64 => "float64",
             .F128 => "float128",
+            .Date => "System.DateTime",
+            .DateTime => "System.DateTimeOffset",
+            .Duration => "System.TimeSpan",
         },
         .definition => |d| switch (d) {
             .structure => |s| s.name().value,
@@ -982,6 +1235,8 @@ fn translateReference(reference: TypeReference) []const u8 {
             .enumeration => |e| e.name.value,
             .untagged_union => |u| u.name.value,
             .import => debug.panic("import referenced somehow?\n", .{}),
+            .declaration => |declaration| declaration.name.value,
+            .newtype => |n| n.name.value,
         },
         .loose => |l| l.name,
         .open => |n| n,
@@ -1005,6 +1260,9 @@ fn outputBuiltinReference(allocator: mem.Allocator, b: Builtin) ![]const u8 {
         .F32 => try allocator.dupe(u8, "float32"),
         .F64 => try allocator.dupe(u8, "float64"),
         .F128 => try allocator.dupe(u8, "float128"),
+        .Date => try allocator.dupe(u8, "System.DateTime"),
+        .DateTime => try allocator.dupe(u8, "System.DateTimeOffset"),
+        .Duration => try allocator.dupe(u8, "System.TimeSpan"),
     };
 }
 
@@ -1087,11 +1345,11 @@ fn outputPlainUnion(allocator: mem.Allocator, s: PlainUnion) ![]const u8 {
     }
 
     for (s.constructors, 0..) |c, i| {
-        constructor_outputs[i] = try outputConstructor(
+        constructor_outputs[i] = try withDocComment(
             allocator,
-            titlecased_tags[i],
-            &[_][]const u8{},
-            c.parameter,
+            c.doc_comment,
+            "    ",
+            try outputConstructor(allocator, titlecased_tags[i], &[_][]const u8{}, c.parameter),
         );
     }
 
@@ -1334,11 +1592,16 @@ fn outputGenericUnion(allocator: mem.Allocator, u: GenericUnion) ![]const u8 {
     const constructors = try allocator.alloc([]const u8, u.constructors.len);
     defer utilities.freeStringArray(allocator, constructors);
     for (constructors, 0..) |*c, i| {
-        c.* = try outputConstructor(
+        c.* = try withDocComment(
             allocator,
-            u.constructors[i].tag,
-            u.open_names,
-            u.constructors[i].parameter,
+            u.constructors[i].doc_comment,
+            "    ",
+            try outputConstructor(
+                allocator,
+                u.constructors[i].tag,
+                u.open_names,
+                u.constructors[i].parameter,
+            ),
         );
     }
     const joined_constructors = try mem.join(allocator, "\n", constructors);
@@ -1656,10 +1919,15 @@ fn outputEmbeddedUnion(allocator: mem.Allocator, s: EmbeddedUnion) ![]const u8 {
                 \\                ]
             ;
 
-            constructor_outputs[i] = try fmt.allocPrint(
+            constructor_outputs[i] = try withDocComment(
                 allocator,
-                format_with_payload,
-                .{ titlecased_tag, parameter_name },
+                c.doc_comment,
+                "    ",
+                try fmt.allocPrint(
+                    allocator,
+                    format_with_payload,
+                    .{ titlecased_tag, parameter_name },
+                ),
             );
 
             tag_decoder_pairs[i] = try fmt.allocPrint(
@@ -1700,10 +1968,15 @@ fn outputEmbeddedUnion(allocator: mem.Allocator, s: EmbeddedUnion) ![]const u8 {
                 \\            Encode.object [ "{s}", Encode.string "{s}" ]
             ;
 
-            constructor_outputs[i] = try fmt.allocPrint(
+            constructor_outputs[i] = try withDocComment(
                 allocator,
-                format_without_payload,
-                .{titlecased_tag},
+                c.doc_comment,
+                "    ",
+                try fmt.allocPrint(
+                    allocator,
+                    format_without_payload,
+                    .{titlecased_tag},
+                ),
             );
 
             tag_decoder_pairs[i] = try fmt.allocPrint(
@@ -1789,6 +2062,9 @@ fn outputEmbeddedUnion(allocator: mem.Allocator, s: EmbeddedUnion) ![]const u8 {
 }
 
 fn outputEnumeration(allocator: mem.Allocator, e: Enumeration) ![]const u8 {
+    debug.assert(e.fields.len > 0);
+    if (e.fields[0].value == .unsigned_integer) return try outputIntegerEnumeration(allocator, e);
+
     const titlecased_tags = try allocator.alloc([]const u8, e.fields.len);
     defer allocator.free(titlecased_tags);
 
@@ -1802,7 +2078,12 @@ fn outputEnumeration(allocator: mem.Allocator, e: Enumeration) ![]const u8 {
     const enumeration_tags = try allocator.alloc([]const u8, e.fields.len);
     defer allocator.free(enumeration_tags);
     for (enumeration_tags, 0..) |*t, i| {
-        t.* = try fmt.allocPrint(allocator, "    | {s}", .{titlecased_tags[i]});
+        t.* = try withDocComment(
+            allocator,
+            e.fields[i].doc_comment,
+            "    ",
+            try fmt.allocPrint(allocator, "    | {s}", .{titlecased_tags[i]}),
+        );
     }
     defer for (enumeration_tags) |t| {
         allocator.free(t);
@@ -1830,10 +2111,9 @@ fn outputEnumeration(allocator: mem.Allocator, e: Enumeration) ![]const u8 {
     const joined_value_constructors = try mem.join(allocator, "; ", value_constructors);
     defer allocator.free(joined_value_constructors);
 
-    debug.assert(e.fields.len > 0);
     const enumeration_value_decoder = switch (e.fields[0].value) {
         .string => "Decode.string",
-        .unsigned_integer => "Decode.uint32",
+        .unsigned_integer => unreachable,
     };
 
     const decoder_format =
@@ -1849,7 +2129,7 @@ fn outputEnumeration(allocator: mem.Allocator, e: Enumeration) ![]const u8 {
 
     const value_encoder = switch (e.fields[0].value) {
         .string => "Encode.string",
-        .unsigned_integer => "Encode.uint32",
+        .unsigned_integer => unreachable,
     };
 
     const constructor_encoders = try allocator.alloc([]const u8, e.fields.len);
@@ -1898,6 +2178,96 @@ fn outputEnumeration(allocator: mem.Allocator, e: Enumeration) ![]const u8 {
     );
 }
 
+/// The largest value that can be used for a case in a .NET `int` enum, which is as large as
+/// enumeration values can be when outputting F#.
+pub const max_enumeration_integer = math.maxInt(i32);
+
+/// Enumerations with integer values are output as .NET enums, with a module of the same name
+/// holding the decoder and encoder since enums can't have members of their own.
+fn outputIntegerEnumeration(allocator: mem.Allocator, e: Enumeration) ![]const u8 {
+    const name = e.name.value;
+
+    var cases = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(cases);
+
+    var value_constructors = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(value_constructors);
+
+    for (e.fields) |field| {
+        const value = field.value.unsigned_integer;
+
+        const tag = try utilities.titleCaseWord(allocator, field.tag);
+        defer allocator.free(tag);
+
+        try cases.append(try withDocComment(
+            allocator,
+            field.doc_comment,
+            "    ",
+            try fmt.allocPrint(allocator, "    | {s} = {}", .{ tag, value }),
+        ));
+        try value_constructors.append(try fmt.allocPrint(
+            allocator,
+            "{}, {s}.{s}",
+            .{ value, name, tag },
+        ));
+    }
+
+    const joined_cases = try mem.join(allocator, "\n", cases.items);
+    defer allocator.free(joined_cases);
+
+    const joined_value_constructors = try mem.join(allocator, "; ", value_constructors.items);
+    defer allocator.free(joined_value_constructors);
+
+    const format =
+        \\type {s} =
+        \\{s}
+        \\
+        \\module {s} =
+        \\    let Decoder: Decoder<{s}> =
+        \\        GotynoCoders.decodeOneOf Decode.int [|{s}|]
+        \\
+        \\    let Encoder (value: {s}) =
+        \\        Encode.int (int value)
+    ;
+
+    return try fmt.allocPrint(
+        allocator,
+        format,
+        .{ name, joined_cases, name, name, joined_value_constructors, name },
+    );
+}
+
+/// Newtypes are single case unions, decoded from and encoded as the underlying value.
+fn outputNewtype(allocator: mem.Allocator, n: Newtype) ![]const u8 {
+    const name = n.name.value;
+
+    const type_output = try outputType(allocator, n.type.*);
+    defer allocator.free(type_output);
+
+    const decoder_output = try decoderForType(allocator, n.type.*);
+    defer allocator.free(decoder_output);
+
+    const encoder_output = try encoderForType(allocator, n.type.*, null, null, false);
+    defer allocator.free(encoder_output);
+
+    const format =
+        \\type {s} =
+        \\    | {s} of {s}
+        \\
+        \\    static member Decoder: Decoder<{s}> =
+        \\        Decode.map {s} {s}
+        \\
+        \\    static member Encoder({s} value) =
+        \\        {s} value
+    ;
+
+    return try fmt.allocPrint(
+        allocator,
+        format,
+        .{ name, name, type_output, name, name, decoder_output, name, encoder_output },
+    );
+}
+
 fn outputUntaggedUnion(allocator: mem.Allocator, u: UntaggedUnion) ![]const u8 {
     var constructors = try allocator.alloc([]const u8, u.values.len);
     defer utilities.freeStringArray(allocator, constructors);
@@ -2765,18 +3135,16 @@ test "Enumeration with integer values is output correctly" {
 
     const expected_output =
         \\type Indices =
-        \\    | First
-        \\    | Second
-        \\    | Indeterminate
+        \\    | First = 0
+        \\    | Second = 1
+        \\    | Indeterminate = 999
         \\
-        \\    static member Decoder: Decoder<Indices> =
-        \\        GotynoCoders.decodeOneOf Decode.uint32 [|0, First; 1, Second; 999, Indeterminate|]
+        \\module Indices =
+        \\    let Decoder: Decoder<Indices> =
+        \\        GotynoCoders.decodeOneOf Decode.int [|0, Indices.First; 1, Indices.Second; 999, Indices.Indeterminate|]
         \\
-        \\    static member Encoder =
-        \\        function
-        \\        | First -> Encode.uint32 0
-        \\        | Second -> Encode.uint32 1
-        \\        | Indeterminate -> Encode.uint32 999
+        \\    let Encoder (value: Indices) =
+        \\        Encode.int (int value)
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -2932,6 +3300,7 @@ test "Parsing an imported reference works even with nested ones" {
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
 
@@ -3039,3 +3408,417 @@ test "Optional slice fields are valid and are output correctly" {
     allocator.allocator.free(output);
     testing_utilities.expectNoLeaks(&allocator);
 }
+
+test "Optional keys are decoded as optional fields and left out when encoding `None`" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Profile {
+        \\    name: String
+        \\    nickname?: String
+        \\    middle_name!: ?String
+        \\    title: ?String
+        \\    website?: ?String
+        \\}
+    ;
+
+    const expected_output =
+        \\type Profile =
+        \\    {
+        \\        name: string
+        \\        nickname: option<string>
+        \\        middle_name: option<string>
+        \\        title: option<string>
+        \\        website: option<string>
+        \\    }
+        \\
+        \\    static member Decoder: Decoder<Profile> =
+        \\        Decode.object (fun get ->
+        \\            {
+        \\                name = get.Required.Field "name" Decode.string
+        \\                nickname = get.Optional.Field "nickname" Decode.string
+        \\                middle_name = get.Required.Field "middle_name" (Decode.option Decode.string)
+        \\                title = get.Optional.Field "title" Decode.string
+        \\                website = get.Optional.Field "website" Decode.string
+        \\            }
+        \\        )
+        \\
+        \\    static member Encoder value =
+        \\        Encode.object
+        \\            [
+        \\                yield "name", Encode.string value.name
+        \\                match value.nickname with
+        \\                | Some fieldValue -> yield "nickname", Encode.string fieldValue
+        \\                | None -> ()
+        \\                yield "middle_name", Encode.option Encode.string value.middle_name
+        \\                yield "title", Encode.option Encode.string value.title
+        \\                match value.website with
+        \\                | Some fieldValue -> yield "website", Encode.string fieldValue
+        \\                | None -> ()
+        \\            ]
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const definitions = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try outputPlainStructure(allocator, definitions.definitions[0].structure.plain);
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Renamed fields use their code names in records and wire names in decoders and encoders" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Movie {
+        \\    title: String
+        \\    poster_path as posterPath: ?String
+        \\}
+    ;
+
+    const expected_output =
+        \\type Movie =
+        \\    {
+        \\        title: string
+        \\        posterPath: option<string>
+        \\    }
+        \\
+        \\    static member Decoder: Decoder<Movie> =
+        \\        Decode.object (fun get ->
+        \\            {
+        \\                title = get.Required.Field "title" Decode.string
+        \\                posterPath = get.Optional.Field "poster_path" Decode.string
+        \\            }
+        \\        )
+        \\
+        \\    static member Encoder value =
+        \\        Encode.object
+        \\            [
+        \\                "title", Encode.string value.title
+        \\                "poster_path", Encode.option Encode.string value.posterPath
+        \\            ]
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const definitions = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try outputPlainStructure(allocator, definitions.definitions[0].structure.plain);
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Doc comments are output as XML documentation comments on types and their coders" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\/// How a request went
+        \\///
+        \\/// Logged for every request.
+        \\union Outcome {
+        \\    /// The request was handled
+        \\    Handled: String
+        \\    Dropped
+        \\}
+    ;
+
+    const expected_output =
+        \\/// How a request went
+        \\///
+        \\/// Logged for every request.
+        \\type Outcome =
+        \\    /// The request was handled
+        \\    | Handled of string
+        \\    | Dropped
+        \\
+        \\    static member HandledDecoder: Decoder<Outcome> =
+        \\        Decode.object (fun get -> Handled(get.Required.Field "data" Decode.string))
+        \\
+        \\    static member DroppedDecoder: Decoder<Outcome> =
+        \\        Decode.succeed Dropped
+        \\
+        \\    /// How a request went
+        \\    ///
+        \\    /// Logged for every request.
+        \\    static member Decoder: Decoder<Outcome> =
+        \\        GotynoCoders.decodeWithTypeTag
+        \\            "type"
+        \\            [|
+        \\                "Handled", Outcome.HandledDecoder
+        \\                "Dropped", Outcome.DroppedDecoder
+        \\            |]
+        \\
+        \\    /// How a request went
+        \\    ///
+        \\    /// Logged for every request.
+        \\    static member Encoder =
+        \\        function
+        \\        | Handled payload ->
+        \\            Encode.object [ "type", Encode.string "Handled"
+        \\                            "data", Encode.string payload ]
+        \\
+        \\        | Dropped ->
+        \\            Encode.object [ "type", Encode.string "Dropped" ]
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const definitions = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try outputDefinition(allocator, definitions.definitions[0]);
+
+    try testing.expectEqualStrings(expected_output, output);
+
+    const enumeration_buffer =
+        \\/// How urgent a message is
+        \\enum Priority {
+        \\    low = 1
+        \\    high = 2
+        \\}
+    ;
+
+    const expected_enumeration_output =
+        \\/// How urgent a message is
+        \\type Priority =
+        \\    | Low = 1
+        \\    | High = 2
+        \\
+        \\module Priority =
+        \\    /// How urgent a message is
+        \\    let Decoder: Decoder<Priority> =
+        \\        GotynoCoders.decodeOneOf Decode.int [|1, Priority.Low; 2, Priority.High|]
+        \\
+        \\    /// How urgent a message is
+        \\    let Encoder (value: Priority) =
+        \\        Encode.int (int value)
+    ;
+
+    const enumeration_definitions = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        enumeration_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const enumeration_output = try outputDefinition(
+        allocator,
+        enumeration_definitions.definitions[0],
+    );
+
+    try testing.expectEqualStrings(expected_enumeration_output, enumeration_output);
+}
+
+test "Newtypes are output as single case unions with the underlying wire representation" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\newtype UserIds = []String
+        \\
+    ;
+
+    const expected_output =
+        \\type UserIds =
+        \\    | UserIds of list<string>
+        \\
+        \\    static member Decoder: Decoder<UserIds> =
+        \\        Decode.map UserIds (Decode.list Decode.string)
+        \\
+        \\    static member Encoder(UserIds value) =
+        \\        GotynoCoders.encodeList Encode.string value
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const definitions = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try outputDefinition(allocator, definitions.definitions[0]);
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Maps are output as maps with string keys and dictionary decoders and encoders" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Inventory {
+        \\    counts: Map<String, []U32>
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\type Inventory =
+        \\    {
+        \\        counts: Map<string, list<uint32>>
+        \\    }
+        \\
+        \\    static member Decoder: Decoder<Inventory> =
+        \\        Decode.object (fun get ->
+        \\            {
+        \\                counts = get.Required.Field "counts" (Decode.dict (Decode.list Decode.uint32))
+        \\            }
+        \\        )
+        \\
+        \\    static member Encoder value =
+        \\        Encode.object
+        \\            [
+        \\                "counts", (Map.map (fun _ -> (GotynoCoders.encodeList Encode.uint32)) >> Encode.dict) value.counts
+        \\            ]
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const definitions = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try outputDefinition(allocator, definitions.definitions[0]);
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Dates and durations are output as .NET date and time types with ISO-8601 coders" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Episode {
+        \\    airDate: Date
+        \\    updatedAt: DateTime
+        \\    runtime: Duration
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\type Episode =
+        \\    {
+        \\        airDate: System.DateTime
+        \\        updatedAt: System.DateTimeOffset
+        \\        runtime: System.TimeSpan
+        \\    }
+        \\
+        \\    static member Decoder: Decoder<Episode> =
+        \\        Decode.object (fun get ->
+        \\            {
+        \\                airDate = get.Required.Field "airDate" (Decode.string |> Decode.andThen (fun date -> match System.DateTime.TryParseExact(date, "yyyy-MM-dd", System.Globalization.CultureInfo.InvariantCulture, System.Globalization.DateTimeStyles.None) with | true, value -> Decode.succeed value | _ -> Decode.fail "Expected ISO-8601 date"))
+        \\                updatedAt = get.Required.Field "updatedAt" Decode.datetimeOffset
+        \\                runtime = get.Required.Field "runtime" (Decode.string |> Decode.andThen (fun duration -> try Decode.succeed (System.Xml.XmlConvert.ToTimeSpan duration) with _ -> Decode.fail "Expected ISO-8601 duration"))
+        \\            }
+        \\        )
+        \\
+        \\    static member Encoder value =
+        \\        Encode.object
+        \\            [
+        \\                "airDate", (fun (date: System.DateTime) -> Encode.string (date.ToString "yyyy-MM-dd")) value.airDate
+        \\                "updatedAt", Encode.datetimeOffset value.updatedAt
+        \\                "runtime", (fun (duration: System.TimeSpan) -> Encode.string (System.Xml.XmlConvert.ToString duration)) value.runtime
+        \\            ]
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const definitions = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try outputDefinition(allocator, definitions.definitions[0]);
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Enumerations with integer values are output as .NET enums with a module for coders" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\enum Priority {
+        \\    /// Can wait.
+        \\    low = 1
+        \\    high = 10
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\type Priority =
+        \\    /// Can wait.
+        \\    | Low = 1
+        \\    | High = 10
+        \\
+        \\module Priority =
+        \\    let Decoder: Decoder<Priority> =
+        \\        GotynoCoders.decodeOneOf Decode.int [|1, Priority.Low; 10, Priority.High|]
+        \\
+        \\    let Encoder (value: Priority) =
+        \\        Encode.int (int value)
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const definitions = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try outputDefinition(allocator, definitions.definitions[0]);
+
+    try testing.expectEqualStrings(expected_output, output);
+}
@@ -18,6 +18,7 @@ pub fn openNamesFromType(
         .array => |a| try openNamesFromType(allocator, a.type.*, open_names),
         .slice => |s| try openNamesFromType(allocator, s.type.*, open_names),
         .optional => |o| try openNamesFromType(allocator, o.type.*, open_names),
+        .map => |m| try openNamesFromType(allocator, m.value.*, open_names),
 
         .reference => |r| reference: {
             var open_name_list = ArrayList([]const u8).init(allocator);
@@ -61,7 +62,8 @@ fn openNamesFromDefinition(
             .generic => |g| g.open_names,
             .plain, .embedded => &[_][]const u8{},
         },
-        .untagged_union, .import, .enumeration => &[_][]const u8{},
+        .declaration => |declaration| declaration.open_names,
+        .untagged_union, .import, .enumeration, .newtype => &[_][]const u8{},
     };
 }
 
@@ -81,7 +83,7 @@ pub fn commonOpenNames(
                     },
                     .builtin, .definition, .imported_definition, .loose, .applied_name => {},
                 },
-                .empty, .string, .pointer, .optional, .array, .slice => {},
+                .empty, .string, .pointer, .optional, .array, .slice, .map => {},
             }
         }
     }
@@ -4,15 +4,20 @@ const heap = std.heap;
 const mem = std.mem;
 const fs = std.fs;
 const debug = std.debug;
+const io = std.io;
 const builtin = std.builtin;
 
 const freeform = @import("freeform.zig");
+const project = @import("project.zig");
 
 const ArrayList = std.ArrayList;
 const StringMap = std.StringHashMap;
 
 const OutputLanguages = freeform.OutputLanguages;
 const OutputPath = freeform.OutputPath;
+const NamingConvention = freeform.parser.NamingConvention;
+const ImportExtension = freeform.typescript.ImportExtension;
+const DiagnosticsFormat = freeform.diagnostics.DiagnosticsFormat;
 
 const CompilationOptions = struct {
     const Self = @This();
@@ -20,15 +25,56 @@ const CompilationOptions = struct {
     inputs: []const []const u8,
     outputs: OutputLanguages,
     verbose: bool,
+    watch: bool,
+    check: bool,
+    diagnostics_format: DiagnosticsFormat,
 
-    pub fn fromArguments(allocator: mem.Allocator, argument_iterator: *process.ArgIterator) !Self {
-        _ = argument_iterator.skip();
+    /// Options are read from the project file given with `-p`/`--project`, or `gotyno.json` in the
+    /// current directory if there is one, and the command line overrides them. Inputs and module
+    /// roots given on the command line replace the ones in the project file.
+    pub fn fromArguments(allocator: mem.Allocator, arguments: []const [:0]u8) !Self {
         var inputs = ArrayList([]const u8).init(allocator);
+        var module_roots = ArrayList([]const u8).init(allocator);
         var outputs = OutputLanguages{};
         var verbose = false;
+        var watch = false;
+        var check = false;
+        var diagnostics_format = DiagnosticsFormat.text;
 
+        const project_filename = try projectFilename(arguments);
+        if (project_filename) |filename| {
+            var project_error: project.ProjectError = undefined;
+            const read_project = project.readProject(allocator, filename, &project_error) catch |e| {
+                switch (e) {
+                    error.InvalidJson,
+                    error.UnknownKey,
+                    error.InvalidValue,
+                    error.UnmatchedInput,
+                    => {
+                        const description = try project.describeProjectError(
+                            allocator,
+                            project_error,
+                        );
+
+                        exitWithError("{s}", .{description});
+                    },
+                    else => exitWithError(
+                        "Unable to read project file '{s}': {}\n",
+                        .{ filename, e },
+                    ),
+                }
+            };
+
+            try inputs.appendSlice(read_project.inputs);
+            outputs = read_project.outputs;
+        }
+        var has_command_line_inputs = false;
+
+        var argument_iterator = ArgumentIterator{ .arguments = arguments[1..] };
         while (argument_iterator.next()) |a| {
-            if (mem.eql(u8, a, "-ts") or mem.eql(u8, a, "--typescript")) {
+            if (mem.eql(u8, a, "-p") or mem.eql(u8, a, "--project")) {
+                _ = argument_iterator.next();
+            } else if (mem.eql(u8, a, "-ts") or mem.eql(u8, a, "--typescript")) {
                 if (argument_iterator.next()) |path| {
                     outputs.typescript = try OutputPath.fromString(allocator, path);
                 }
@@ -36,14 +82,70 @@ const CompilationOptions = struct {
                 if (argument_iterator.next()) |path| {
                     outputs.fsharp = try OutputPath.fromString(allocator, path);
                 }
+            } else if (mem.eql(u8, a, "-tsr") or mem.eql(u8, a, "--typescript-runtime")) {
+                if (argument_iterator.next()) |name| {
+                    outputs.typescript_options.runtime_module = name;
+                }
+            } else if (mem.eql(u8, a, "-tss") or mem.eql(u8, a, "--typescript-strict")) {
+                outputs.typescript_options.strict = true;
+            } else if (mem.eql(u8, a, "-tsd") or mem.eql(u8, a, "--typescript-date-objects")) {
+                outputs.typescript_options.date_objects = true;
+            } else if (mem.eql(u8, a, "-tsl") or mem.eql(u8, a, "--typescript-literal-enums")) {
+                outputs.typescript_options.literal_enums = true;
+            } else if (mem.eql(u8, a, "-tsn") or mem.eql(u8, a, "--typescript-namespaced-unions")) {
+                outputs.typescript_options.namespaced_unions = true;
+            } else if (mem.eql(u8, a, "-tse") or mem.eql(u8, a, "--typescript-import-extension")) {
+                if (argument_iterator.next()) |extension| {
+                    outputs.typescript_options.import_extension =
+                        ImportExtension.fromString(extension) orelse {
+                        exitWithError(
+                            "Expected import extension `js`, `ts` or `none`, got: `{s}`\n",
+                            .{extension},
+                        );
+                    };
+                }
+            } else if (mem.eql(u8, a, "-tsi") or mem.eql(u8, a, "--typescript-index")) {
+                outputs.typescript_index = true;
+            } else if (mem.eql(u8, a, "-n") or mem.eql(u8, a, "--naming")) {
+                if (argument_iterator.next()) |convention| {
+                    outputs.naming = NamingConvention.fromString(convention) orelse {
+                        exitWithError(
+                            "Expected naming convention `camelCase` or `unchanged`, got: `{s}`\n",
+                            .{convention},
+                        );
+                    };
+                }
+            } else if (mem.eql(u8, a, "-m") or mem.eql(u8, a, "--module-root")) {
+                if (argument_iterator.next()) |path| {
+                    try module_roots.append(try freeform.sanitizeFilename(allocator, path));
+                }
             } else if (mem.eql(u8, a, "-v") or mem.eql(u8, a, "--verbose")) {
                 verbose = true;
+            } else if (mem.eql(u8, a, "-w") or mem.eql(u8, a, "--watch")) {
+                watch = true;
+            } else if (mem.eql(u8, a, "-c") or mem.eql(u8, a, "--check")) {
+                check = true;
+            } else if (mem.eql(u8, a, "-d") or mem.eql(u8, a, "--diagnostics-format")) {
+                if (argument_iterator.next()) |format| {
+                    diagnostics_format = DiagnosticsFormat.fromString(format) orelse {
+                        exitWithError(
+                            "Expected diagnostics format `text` or `json`, got: `{s}`\n",
+                            .{format},
+                        );
+                    };
+                }
             } else {
+                if (!has_command_line_inputs) inputs.clearRetainingCapacity();
+                has_command_line_inputs = true;
                 try inputs.append(a);
             }
         }
 
+        if (module_roots.items.len != 0) outputs.module_roots = module_roots.items;
+
         if (verbose) {
+            if (project_filename) |filename| debug.print("Project file: {s}\n", .{filename});
+
             debug.print("Inputs:\n", .{});
 
             for (inputs.items) |input| {
@@ -56,10 +158,58 @@ const CompilationOptions = struct {
             debug.print("Output paths:\n{s}\n", .{outputs_print});
         }
 
-        return Self{ .inputs = inputs.items, .outputs = outputs, .verbose = verbose };
+        return Self{
+            .inputs = inputs.items,
+            .outputs = outputs,
+            .verbose = verbose,
+            .watch = watch,
+            .check = check,
+            .diagnostics_format = diagnostics_format,
+        };
     }
 };
 
+/// Goes through the command line arguments, after the name of the executable.
+const ArgumentIterator = struct {
+    const Self = @This();
+
+    arguments: []const [:0]u8,
+    index: usize = 0,
+
+    pub fn next(self: *Self) ?[]const u8 {
+        if (self.index == self.arguments.len) return null;
+        defer self.index += 1;
+
+        return self.arguments[self.index];
+    }
+};
+
+/// Describes why the command line or project file can't be used and exits with status 1, like
+/// when the inputs can't be parsed.
+fn exitWithError(comptime format: []const u8, arguments: anytype) noreturn {
+    io.getStdErr().writer().print(format, arguments) catch {};
+
+    process.exit(1);
+}
+
+/// The project file given on the command line, or the default one if it exists.
+fn projectFilename(arguments: []const [:0]u8) !?[]const u8 {
+    for (arguments, 0..) |a, i| {
+        if (mem.eql(u8, a, "-p") or mem.eql(u8, a, "--project")) {
+            if (i + 1 == arguments.len) exitWithError("Expected a project file after `{s}`\n", .{a});
+
+            return arguments[i + 1];
+        }
+    }
+
+    fs.cwd().access(project.default_filename, .{}) catch |e| switch (e) {
+        error.FileNotFound => return null,
+        else => return e,
+    };
+
+    return project.default_filename;
+}
+
 const InputMap = StringMap([]const u8);
 
 fn compileInputs(
@@ -67,21 +217,52 @@ fn compileInputs(
     files: []const []const u8,
     output_languages: OutputLanguages,
     verbose: bool,
-) !void {
-    try freeform.compileModules(allocator, files, output_languages, verbose);
+    diagnostics_format: DiagnosticsFormat,
+) !bool {
+    return try freeform.compileModules(
+        allocator,
+        files,
+        output_languages,
+        verbose,
+        diagnostics_format,
+    );
 }
 
 pub fn main() anyerror!void {
-    var arguments = process.args();
+    const arguments = try process.argsAlloc(heap.page_allocator);
     const compilation_options = try CompilationOptions.fromArguments(
         heap.page_allocator,
-        &arguments,
+        arguments,
     );
 
-    try compileInputs(
-        heap.page_allocator,
-        compilation_options.inputs,
-        compilation_options.outputs,
-        compilation_options.verbose,
-    );
+    if (compilation_options.check) {
+        const up_to_date = try freeform.checkModules(
+            heap.page_allocator,
+            compilation_options.inputs,
+            compilation_options.outputs,
+            compilation_options.diagnostics_format,
+        );
+
+        if (!up_to_date) process.exit(1);
+    } else if (compilation_options.watch) {
+        const watched = try freeform.watchModules(
+            heap.page_allocator,
+            compilation_options.inputs,
+            compilation_options.outputs,
+            compilation_options.verbose,
+            compilation_options.diagnostics_format,
+        );
+
+        if (!watched) process.exit(1);
+    } else {
+        const compiled = try compileInputs(
+            heap.page_allocator,
+            compilation_options.inputs,
+            compilation_options.outputs,
+            compilation_options.verbose,
+            compilation_options.diagnostics_format,
+        );
+
+        if (!compiled) process.exit(1);
+    }
 }
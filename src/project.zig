@@ -0,0 +1,543 @@
+const std = @import("std");
+const mem = std.mem;
+const fs = std.fs;
+const fmt = std.fmt;
+const json = std.json;
+const heap = std.heap;
+const testing = std.testing;
+
+const freeform = @import("freeform.zig");
+const utilities = freeform.utilities;
+
+const ArrayList = std.ArrayList;
+const OutputLanguages = freeform.OutputLanguages;
+const OutputPath = freeform.OutputPath;
+const NamingConvention = freeform.parser.NamingConvention;
+const ImportExtension = freeform.typescript.ImportExtension;
+const Location = utilities.Location;
+
+/// The project file that is read from the current directory when none is given.
+pub const default_filename = "gotyno.json";
+
+/// The inputs and options given by a project file. Paths in the file are relative to the directory
+/// that it is in.
+pub const Project = struct {
+    inputs: []const []const u8,
+    outputs: OutputLanguages,
+};
+
+pub const ProjectError = union(enum) {
+    invalid_json: InvalidJson,
+    unknown_key: UnknownKey,
+    invalid_value: InvalidValue,
+    unmatched_input: UnmatchedInput,
+};
+
+/// The project file could not be read as JSON.
+pub const InvalidJson = struct {
+    location: Location,
+    reason: []const u8,
+};
+
+/// An object in the project file has a key that isn't an option.
+pub const UnknownKey = struct {
+    filename: []const u8,
+    key: []const u8,
+    expected_keys: []const []const u8,
+};
+
+/// An option in the project file has a value of the wrong type, or one that isn't allowed.
+pub const InvalidValue = struct {
+    filename: []const u8,
+    key: []const u8,
+    expectation: []const u8,
+};
+
+/// An input pattern matches no files, which is most likely a mistake in the pattern.
+pub const UnmatchedInput = struct {
+    filename: []const u8,
+    pattern: []const u8,
+};
+
+const project_keys = [_][]const u8{ "inputs", "moduleRoots", "naming", "typescript", "fsharp" };
+
+const typescript_keys = [_][]const u8{
+    "output",
+    "runtime",
+    "strict",
+    "dateObjects",
+    "literalEnums",
+    "namespacedUnions",
+    "importExtension",
+    "index",
+};
+
+const fsharp_keys = [_][]const u8{"output"};
+
+pub fn readProject(
+    allocator: mem.Allocator,
+    filename: []const u8,
+    project_error: *ProjectError,
+) !Project {
+    const buffer = try fs.cwd().readFileAlloc(allocator, filename, 1_000_000);
+
+    return try parseProject(allocator, filename, buffer, project_error);
+}
+
+/// Parses the project file in `buffer`. Input patterns are expanded to the files that they match,
+/// which are read relative to the current directory.
+pub fn parseProject(
+    allocator: mem.Allocator,
+    filename: []const u8,
+    buffer: []const u8,
+    project_error: *ProjectError,
+) !Project {
+    var scanner = json.Scanner.initCompleteInput(allocator, buffer);
+    defer scanner.deinit();
+    var diagnostics = json.Diagnostics{};
+    scanner.enableDiagnostics(&diagnostics);
+
+    const value = json.parseFromTokenSourceLeaky(
+        json.Value,
+        allocator,
+        &scanner,
+        .{ .allocate = .alloc_always },
+    ) catch |e| switch (e) {
+        error.OutOfMemory => return e,
+        else => {
+            project_error.* = ProjectError{
+                .invalid_json = InvalidJson{
+                    .location = Location{
+                        .filename = filename,
+                        .line = diagnostics.getLine(),
+                        .column = diagnostics.getColumn(),
+                    },
+                    .reason = @errorName(e),
+                },
+            };
+
+            return error.InvalidJson;
+        },
+    };
+
+    var reader = ProjectReader{
+        .allocator = allocator,
+        .filename = filename,
+        .directory = fs.path.dirname(filename) orelse "",
+        .project_error = project_error,
+    };
+
+    return try reader.readProject(value);
+}
+
+pub fn describeProjectError(allocator: mem.Allocator, project_error: ProjectError) ![]const u8 {
+    return switch (project_error) {
+        .invalid_json => |e| try fmt.allocPrint(
+            allocator,
+            "Invalid JSON in project file at {s}:{}:{}: {s}\n",
+            .{ e.location.filename, e.location.line, e.location.column, e.reason },
+        ),
+        .unknown_key => |e| unknown_key: {
+            const expected_keys = try mem.join(allocator, ", ", e.expected_keys);
+            defer allocator.free(expected_keys);
+
+            break :unknown_key try fmt.allocPrint(
+                allocator,
+                "Unknown key `{s}` in project file {s}, expected one of: {s}\n",
+                .{ e.key, e.filename, expected_keys },
+            );
+        },
+        .invalid_value => |e| try fmt.allocPrint(
+            allocator,
+            "Invalid value for `{s}` in project file {s}, expected {s}\n",
+            .{ e.key, e.filename, e.expectation },
+        ),
+        .unmatched_input => |e| try fmt.allocPrint(
+            allocator,
+            "Input pattern `{s}` in project file {s} matches no files\n",
+            .{ e.pattern, e.filename },
+        ),
+    };
+}
+
+const ProjectReader = struct {
+    const Self = @This();
+
+    allocator: mem.Allocator,
+    filename: []const u8,
+    directory: []const u8,
+    project_error: *ProjectError,
+
+    fn readProject(self: Self, value: json.Value) !Project {
+        var project = Project{ .inputs = &[_][]const u8{}, .outputs = OutputLanguages{} };
+        const object = try self.expectObject("", value);
+
+        var iterator = object.iterator();
+        while (iterator.next()) |entry| {
+            const key = entry.key_ptr.*;
+            const entry_value = entry.value_ptr.*;
+
+            if (mem.eql(u8, key, "inputs")) {
+                project.inputs = try self.readInputs(try self.expectStrings(key, entry_value));
+            } else if (mem.eql(u8, key, "moduleRoots")) {
+                const module_roots = try self.expectStrings(key, entry_value);
+                for (module_roots) |*module_root| module_root.* = try self.path(module_root.*);
+                project.outputs.module_roots = module_roots;
+            } else if (mem.eql(u8, key, "naming")) {
+                project.outputs.naming = NamingConvention.fromString(
+                    try self.expectString(key, entry_value),
+                ) orelse return try self.invalidValue(Project, key, "`camelCase` or `unchanged`");
+            } else if (mem.eql(u8, key, "typescript")) {
+                try self.readTypeScript(&project.outputs, entry_value);
+            } else if (mem.eql(u8, key, "fsharp")) {
+                try self.readFSharp(&project.outputs, entry_value);
+            } else {
+                return try self.unknownKey(Project, "", key, &project_keys);
+            }
+        }
+
+        return project;
+    }
+
+    fn readTypeScript(self: Self, outputs: *OutputLanguages, value: json.Value) !void {
+        const object = try self.expectObject("typescript", value);
+        const options = &outputs.typescript_options;
+
+        var iterator = object.iterator();
+        while (iterator.next()) |entry| {
+            const key = try fmt.allocPrint(self.allocator, "typescript.{s}", .{entry.key_ptr.*});
+            const name = entry.key_ptr.*;
+            const entry_value = entry.value_ptr.*;
+
+            if (mem.eql(u8, name, "output")) {
+                outputs.typescript = try self.outputPath(try self.expectString(key, entry_value));
+            } else if (mem.eql(u8, name, "runtime")) {
+                options.runtime_module = try self.expectString(key, entry_value);
+            } else if (mem.eql(u8, name, "strict")) {
+                options.strict = try self.expectBool(key, entry_value);
+            } else if (mem.eql(u8, name, "dateObjects")) {
+                options.date_objects = try self.expectBool(key, entry_value);
+            } else if (mem.eql(u8, name, "literalEnums")) {
+                options.literal_enums = try self.expectBool(key, entry_value);
+            } else if (mem.eql(u8, name, "namespacedUnions")) {
+                options.namespaced_unions = try self.expectBool(key, entry_value);
+            } else if (mem.eql(u8, name, "importExtension")) {
+                options.import_extension = ImportExtension.fromString(
+                    try self.expectString(key, entry_value),
+                ) orelse return try self.invalidValue(void, key, "`js`, `ts` or `none`");
+            } else if (mem.eql(u8, name, "index")) {
+                outputs.typescript_index = try self.expectBool(key, entry_value);
+            } else {
+                return try self.unknownKey(void, "typescript.", name, &typescript_keys);
+            }
+        }
+    }
+
+    fn readFSharp(self: Self, outputs: *OutputLanguages, value: json.Value) !void {
+        const object = try self.expectObject("fsharp", value);
+
+        var iterator = object.iterator();
+        while (iterator.next()) |entry| {
+            const name = entry.key_ptr.*;
+
+            if (mem.eql(u8, name, "output")) {
+                outputs.fsharp = try self.outputPath(
+                    try self.expectString("fsharp.output", entry.value_ptr.*),
+                );
+            } else {
+                return try self.unknownKey(void, "fsharp.", name, &fsharp_keys);
+            }
+        }
+    }
+
+    fn readInputs(self: Self, patterns: []const []const u8) ![]const []const u8 {
+        var inputs = ArrayList([]const u8).init(self.allocator);
+        defer inputs.deinit();
+
+        for (patterns) |pattern| {
+            const matches = try expandPattern(self.allocator, try self.path(pattern));
+            if (matches.len == 0) {
+                self.project_error.* = ProjectError{
+                    .unmatched_input = UnmatchedInput{
+                        .filename = self.filename,
+                        .pattern = pattern,
+                    },
+                };
+
+                return error.UnmatchedInput;
+            }
+
+            for (matches) |match| {
+                if (!utilities.isStringEqualToOneOf(match, inputs.items)) try inputs.append(match);
+            }
+        }
+
+        return try inputs.toOwnedSlice();
+    }
+
+    /// `=` keeps meaning that outputs are written next to their inputs.
+    fn outputPath(self: Self, value: []const u8) !OutputPath {
+        return if (mem.eql(u8, value, "="))
+            OutputPath.input
+        else
+            try OutputPath.fromString(self.allocator, try self.path(value));
+    }
+
+    fn path(self: Self, value: []const u8) ![]const u8 {
+        return if (self.directory.len == 0 or fs.path.isAbsolute(value))
+            value
+        else
+            try fs.path.join(self.allocator, &[_][]const u8{ self.directory, value });
+    }
+
+    fn expectObject(self: Self, key: []const u8, value: json.Value) !json.ObjectMap {
+        return switch (value) {
+            .object => |object| object,
+            else => try self.invalidValue(json.ObjectMap, if (key.len == 0) "." else key, "an object"),
+        };
+    }
+
+    fn expectString(self: Self, key: []const u8, value: json.Value) ![]const u8 {
+        return switch (value) {
+            .string => |string| string,
+            else => try self.invalidValue([]const u8, key, "a string"),
+        };
+    }
+
+    fn expectBool(self: Self, key: []const u8, value: json.Value) !bool {
+        return switch (value) {
+            .bool => |b| b,
+            else => try self.invalidValue(bool, key, "`true` or `false`"),
+        };
+    }
+
+    fn expectStrings(self: Self, key: []const u8, value: json.Value) ![][]const u8 {
+        const array = switch (value) {
+            .array => |array| array,
+            else => return try self.invalidValue([][]const u8, key, "an array of strings"),
+        };
+
+        var strings = try self.allocator.alloc([]const u8, array.items.len);
+        for (array.items, 0..) |item, i| {
+            strings[i] = switch (item) {
+                .string => |string| string,
+                else => return try self.invalidValue([][]const u8, key, "an array of strings"),
+            };
+        }
+
+        return strings;
+    }
+
+    fn unknownKey(
+        self: Self,
+        comptime T: type,
+        prefix: []const u8,
+        key: []const u8,
+        expected_keys: []const []const u8,
+    ) !T {
+        self.project_error.* = ProjectError{
+            .unknown_key = UnknownKey{
+                .filename = self.filename,
+                .key = try fmt.allocPrint(self.allocator, "{s}{s}", .{ prefix, key }),
+                .expected_keys = expected_keys,
+            },
+        };
+
+        return error.UnknownKey;
+    }
+
+    fn invalidValue(self: Self, comptime T: type, key: []const u8, expectation: []const u8) !T {
+        self.project_error.* = ProjectError{
+            .invalid_value = InvalidValue{
+                .filename = self.filename,
+                .key = key,
+                .expectation = expectation,
+            },
+        };
+
+        return error.InvalidValue;
+    }
+};
+
+/// Expands `pattern` to the files that it matches, in order of their paths. `*` matches any part of
+/// a file or directory name and `**/` any number of directories. Patterns without wildcards are
+/// kept as they are, such that missing files are reported when they are read.
+fn expandPattern(allocator: mem.Allocator, pattern: []const u8) ![]const []const u8 {
+    const wildcard_index = mem.indexOfAny(u8, pattern, "*?") orelse {
+        const matches = try allocator.alloc([]const u8, 1);
+        matches[0] = pattern;
+
+        return matches;
+    };
+
+    const directory_end = if (mem.lastIndexOfScalar(u8, pattern[0..wildcard_index], '/')) |index|
+        index + 1
+    else
+        0;
+    const directory = pattern[0..directory_end];
+    const file_pattern = pattern[directory_end..];
+
+    var matches = ArrayList([]const u8).init(allocator);
+    defer matches.deinit();
+
+    var iterable_directory = fs.cwd().openIterableDir(
+        if (directory.len == 0) "." else directory,
+        .{},
+    ) catch |e| switch (e) {
+        error.FileNotFound => return try matches.toOwnedSlice(),
+        else => return e,
+    };
+    defer iterable_directory.close();
+
+    var walker = try iterable_directory.walk(allocator);
+    defer walker.deinit();
+
+    while (try walker.next()) |entry| {
+        if (entry.kind != .file) continue;
+        if (!matchesPattern(file_pattern, entry.path)) continue;
+
+        try matches.append(try fmt.allocPrint(allocator, "{s}{s}", .{ directory, entry.path }));
+    }
+
+    mem.sort([]const u8, matches.items, {}, utilities.lessThanString);
+
+    return try matches.toOwnedSlice();
+}
+
+fn matchesPattern(pattern: []const u8, path: []const u8) bool {
+    if (mem.startsWith(u8, pattern, "**/")) {
+        if (matchesPattern(pattern[3..], path)) return true;
+
+        var index: usize = 0;
+        while (mem.indexOfScalarPos(u8, path, index, '/')) |slash_index| {
+            if (matchesPattern(pattern[3..], path[(slash_index + 1)..])) return true;
+            index = slash_index + 1;
+        }
+
+        return false;
+    }
+
+    if (pattern.len == 0) return path.len == 0;
+
+    return switch (pattern[0]) {
+        '*' => {
+            var index: usize = 0;
+            while (index <= path.len) : (index += 1) {
+                if (matchesPattern(pattern[1..], path[index..])) return true;
+                if (index < path.len and path[index] == '/') return false;
+            }
+
+            return false;
+        },
+        '?' => path.len != 0 and path[0] != '/' and matchesPattern(pattern[1..], path[1..]),
+        else => path.len != 0 and path[0] == pattern[0] and
+            matchesPattern(pattern[1..], path[1..]),
+    };
+}
+
+test "Project files give inputs and options, with input patterns expanded to matching files" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const project_buffer =
+        \\{
+        \\    "inputs": ["test_files/**/basic.gotyno", "test_files/import_*.gotyno"],
+        \\    "moduleRoots": ["test_files"],
+        \\    "naming": "camelCase",
+        \\    "typescript": {
+        \\        "output": "=",
+        \\        "strict": true,
+        \\        "importExtension": "js"
+        \\    },
+        \\    "fsharp": {"output": "generated"}
+        \\}
+    ;
+
+    var project_error: ProjectError = undefined;
+
+    const project = try parseProject(allocator, "gotyno.json", project_buffer, &project_error);
+
+    try testing.expectEqual(project.inputs.len, 2);
+    try testing.expectEqualStrings("test_files/basic.gotyno", project.inputs[0]);
+    try testing.expectEqualStrings("test_files/import_test.gotyno", project.inputs[1]);
+    try testing.expectEqualStrings("test_files", project.outputs.module_roots[0]);
+    try testing.expectEqual(project.outputs.naming, NamingConvention.camel_case);
+    try testing.expect(project.outputs.typescript.? == .input);
+    try testing.expect(project.outputs.typescript_options.strict);
+    try testing.expectEqual(project.outputs.typescript_options.import_extension, .js);
+    try testing.expectEqualStrings("generated", project.outputs.fsharp.?.path);
+
+    const nested_project = try parseProject(
+        allocator,
+        "test_files/gotyno.json",
+        \\{"inputs": ["*.gotyno"], "fsharp": {"output": "generated"}}
+    ,
+        &project_error,
+    );
+
+    try testing.expect(utilities.isStringEqualToOneOf(
+        "test_files/basic.gotyno",
+        nested_project.inputs,
+    ));
+    try testing.expectEqualStrings("test_files/generated", nested_project.outputs.fsharp.?.path);
+}
+
+test "Project files with unknown keys or invalid values give errors naming the key" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    var project_error: ProjectError = undefined;
+
+    try testing.expectError(
+        error.UnknownKey,
+        parseProject(
+            allocator,
+            "gotyno.json",
+            \\{"typescript": {"strcit": true}}
+        ,
+            &project_error,
+        ),
+    );
+
+    try testing.expectEqualStrings(
+        "Unknown key `typescript.strcit` in project file gotyno.json, expected one of: output, " ++
+            "runtime, strict, dateObjects, literalEnums, namespacedUnions, importExtension, index\n",
+        try describeProjectError(allocator, project_error),
+    );
+
+    try testing.expectError(
+        error.InvalidValue,
+        parseProject(
+            allocator,
+            "gotyno.json",
+            \\{"typescript": {"importExtension": "mjs"}}
+        ,
+            &project_error,
+        ),
+    );
+
+    try testing.expectEqualStrings(
+        "Invalid value for `typescript.importExtension` in project file gotyno.json, expected " ++
+            "`js`, `ts` or `none`\n",
+        try describeProjectError(allocator, project_error),
+    );
+
+    try testing.expectError(
+        error.InvalidValue,
+        parseProject(allocator, "gotyno.json", "{\"inputs\": \"*.gotyno\"}", &project_error),
+    );
+
+    try testing.expectError(
+        error.UnmatchedInput,
+        parseProject(allocator, "gotyno.json", "{\"inputs\": [\"nope/*.gotyno\"]}", &project_error),
+    );
+
+    try testing.expectError(
+        error.InvalidJson,
+        parseProject(allocator, "gotyno.json", "{\n    \"inputs\": [,]\n}", &project_error),
+    );
+
+    try testing.expectEqual(project_error.invalid_json.location.line, 2);
+}
@@ -2,6 +2,7 @@ const std = @import("std");
 const debug = std.debug;
 const fmt = std.fmt;
 const heap = std.heap;
+const math = std.math;
 const mem = std.mem;
 const testing = std.testing;
 
@@ -16,6 +17,9 @@ const testing_utilities = @import("freeform/testing_utilities.zig");
 
 const Definition = parser.Definition;
 const Import = parser.Import;
+const ImportedDefinition = parser.ImportedDefinition;
+const Declaration = parser.Declaration;
+const Newtype = parser.Newtype;
 const UntaggedUnion = parser.UntaggedUnion;
 const UntaggedUnionValue = parser.UntaggedUnionValue;
 const Enumeration = parser.Enumeration;
@@ -29,10 +33,13 @@ const GenericUnion = parser.GenericUnion;
 const Constructor = parser.Constructor;
 const ConstructorWithEmbeddedTypeTag = parser.ConstructorWithEmbeddedTypeTag;
 const Type = parser.Type;
+const Array = parser.Array;
+const Map = parser.Map;
 const TypeReference = parser.TypeReference;
 const Field = parser.Field;
 const ParsingError = parser.ParsingError;
 const AppliedOpenName = parser.AppliedOpenName;
+const Builtin = parser.Builtin;
 
 const TestingAllocator = testing_utilities.TestingAllocator;
 
@@ -50,549 +57,1601 @@ pub fn outputFilename(allocator: mem.Allocator, filename: []const u8) ![]const u
     return mem.join(allocator, "", &[_][]const u8{ only_filename, ".ts" });
 }
 
-pub fn compileDefinitions(allocator: mem.Allocator, definitions: []const Definition) ![]const u8 {
-    var outputs = try allocator.alloc([]const u8, definitions.len + 1);
+/// How the specifiers of imports of other generated modules end, which depends on how the
+/// consuming project resolves modules.
+pub const ImportExtension = enum {
+    /// `"./basic"`, for bundlers and the classic `node` module resolution.
+    none,
+    /// `"./basic.js"`, for Node's native ESM and `nodenext` module resolution.
+    js,
+    /// `"./basic.ts"`, for runtimes that run TypeScript directly or `allowImportingTsExtensions`.
+    ts,
+
+    pub fn fromString(string: []const u8) ?ImportExtension {
+        return if (mem.eql(u8, string, "none"))
+            .none
+        else if (mem.eql(u8, string, "js"))
+            .js
+        else if (mem.eql(u8, string, "ts"))
+            .ts
+        else
+            null;
+    }
+
+    pub fn suffix(self: ImportExtension) []const u8 {
+        return switch (self) {
+            .none => "",
+            .js => ".js",
+            .ts => ".ts",
+        };
+    }
+};
+
+pub const CompilationOptions = struct {
+    /// When set, generated modules import the validation runtime from a module with this name at
+    /// the root of the output instead of from `simple-validation-tools`. See `outputRuntimeModule`.
+    runtime_module: ?[]const u8 = null,
+    /// Makes every structure and union strict, as if declared with the `strict` option.
+    strict: bool = false,
+    /// Makes `Date` and `DateTime` values `Date` objects in generated types, with validators and
+    /// decoders converting them from their ISO-8601 wire form. When not set they are kept as
+    /// validated strings.
+    date_objects: bool = false,
+    /// Outputs enumerations as `as const` objects with a union of their values as the type,
+    /// instead of as `enum`s, for setups that only allow erasable TypeScript syntax.
+    literal_enums: bool = false,
+    /// Puts the constructors of each union, and their type guards and validators, in a namespace
+    /// named after the union (`Event.LogIn(...)`, `Event.isLogIn`), so that unions in the same
+    /// module can have constructors with the same names.
+    namespaced_unions: bool = false,
+    /// The extension used in the specifiers of imports of other modules in the output directory.
+    import_extension: ImportExtension = .none,
+    /// The hierarchical name of the module being compiled, `billing.invoice`, which the specifiers
+    /// of imports of other generated modules are relative to. Modules are output to the
+    /// directories that their names give, so `shared.common` is imported as `../shared/common`.
+    module_name: ?[]const u8 = null,
+};
+
+pub fn compileDefinitions(
+    allocator: mem.Allocator,
+    definitions: []const Definition,
+    options: CompilationOptions,
+) ![]const u8 {
+    var outputs = try allocator.alloc([]const u8, definitions.len + 2);
     defer utilities.freeStringArray(allocator, outputs);
 
-    outputs[0] = try allocator.dupe(u8, "import * as svt from \"simple-validation-tools\";");
-    const prelude_definitions = 1;
+    outputs[0] = if (options.runtime_module) |runtime_module| output: {
+        const specifier = try outputModuleSpecifier(allocator, options, runtime_module);
+        defer allocator.free(specifier);
+
+        break :output try fmt.allocPrint(
+            allocator,
+            "import * as svt from \"{s}{s}\";",
+            .{ specifier, options.import_extension.suffix() },
+        );
+    } else try allocator.dupe(u8, "import * as svt from \"simple-validation-tools\";");
+
+    // the runtime helpers go after every import, declared modules' included
+    const importing_definition_count = importingDefinitionCount(definitions);
 
     for (definitions, 0..) |definition, i| {
-        outputs[i + prelude_definitions] = switch (definition) {
+        const output_index = if (i < importing_definition_count) i + 1 else i + 2;
+        outputs[output_index] = switch (definition) {
             .structure => |structure| switch (structure) {
-                .plain => |plain| try outputPlainStructure(allocator, plain),
-                .generic => |generic| try outputGenericStructure(allocator, generic),
+                .plain => |plain| try outputPlainStructure(
+                    allocator,
+                    options,
+                    withStrictness(PlainStructure, plain, options.strict),
+                ),
+                .generic => |generic| try outputGenericStructure(
+                    allocator,
+                    options,
+                    withStrictness(GenericStructure, generic, options.strict),
+                ),
             },
             .@"union" => |u| switch (u) {
-                .plain => |plain| try outputPlainUnion(allocator, plain),
-                .generic => |generic| try outputGenericUnion(allocator, generic),
-                .embedded => |e| try outputEmbeddedUnion(allocator, e),
+                .plain => |plain| try outputPlainUnion(
+                    allocator,
+                    options,
+                    withStrictness(PlainUnion, plain, options.strict),
+                ),
+                .generic => |generic| try outputGenericUnion(
+                    allocator,
+                    options,
+                    withStrictness(GenericUnion, generic, options.strict),
+                ),
+                .embedded => |e| try outputEmbeddedUnion(
+                    allocator,
+                    options,
+                    withStrictness(EmbeddedUnion, e, options.strict),
+                ),
             },
-            .enumeration => |enumeration| try outputEnumeration(allocator, enumeration),
-            .untagged_union => |u| try outputUntaggedUnion(allocator, u),
-            .import => |import| try outputImport(allocator, import),
+            .enumeration => |enumeration| try outputEnumeration(allocator, options, enumeration),
+            .untagged_union => |u| try outputUntaggedUnion(allocator, options, u),
+            .newtype => |n| try outputNewtype(allocator, options, n),
+            .import => |import| try outputImport(allocator, options, import),
+            .declaration => |declaration| try outputDeclaration(
+                allocator,
+                options,
+                declaration,
+                definitions[0..i],
+            ),
         };
     }
 
-    return try mem.join(allocator, "\n\n", outputs);
-}
-
-pub fn outputImport(allocator: mem.Allocator, i: Import) ![]const u8 {
-    return try fmt.allocPrint(
+    outputs[importing_definition_count + 1] = try outputRuntimeHelpers(
         allocator,
-        "import * as {s} from \"./{s}\";",
-        .{ i.alias, i.name.value },
+        options,
+        definitions,
     );
-}
-
-pub fn outputUntaggedUnion(allocator: mem.Allocator, u: UntaggedUnion) ![]const u8 {
-    var value_union_outputs = try allocator.alloc([]const u8, u.values.len);
-    defer utilities.freeStringArray(allocator, value_union_outputs);
 
-    for (u.values, 0..) |value, i| {
-        value_union_outputs[i] = try translateReference(allocator, value.reference);
-    }
+    const non_empty_outputs = try nonEmptyOutputs(allocator, outputs);
+    defer allocator.free(non_empty_outputs);
 
-    const value_union_output = try mem.join(allocator, " | ", value_union_outputs);
-    defer allocator.free(value_union_output);
+    return try mem.join(allocator, "\n\n", non_empty_outputs);
+}
 
-    const type_guard_output = try outputTypeGuardForUntaggedUnion(allocator, u);
-    defer allocator.free(type_guard_output);
+/// The number of definitions up to and including the last one that is output with an import
+/// statement, which are imports of other modules and declarations.
+fn importingDefinitionCount(definitions: []const Definition) usize {
+    var count: usize = 0;
+    for (definitions, 0..) |definition, i| {
+        switch (definition) {
+            .import, .declaration => count = i + 1,
+            else => {},
+        }
+    }
 
-    const validator_output = try outputValidatorForUntaggedUnion(allocator, u);
-    defer allocator.free(validator_output);
+    return count;
+}
 
-    const format =
-        \\export type {s} = {s};
+/// A piece of supporting code that generated modules can depend on but that isn't provided by
+/// `simple-validation-tools`. These are output as module-private functions, and only when the
+/// generated code for a module actually calls them.
+const RuntimeHelper = struct {
+    name: []const u8,
+    use: HelperUse,
+    source: []const u8,
+    /// Helpers that depend on `CompilationOptions.date_objects` have one version for each setting.
+    date_objects: ?bool = null,
+};
+
+const runtime_helpers = [_]RuntimeHelper{
+    .{
+        .name = "isArrayOfLength",
+        .use = .fixed_length_array,
+        .source =
+        \\function isArrayOfLength<T, N extends number>(length: N, predicate: svt.TypePredicate<T>): svt.TypePredicate<T[] & {length: N}> {
+        \\    return function isArrayOfLengthN(value: unknown): value is T[] & {length: N} {
+        \\        return svt.arrayOf(predicate)(value) && value.length === length;
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "validateArrayOfLength",
+        .use = .fixed_length_array,
+        .source =
+        \\function validateArrayOfLength<T, N extends number>(length: N, validator: svt.Validator<T>): svt.Validator<T[] & {length: N}> {
+        \\    return function validateArrayOfLengthN(value: unknown): svt.ValidationResult<T[] & {length: N}> {
+        \\        if (Array.isArray(value) && value.length !== length) {
+        \\            return svt.Invalid(`Expected array of length ${length}, got array of length ${value.length}`);
+        \\        }
         \\
-        \\{s}
+        \\        return svt.validateArray(validator)(value) as svt.ValidationResult<T[] & {length: N}>;
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "isIntegerInRange",
+        .use = .integer,
+        .source =
+        \\function isIntegerInRange(minimum: number, maximum: number): svt.TypePredicate<number> {
+        \\    return function isIntegerInRangeMinimumMaximum(value: unknown): value is number {
+        \\        return Number.isInteger(value) && (value as number) >= minimum && (value as number) <= maximum;
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "validateIntegerInRange",
+        .use = .integer,
+        .source =
+        \\function validateIntegerInRange(minimum: number, maximum: number): svt.Validator<number> {
+        \\    return function validateIntegerInRangeMinimumMaximum(value: unknown): svt.ValidationResult<number> {
+        \\        if (Number.isInteger(value) && (value as number) >= minimum && (value as number) <= maximum) {
+        \\            return svt.Valid(value as number);
+        \\        }
         \\
-        \\{s}
-    ;
+        \\        return svt.Invalid(`Expected integer in range [${minimum}, ${maximum}], got: ${value}`);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "isBigIntInRange",
+        .use = .bigint,
+        .source =
+        \\function isBigIntInRange(minimum: string, maximum: string): svt.TypePredicate<bigint> {
+        \\    return function isBigIntInRangeMinimumMaximum(value: unknown): value is bigint {
+        \\        return typeof value === "bigint" && value >= BigInt(minimum) && value <= BigInt(maximum);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "validateBigIntInRange",
+        .use = .bigint,
+        .source =
+        \\function validateBigIntInRange(minimum: string, maximum: string): svt.Validator<bigint> {
+        \\    return function validateBigIntInRangeMinimumMaximum(value: unknown): svt.ValidationResult<bigint> {
+        \\        const bigIntValue = typeof value === "string" && /^-?[0-9]+$/.test(value) ? BigInt(value) : value;
+        \\
+        \\        if (typeof bigIntValue === "bigint" && bigIntValue >= BigInt(minimum) && bigIntValue <= BigInt(maximum)) {
+        \\            return svt.Valid(bigIntValue);
+        \\        }
+        \\
+        \\        return svt.Invalid(`Expected integer string in range [${minimum}, ${maximum}], got: ${value}`);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "encodeBigInt",
+        .use = .bigint_encoding,
+        .source =
+        \\function encodeBigInt(value: bigint): string {
+        \\    return value.toString();
+        \\}
+        ,
+    },
+    .{
+        .name = "encodeUnchanged",
+        .use = .unchanged_encoding,
+        .source =
+        \\function encodeUnchanged(value: unknown): unknown {
+        \\    return value;
+        \\}
+        ,
+    },
+    .{
+        .name = "isFiniteNumber",
+        .use = .float,
+        .source =
+        \\function isFiniteNumber(value: unknown): value is number {
+        \\    return Number.isFinite(value);
+        \\}
+        ,
+    },
+    .{
+        .name = "validateFiniteNumber",
+        .use = .float,
+        .source =
+        \\function validateFiniteNumber(value: unknown): svt.ValidationResult<number> {
+        \\    if (Number.isFinite(value)) {
+        \\        return svt.Valid(value as number);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected finite number, got: ${value}`);
+        \\}
+        ,
+    },
+    .{
+        .name = "nullable",
+        .use = .nullable,
+        .source =
+        \\function nullable<T>(predicate: svt.TypePredicate<T>): svt.TypePredicate<T | null> {
+        \\    return function isNullOrT(value: unknown): value is T | null {
+        \\        return value === null || predicate(value);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "validateNullable",
+        .use = .nullable,
+        .source =
+        \\function validateNullable<T>(validator: svt.Validator<T>): svt.Validator<T | null> {
+        \\    return function validateNullOrT(value: unknown): svt.ValidationResult<T | null> {
+        \\        if (value === null) {
+        \\            return svt.Valid(null);
+        \\        }
+        \\
+        \\        const result = validator(value);
+        \\
+        \\        return result.valid ? result : svt.Invalid(result.errors + " or null");
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "optionalKey",
+        .use = .optional_key,
+        .source =
+        \\function optionalKey<T>(checker: svt.TypePredicate<T> | svt.Literal): svt.TypePredicate<T | undefined> {
+        \\    return function isAbsentOrT(value: unknown): value is T | undefined {
+        \\        return value === undefined || (typeof checker === "function" ? checker(value) : value === checker);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "validateOptionalKey",
+        .use = .optional_key,
+        .source =
+        \\function validateOptionalKey<T>(validator: svt.Validator<T> | svt.Literal): svt.Validator<T | undefined> {
+        \\    return function validateAbsentOrT(value: unknown): svt.ValidationResult<T | undefined> {
+        \\        if (value === undefined) {
+        \\            return svt.Valid(undefined);
+        \\        }
+        \\
+        \\        const result: svt.ValidationResult<T> = typeof validator === "function"
+        \\            ? validator(value)
+        \\            : value === validator
+        \\            ? svt.Valid(value as T)
+        \\            : svt.Invalid(`Does not match literal '${validator}' (${typeof validator})`);
+        \\
+        \\        return result.valid ? result : svt.Invalid(result.errors + " or absent");
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "optionalKeyToJson",
+        .use = .optional_key_encoding,
+        .source =
+        \\function optionalKeyToJson<T>(tToJson: svt.ToJSON<T>): svt.ToJSON<T | undefined> {
+        \\    return function optionalKeyTToJson(value: T | undefined): unknown {
+        \\        return value === undefined ? undefined : tToJson(value);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "isDate",
+        .use = .date,
+        .date_objects = false,
+        .source =
+        \\function isDate(value: unknown): value is string {
+        \\    return typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+        \\        !Number.isNaN(Date.parse(value)) &&
+        \\        new Date(value).toISOString().startsWith(value);
+        \\}
+        ,
+    },
+    .{
+        .name = "validateDate",
+        .use = .date,
+        .date_objects = false,
+        .source =
+        \\function validateDate(value: unknown): svt.ValidationResult<string> {
+        \\    if (
+        \\        typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+        \\        !Number.isNaN(Date.parse(value)) &&
+        \\        new Date(value).toISOString().startsWith(value)
+        \\    ) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 date, got: ${value}`);
+        \\}
+        ,
+    },
+    .{
+        .name = "isDate",
+        .use = .date,
+        .date_objects = true,
+        .source =
+        \\function isDate(value: unknown): value is Date {
+        \\    return value instanceof Date && !Number.isNaN(value.getTime());
+        \\}
+        ,
+    },
+    .{
+        .name = "validateDate",
+        .use = .date,
+        .date_objects = true,
+        .source =
+        \\function validateDate(value: unknown): svt.ValidationResult<Date> {
+        \\    if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        \\        const date = new Date(value);
+        \\        if (!Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)) {
+        \\            return svt.Valid(date);
+        \\        }
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 date, got: ${value}`);
+        \\}
+        ,
+    },
+    .{
+        .name = "encodeDate",
+        .use = .date_encoding,
+        .date_objects = true,
+        .source =
+        \\function encodeDate(value: Date): string {
+        \\    return value.toISOString().slice(0, 10);
+        \\}
+        ,
+    },
+    .{
+        .name = "isDateTime",
+        .use = .date_time,
+        .date_objects = false,
+        .source =
+        \\function isDateTime(value: unknown): value is string {
+        \\    return typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value) &&
+        \\        !Number.isNaN(Date.parse(value)) &&
+        \\        new Date(value.slice(0, 10)).toISOString().startsWith(value.slice(0, 10));
+        \\}
+        ,
+    },
+    .{
+        .name = "validateDateTime",
+        .use = .date_time,
+        .date_objects = false,
+        .source =
+        \\function validateDateTime(value: unknown): svt.ValidationResult<string> {
+        \\    if (
+        \\        typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value) &&
+        \\        !Number.isNaN(Date.parse(value)) &&
+        \\        new Date(value.slice(0, 10)).toISOString().startsWith(value.slice(0, 10))
+        \\    ) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 date and time with offset, got: ${value}`);
+        \\}
+        ,
+    },
+    .{
+        .name = "isDateTime",
+        .use = .date_time,
+        .date_objects = true,
+        .source =
+        \\function isDateTime(value: unknown): value is Date {
+        \\    return value instanceof Date && !Number.isNaN(value.getTime());
+        \\}
+        ,
+    },
+    .{
+        .name = "validateDateTime",
+        .use = .date_time,
+        .date_objects = true,
+        .source =
+        \\function validateDateTime(value: unknown): svt.ValidationResult<Date> {
+        \\    if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    if (
+        \\        typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value) &&
+        \\        new Date(value.slice(0, 10)).toISOString().startsWith(value.slice(0, 10))
+        \\    ) {
+        \\        const date = new Date(value);
+        \\        if (!Number.isNaN(date.getTime())) {
+        \\            return svt.Valid(date);
+        \\        }
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 date and time with offset, got: ${value}`);
+        \\}
+        ,
+    },
+    .{
+        .name = "encodeDateTime",
+        .use = .date_time_encoding,
+        .date_objects = true,
+        .source =
+        \\function encodeDateTime(value: Date): string {
+        \\    return value.toISOString();
+        \\}
+        ,
+    },
+    .{
+        .name = "isDuration",
+        .use = .duration,
+        .source =
+        \\function isDuration(value: unknown): value is string {
+        \\    return typeof value === "string" &&
+        \\        /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value);
+        \\}
+        ,
+    },
+    .{
+        .name = "validateDuration",
+        .use = .duration,
+        .source =
+        \\function validateDuration(value: unknown): svt.ValidationResult<string> {
+        \\    if (
+        \\        typeof value === "string" &&
+        \\        /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value)
+        \\    ) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 duration, got: ${value}`);
+        \\}
+        ,
+    },
+    .{
+        .name = "isMapOf",
+        .use = .map,
+        .source =
+        \\function isMapOf<K extends string, V>(keyChecker: svt.TypePredicate<K> | svt.Literal, predicate: svt.TypePredicate<V>): svt.TypePredicate<Partial<Record<K, V>>> {
+        \\    return function isMapOfKV(value: unknown): value is Partial<Record<K, V>> {
+        \\        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        \\            return false;
+        \\        }
+        \\
+        \\        return Object.entries(value).every(([key, v]) =>
+        \\            (typeof keyChecker === "function" ? keyChecker(key) : key === keyChecker) && predicate(v)
+        \\        );
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "validateMapOf",
+        .use = .map,
+        .source =
+        \\function validateMapOf<K extends string, V>(keyValidator: svt.Validator<K> | svt.Literal, validator: svt.Validator<V>): svt.Validator<Partial<Record<K, V>>> {
+        \\    return function validateMapOfKV(value: unknown): svt.ValidationResult<Partial<Record<K, V>>> {
+        \\        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        \\            return svt.Invalid("is not an object");
+        \\        }
+        \\
+        \\        const errors: svt.ErrorMap = {};
+        \\        let hasErrors = false;
+        \\        const validated: Partial<Record<K, V>> = {};
+        \\        for (const [key, v] of Object.entries(value)) {
+        \\            const keyResult: svt.ValidationResult<K> = typeof keyValidator === "function"
+        \\                ? keyValidator(key)
+        \\                : key === keyValidator
+        \\                ? svt.Valid(key as K)
+        \\                : svt.Invalid(`Does not match literal '${keyValidator}'`);
+        \\            if (!keyResult.valid) {
+        \\                errors[key] = `Invalid key '${key}': ${keyResult.errors}`;
+        \\                hasErrors = true;
+        \\                continue;
+        \\            }
+        \\
+        \\            const result = validator(v);
+        \\            if (!result.valid) {
+        \\                errors[key] = result.errors;
+        \\                hasErrors = true;
+        \\                continue;
+        \\            }
+        \\
+        \\            validated[keyResult.value] = result.value;
+        \\        }
+        \\
+        \\        return hasErrors ? svt.Invalid(errors) : svt.Valid(validated);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "mapToJson",
+        .use = .map_encoding,
+        .source =
+        \\function mapToJson<V>(vToJson: svt.ToJSON<V>): svt.ToJSON<{[key: string]: unknown}> {
+        \\    return function mapOfVToJson(value: {[key: string]: unknown}): unknown {
+        \\        const json: {[key: string]: unknown} = {};
+        \\        for (const [key, v] of Object.entries(value)) {
+        \\            if (v !== undefined) {
+        \\                json[key] = vToJson(v as V);
+        \\            }
+        \\        }
+        \\
+        \\        return json;
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "withCodeNames",
+        .use = .renamed_fields,
+        .source =
+        \\function withCodeNames<T>(result: svt.ValidationResult<T>, codeNames: {[key: string]: string}): svt.ValidationResult<T> {
+        \\    if (!result.valid) {
+        \\        return result;
+        \\    }
+        \\
+        \\    const value = result.value as unknown as {[key: string]: unknown};
+        \\    const renamed: {[key: string]: unknown} = {};
+        \\    for (const key of Object.keys(value)) {
+        \\        renamed[Object.prototype.hasOwnProperty.call(codeNames, key) ? codeNames[key] : key] = value[key];
+        \\    }
+        \\
+        \\    return svt.Valid(renamed as unknown as T);
+        \\}
+        ,
+    },
+    .{
+        .name = "isExactInterface",
+        .use = .strict,
+        .source =
+        \\function isExactInterface<T>(value: unknown, specification: svt.InterfaceSpecification): value is T {
+        \\    return svt.isInterface<T>(value, specification) &&
+        \\        Object.keys(value as object).every((key) => Object.prototype.hasOwnProperty.call(specification, key));
+        \\}
+        ,
+    },
+    .{
+        .name = "validateExactInterface",
+        .use = .strict,
+        .source =
+        \\function validateExactInterface<T>(value: unknown, specification: svt.ValidationSpecification): svt.ValidationResult<T> {
+        \\    const result = svt.validate<T>(value, specification);
+        \\
+        \\    if (typeof value !== "object" || value === null) {
+        \\        return result;
+        \\    }
+        \\
+        \\    const unknownKeys = Object.keys(value).filter((key) => !Object.prototype.hasOwnProperty.call(specification, key));
+        \\
+        \\    if (unknownKeys.length === 0) {
+        \\        return result;
+        \\    }
+        \\
+        \\    const errors: svt.ErrorMap = result.valid || typeof result.errors === "string" ? {} : {...result.errors};
+        \\    for (const key of unknownKeys) {
+        \\        errors[key] = `Unknown key '${key}'`;
+        \\    }
+        \\
+        \\    return svt.Invalid(errors);
+        \\}
+        ,
+    },
+};
+
+/// The parts of `simple-validation-tools` that generated code uses, for outputting a runtime
+/// module that generated modules can use instead of depending on the package. Only the parts that
+/// are actually referenced are output, together with the types that everything else is built on.
+const runtime_module_core =
+    \\export type ValidationResult<T> = Valid<T> | Invalid<T>;
+    \\
+    \\export type Validator<T> = (value: unknown) => ValidationResult<T>;
+    \\
+    \\export type TypePredicate<T> = (value: unknown) => value is T;
+    \\
+    \\export type ToJSON<T> = (value: T) => unknown;
+    \\
+    \\export type ErrorMap = {[key: string]: string | ErrorMap};
+    \\
+    \\export type Literal = number | string | boolean | bigint | undefined | null;
+    \\
+    \\export type InterfaceSpecification = {[key: string]: Literal | TypePredicate<unknown>};
+    \\
+    \\export type ValidationSpecification = {[key: string]: Literal | Validator<unknown>};
+    \\
+    \\export type Valid<T> = {type: "Valid"; valid: true; value: T};
+    \\
+    \\export type Invalid<T> = {type: "Invalid"; valid: false; errors: ErrorMap | string};
+    \\
+    \\export function Valid<T>(value: T): Valid<T> {
+    \\    return {type: "Valid", valid: true, value};
+    \\}
+    \\
+    \\export function Invalid<T>(errors: ErrorMap | string): Invalid<T> {
+    \\    return {type: "Invalid", valid: false, errors};
+    \\}
+    \\
+    \\function isObject(value: unknown): value is {[key: string]: unknown} {
+    \\    return typeof value === "object" && value !== null;
+    \\}
+;
+
+/// A part of the module output by `outputRuntimeModule`, named after what it exports.
+const RuntimeModulePart = struct {
+    name: []const u8,
+    source: []const u8,
+};
+
+const runtime_module_parts = [_]RuntimeModulePart{
+    .{
+        .name = "isInterface",
+        .source =
+        \\export function isInterface<T>(value: unknown, specification: InterfaceSpecification): value is T {
+        \\    if (!isObject(value)) {
+        \\        return false;
+        \\    }
+        \\
+        \\    return Object.keys(specification).every((key) => {
+        \\        const checker = specification[key];
+        \\
+        \\        return typeof checker === "function" ? checker(value[key]) : value[key] === checker;
+        \\    });
+        \\}
+        ,
+    },
+    .{
+        .name = "validate",
+        .source =
+        \\export function validate<T>(value: unknown, specification: ValidationSpecification): ValidationResult<T> {
+        \\    if (!isObject(value)) {
+        \\        return Invalid("is not a StringMap/object");
+        \\    }
+        \\
+        \\    const errors: ErrorMap = {};
+        \\    const validated: {[key: string]: unknown} = {};
+        \\    let hasErrors = false;
+        \\
+        \\    for (const key of Object.keys(specification)) {
+        \\        const validator = specification[key];
+        \\        const result: ValidationResult<unknown> = typeof validator === "function"
+        \\            ? validator(value[key])
+        \\            : value[key] === validator
+        \\            ? Valid(value[key])
+        \\            : Invalid(`Does not match literal '${validator}' (${typeof validator})`);
+        \\
+        \\        if (result.valid) {
+        \\            validated[key] = result.value;
+        \\        } else {
+        \\            hasErrors = true;
+        \\            errors[key] = result.errors;
+        \\        }
+        \\    }
+        \\
+        \\    return hasErrors ? Invalid(errors) : Valid(validated as T);
+        \\}
+        ,
+    },
+    .{
+        .name = "validateWithTypeTag",
+        .source =
+        \\export function validateWithTypeTag<T>(value: unknown, specification: {[tag: string]: Validator<T> | undefined}, tagField: string): ValidationResult<T> {
+        \\    if (!isObject(value) || typeof value[tagField] !== "string") {
+        \\        return Invalid(`Expecting type tag but found none in: ${JSON.stringify(value, null, 4)}`);
+        \\    }
+        \\
+        \\    const tag = value[tagField] as string;
+        \\    const validator = Object.prototype.hasOwnProperty.call(specification, tag) ? specification[tag] : undefined;
+        \\
+        \\    if (validator === undefined) {
+        \\        return Invalid(`Unknown type tag. Expected one of: ${Object.keys(specification).join(", ")} but found '${tag}'`);
+        \\    }
+        \\
+        \\    return validator(value);
+        \\}
+        ,
+    },
+    .{
+        .name = "validateOneOf",
+        .source =
+        \\export function validateOneOf<T>(value: unknown, validators: Validator<T>[]): ValidationResult<T> {
+        \\    for (const validator of validators) {
+        \\        const result = validator(value);
+        \\
+        \\        if (result.valid) {
+        \\            return result;
+        \\        }
+        \\    }
+        \\
+        \\    const names = validators.map((v) => "`" + v.name + "`").join(", ");
+        \\
+        \\    return Invalid(`Expected to match one of ${names}, found: ${JSON.stringify(value, null, 2)} (${typeof value})`);
+        \\}
+        ,
+    },
+    .{
+        .name = "validateOneOfLiterals",
+        .source =
+        \\export function validateOneOfLiterals<T extends Literal>(value: unknown, values: readonly T[]): ValidationResult<T> {
+        \\    if (values.some((v) => v === value)) {
+        \\        return Valid(value as T);
+        \\    }
+        \\
+        \\    const joinedValues = values.map((v) => JSON.stringify(v, null, 4)).join(", ");
+        \\
+        \\    return Invalid(`Expected to match one of ${joinedValues} but found ${value}`);
+        \\}
+        ,
+    },
+    .{
+        .name = "optional",
+        .source =
+        \\export function optional<T>(predicate: TypePredicate<T>): TypePredicate<T | null | undefined> {
+        \\    return function isOptionalOrT(value: unknown): value is T | null | undefined {
+        \\        return value === null || value === undefined || predicate(value);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "validateOptional",
+        .source =
+        \\export function validateOptional<T>(validator: Validator<T>): Validator<T | null | undefined> {
+        \\    return function validateOptionalOrT(value: unknown): ValidationResult<T | null | undefined> {
+        \\        if (value === null || value === undefined) {
+        \\            return Valid(undefined);
+        \\        }
+        \\
+        \\        const result = validator(value);
+        \\
+        \\        return result.valid ? result : Invalid(result.errors + " or null/undefined");
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "arrayOf",
+        .source =
+        \\export function arrayOf<T>(predicate: TypePredicate<T>): TypePredicate<T[]> {
+        \\    return function isArrayOfT(value: unknown): value is T[] {
+        \\        return Array.isArray(value) && value.every(predicate);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "validateArray",
+        .source =
+        \\export function validateArray<T>(validator: Validator<T>): Validator<T[]> {
+        \\    return function validateArrayOfT(value: unknown): ValidationResult<T[]> {
+        \\        if (!Array.isArray(value)) {
+        \\            return Invalid("is not an array");
+        \\        }
+        \\
+        \\        const errors: ErrorMap = {};
+        \\        const validated: T[] = [];
+        \\        let hasErrors = false;
+        \\
+        \\        value.forEach((v, index) => {
+        \\            const result = validator(v);
+        \\
+        \\            if (result.valid) {
+        \\                validated.push(result.value);
+        \\            } else {
+        \\                hasErrors = true;
+        \\                errors[index] = result.errors;
+        \\            }
+        \\        });
+        \\
+        \\        return hasErrors ? Invalid(errors) : Valid(validated);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "arrayToJson",
+        .source =
+        \\export function arrayToJson<T>(tToJson: ToJSON<T>): ToJSON<T[]> {
+        \\    return function arrayTToJson(value: T[]): unknown {
+        \\        return value.map(tToJson);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "optionalToJson",
+        .source =
+        \\export function optionalToJson<T>(tToJson: ToJSON<T>): ToJSON<T | null | undefined> {
+        \\    return function optionalTToJson(value: T | null | undefined): unknown {
+        \\        return value === null || value === undefined ? null : tToJson(value);
+        \\    };
+        \\}
+        ,
+    },
+    .{
+        .name = "basicToJson",
+        .source =
+        \\export function basicToJson(value: string | number | bigint | boolean): unknown {
+        \\    return value;
+        \\}
+        ,
+    },
+    .{
+        .name = "isString",
+        .source =
+        \\export function isString(value: unknown): value is string {
+        \\    return typeof value === "string";
+        \\}
+        ,
+    },
+    .{
+        .name = "isBoolean",
+        .source =
+        \\export function isBoolean(value: unknown): value is boolean {
+        \\    return typeof value === "boolean";
+        \\}
+        ,
+    },
+    .{
+        .name = "validateString",
+        .source =
+        \\export function validateString(value: unknown): ValidationResult<string> {
+        \\    return typeof value === "string" ? Valid(value) : Invalid("is not string");
+        \\}
+        ,
+    },
+    .{
+        .name = "validateBoolean",
+        .source =
+        \\export function validateBoolean(value: unknown): ValidationResult<boolean> {
+        \\    return typeof value === "boolean" ? Valid(value) : Invalid("is not boolean");
+        \\}
+        ,
+    },
+};
+
+/// Outputs a module that can be used in place of `simple-validation-tools` by the generated
+/// modules in `outputs`, containing only what they use from it.
+pub fn outputRuntimeModule(allocator: mem.Allocator, outputs: []const []const u8) ![]const u8 {
+    var part_outputs = ArrayList([]const u8).init(allocator);
+    defer part_outputs.deinit();
+
+    try part_outputs.append(runtime_module_core);
+
+    for (runtime_module_parts) |part| {
+        const qualified_name = try fmt.allocPrint(allocator, "svt.{s}", .{part.name});
+        defer allocator.free(qualified_name);
+
+        for (outputs) |output| {
+            if (containsIdentifier(output, qualified_name)) {
+                try part_outputs.append(part.source);
+                break;
+            }
+        }
+    }
 
-    return try fmt.allocPrint(
-        allocator,
-        format,
-        .{ u.name.value, value_union_output, type_guard_output, validator_output },
-    );
+    return try mem.join(allocator, "\n\n", part_outputs.items);
 }
 
-fn outputTypeGuardForUntaggedUnion(allocator: mem.Allocator, u: UntaggedUnion) ![]const u8 {
-    const name = u.name.value;
+fn outputRuntimeHelpers(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    definitions: []const Definition,
+) ![]const u8 {
+    const uses = helperUses(options, definitions);
 
-    var predicate_outputs = try allocator.alloc([]const u8, u.values.len);
-    defer utilities.freeStringArray(allocator, predicate_outputs);
+    var helper_outputs = ArrayList([]const u8).init(allocator);
+    defer helper_outputs.deinit();
 
-    for (u.values, 0..) |value, i| {
-        predicate_outputs[i] = try translatedTypeGuardReference(allocator, value.reference);
+    for (runtime_helpers) |helper| {
+        if (helper.date_objects) |date_objects| {
+            if (date_objects != options.date_objects) continue;
+        }
+
+        if (uses.contains(helper.use)) try helper_outputs.append(helper.source);
     }
 
-    const predicates_output = try mem.join(allocator, ", ", predicate_outputs);
-    defer allocator.free(predicates_output);
+    return try mem.join(allocator, "\n\n", helper_outputs.items);
+}
 
-    const format =
-        \\export function is{s}(value: unknown): value is {s} {{
-        \\    return [{s}].some((typePredicate) => typePredicate(value));
-        \\}}
-    ;
+/// What runtime helpers are used for. Which of these the generated code for a module needs is
+/// decided from the types in its definitions, see `helperUses`.
+const HelperUse = enum {
+    fixed_length_array,
+    integer,
+    bigint,
+    bigint_encoding,
+    unchanged_encoding,
+    float,
+    nullable,
+    optional_key,
+    optional_key_encoding,
+    date,
+    date_encoding,
+    date_time,
+    date_time_encoding,
+    duration,
+    map,
+    map_encoding,
+    renamed_fields,
+    strict,
+};
+
+const HelperUses = std.EnumSet(HelperUse);
+
+/// Goes through the types in `definitions` the same way their type guards, validators and
+/// encoders are output, collecting what the output will need helpers for.
+fn helperUses(options: CompilationOptions, definitions: []const Definition) HelperUses {
+    var uses = HelperUses.initEmpty();
+
+    for (definitions) |definition| {
+        switch (definition) {
+            .structure => |structure| switch (structure) {
+                .plain => |plain| {
+                    if (plain.strict or options.strict) uses.insert(.strict);
+                    addFieldUses(&uses, options, plain.fields);
+                },
+                .generic => |generic| {
+                    if (generic.strict or options.strict) uses.insert(.strict);
+                    addFieldUses(&uses, options, generic.fields);
+                },
+            },
+            .@"union" => |u| switch (u) {
+                .plain => |plain| {
+                    if (plain.strict or options.strict) uses.insert(.strict);
+                    addConstructorUses(&uses, options, plain.constructors);
+                },
+                .generic => |generic| {
+                    if (generic.strict or options.strict) uses.insert(.strict);
+                    addConstructorUses(&uses, options, generic.constructors);
+                },
+                .embedded => |embedded| {
+                    if (embedded.strict or options.strict) uses.insert(.strict);
+                    for (embedded.constructors) |constructor| {
+                        const parameter = constructor.parameter orelse continue;
+                        switch (parameter) {
+                            .plain => |p| addFieldUses(&uses, options, p.fields),
+                            .generic => |g| addFieldUses(&uses, options, g.fields),
+                        }
+                    }
+                },
+            },
+            .untagged_union => |u| for (u.values) |value| {
+                addTypeUses(&uses, options, Type{ .reference = value.reference });
+            },
+            .newtype => |n| addTypeUses(&uses, options, n.type.*),
+            .enumeration, .import, .declaration => {},
+        }
+    }
 
-    return try fmt.allocPrint(allocator, format, .{ name, name, predicates_output });
+    return uses;
 }
 
-fn outputValidatorForUntaggedUnion(allocator: mem.Allocator, u: UntaggedUnion) ![]const u8 {
-    const name = u.name.value;
+fn addFieldUses(uses: *HelperUses, options: CompilationOptions, fields: []const Field) void {
+    for (fields) |field| {
+        if (field.isRenamed()) uses.insert(.renamed_fields);
 
-    var validator_outputs = try allocator.alloc([]const u8, u.values.len);
-    defer utilities.freeStringArray(allocator, validator_outputs);
+        if (field.optional_key) {
+            uses.insert(.optional_key);
+            if (encoderNeeded(options, field.type)) uses.insert(.optional_key_encoding);
+        }
+        if (field.required_key) uses.insert(.nullable);
 
-    for (u.values, 0..) |value, i| {
-        validator_outputs[i] = try translatedValidatorReference(allocator, value.reference);
+        addTypeUses(uses, options, field.type);
     }
+}
 
-    const validators_output = try mem.join(allocator, ", ", validator_outputs);
-    defer allocator.free(validators_output);
+fn addConstructorUses(
+    uses: *HelperUses,
+    options: CompilationOptions,
+    constructors: []const Constructor,
+) void {
+    for (constructors) |constructor| addTypeUses(uses, options, constructor.parameter);
+}
 
-    const format =
-        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
-        \\    return svt.validateOneOf<{s}>(value, [{s}]);
-        \\}}
-    ;
+fn addTypeUses(uses: *HelperUses, options: CompilationOptions, t: Type) void {
+    addCheckedTypeUses(uses, t);
+    if (encoderNeeded(options, t)) addEncodedTypeUses(uses, options, t);
+}
 
-    return try fmt.allocPrint(allocator, format, .{ name, name, name, validators_output });
+/// Mirrors `getTypeGuardFromType` and `getValidatorFromType`.
+fn addCheckedTypeUses(uses: *HelperUses, t: Type) void {
+    switch (t) {
+        .empty, .string => {},
+        .reference => |r| addCheckedReferenceUses(uses, r),
+        .array => |a| {
+            uses.insert(.fixed_length_array);
+            addCheckedTypeUses(uses, a.type.*);
+        },
+        .slice => |s| addCheckedTypeUses(uses, s.type.*),
+        .pointer => |p| addCheckedTypeUses(uses, p.type.*),
+        .optional => |o| addCheckedTypeUses(uses, o.type.*),
+        .map => |m| {
+            uses.insert(.map);
+            addCheckedTypeUses(uses, m.key.*);
+            addCheckedTypeUses(uses, m.value.*);
+        },
+    }
 }
 
-pub fn outputEnumeration(allocator: mem.Allocator, enumeration: Enumeration) ![]const u8 {
-    const name = enumeration.name.value;
+fn addCheckedReferenceUses(uses: *HelperUses, reference: TypeReference) void {
+    switch (reference) {
+        .builtin => |b| if (builtinUse(b)) |use| uses.insert(use),
+        .applied_name => |applied_name| {
+            addCheckedReferenceUses(uses, applied_name.reference.*);
+            for (applied_name.open_names) |name| addCheckedTypeUses(uses, name.reference);
+        },
+        .definition, .imported_definition, .loose, .open => {},
+    }
+}
 
-    var field_outputs = try allocator.alloc([]const u8, enumeration.fields.len);
-    defer utilities.freeStringArray(allocator, field_outputs);
+/// The helpers that `builtinTypeGuard` and `builtinValidator` use.
+fn builtinUse(b: Builtin) ?HelperUse {
+    return switch (b) {
+        .String, .Boolean => null,
+        .U8, .U16, .U32, .I8, .I16, .I32 => .integer,
+        .U64, .U128, .I64, .I128 => .bigint,
+        .F32, .F64, .F128 => .float,
+        .Date => .date,
+        .DateTime => .date_time,
+        .Duration => .duration,
+    };
+}
 
-    for (enumeration.fields, 0..) |field, i| {
-        field_outputs[i] = try outputEnumerationField(allocator, field);
+/// Mirrors `getEncoderFromType`.
+fn addEncodedTypeUses(uses: *HelperUses, options: CompilationOptions, t: Type) void {
+    switch (t) {
+        .empty, .string => {},
+        .reference => |r| addEncodedReferenceUses(uses, options, r),
+        .array => |a| addEncodedTypeUses(uses, options, a.type.*),
+        .slice => |s| addEncodedTypeUses(uses, options, s.type.*),
+        .pointer => |p| addEncodedTypeUses(uses, options, p.type.*),
+        .optional => |o| addEncodedTypeUses(uses, options, o.type.*),
+        .map => |m| {
+            uses.insert(.map_encoding);
+            addEncodedTypeUses(uses, options, m.value.*);
+        },
     }
+}
 
-    const fields_output = try mem.join(allocator, "\n", field_outputs);
-    defer allocator.free(fields_output);
+fn addEncodedReferenceUses(
+    uses: *HelperUses,
+    options: CompilationOptions,
+    reference: TypeReference,
+) void {
+    if (isDeclarationReference(reference)) return uses.insert(.unchanged_encoding);
+
+    switch (reference) {
+        .builtin => |b| if (isBigIntBuiltin(b)) {
+            uses.insert(.bigint_encoding);
+        } else if (options.date_objects and b == .Date) {
+            uses.insert(.date_encoding);
+        } else if (options.date_objects and b == .DateTime) {
+            uses.insert(.date_time_encoding);
+        },
+        .applied_name => |applied_name| {
+            if (isDeclarationReference(applied_name.reference.*)) {
+                return uses.insert(.unchanged_encoding);
+            }
 
-    const type_guard_output = try outputEnumerationTypeGuard(allocator, name, enumeration.fields);
-    defer allocator.free(type_guard_output);
+            for (applied_name.open_names) |name| addEncodedTypeUses(uses, options, name.reference);
+        },
+        .definition, .imported_definition, .loose, .open => {},
+    }
+}
 
-    const validator_output = try outputEnumerationValidator(allocator, name, enumeration.fields);
-    defer allocator.free(validator_output);
+fn containsIdentifier(output: []const u8, identifier: []const u8) bool {
+    var start: usize = 0;
+    while (mem.indexOfPos(u8, output, start, identifier)) |index| {
+        const end = index + identifier.len;
+        const starts_identifier = index == 0 or !isIdentifierCharacter(output[index - 1]);
+        const ends_identifier = end == output.len or !isIdentifierCharacter(output[end]);
+        if (starts_identifier and ends_identifier) return true;
 
-    const format =
-        \\export enum {s} {{
-        \\{s}
-        \\}}
-        \\
-        \\{s}
-        \\
-        \\{s}
-    ;
+        start = end;
+    }
 
-    return try fmt.allocPrint(
-        allocator,
-        format,
-        .{ name, fields_output, type_guard_output, validator_output },
-    );
+    return false;
 }
 
-fn outputEnumerationTypeGuard(
-    allocator: mem.Allocator,
-    name: []const u8,
-    fields: []const EnumerationField,
-) ![]const u8 {
-    var tag_outputs = try allocator.alloc([]const u8, fields.len);
-    defer utilities.freeStringArray(allocator, tag_outputs);
+fn isIdentifierCharacter(c: u8) bool {
+    return std.ascii.isAlphanumeric(c) or c == '_' or c == '$' or c == '.';
+}
 
-    for (fields, 0..) |field, i| {
-        tag_outputs[i] = try fmt.allocPrint(allocator, "{s}.{s}", .{ name, field.tag });
-    }
+fn withStrictness(comptime T: type, definition: T, strict: bool) T {
+    var d = definition;
+    d.strict = d.strict or strict;
 
-    const tags_output = try mem.join(allocator, ", ", tag_outputs);
-    defer allocator.free(tags_output);
+    return d;
+}
 
-    const format =
-        \\export function is{s}(value: unknown): value is {s} {{
-        \\    return [{s}].some((v) => v === value);
-        \\}}
-    ;
+fn nonEmptyOutputs(allocator: mem.Allocator, outputs: []const []const u8) ![]const []const u8 {
+    var non_empty_outputs = ArrayList([]const u8).init(allocator);
 
-    return try fmt.allocPrint(allocator, format, .{ name, name, tags_output });
+    for (outputs) |output| {
+        if (output.len != 0) try non_empty_outputs.append(output);
+    }
+
+    return try non_empty_outputs.toOwnedSlice();
 }
 
-fn outputEnumerationValidator(
+/// Prefixes `output` with `doc_comment` as a TSDoc comment with the same indentation. Takes
+/// ownership of `output`.
+fn withDocComment(
     allocator: mem.Allocator,
-    name: []const u8,
-    fields: []const EnumerationField,
+    doc_comment: ?[]const u8,
+    indentation: []const u8,
+    output: []const u8,
 ) ![]const u8 {
-    var tag_outputs = try allocator.alloc([]const u8, fields.len);
-    defer utilities.freeStringArray(allocator, tag_outputs);
-
-    for (fields, 0..) |field, i| {
-        tag_outputs[i] = try fmt.allocPrint(allocator, "{s}.{s}", .{ name, field.tag });
-    }
-
-    const tags_output = try mem.join(allocator, ", ", tag_outputs);
-    defer allocator.free(tags_output);
+    const comment = doc_comment orelse return output;
+    defer allocator.free(output);
 
-    const format =
-        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
-        \\    return svt.validateOneOfLiterals<{s}>(value, [{s}]);
-        \\}}
-    ;
+    const comment_output = try outputDocComment(allocator, comment, indentation);
+    defer allocator.free(comment_output);
 
-    return try fmt.allocPrint(allocator, format, .{ name, name, name, tags_output });
+    return try fmt.allocPrint(allocator, "{s}\n{s}", .{ comment_output, output });
 }
 
-fn outputEnumerationField(allocator: mem.Allocator, field: EnumerationField) ![]const u8 {
-    const value_output = switch (field.value) {
-        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
-        .unsigned_integer => |ui| try fmt.allocPrint(allocator, "{}", .{ui}),
-    };
-    defer allocator.free(value_output);
+/// Outputs `doc_comment` followed by a newline, or nothing if there is none, for putting in front
+/// of each of the declarations generated for a definition.
+fn outputDocCommentLine(allocator: mem.Allocator, doc_comment: ?[]const u8) ![]const u8 {
+    const comment = doc_comment orelse return try allocator.dupe(u8, "");
 
-    const format = "    {s} = {s},";
+    const comment_output = try outputDocComment(allocator, comment, "");
+    defer allocator.free(comment_output);
 
-    return try fmt.allocPrint(allocator, format, .{ field.tag, value_output });
+    return try fmt.allocPrint(allocator, "{s}\n", .{comment_output});
 }
 
-pub fn outputPlainStructure(
+fn outputDocComment(
     allocator: mem.Allocator,
-    plain_structure: PlainStructure,
+    doc_comment: []const u8,
+    indentation: []const u8,
 ) ![]const u8 {
-    const name = plain_structure.name.value;
+    // the comment would otherwise end early
+    const escaped_comment = try mem.replaceOwned(u8, allocator, doc_comment, "*/", "*\\/");
+    defer allocator.free(escaped_comment);
 
-    const fields_output = try outputStructureFields(allocator, plain_structure.fields);
-    defer allocator.free(fields_output);
+    if (mem.indexOfScalar(u8, escaped_comment, '\n') == null) {
+        return try fmt.allocPrint(allocator, "{s}/** {s} */", .{ indentation, escaped_comment });
+    }
 
-    const type_guards_output = try outputTypeGuardForPlainStructure(allocator, plain_structure);
-    defer allocator.free(type_guards_output);
+    var lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(lines);
 
-    const validator_output = try outputValidatorForPlainStructure(allocator, plain_structure);
-    defer allocator.free(validator_output);
+    try lines.append(try fmt.allocPrint(allocator, "{s}/**", .{indentation}));
+    var line_iterator = mem.split(u8, escaped_comment, "\n");
+    while (line_iterator.next()) |line| {
+        try lines.append(if (line.len == 0)
+            try fmt.allocPrint(allocator, "{s} *", .{indentation})
+        else
+            try fmt.allocPrint(allocator, "{s} * {s}", .{ indentation, line }));
+    }
+    try lines.append(try fmt.allocPrint(allocator, "{s} */", .{indentation}));
 
-    const output_format =
-        \\export type {s} = {{
-        \\{s}
-        \\}};
-        \\
-        \\{s}
-        \\
-        \\{s}
-    ;
+    return try mem.join(allocator, "\n", lines.items);
+}
+
+/// Imports the module as a namespace, or for `import module (Name, ...)` the type, type guard,
+/// validator and encoder of each named definition, since those are what references use.
+pub fn outputImport(allocator: mem.Allocator, options: CompilationOptions, i: Import) ![]const u8 {
+    const specifier = try outputModuleSpecifier(allocator, options, i.name.value);
+    defer allocator.free(specifier);
+
+    if (!i.isSelective()) {
+        return try fmt.allocPrint(
+            allocator,
+            "import * as {s} from \"{s}{s}\";",
+            .{ i.alias, specifier, options.import_extension.suffix() },
+        );
+    }
+
+    var names = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(names);
+
+    for (i.names) |n| {
+        const name = n.name.value;
+        try names.append(try fmt.allocPrint(allocator, "type {s}", .{name}));
+        try names.append(try fmt.allocPrint(allocator, "is{s}", .{name}));
+        try names.append(try fmt.allocPrint(allocator, "validate{s}", .{name}));
+        if (n.definition != .declaration) {
+            try names.append(try fmt.allocPrint(allocator, "encode{s}", .{name}));
+        }
+    }
+
+    const joined_names = try mem.join(allocator, ", ", names.items);
+    defer allocator.free(joined_names);
 
     return try fmt.allocPrint(
         allocator,
-        output_format,
-        .{ name, fields_output, type_guards_output, validator_output },
+        "import {{{s}}} from \"{s}{s}\";",
+        .{ joined_names, specifier, options.import_extension.suffix() },
     );
 }
 
-pub fn outputGenericStructure(
+/// The path of the module `module_name` relative to the directory of the module being compiled,
+/// without an extension.
+fn outputModuleSpecifier(
     allocator: mem.Allocator,
-    generic_structure: GenericStructure,
+    options: CompilationOptions,
+    module_name: []const u8,
 ) ![]const u8 {
-    const name = generic_structure.name.value;
+    const from_directory = if (options.module_name) |name|
+        name[0..(name.len - parser.baseModuleName(name).len)]
+    else
+        "";
+
+    var from_parts = mem.tokenize(u8, from_directory, ".");
+    var to_parts = mem.split(u8, module_name, ".");
+    var shared_part_count: usize = 0;
+    var remaining_from_part_count: usize = 0;
+    var diverged = false;
+    var remaining_to_parts = ArrayList([]const u8).init(allocator);
+    defer remaining_to_parts.deinit();
+
+    while (from_parts.next()) |from_part| {
+        const to_part = to_parts.peek();
+        if (!diverged and to_part != null and
+            to_parts.rest().len > to_part.?.len and
+            mem.eql(u8, from_part, to_part.?))
+        {
+            _ = to_parts.next();
+            shared_part_count += 1;
+        } else {
+            diverged = true;
+            remaining_from_part_count += 1;
+        }
+    }
 
-    const fields_output = try outputStructureFields(allocator, generic_structure.fields);
-    defer allocator.free(fields_output);
+    while (to_parts.next()) |to_part| try remaining_to_parts.append(to_part);
 
-    const type_guard_output = try outputTypeGuardForGenericStructure(allocator, generic_structure);
-    defer allocator.free(type_guard_output);
+    const relative_path = try mem.join(allocator, "/", remaining_to_parts.items);
+    defer allocator.free(relative_path);
 
-    const validator_output = try outputValidatorForGenericStructure(allocator, generic_structure);
-    defer allocator.free(validator_output);
+    if (remaining_from_part_count == 0) {
+        return try fmt.allocPrint(allocator, "./{s}", .{relative_path});
+    }
 
-    const open_names = try outputOpenNames(allocator, generic_structure.open_names);
-    defer allocator.free(open_names);
+    var specifier = ArrayList(u8).init(allocator);
+    defer specifier.deinit();
+    for (0..remaining_from_part_count) |_| try specifier.appendSlice("../");
+    try specifier.appendSlice(relative_path);
 
-    const output_format =
-        \\export type {s}{s} = {{
-        \\{s}
-        \\}};
-        \\
-        \\{s}
-        \\
-        \\{s}
-    ;
+    return try specifier.toOwnedSlice();
+}
+
+/// Outputs a module that re-exports each of the given modules under its module name, so that all
+/// of the modules in an output directory can be imported from `index`.
+pub fn outputIndexModule(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    module_names: []const []const u8,
+) ![]const u8 {
+    var export_outputs = try allocator.alloc([]const u8, module_names.len);
+    defer utilities.freeStringArray(allocator, export_outputs);
+
+    for (module_names, 0..) |module_name, i| {
+        export_outputs[i] = try fmt.allocPrint(
+            allocator,
+            "export * as {s} from \"./{s}{s}\";",
+            .{ module_name, module_name, options.import_extension.suffix() },
+        );
+    }
+
+    return try mem.join(allocator, "\n", export_outputs);
+}
+
+/// Declared types are re-exported from the module that declares them, so that references to them
+/// work the same way as references to definitions made in gotyno. The external module is expected
+/// to export the type as well as `is{Name}` and `validate{Name}`.
+pub fn outputDeclaration(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    declaration: Declaration,
+    previous_definitions: []const Definition,
+) ![]const u8 {
+    const module_already_imported = for (previous_definitions) |definition| {
+        switch (definition) {
+            .declaration => |d| if (mem.eql(u8, d.module, declaration.module)) break true,
+            else => {},
+        }
+    } else false;
+
+    // Names in gotyno start with a letter, so the external module can't be bound to the same name
+    // as an imported module, a constructor or anything else that is output.
+    const module = try fmt.allocPrint(allocator, "_{s}", .{declaration.module});
+    defer allocator.free(module);
+
+    const import_output = if (module_already_imported)
+        try allocator.dupe(u8, "")
+    else
+        try fmt.allocPrint(
+            allocator,
+            "import * as {s} from \"./{s}{s}\";\n\n",
+            .{ module, declaration.module, options.import_extension.suffix() },
+        );
+    defer allocator.free(import_output);
+
+    const open_names = try mem.join(allocator, ", ", declaration.open_names);
+    defer allocator.free(open_names);
+
+    const type_parameters = if (declaration.open_names.len == 0)
+        try allocator.dupe(u8, "")
+    else
+        try fmt.allocPrint(allocator, "<{s}>", .{open_names});
+    defer allocator.free(type_parameters);
+
+    const name = declaration.name.value;
+
+    const doc_comment_output = try outputDocCommentLine(allocator, declaration.doc_comment);
+    defer allocator.free(doc_comment_output);
 
     return try fmt.allocPrint(
         allocator,
-        output_format,
+        "{s}{s}export type {s}{s} = {s}.{s}{s};\n\n" ++
+            "{s}export const is{s} = {s}.is{s};\n\n" ++
+            "{s}export const validate{s} = {s}.validate{s};",
         .{
+            import_output,
+            doc_comment_output,
+            name,
+            type_parameters,
+            module,
+            name,
+            type_parameters,
+            doc_comment_output,
+            name,
+            module,
+            name,
+            doc_comment_output,
+            name,
+            module,
             name,
-            open_names,
-            fields_output,
-            type_guard_output,
-            validator_output,
         },
     );
 }
 
-fn outputStructureFields(allocator: mem.Allocator, fields: []const Field) ![]const u8 {
-    var lines = try allocator.alloc([]const u8, fields.len);
-    defer utilities.freeStringArray(allocator, lines);
-
-    for (fields, 0..) |field, i| {
-        if (try outputType(allocator, field.type)) |output| {
-            defer allocator.free(output);
-            lines[i] = try fmt.allocPrint(allocator, "    {s}: {s};", .{ field.name, output });
-        } else debug.panic("Empty type is not valid for struct field\n", .{});
-    }
+/// Newtypes are branded, such that a value of the underlying type has to go through the
+/// constructor, type guard or validator before it can be used as one. On the wire they are only
+/// the underlying value.
+pub fn outputNewtype(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    newtype: Newtype,
+) ![]const u8 {
+    const name = newtype.name.value;
 
-    return try mem.join(allocator, "\n", lines);
-}
+    const type_output = try outputType(allocator, options, newtype.type.*) orelse
+        debug.panic("Empty type is not valid for newtype\n", .{});
+    defer allocator.free(type_output);
 
-pub fn outputPlainUnion(allocator: mem.Allocator, plain_union: PlainUnion) ![]const u8 {
-    const name = plain_union.name.value;
+    // `null` and `undefined` can't carry a brand, so only the rest of an optional type is branded
+    const brandable_type = switch (newtype.type.*) {
+        .optional => |o| o.type.*,
+        else => newtype.type.*,
+    };
+    const nullable_output = if (newtype.type.* == .optional) " | null | undefined" else "";
 
-    var constructor_names = try allocator.alloc([]const u8, plain_union.constructors.len);
-    defer allocator.free(constructor_names);
-    for (plain_union.constructors, 0..) |constructor, i| {
-        constructor_names[i] = constructor.tag;
-    }
+    const brandable_type_output = try outputType(allocator, options, brandable_type) orelse
+        debug.panic("Empty type is not valid for newtype\n", .{});
+    defer allocator.free(brandable_type_output);
 
-    const constructor_names_output = try mem.join(allocator, " | ", constructor_names);
-    defer allocator.free(constructor_names_output);
+    // the intersection with the brand would otherwise only apply to the last member of a union
+    const branded_type_output = if (mem.indexOf(u8, brandable_type_output, " | ") != null)
+        try fmt.allocPrint(
+            allocator,
+            "({s}) & {{__brand: \"{s}\"}}{s}",
+            .{ brandable_type_output, name, nullable_output },
+        )
+    else
+        try fmt.allocPrint(
+            allocator,
+            "{s} & {{__brand: \"{s}\"}}{s}",
+            .{ brandable_type_output, name, nullable_output },
+        );
+    defer allocator.free(branded_type_output);
 
-    const union_tag_enum_output = try outputUnionTagEnumerationForConstructors(
-        Constructor,
-        allocator,
-        name,
-        plain_union.constructors,
-    );
-    defer allocator.free(union_tag_enum_output);
+    const type_guard = try getTypeGuardFromType(allocator, newtype.type.*);
+    defer allocator.free(type_guard);
 
-    const tagged_structures_output = try outputTaggedStructures(
-        allocator,
-        name,
-        plain_union.constructors,
-        plain_union.tag_field,
-    );
-    defer allocator.free(tagged_structures_output);
+    const validator = try getValidatorFromType(allocator, newtype.type.*);
+    defer allocator.free(validator);
 
-    const constructors_output = try outputConstructors(
-        allocator,
-        name,
-        plain_union.constructors,
-        plain_union.tag_field,
-    );
-    defer allocator.free(constructors_output);
+    const encoded_value = try getEncodedValue(allocator, options, newtype.type.*, "value");
+    defer allocator.free(encoded_value);
 
-    const union_type_guard_output = try outputTypeGuardForPlainUnion(allocator, plain_union);
-    defer allocator.free(union_type_guard_output);
+    const encoder_body = try fmt.allocPrint(allocator, "return {s};", .{encoded_value});
+    defer allocator.free(encoder_body);
 
-    const type_guards_output = try outputTypeGuardsForConstructors(
+    const encoder_output = try withDocComment(
         allocator,
-        name,
-        plain_union.constructors,
-        &[_][]const u8{},
-        plain_union.tag_field,
+        newtype.doc_comment,
+        "",
+        try outputEncoderFunction(allocator, name, &[_][]const u8{}, &[_][]const u8{encoder_body}),
     );
-    defer allocator.free(type_guards_output);
-
-    const union_validator_output = try outputValidatorForPlainUnion(allocator, plain_union);
-    defer allocator.free(union_validator_output);
+    defer allocator.free(encoder_output);
 
-    const validators_output = try outputValidatorsForConstructors(
+    const decoder_output = try withDocComment(
         allocator,
-        name,
-        plain_union.constructors,
-        &[_][]const u8{},
-        plain_union.tag_field,
+        newtype.doc_comment,
+        "",
+        try outputDecoderFunction(allocator, name, &[_][]const u8{}),
     );
-    defer allocator.free(validators_output);
+    defer allocator.free(decoder_output);
 
-    const output_format =
+    const doc_comment_output = try outputDocCommentLine(allocator, newtype.doc_comment);
+    defer allocator.free(doc_comment_output);
+
+    const format =
         \\export type {s} = {s};
         \\
-        \\{s}
-        \\
-        \\{s}
-        \\
-        \\{s}
+        \\{s}export function {s}(value: {s}): {s} {{
+        \\    return value as {s};
+        \\}}
         \\
-        \\{s}
+        \\{s}export function is{s}(value: unknown): value is {s} {{
+        \\    return {s}(value);
+        \\}}
         \\
-        \\{s}
+        \\{s}export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
+        \\    return {s}(value) as svt.ValidationResult<{s}>;
+        \\}}
         \\
         \\{s}
         \\
         \\{s}
     ;
 
-    return fmt.allocPrint(
+    return try withDocComment(allocator, newtype.doc_comment, "", try fmt.allocPrint(
         allocator,
-        output_format,
+        format,
         .{
-            plain_union.name.value,
-            constructor_names_output,
-            union_tag_enum_output,
-            tagged_structures_output,
-            constructors_output,
-            union_type_guard_output,
-            type_guards_output,
-            union_validator_output,
-            validators_output,
+            name,
+            branded_type_output,
+            doc_comment_output,
+            name,
+            type_output,
+            name,
+            name,
+            doc_comment_output,
+            name,
+            name,
+            type_guard,
+            doc_comment_output,
+            name,
+            name,
+            validator,
+            name,
+            encoder_output,
+            decoder_output,
         },
-    );
+    ));
 }
 
-pub fn outputEmbeddedUnion(allocator: mem.Allocator, embedded: EmbeddedUnion) ![]const u8 {
-    const name = embedded.name.value;
-
-    // const ConstructorData = struct {
-    //     tag: []const u8,
-    //     fields: []Field,
-    //     structure: ?Structure,
-    // };
+pub fn outputUntaggedUnion(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    u: UntaggedUnion,
+) ![]const u8 {
+    var value_union_outputs = try allocator.alloc([]const u8, u.values.len);
+    defer utilities.freeStringArray(allocator, value_union_outputs);
 
-    var constructor_names = try allocator.alloc([]const u8, embedded.constructors.len);
-    defer allocator.free(constructor_names);
-    defer for (constructor_names) |n| allocator.free(n);
-    for (embedded.constructors, 0..) |constructor, i| {
-        constructor_names[i] = try allocator.dupe(u8, constructor.tag);
+    for (u.values, 0..) |value, i| {
+        value_union_outputs[i] = try translateReference(allocator, options, value.reference);
     }
 
-    const constructor_names_output = try mem.join(allocator, " | ", constructor_names);
-    defer allocator.free(constructor_names_output);
-
-    const union_tag_enum_output = try outputUnionTagEnumerationForConstructors(
-        ConstructorWithEmbeddedTypeTag,
-        allocator,
-        name,
-        embedded.constructors,
-    );
-    defer allocator.free(union_tag_enum_output);
-
-    var tagged_structure_outputs = try allocator.alloc([]const u8, embedded.constructors.len);
-    defer utilities.freeStringArray(allocator, tagged_structure_outputs);
-
-    var constructor_outputs = try allocator.alloc([]const u8, embedded.constructors.len);
-    defer utilities.freeStringArray(allocator, constructor_outputs);
-
-    var union_type_guards = try allocator.alloc([]const u8, embedded.constructors.len);
-    defer utilities.freeStringArray(allocator, union_type_guards);
-
-    var union_validators = try allocator.alloc([]const u8, embedded.constructors.len);
-    defer utilities.freeStringArray(allocator, union_validators);
-
-    var type_guard_outputs = try allocator.alloc([]const u8, embedded.constructors.len);
-    defer utilities.freeStringArray(allocator, type_guard_outputs);
-
-    var validator_outputs = try allocator.alloc([]const u8, embedded.constructors.len);
-    defer utilities.freeStringArray(allocator, validator_outputs);
-
-    for (embedded.constructors, 0..) |constructor, i| {
-        const fields_in_structure = if (constructor.parameter) |parameter| fields: {
-            switch (parameter) {
-                .plain => |p| break :fields try allocator.dupe(Field, p.fields),
-                .generic => |g| break :fields try allocator.dupe(Field, g.fields),
-            }
-        } else &[_]Field{};
-        defer allocator.free(fields_in_structure);
-
-        const enumeration_tag = try outputEnumerationTag(
-            allocator,
-            name,
-            constructor.tag,
-        );
-        defer allocator.free(enumeration_tag);
-
-        tagged_structure_outputs[i] = try outputTaggedStructureForConstructorWithEmbeddedTag(
-            allocator,
-            fields_in_structure,
-            embedded.tag_field,
-            constructor.tag,
-            enumeration_tag,
-        );
-
-        constructor_outputs[i] = try outputConstructorWithEmbeddedTag(
-            allocator,
-            constructor.parameter,
-            constructor.tag,
-            embedded.tag_field,
-            enumeration_tag,
-        );
-
-        const titlecased_tag = try utilities.titleCaseWord(allocator, constructor.tag);
-        defer allocator.free(titlecased_tag);
-
-        union_type_guards[i] = try fmt.allocPrint(allocator, "is{s}", .{titlecased_tag});
-        union_validators[i] = try fmt.allocPrint(allocator, "validate{s}", .{titlecased_tag});
-
-        type_guard_outputs[i] =
-            try outputTypeGuardForConstructorWithEmbeddedTypeTag(
-            allocator,
-            fields_in_structure,
-            constructor.tag,
-            embedded.tag_field,
-            enumeration_tag,
-        );
-
-        validator_outputs[i] =
-            try outputValidatorForConstructorWithEmbeddedTypeTag(
-            allocator,
-            fields_in_structure,
-            constructor.tag,
-            embedded.tag_field,
-            enumeration_tag,
-        );
-    }
+    const value_union_output = try mem.join(allocator, " | ", value_union_outputs);
+    defer allocator.free(value_union_output);
 
-    const tagged_structures_output = try mem.join(
+    const type_guard_output = try withDocComment(
         allocator,
-        "\n\n",
-        tagged_structure_outputs,
+        u.doc_comment,
+        "",
+        try outputTypeGuardForUntaggedUnion(allocator, u),
     );
-    defer allocator.free(tagged_structures_output);
-
-    const constructors_output = try mem.join(allocator, "\n\n", constructor_outputs);
-    defer allocator.free(constructors_output);
-
-    const joined_union_type_guards = try mem.join(allocator, ", ", union_type_guards);
-    defer allocator.free(joined_union_type_guards);
+    defer allocator.free(type_guard_output);
 
-    const union_type_guard_format =
-        \\export function is{s}(value: unknown): value is {s} {{
-        \\    return [{s}].some((typePredicate) => typePredicate(value));
-        \\}}
-    ;
-    const union_type_guard_output = try fmt.allocPrint(
+    const validator_output = try withDocComment(
         allocator,
-        union_type_guard_format,
-        .{ name, name, joined_union_type_guards },
+        u.doc_comment,
+        "",
+        try outputValidatorForUntaggedUnion(allocator, u),
     );
-    defer allocator.free(union_type_guard_output);
-
-    const type_guards_output = try mem.join(allocator, "\n\n", type_guard_outputs);
-    defer allocator.free(type_guards_output);
+    defer allocator.free(validator_output);
 
-    const validator_specification_output = try outputValidatorSpecificationForEmbeddedUnion(
+    const encoder_output = try withDocComment(
         allocator,
-        embedded,
-        embedded.open_names,
+        u.doc_comment,
+        "",
+        try outputEncoderForUntaggedUnion(allocator, options, u),
     );
-    defer allocator.free(validator_specification_output);
-
-    const union_validator_format =
-        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
-        \\    return svt.validateWithTypeTag<{s}>(value, {s}, "{s}");
-        \\}}
-    ;
+    defer allocator.free(encoder_output);
 
-    const union_validator_output = try fmt.allocPrint(
+    const decoder_output = try withDocComment(
         allocator,
-        union_validator_format,
-        .{ name, name, name, validator_specification_output, embedded.tag_field },
+        u.doc_comment,
+        "",
+        try outputDecoderFunction(allocator, u.name.value, &[_][]const u8{}),
     );
-    defer allocator.free(union_validator_output);
+    defer allocator.free(decoder_output);
 
-    const validators_output = try mem.join(allocator, "\n\n", validator_outputs);
-    defer allocator.free(validators_output);
-
-    const output_format =
+    const format =
         \\export type {s} = {s};
         \\
         \\{s}
@@ -602,258 +1661,452 @@ pub fn outputEmbeddedUnion(allocator: mem.Allocator, embedded: EmbeddedUnion) ![
         \\{s}
         \\
         \\{s}
-        \\
-        \\{s}
-        \\
-        \\{s}
-        \\
-        \\{s}
     ;
 
-    return fmt.allocPrint(
+    return try withDocComment(allocator, u.doc_comment, "", try fmt.allocPrint(
         allocator,
-        output_format,
-        .{
-            name,
-            constructor_names_output,
-            union_tag_enum_output,
-            tagged_structures_output,
-            constructors_output,
-            union_type_guard_output,
-            type_guards_output,
-            union_validator_output,
-            validators_output,
-        },
-    );
+        format,
+        .{ u.name.value, value_union_output, type_guard_output, validator_output, encoder_output, decoder_output },
+    ));
 }
 
-fn outputConstructorWithEmbeddedTag(
-    allocator: mem.Allocator,
-    parameter: ?Structure,
-    tag: []const u8,
-    tag_field: []const u8,
-    enumeration_tag: []const u8,
-) ![]const u8 {
-    const constructor_format_with_payload =
-        \\export function {s}(data: {s}): {s} {{
-        \\    return {{{s}: {s}, ...data}};
+fn outputTypeGuardForUntaggedUnion(allocator: mem.Allocator, u: UntaggedUnion) ![]const u8 {
+    const name = u.name.value;
+
+    var predicate_outputs = try allocator.alloc([]const u8, u.values.len);
+    defer utilities.freeStringArray(allocator, predicate_outputs);
+
+    for (u.values, 0..) |value, i| {
+        predicate_outputs[i] = try translatedTypeGuardReference(allocator, value.reference);
+    }
+
+    const predicates_output = try mem.join(allocator, ", ", predicate_outputs);
+    defer allocator.free(predicates_output);
+
+    const format =
+        \\export function is{s}(value: unknown): value is {s} {{
+        \\    return [{s}].some((typePredicate) => typePredicate(value));
         \\}}
     ;
-    const constructor_format_without_payload =
-        \\export function {s}(): {s} {{
-        \\    return {{{s}: {s}}};
+
+    return try fmt.allocPrint(allocator, format, .{ name, name, predicates_output });
+}
+
+fn outputValidatorForUntaggedUnion(allocator: mem.Allocator, u: UntaggedUnion) ![]const u8 {
+    const name = u.name.value;
+
+    var validator_outputs = try allocator.alloc([]const u8, u.values.len);
+    defer utilities.freeStringArray(allocator, validator_outputs);
+
+    for (u.values, 0..) |value, i| {
+        validator_outputs[i] = try translatedValidatorReference(allocator, value.reference);
+    }
+
+    const validators_output = try mem.join(allocator, ", ", validator_outputs);
+    defer allocator.free(validators_output);
+
+    const format =
+        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
+        \\    return svt.validateOneOf<{s}>(value, [{s}]);
         \\}}
     ;
 
-    return if (parameter) |p|
-        try fmt.allocPrint(
-            allocator,
-            constructor_format_with_payload,
-            .{ tag, p.name().value, tag, tag_field, enumeration_tag },
-        )
-    else
-        try fmt.allocPrint(
-            allocator,
-            constructor_format_without_payload,
-            .{ tag, tag, tag_field, enumeration_tag },
-        );
+    return try fmt.allocPrint(allocator, format, .{ name, name, name, validators_output });
 }
 
-fn outputTaggedStructureForConstructorWithEmbeddedTag(
+pub fn outputEnumeration(
     allocator: mem.Allocator,
-    fields_in_structure: []const Field,
-    tag_field: []const u8,
-    tag: []const u8,
-    enumeration_tag: []const u8,
+    options: CompilationOptions,
+    enumeration: Enumeration,
 ) ![]const u8 {
-    const tagged_structure_output_with_payload =
-        \\export type {s} = {{
-        \\    {s}: {s};
-        \\{s}
-        \\}};
-    ;
-    const tagged_structure_output_without_payload =
-        \\export type {s} = {{
-        \\    {s}: {s};
-        \\}};
-    ;
+    const name = enumeration.name.value;
 
-    const structure_fields = try outputStructureFields(allocator, fields_in_structure);
-    defer allocator.free(structure_fields);
+    var field_outputs = try allocator.alloc([]const u8, enumeration.fields.len);
+    defer utilities.freeStringArray(allocator, field_outputs);
 
-    return if (fields_in_structure.len != 0)
-        try fmt.allocPrint(
-            allocator,
-            tagged_structure_output_with_payload,
-            .{ tag, tag_field, enumeration_tag, structure_fields },
-        )
-    else
-        try fmt.allocPrint(
-            allocator,
-            tagged_structure_output_without_payload,
-            .{ tag, tag_field, enumeration_tag },
-        );
-}
+    for (enumeration.fields, 0..) |field, i| {
+        field_outputs[i] = try outputEnumerationField(allocator, options, field);
+    }
 
-fn outputUnionTagEnumerationForConstructors(
-    comptime T: type,
-    allocator: mem.Allocator,
-    name: []const u8,
-    constructors: []const T,
-) ![]const u8 {
-    var enumeration_tag_outputs = try allocator.alloc([]const u8, constructors.len);
-    defer utilities.freeStringArray(allocator, enumeration_tag_outputs);
+    const fields_output = try mem.join(allocator, "\n", field_outputs);
+    defer allocator.free(fields_output);
 
-    for (constructors, 0..) |constructor, i| {
-        enumeration_tag_outputs[i] = try fmt.allocPrint(
+    const type_output = try outputEnumerationType(allocator, options, name, fields_output);
+    defer allocator.free(type_output);
+
+    const values_output = try outputEnumerationValues(allocator, name, enumeration.fields);
+    defer allocator.free(values_output);
+
+    const type_guard_output = try withDocComment(
+        allocator,
+        enumeration.doc_comment,
+        "",
+        try outputEnumerationTypeGuard(allocator, name),
+    );
+    defer allocator.free(type_guard_output);
+
+    const validator_output = try withDocComment(
+        allocator,
+        enumeration.doc_comment,
+        "",
+        try outputEnumerationValidator(allocator, name),
+    );
+    defer allocator.free(validator_output);
+
+    const parser_output = try withDocComment(
+        allocator,
+        enumeration.doc_comment,
+        "",
+        try outputEnumerationParser(allocator, name, enumeration.fields),
+    );
+    defer allocator.free(parser_output);
+
+    const encoder_output = try withDocComment(
+        allocator,
+        enumeration.doc_comment,
+        "",
+        try outputEncoderFunction(
             allocator,
-            "    {s} = \"{s}\",",
-            .{ constructor.tag, constructor.tag },
-        );
-    }
+            name,
+            &[_][]const u8{},
+            &[_][]const u8{"return value;"},
+        ),
+    );
+    defer allocator.free(encoder_output);
 
-    const enumeration_tag_output = try mem.join(allocator, "\n", enumeration_tag_outputs);
-    defer allocator.free(enumeration_tag_output);
+    const decoder_output = try withDocComment(
+        allocator,
+        enumeration.doc_comment,
+        "",
+        try outputDecoderFunction(allocator, name, &[_][]const u8{}),
+    );
+    defer allocator.free(decoder_output);
 
     const format =
-        \\export enum {s}Tag {{
         \\{s}
-        \\}}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
     ;
 
-    return try fmt.allocPrint(allocator, format, .{ name, enumeration_tag_output });
+    return try withDocComment(allocator, enumeration.doc_comment, "", try fmt.allocPrint(
+        allocator,
+        format,
+        .{
+            type_output,
+            values_output,
+            type_guard_output,
+            validator_output,
+            parser_output,
+            encoder_output,
+            decoder_output,
+        },
+    ));
 }
 
-fn outputTypeGuardForPlainUnion(allocator: mem.Allocator, plain: PlainUnion) ![]const u8 {
-    const name = plain.name.value;
+/// Outputs the exported list of all values of an enumeration, which the type guard, validator
+/// and parser check against.
+fn outputEnumerationValues(
+    allocator: mem.Allocator,
+    name: []const u8,
+    fields: []const EnumerationField,
+) ![]const u8 {
+    var tag_outputs = try allocator.alloc([]const u8, fields.len);
+    defer utilities.freeStringArray(allocator, tag_outputs);
 
-    const predicate_outputs = try predicatesFromConstructors(
-        allocator,
-        plain.constructors,
-        &[_][]const u8{},
-    );
-    defer utilities.freeStringArray(allocator, predicate_outputs);
+    for (fields, 0..) |field, i| {
+        tag_outputs[i] = try fmt.allocPrint(allocator, "{s}.{s}", .{ name, field.tag });
+    }
 
-    const predicates_output = try mem.join(allocator, ", ", predicate_outputs);
-    defer allocator.free(predicates_output);
+    const tags_output = try mem.join(allocator, ", ", tag_outputs);
+    defer allocator.free(tags_output);
+
+    const format = "export const all{s}: readonly {s}[] = [{s}];";
+
+    return try fmt.allocPrint(allocator, format, .{ name, name, tags_output });
+}
 
+fn outputEnumerationTypeGuard(allocator: mem.Allocator, name: []const u8) ![]const u8 {
     const format =
         \\export function is{s}(value: unknown): value is {s} {{
-        \\    return [{s}].some((typePredicate) => typePredicate(value));
+        \\    return all{s}.some((v) => v === value);
         \\}}
     ;
 
-    return try fmt.allocPrint(allocator, format, .{ name, name, predicates_output });
+    return try fmt.allocPrint(allocator, format, .{ name, name, name });
 }
 
-fn outputValidatorForPlainUnion(allocator: mem.Allocator, plain: PlainUnion) ![]const u8 {
-    const name = plain.name.value;
-
-    const validator_specification_output = try outputValidatorSpecification(
-        allocator,
-        plain.name.value,
-        plain.constructors,
-        &[_][]const u8{},
-    );
-    defer allocator.free(validator_specification_output);
-
+fn outputEnumerationValidator(allocator: mem.Allocator, name: []const u8) ![]const u8 {
     const format =
         \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
-        \\    return svt.validateWithTypeTag<{s}>(value, {s}, "{s}");
+        \\    return svt.validateOneOfLiterals<{s}>(value, all{s});
         \\}}
     ;
 
-    return try fmt.allocPrint(
-        allocator,
-        format,
-        .{ name, name, name, validator_specification_output, plain.tag_field },
-    );
+    return try fmt.allocPrint(allocator, format, .{ name, name, name, name });
 }
 
-fn outputValidatorSpecification(
+/// Outputs a function that looks up the enumeration value written as the given string, e.g. for
+/// values coming from query parameters or form inputs. Integer values are matched by their decimal
+/// representation.
+fn outputEnumerationParser(
     allocator: mem.Allocator,
     name: []const u8,
-    constructors: []const Constructor,
-    open_names: []const []const u8,
+    fields: []const EnumerationField,
 ) ![]const u8 {
-    var entries = try allocator.alloc([]const u8, constructors.len);
-    defer utilities.freeStringArray(allocator, entries);
+    debug.assert(fields.len > 0);
+    const comparison = switch (fields[0].value) {
+        .string => "v === value",
+        .unsigned_integer => "String(v) === value",
+    };
 
-    for (constructors, 0..) |c, i| {
-        const enumeration_tag = try outputEnumerationTag(allocator, name, c.tag);
-        defer allocator.free(enumeration_tag);
+    const format =
+        \\export function parse{s}(value: string): {s} | undefined {{
+        \\    return all{s}.find((v) => {s});
+        \\}}
+    ;
 
-        const titlecased_tag = try utilities.titleCaseWord(allocator, c.tag);
-        defer allocator.free(titlecased_tag);
-        const payload_validator = try validatorFromConstructor(allocator, c, open_names);
-        defer allocator.free(payload_validator);
+    return try fmt.allocPrint(allocator, format, .{ name, name, name, comparison });
+}
 
-        entries[i] = try fmt.allocPrint(
+/// Outputs an `enum` with the given fields, or an `as const` object with a union of its values as
+/// the type with `literal_enums`.
+fn outputEnumerationType(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    name: []const u8,
+    fields_output: []const u8,
+) ![]const u8 {
+    return if (options.literal_enums)
+        try fmt.allocPrint(
             allocator,
-            "[{s}]: {s}",
-            .{ enumeration_tag, payload_validator },
-        );
-    }
-
-    const joined_validators = try mem.join(allocator, ", ", entries);
-    defer allocator.free(joined_validators);
-
-    return try fmt.allocPrint(allocator, "{{{s}}}", .{joined_validators});
+            "export const {s} = {{\n{s}\n}} as const;\n\nexport type {s} = (typeof {s})[keyof typeof {s}];",
+            .{ name, fields_output, name, name, name },
+        )
+    else
+        try fmt.allocPrint(allocator, "export enum {s} {{\n{s}\n}}", .{ name, fields_output });
 }
 
-fn outputValidatorSpecificationForEmbeddedUnion(
+/// The largest integer that can be represented exactly as a TypeScript `number`, which is as large
+/// as enumeration values can be when outputting TypeScript.
+pub const max_safe_integer = (1 << 53) - 1;
+
+fn outputEnumerationField(
     allocator: mem.Allocator,
-    e: EmbeddedUnion,
-    open_names: []const []const u8,
+    options: CompilationOptions,
+    field: EnumerationField,
 ) ![]const u8 {
-    _ = open_names;
-    var entries = try allocator.alloc([]const u8, e.constructors.len);
-    defer utilities.freeStringArray(allocator, entries);
+    const value_output = switch (field.value) {
+        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
+        .unsigned_integer => |ui| try fmt.allocPrint(allocator, "{}", .{ui}),
+    };
+    defer allocator.free(value_output);
 
-    for (e.constructors, 0..) |c, i| {
-        const enumeration_tag = try outputEnumerationTag(allocator, e.name.value, c.tag);
-        defer allocator.free(enumeration_tag);
+    const output = if (options.literal_enums)
+        try fmt.allocPrint(allocator, "    {s}: {s},", .{ field.tag, value_output })
+    else
+        try fmt.allocPrint(allocator, "    {s} = {s},", .{ field.tag, value_output });
 
-        const titlecased_tag = try utilities.titleCaseWord(allocator, c.tag);
-        defer allocator.free(titlecased_tag);
-        const payload_validator = try fmt.allocPrint(allocator, "validate{s}", .{titlecased_tag});
-        defer allocator.free(payload_validator);
+    return try withDocComment(allocator, field.doc_comment, "    ", output);
+}
 
-        entries[i] = try fmt.allocPrint(
+pub fn outputPlainStructure(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    plain_structure: PlainStructure,
+) ![]const u8 {
+    const name = plain_structure.name.value;
+
+    const fields_output = try outputStructureFields(allocator, options, plain_structure.fields);
+    defer allocator.free(fields_output);
+
+    const type_guards_output = try withDocComment(
+        allocator,
+        plain_structure.doc_comment,
+        "",
+        try outputTypeGuardForPlainStructure(allocator, plain_structure),
+    );
+    defer allocator.free(type_guards_output);
+
+    const validator_output = try withDocComment(
+        allocator,
+        plain_structure.doc_comment,
+        "",
+        try outputValidatorForPlainStructure(allocator, plain_structure),
+    );
+    defer allocator.free(validator_output);
+
+    const encoder_output = try withDocComment(
+        allocator,
+        plain_structure.doc_comment,
+        "",
+        try outputEncoderForStructure(
             allocator,
-            "[{s}]: {s}",
-            .{ enumeration_tag, payload_validator },
-        );
-    }
+            options,
+            name,
+            &[_][]const u8{},
+            plain_structure.fields,
+        ),
+    );
+    defer allocator.free(encoder_output);
 
-    const joined_validators = try mem.join(allocator, ", ", entries);
-    defer allocator.free(joined_validators);
+    const decoder_output = try withDocComment(
+        allocator,
+        plain_structure.doc_comment,
+        "",
+        try outputDecoderFunction(allocator, name, &[_][]const u8{}),
+    );
+    defer allocator.free(decoder_output);
 
-    return try fmt.allocPrint(allocator, "{{{s}}}", .{joined_validators});
+    const output_format =
+        \\export type {s} = {{
+        \\{s}
+        \\}};
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+    ;
+
+    return try withDocComment(allocator, plain_structure.doc_comment, "", try fmt.allocPrint(
+        allocator,
+        output_format,
+        .{ name, fields_output, type_guards_output, validator_output, encoder_output, decoder_output },
+    ));
 }
 
-pub fn outputGenericUnion(allocator: mem.Allocator, generic_union: GenericUnion) ![]const u8 {
-    const name = generic_union.name.value;
+pub fn outputGenericStructure(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    generic_structure: GenericStructure,
+) ![]const u8 {
+    const name = generic_structure.name.value;
 
-    const open_names = try outputOpenNames(allocator, generic_union.open_names);
-    defer allocator.free(open_names);
+    const fields_output = try outputStructureFields(allocator, options, generic_structure.fields);
+    defer allocator.free(fields_output);
 
-    var constructor_names = try allocator.alloc([]const u8, generic_union.constructors.len);
-    defer allocator.free(constructor_names);
-    defer for (constructor_names) |n| allocator.free(n);
-    for (generic_union.constructors, 0..) |constructor, i| {
-        const maybe_names = try outputOpenNamesFromType(
-            allocator,
-            constructor.parameter,
-            generic_union.open_names,
-        );
-        defer allocator.free(maybe_names);
+    const type_guard_output = try withDocComment(
+        allocator,
+        generic_structure.doc_comment,
+        "",
+        try outputTypeGuardForGenericStructure(allocator, generic_structure),
+    );
+    defer allocator.free(type_guard_output);
 
-        constructor_names[i] = try fmt.allocPrint(
+    const validator_output = try withDocComment(
+        allocator,
+        generic_structure.doc_comment,
+        "",
+        try outputValidatorForGenericStructure(allocator, generic_structure),
+    );
+    defer allocator.free(validator_output);
+
+    const encoder_output = try withDocComment(
+        allocator,
+        generic_structure.doc_comment,
+        "",
+        try outputEncoderForStructure(
             allocator,
-            "{s}{s}",
-            .{ constructor.tag, maybe_names },
-        );
+            options,
+            name,
+            generic_structure.open_names,
+            generic_structure.fields,
+        ),
+    );
+    defer allocator.free(encoder_output);
+
+    const decoder_output = try withDocComment(
+        allocator,
+        generic_structure.doc_comment,
+        "",
+        try outputDecoderFunction(allocator, name, generic_structure.open_names),
+    );
+    defer allocator.free(decoder_output);
+
+    const open_names = try outputOpenNames(allocator, generic_structure.open_names);
+    defer allocator.free(open_names);
+
+    const output_format =
+        \\export type {s}{s} = {{
+        \\{s}
+        \\}};
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+    ;
+
+    return try withDocComment(allocator, generic_structure.doc_comment, "", try fmt.allocPrint(
+        allocator,
+        output_format,
+        .{
+            name,
+            open_names,
+            fields_output,
+            type_guard_output,
+            validator_output,
+            encoder_output,
+            decoder_output,
+        },
+    ));
+}
+
+fn outputStructureFields(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    fields: []const Field,
+) ![]const u8 {
+    var lines = try allocator.alloc([]const u8, fields.len);
+    defer utilities.freeStringArray(allocator, lines);
+
+    for (fields, 0..) |field, i| {
+        const value_type = requiredKeyValueType(field) orelse field.type;
+        if (try outputType(allocator, options, value_type)) |output| {
+            defer allocator.free(output);
+            const key_marker = if (field.optional_key) "?" else "";
+            const null_output = if (field.required_key) " | null" else "";
+            lines[i] = try withDocComment(allocator, field.doc_comment, "    ", try fmt.allocPrint(
+                allocator,
+                "    {s}{s}: {s}{s};",
+                .{ field.codeName(), key_marker, output, null_output },
+            ));
+        } else debug.panic("Empty type is not valid for struct field\n", .{});
+    }
+
+    return try mem.join(allocator, "\n", lines);
+}
+
+pub fn outputPlainUnion(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    plain_union: PlainUnion,
+) ![]const u8 {
+    const name = plain_union.name.value;
+
+    const prefix = try outputConstructorPrefix(allocator, options, name);
+    defer allocator.free(prefix);
+
+    var constructor_names = try allocator.alloc([]const u8, plain_union.constructors.len);
+    defer utilities.freeStringArray(allocator, constructor_names);
+    for (plain_union.constructors, 0..) |constructor, i| {
+        constructor_names[i] = try fmt.allocPrint(allocator, "{s}{s}", .{ prefix, constructor.tag });
     }
 
     const constructor_names_output = try mem.join(allocator, " | ", constructor_names);
@@ -862,59 +2115,119 @@ pub fn outputGenericUnion(allocator: mem.Allocator, generic_union: GenericUnion)
     const union_tag_enum_output = try outputUnionTagEnumerationForConstructors(
         Constructor,
         allocator,
+        options,
         name,
-        generic_union.constructors,
+        plain_union.constructors,
     );
     defer allocator.free(union_tag_enum_output);
 
-    const tagged_structures_output = try outputTaggedMaybeGenericStructures(
+    const tagged_structures_output = try outputTaggedStructures(
         allocator,
+        options,
         name,
-        generic_union.constructors,
-        generic_union.open_names,
-        generic_union.tag_field,
+        plain_union.constructors,
+        plain_union.tag_field,
     );
     defer allocator.free(tagged_structures_output);
 
-    const constructors_output = try outputGenericConstructors(
+    const constructors_output = try outputConstructors(
         allocator,
+        options,
         name,
-        generic_union.constructors,
-        generic_union.open_names,
-        generic_union.tag_field,
+        plain_union.constructors,
+        plain_union.tag_field,
     );
     defer allocator.free(constructors_output);
 
-    const union_type_guard_output = try outputTypeGuardForGenericUnion(allocator, generic_union);
+    const union_type_guard_output = try withDocComment(
+        allocator,
+        plain_union.doc_comment,
+        "",
+        try outputTypeGuardForPlainUnion(
+            allocator,
+            prefix,
+            plain_union,
+        ),
+    );
     defer allocator.free(union_type_guard_output);
 
     const type_guards_output = try outputTypeGuardsForConstructors(
         allocator,
         name,
-        generic_union.constructors,
-        generic_union.open_names,
-        generic_union.tag_field,
+        plain_union.constructors,
+        &[_][]const u8{},
+        plain_union.tag_field,
+        plain_union.strict,
     );
     defer allocator.free(type_guards_output);
 
-    const union_validator_output = try outputValidatorForGenericUnion(allocator, generic_union);
+    const union_validator_output = try withDocComment(
+        allocator,
+        plain_union.doc_comment,
+        "",
+        try outputValidatorForPlainUnion(
+            allocator,
+            prefix,
+            plain_union,
+        ),
+    );
     defer allocator.free(union_validator_output);
 
     const validators_output = try outputValidatorsForConstructors(
         allocator,
         name,
-        generic_union.constructors,
-        generic_union.open_names,
-        generic_union.tag_field,
+        plain_union.constructors,
+        &[_][]const u8{},
+        plain_union.tag_field,
+        plain_union.strict,
     );
     defer allocator.free(validators_output);
 
+    const encoder_output = try withDocComment(
+        allocator,
+        plain_union.doc_comment,
+        "",
+        try outputEncoderForUnion(
+            allocator,
+            options,
+            name,
+            &[_][]const u8{},
+            plain_union.constructors,
+            plain_union.tag_field,
+        ),
+    );
+    defer allocator.free(encoder_output);
+
+    const decoder_output = try withDocComment(
+        allocator,
+        plain_union.doc_comment,
+        "",
+        try outputDecoderFunction(allocator, name, &[_][]const u8{}),
+    );
+    defer allocator.free(decoder_output);
+
+    const match_output = try outputMatchFunctionsForUnion(
+        allocator,
+        options,
+        name,
+        &[_][]const u8{},
+        plain_union.constructors,
+        plain_union.tag_field,
+    );
+    defer allocator.free(match_output);
+
+    const declarations_output = try outputConstructorDeclarations(allocator, options, name, .{
+        .tagged_structures = tagged_structures_output,
+        .constructors = constructors_output,
+        .union_type_guard = union_type_guard_output,
+        .type_guards = type_guards_output,
+        .union_validator = union_validator_output,
+        .validators = validators_output,
+    });
+    defer allocator.free(declarations_output);
+
     const output_format =
-        \\export type {s}{s} = {s};
-        \\
-        \\{s}
-        \\
-        \\{s}
+        \\export type {s} = {s};
         \\
         \\{s}
         \\
@@ -927,895 +2240,816 @@ pub fn outputGenericUnion(allocator: mem.Allocator, generic_union: GenericUnion)
         \\{s}
     ;
 
-    return fmt.allocPrint(
+    return try withDocComment(allocator, plain_union.doc_comment, "", try fmt.allocPrint(
         allocator,
         output_format,
         .{
-            name,
-            open_names,
+            plain_union.name.value,
             constructor_names_output,
             union_tag_enum_output,
-            tagged_structures_output,
-            constructors_output,
-            union_type_guard_output,
-            type_guards_output,
-            union_validator_output,
-            validators_output,
+            declarations_output,
+            encoder_output,
+            decoder_output,
+            match_output,
         },
-    );
+    ));
 }
 
-fn outputTypeGuardForPlainStructure(
+pub fn outputEmbeddedUnion(
     allocator: mem.Allocator,
-    plain_structure: PlainStructure,
+    options: CompilationOptions,
+    embedded: EmbeddedUnion,
 ) ![]const u8 {
-    const name = plain_structure.name.value;
+    const name = embedded.name.value;
 
-    const checkers_output = try getTypeGuardsFromFields(allocator, plain_structure.fields);
-    defer allocator.free(checkers_output);
+    // const ConstructorData = struct {
+    //     tag: []const u8,
+    //     fields: []Field,
+    //     structure: ?Structure,
+    // };
 
-    const output_format =
-        \\export function is{s}(value: unknown): value is {s} {{
-        \\    return svt.isInterface<{s}>(value, {{{s}}});
-        \\}}
-    ;
+    const prefix = try outputConstructorPrefix(allocator, options, name);
+    defer allocator.free(prefix);
 
-    return try fmt.allocPrint(
+    var constructor_names = try allocator.alloc([]const u8, embedded.constructors.len);
+    defer allocator.free(constructor_names);
+    defer for (constructor_names) |n| allocator.free(n);
+    for (embedded.constructors, 0..) |constructor, i| {
+        constructor_names[i] = try fmt.allocPrint(allocator, "{s}{s}", .{ prefix, constructor.tag });
+    }
+
+    const constructor_names_output = try mem.join(allocator, " | ", constructor_names);
+    defer allocator.free(constructor_names_output);
+
+    const union_tag_enum_output = try outputUnionTagEnumerationForConstructors(
+        ConstructorWithEmbeddedTypeTag,
         allocator,
-        output_format,
-        .{ name, name, name, checkers_output },
+        options,
+        name,
+        embedded.constructors,
     );
-}
+    defer allocator.free(union_tag_enum_output);
 
-fn outputTypeGuardForGenericUnion(allocator: mem.Allocator, generic: GenericUnion) ![]const u8 {
-    const name = generic.name.value;
+    var tagged_structure_outputs = try allocator.alloc([]const u8, embedded.constructors.len);
+    defer utilities.freeStringArray(allocator, tagged_structure_outputs);
 
-    const open_names_predicates = try openNamePredicates(allocator, generic.open_names);
-    defer utilities.freeStringArray(allocator, open_names_predicates);
+    var constructor_outputs = try allocator.alloc([]const u8, embedded.constructors.len);
+    defer utilities.freeStringArray(allocator, constructor_outputs);
 
-    const open_name_predicate_types = try allocator.alloc([]const u8, generic.open_names.len);
-    defer allocator.free(open_name_predicate_types);
-    defer for (open_name_predicate_types) |t| allocator.free(t);
-    for (open_name_predicate_types, 0..) |*t, i| {
-        t.* = try fmt.allocPrint(
-            allocator,
-            "svt.TypePredicate<{s}>",
-            .{generic.open_names[i]},
-        );
-    }
+    var union_type_guards = try allocator.alloc([]const u8, embedded.constructors.len);
+    defer utilities.freeStringArray(allocator, union_type_guards);
 
-    const parameter_outputs = try allocator.alloc([]const u8, generic.open_names.len);
-    defer allocator.free(parameter_outputs);
-    defer for (parameter_outputs) |o| allocator.free(o);
-    for (parameter_outputs, 0..) |*o, i| {
-        o.* = try fmt.allocPrint(
-            allocator,
-            "{s}: {s}",
-            .{ open_names_predicates[i], open_name_predicate_types[i] },
-        );
-    }
-
-    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
-    defer allocator.free(parameters_output);
-
-    const open_names_output = try mem.join(allocator, ", ", generic.open_names);
-    defer allocator.free(open_names_output);
-
-    const predicate_list_outputs = try predicatesFromConstructors(
-        allocator,
-        generic.constructors,
-        generic.open_names,
-    );
-    defer utilities.freeStringArray(allocator, predicate_list_outputs);
+    var union_validators = try allocator.alloc([]const u8, embedded.constructors.len);
+    defer utilities.freeStringArray(allocator, union_validators);
 
-    const predicates_output = try mem.join(allocator, ", ", predicate_list_outputs);
-    defer allocator.free(predicates_output);
+    var type_guard_outputs = try allocator.alloc([]const u8, embedded.constructors.len);
+    defer utilities.freeStringArray(allocator, type_guard_outputs);
 
-    const joined_open_names = try mem.join(allocator, "", generic.open_names);
-    defer allocator.free(joined_open_names);
+    var validator_outputs = try allocator.alloc([]const u8, embedded.constructors.len);
+    defer utilities.freeStringArray(allocator, validator_outputs);
 
-    const format =
-        \\export function is{s}<{s}>({s}): svt.TypePredicate<{s}<{s}>> {{
-        \\    return function is{s}{s}(value: unknown): value is {s}<{s}> {{
-        \\        return [{s}].some((typePredicate) => typePredicate(value));
-        \\    }};
-        \\}}
-    ;
+    for (embedded.constructors, 0..) |constructor, i| {
+        const fields_in_structure = if (constructor.parameter) |parameter| fields: {
+            switch (parameter) {
+                .plain => |p| break :fields try allocator.dupe(Field, p.fields),
+                .generic => |g| break :fields try allocator.dupe(Field, g.fields),
+            }
+        } else &[_]Field{};
+        defer allocator.free(fields_in_structure);
 
-    return try fmt.allocPrint(
-        allocator,
-        format,
-        .{
-            name,
-            open_names_output,
-            parameters_output,
-            name,
-            open_names_output,
-            name,
-            joined_open_names,
+        const enumeration_tag = try outputEnumerationTag(
+            allocator,
             name,
-            open_names_output,
-            predicates_output,
-        },
-    );
-}
+            constructor.tag,
+        );
+        defer allocator.free(enumeration_tag);
 
-fn predicatesFromConstructors(
-    allocator: mem.Allocator,
-    constructors: []const Constructor,
-    open_names: []const []const u8,
-) ![]const []const u8 {
-    var predicate_list_outputs = try allocator.alloc([]const u8, constructors.len);
+        const enumeration_tag_type = try outputEnumerationTagType(
+            allocator,
+            options,
+            name,
+            constructor.tag,
+        );
+        defer allocator.free(enumeration_tag_type);
 
-    for (constructors, 0..) |constructor, i| {
-        const constructor_open_names = try general.openNamesFromType(
+        tagged_structure_outputs[i] = try withDocComment(
             allocator,
-            constructor.parameter,
-            open_names,
+            constructor.doc_comment,
+            "",
+            try outputTaggedStructureForConstructorWithEmbeddedTag(
+                allocator,
+                options,
+                fields_in_structure,
+                embedded.tag_field,
+                constructor.tag,
+                enumeration_tag_type,
+            ),
         );
-        defer utilities.freeStringList(constructor_open_names);
 
-        const constructor_open_name_predicates = try openNamePredicates(
+        constructor_outputs[i] = try withDocComment(
             allocator,
-            constructor_open_names.items,
+            constructor.doc_comment,
+            "",
+            try outputConstructorWithEmbeddedTag(
+                allocator,
+                constructor.parameter,
+                constructor.tag,
+                embedded.tag_field,
+                enumeration_tag,
+            ),
         );
-        defer utilities.freeStringArray(allocator, constructor_open_name_predicates);
 
         const titlecased_tag = try utilities.titleCaseWord(allocator, constructor.tag);
         defer allocator.free(titlecased_tag);
 
-        const joined_predicates = try mem.join(
+        union_type_guards[i] = try fmt.allocPrint(allocator, "{s}is{s}", .{ prefix, titlecased_tag });
+        union_validators[i] = try fmt.allocPrint(
             allocator,
-            ", ",
-            constructor_open_name_predicates,
+            "{s}validate{s}",
+            .{ prefix, titlecased_tag },
         );
-        defer allocator.free(joined_predicates);
-
-        const output = if (constructor_open_names.items.len > 0)
-            try fmt.allocPrint(
-                allocator,
-                "is{s}({s})",
-                .{ titlecased_tag, joined_predicates },
-            )
-        else
-            try fmt.allocPrint(allocator, "is{s}", .{titlecased_tag});
-
-        predicate_list_outputs[i] = output;
-    }
-
-    return predicate_list_outputs;
-}
-
-fn outputValidatorForGenericUnion(allocator: mem.Allocator, generic: GenericUnion) ![]const u8 {
-    const name = generic.name.value;
-
-    const open_name_validators = try openNameValidators(allocator, generic.open_names);
-    defer utilities.freeStringArray(allocator, open_name_validators);
 
-    const open_name_validator_types = try allocator.alloc([]const u8, generic.open_names.len);
-    defer allocator.free(open_name_validator_types);
-    defer for (open_name_validator_types) |t| allocator.free(t);
-    for (open_name_validator_types, 0..) |*t, i| {
-        t.* = try fmt.allocPrint(
+        type_guard_outputs[i] = try withDocComment(
             allocator,
-            "svt.Validator<{s}>",
-            .{generic.open_names[i]},
+            constructor.doc_comment,
+            "",
+            try outputTypeGuardForConstructorWithEmbeddedTypeTag(
+                allocator,
+                fields_in_structure,
+                constructor.tag,
+                embedded.tag_field,
+                enumeration_tag,
+                embedded.strict,
+            ),
         );
-    }
 
-    const parameter_outputs = try allocator.alloc([]const u8, generic.open_names.len);
-    defer allocator.free(parameter_outputs);
-    defer for (parameter_outputs) |o| allocator.free(o);
-    for (parameter_outputs, 0..) |*o, i| {
-        o.* = try fmt.allocPrint(
+        validator_outputs[i] = try withDocComment(
             allocator,
-            "{s}: {s}",
-            .{ open_name_validators[i], open_name_validator_types[i] },
+            constructor.doc_comment,
+            "",
+            try outputValidatorForConstructorWithEmbeddedTypeTag(
+                allocator,
+                fields_in_structure,
+                constructor.tag,
+                embedded.tag_field,
+                enumeration_tag,
+                embedded.strict,
+            ),
         );
     }
 
-    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
-    defer allocator.free(parameters_output);
-
-    const joined_open_names_with_comma = try mem.join(allocator, ", ", generic.open_names);
-    defer allocator.free(joined_open_names_with_comma);
-
-    const open_names_output = try fmt.allocPrint(allocator, "{s}", .{joined_open_names_with_comma});
-    defer allocator.free(open_names_output);
-
-    const validator_specification_output = try outputValidatorSpecification(
+    const tagged_structures_output = try mem.join(
         allocator,
-        generic.name.value,
-        generic.constructors,
-        generic.open_names,
+        "\n\n",
+        tagged_structure_outputs,
     );
-    defer allocator.free(validator_specification_output);
+    defer allocator.free(tagged_structures_output);
 
-    const joined_open_names = try mem.join(allocator, "", generic.open_names);
-    defer allocator.free(joined_open_names);
+    const constructors_output = try mem.join(allocator, "\n\n", constructor_outputs);
+    defer allocator.free(constructors_output);
 
-    const format =
-        \\export function validate{s}<{s}>({s}): svt.Validator<{s}<{s}>> {{
-        \\    return function validate{s}{s}(value: unknown): svt.ValidationResult<{s}<{s}>> {{
-        \\        return svt.validateWithTypeTag<{s}<{s}>>(value, {s}, "{s}");
-        \\    }};
+    const joined_union_type_guards = try mem.join(allocator, ", ", union_type_guards);
+    defer allocator.free(joined_union_type_guards);
+
+    const union_type_guard_format =
+        \\export function is{s}(value: unknown): value is {s} {{
+        \\    return [{s}].some((typePredicate) => typePredicate(value));
         \\}}
     ;
-
-    return try fmt.allocPrint(
+    const union_type_guard_output = try withDocComment(
         allocator,
-        format,
-        .{
-            name,
-            open_names_output,
-            parameters_output,
-            name,
-            open_names_output,
-            name,
-            joined_open_names,
-            name,
-            open_names_output,
-            name,
-            open_names_output,
-            validator_specification_output,
-            generic.tag_field,
-        },
+        embedded.doc_comment,
+        "",
+        try fmt.allocPrint(
+            allocator,
+            union_type_guard_format,
+            .{ name, name, joined_union_type_guards },
+        ),
     );
-}
-
-fn validatorsFromConstructors(
-    allocator: mem.Allocator,
-    constructors: []const Constructor,
-    open_names: []const []const u8,
-) ![]const []const u8 {
-    var outputs = try allocator.alloc([]const u8, constructors.len);
-
-    for (constructors, 0..) |constructor, i| {
-        outputs[i] = try validatorFromConstructor(allocator, constructor, open_names);
-    }
+    defer allocator.free(union_type_guard_output);
 
-    return outputs;
-}
+    const type_guards_output = try mem.join(allocator, "\n\n", type_guard_outputs);
+    defer allocator.free(type_guards_output);
 
-fn validatorFromConstructor(
-    allocator: mem.Allocator,
-    constructor: Constructor,
-    open_names: []const []const u8,
-) ![]const u8 {
-    const constructor_open_names = try general.openNamesFromType(
+    const validator_specification_output = try outputValidatorSpecificationForEmbeddedUnion(
         allocator,
-        constructor.parameter,
-        open_names,
+        prefix,
+        embedded,
+        embedded.open_names,
     );
-    defer utilities.freeStringList(constructor_open_names);
+    defer allocator.free(validator_specification_output);
 
-    const has_open_names = constructor_open_names.items.len > 0;
+    const union_validator_format =
+        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
+        \\    return svt.validateWithTypeTag<{s}>(value, {s}, "{s}");
+        \\}}
+    ;
 
-    const constructor_open_name_validators = try openNameValidators(
+    const union_validator_output = try withDocComment(
         allocator,
-        constructor_open_names.items,
+        embedded.doc_comment,
+        "",
+        try fmt.allocPrint(
+            allocator,
+            union_validator_format,
+            .{ name, name, name, validator_specification_output, embedded.tag_field },
+        ),
     );
-    defer utilities.freeStringArray(allocator, constructor_open_name_validators);
+    defer allocator.free(union_validator_output);
 
-    const titlecased_tag = try utilities.titleCaseWord(allocator, constructor.tag);
-    defer allocator.free(titlecased_tag);
+    const validators_output = try mem.join(allocator, "\n\n", validator_outputs);
+    defer allocator.free(validators_output);
 
-    const joined_validators = try mem.join(
+    const encoder_output = try withDocComment(
         allocator,
-        ", ",
-        constructor_open_name_validators,
+        embedded.doc_comment,
+        "",
+        try outputEncoderForEmbeddedUnion(allocator, options, embedded),
     );
-    defer allocator.free(joined_validators);
+    defer allocator.free(encoder_output);
 
-    return if (has_open_names)
-        try fmt.allocPrint(allocator, "validate{s}({s})", .{ titlecased_tag, joined_validators })
-    else
-        try fmt.allocPrint(allocator, "validate{s}", .{titlecased_tag});
-}
+    const decoder_output = try withDocComment(
+        allocator,
+        embedded.doc_comment,
+        "",
+        try outputDecoderFunction(allocator, name, &[_][]const u8{}),
+    );
+    defer allocator.free(decoder_output);
 
-fn outputTypeGuardForGenericStructure(
-    allocator: mem.Allocator,
-    generic: GenericStructure,
-) ![]const u8 {
-    const name = generic.name.value;
+    const match_output = try outputMatchFunctionsForEmbeddedUnion(allocator, prefix, embedded);
+    defer allocator.free(match_output);
 
-    const open_names = try actualOpenNames(allocator, generic.open_names);
-    defer utilities.freeStringList(open_names);
+    const declarations_output = try outputConstructorDeclarations(allocator, options, name, .{
+        .tagged_structures = tagged_structures_output,
+        .constructors = constructors_output,
+        .union_type_guard = union_type_guard_output,
+        .type_guards = type_guards_output,
+        .union_validator = union_validator_output,
+        .validators = validators_output,
+    });
+    defer allocator.free(declarations_output);
 
-    const open_names_output = try mem.join(allocator, ", ", open_names.items);
-    defer allocator.free(open_names_output);
+    const output_format =
+        \\export type {s} = {s};
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+    ;
 
-    const open_names_together = try mem.join(allocator, "", open_names.items);
-    defer allocator.free(open_names_together);
-
-    const open_names_predicates = try openNamePredicates(allocator, open_names.items);
-    defer utilities.freeStringArray(allocator, open_names_predicates);
-
-    const open_names_predicates_output = try mem.join(allocator, ", ", open_names_predicates);
-    defer allocator.free(open_names_predicates_output);
+    return try withDocComment(allocator, embedded.doc_comment, "", try fmt.allocPrint(
+        allocator,
+        output_format,
+        .{
+            name,
+            constructor_names_output,
+            union_tag_enum_output,
+            declarations_output,
+            encoder_output,
+            decoder_output,
+            match_output,
+        },
+    ));
+}
 
-    const open_name_predicate_types = try allocator.alloc([]const u8, open_names.items.len);
-    defer allocator.free(open_name_predicate_types);
-    defer for (open_name_predicate_types) |t| allocator.free(t);
-    for (open_name_predicate_types, 0..) |*t, i| {
-        t.* = try fmt.allocPrint(allocator, "svt.TypePredicate<{s}>", .{open_names.items[i]});
-    }
+fn outputConstructorWithEmbeddedTag(
+    allocator: mem.Allocator,
+    parameter: ?Structure,
+    tag: []const u8,
+    tag_field: []const u8,
+    enumeration_tag: []const u8,
+) ![]const u8 {
+    const constructor_format_with_payload =
+        \\export function {s}(data: {s}): {s} {{
+        \\    return {{{s}: {s}, ...data}};
+        \\}}
+    ;
+    const constructor_format_without_payload =
+        \\export function {s}(): {s} {{
+        \\    return {{{s}: {s}}};
+        \\}}
+    ;
 
-    const parameter_outputs = try allocator.alloc([]const u8, open_names.items.len);
-    defer allocator.free(parameter_outputs);
-    defer for (parameter_outputs) |o| allocator.free(o);
-    for (parameter_outputs, 0..) |*o, i| {
-        o.* = try fmt.allocPrint(
+    return if (parameter) |p|
+        try fmt.allocPrint(
             allocator,
-            "{s}: {s}",
-            .{ open_names_predicates[i], open_name_predicate_types[i] },
+            constructor_format_with_payload,
+            .{ tag, p.name().value, tag, tag_field, enumeration_tag },
+        )
+    else
+        try fmt.allocPrint(
+            allocator,
+            constructor_format_without_payload,
+            .{ tag, tag, tag_field, enumeration_tag },
         );
-    }
-
-    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
-    defer allocator.free(parameters_output);
-
-    const fields_output = try getTypeGuardsFromFields(allocator, generic.fields);
-    defer allocator.free(fields_output);
+}
 
-    const format_with_open_names =
-        \\export function is{s}<{s}>({s}): svt.TypePredicate<{s}<{s}>> {{
-        \\    return function is{s}{s}(value: unknown): value is {s}<{s}> {{
-        \\        return svt.isInterface<{s}<{s}>>(value, {{{s}}});
-        \\    }};
-        \\}}
+fn outputTaggedStructureForConstructorWithEmbeddedTag(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    fields_in_structure: []const Field,
+    tag_field: []const u8,
+    tag: []const u8,
+    enumeration_tag_type: []const u8,
+) ![]const u8 {
+    const tagged_structure_output_with_payload =
+        \\export type {s} = {{
+        \\    {s}: {s};
+        \\{s}
+        \\}};
+    ;
+    const tagged_structure_output_without_payload =
+        \\export type {s} = {{
+        \\    {s}: {s};
+        \\}};
     ;
 
-    return try fmt.allocPrint(
-        allocator,
-        format_with_open_names,
-        .{
-            name,
-            open_names_output,
-            parameters_output,
-            name,
-            open_names_output,
-            name,
-            open_names_together,
-            name,
-            open_names_output,
-            name,
-            open_names_output,
-            fields_output,
-        },
-    );
+    const structure_fields = try outputStructureFields(allocator, options, fields_in_structure);
+    defer allocator.free(structure_fields);
+
+    return if (fields_in_structure.len != 0)
+        try fmt.allocPrint(
+            allocator,
+            tagged_structure_output_with_payload,
+            .{ tag, tag_field, enumeration_tag_type, structure_fields },
+        )
+    else
+        try fmt.allocPrint(
+            allocator,
+            tagged_structure_output_without_payload,
+            .{ tag, tag_field, enumeration_tag_type },
+        );
 }
 
-fn outputValidatorForGenericStructure(
+fn outputUnionTagEnumerationForConstructors(
+    comptime T: type,
     allocator: mem.Allocator,
-    generic: GenericStructure,
+    options: CompilationOptions,
+    name: []const u8,
+    constructors: []const T,
 ) ![]const u8 {
-    const name = generic.name.value;
+    var enumeration_tag_outputs = try allocator.alloc([]const u8, constructors.len);
+    defer utilities.freeStringArray(allocator, enumeration_tag_outputs);
 
-    const open_names = try actualOpenNames(allocator, generic.open_names);
-    defer utilities.freeStringList(open_names);
+    for (constructors, 0..) |constructor, i| {
+        enumeration_tag_outputs[i] = if (options.literal_enums)
+            try fmt.allocPrint(
+                allocator,
+                "    {s}: \"{s}\",",
+                .{ constructor.tag, constructor.tag },
+            )
+        else
+            try fmt.allocPrint(
+                allocator,
+                "    {s} = \"{s}\",",
+                .{ constructor.tag, constructor.tag },
+            );
+    }
 
-    const open_names_output = try mem.join(allocator, ", ", open_names.items);
-    defer allocator.free(open_names_output);
+    const enumeration_tag_output = try mem.join(allocator, "\n", enumeration_tag_outputs);
+    defer allocator.free(enumeration_tag_output);
 
-    const open_names_together = try mem.join(allocator, "", open_names.items);
-    defer allocator.free(open_names_together);
+    const enumeration_name = try fmt.allocPrint(allocator, "{s}Tag", .{name});
+    defer allocator.free(enumeration_name);
 
-    const open_names_validators = try openNameValidators(allocator, open_names.items);
-    defer utilities.freeStringArray(allocator, open_names_validators);
+    return try outputEnumerationType(allocator, options, enumeration_name, enumeration_tag_output);
+}
 
-    const open_names_predicates_output = try mem.join(allocator, ", ", open_names_validators);
-    defer allocator.free(open_names_predicates_output);
+/// Outputs what references to the constructors of a union, and to their type guards and
+/// validators, are prefixed with; the union's namespace with `namespaced_unions`.
+fn outputConstructorPrefix(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    name: []const u8,
+) ![]const u8 {
+    return if (options.namespaced_unions)
+        try fmt.allocPrint(allocator, "{s}.", .{name})
+    else
+        try allocator.dupe(u8, "");
+}
 
-    const open_name_validator_types = try allocator.alloc([]const u8, open_names.items.len);
-    defer allocator.free(open_name_validator_types);
-    defer for (open_name_validator_types) |t| allocator.free(t);
-    for (open_name_validator_types, 0..) |*t, i| {
-        t.* = try fmt.allocPrint(allocator, "svt.Validator<{s}>", .{open_names.items[i]});
+const ConstructorDeclarations = struct {
+    tagged_structures: []const u8,
+    constructors: []const u8,
+    union_type_guard: []const u8,
+    type_guards: []const u8,
+    union_validator: []const u8,
+    validators: []const u8,
+};
+
+/// Outputs the declarations for the constructors of a union together with the type guard and
+/// validator of the union itself. With `namespaced_unions` the declarations for the constructors
+/// are put in a namespace named after the union, which can share the name of the union type.
+fn outputConstructorDeclarations(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    name: []const u8,
+    declarations: ConstructorDeclarations,
+) ![]const u8 {
+    if (!options.namespaced_unions) {
+        return try mem.join(allocator, "\n\n", &[_][]const u8{
+            declarations.tagged_structures,
+            declarations.constructors,
+            declarations.union_type_guard,
+            declarations.type_guards,
+            declarations.union_validator,
+            declarations.validators,
+        });
     }
 
-    const parameter_outputs = try allocator.alloc([]const u8, open_names.items.len);
-    defer allocator.free(parameter_outputs);
-    defer for (parameter_outputs) |o| allocator.free(o);
-    for (parameter_outputs, 0..) |*o, i| {
-        o.* = try fmt.allocPrint(
-            allocator,
-            "{s}: {s}",
-            .{ open_names_validators[i], open_name_validator_types[i] },
-        );
+    const namespaced_output = try mem.join(allocator, "\n\n", &[_][]const u8{
+        declarations.tagged_structures,
+        declarations.constructors,
+        declarations.type_guards,
+        declarations.validators,
+    });
+    defer allocator.free(namespaced_output);
+
+    var lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(lines);
+
+    var line_iterator = mem.split(u8, namespaced_output, "\n");
+    while (line_iterator.next()) |line| {
+        try lines.append(if (line.len == 0)
+            try allocator.dupe(u8, "")
+        else
+            try fmt.allocPrint(allocator, "    {s}", .{line}));
     }
 
-    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
-    defer allocator.free(parameters_output);
-
-    const fields_output = try getValidatorsFromFields(allocator, generic.fields);
-    defer allocator.free(fields_output);
+    const indented_output = try mem.join(allocator, "\n", lines.items);
+    defer allocator.free(indented_output);
 
-    const format_with_open_names =
-        \\export function validate{s}<{s}>({s}): svt.Validator<{s}<{s}>> {{
-        \\    return function validate{s}{s}(value: unknown): svt.ValidationResult<{s}<{s}>> {{
-        \\        return svt.validate<{s}<{s}>>(value, {{{s}}});
-        \\    }};
+    const format =
+        \\export namespace {s} {{
+        \\{s}
         \\}}
+        \\
+        \\{s}
+        \\
+        \\{s}
     ;
 
     return try fmt.allocPrint(
         allocator,
-        format_with_open_names,
-        .{
-            name,
-            open_names_output,
-            parameters_output,
-            name,
-            open_names_output,
-            name,
-            open_names_together,
-            name,
-            open_names_output,
-            name,
-            open_names_output,
-            fields_output,
-        },
+        format,
+        .{ name, indented_output, declarations.union_type_guard, declarations.union_validator },
     );
 }
 
-fn openNamePredicates(allocator: mem.Allocator, names: []const []const u8) ![]const []const u8 {
-    var predicates = try allocator.alloc([]const u8, names.len);
-
-    for (names, 0..) |name, i| {
-        predicates[i] = try translatedTypeGuardName(allocator, name);
-    }
+fn outputTypeGuardForPlainUnion(
+    allocator: mem.Allocator,
+    prefix: []const u8,
+    plain: PlainUnion,
+) ![]const u8 {
+    const name = plain.name.value;
 
-    return predicates;
-}
+    const predicate_outputs = try predicatesFromConstructors(
+        allocator,
+        prefix,
+        plain.constructors,
+        &[_][]const u8{},
+    );
+    defer utilities.freeStringArray(allocator, predicate_outputs);
 
-fn openNameValidators(allocator: mem.Allocator, names: []const []const u8) ![]const []const u8 {
-    var validators = try allocator.alloc([]const u8, names.len);
+    const predicates_output = try mem.join(allocator, ", ", predicate_outputs);
+    defer allocator.free(predicates_output);
 
-    for (names, 0..) |name, i| {
-        validators[i] = try translatedValidatorName(allocator, name);
-    }
+    const format =
+        \\export function is{s}(value: unknown): value is {s} {{
+        \\    return [{s}].some((typePredicate) => typePredicate(value));
+        \\}}
+    ;
 
-    return validators;
+    return try fmt.allocPrint(allocator, format, .{ name, name, predicates_output });
 }
 
-fn outputValidatorForPlainStructure(
+fn outputValidatorForPlainUnion(
     allocator: mem.Allocator,
-    plain_structure: PlainStructure,
+    prefix: []const u8,
+    plain: PlainUnion,
 ) ![]const u8 {
-    const name = plain_structure.name.value;
+    const name = plain.name.value;
 
-    const validators_output = try getValidatorsFromFields(allocator, plain_structure.fields);
-    defer allocator.free(validators_output);
+    const validator_specification_output = try outputValidatorSpecification(
+        allocator,
+        prefix,
+        plain.name.value,
+        plain.constructors,
+        &[_][]const u8{},
+    );
+    defer allocator.free(validator_specification_output);
 
-    const output_format =
+    const format =
         \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
-        \\    return svt.validate<{s}>(value, {{{s}}});
+        \\    return svt.validateWithTypeTag<{s}>(value, {s}, "{s}");
         \\}}
     ;
 
     return try fmt.allocPrint(
         allocator,
-        output_format,
-        .{ name, name, name, validators_output },
+        format,
+        .{ name, name, name, validator_specification_output, plain.tag_field },
     );
 }
 
-fn getTypeGuardsFromFields(allocator: mem.Allocator, fields: []const Field) ![]const u8 {
-    var fields_outputs = try allocator.alloc([]const u8, fields.len);
-    defer utilities.freeStringArray(allocator, fields_outputs);
-
-    for (fields, 0..) |field, i| {
-        const type_guard = try getTypeGuardFromType(allocator, field.type);
-        defer allocator.free(type_guard);
-
-        fields_outputs[i] = try fmt.allocPrint(allocator, "{s}: {s}", .{ field.name, type_guard });
-    }
-
-    return try mem.join(allocator, ", ", fields_outputs);
-}
-
-fn getValidatorsFromFields(allocator: mem.Allocator, fields: []const Field) ![]const u8 {
-    var fields_outputs = try allocator.alloc([]const u8, fields.len);
-    defer utilities.freeStringArray(allocator, fields_outputs);
-
-    for (fields, 0..) |field, i| {
-        const validator = try getValidatorFromType(allocator, field.type);
-        defer allocator.free(validator);
-
-        fields_outputs[i] = try fmt.allocPrint(allocator, "{s}: {s}", .{ field.name, validator });
-    }
-
-    return try mem.join(allocator, ", ", fields_outputs);
-}
-
-fn getTypeGuardFromType(allocator: mem.Allocator, t: Type) ![]const u8 {
-    const array_format = "svt.arrayOf({s})";
-    const optional_format = "svt.optional({s})";
-
-    return switch (t) {
-        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
-        .reference => |r| try translatedTypeGuardReference(allocator, r),
-        .array => |a| output: {
-            const nested_validator = try getNestedTypeGuardFromType(allocator, a.type.*);
-            defer allocator.free(nested_validator);
-
-            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
-        },
-        .slice => |s| output: {
-            const nested_validator = try getNestedTypeGuardFromType(allocator, s.type.*);
-            defer allocator.free(nested_validator);
-
-            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
-        },
-        .pointer => |p| try getNestedTypeGuardFromType(allocator, p.type.*),
-        .optional => |o| output: {
-            const nested_validator = try getNestedTypeGuardFromType(allocator, o.type.*);
-            defer allocator.free(nested_validator);
-
-            break :output try fmt.allocPrint(allocator, optional_format, .{nested_validator});
-        },
-
-        .empty => debug.panic("Empty type does not seem like it should have a type guard\n", .{}),
-    };
-}
-
-fn getValidatorFromType(allocator: mem.Allocator, t: Type) ![]const u8 {
-    const array_format = "svt.validateArray({s})";
-    const optional_format = "svt.validateOptional({s})";
-
-    return switch (t) {
-        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
-        .reference => |r| try translatedValidatorReference(allocator, r),
-        .array => |a| output: {
-            const nested_validator = try getNestedValidatorFromType(allocator, a.type.*);
-            defer allocator.free(nested_validator);
-
-            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
-        },
-        .slice => |s| output: {
-            const nested_validator = try getNestedValidatorFromType(allocator, s.type.*);
-            defer allocator.free(nested_validator);
-
-            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
-        },
-        .pointer => |p| try getNestedValidatorFromType(allocator, p.type.*),
-        .optional => |o| output: {
-            const nested_validator = try getNestedValidatorFromType(allocator, o.type.*);
-            defer allocator.free(nested_validator);
-
-            break :output try fmt.allocPrint(allocator, optional_format, .{nested_validator});
-        },
-        .empty => debug.panic("Empty type does not seem like it should have a type guard\n", .{}),
-    };
-}
-
-fn outputConstructors(
+fn outputValidatorSpecification(
     allocator: mem.Allocator,
-    union_name: []const u8,
+    prefix: []const u8,
+    name: []const u8,
     constructors: []const Constructor,
-    tag_field: []const u8,
+    open_names: []const []const u8,
 ) ![]const u8 {
-    var constructor_outputs = try allocator.alloc([]const u8, constructors.len);
-    defer utilities.freeStringArray(allocator, constructor_outputs);
+    var entries = try allocator.alloc([]const u8, constructors.len);
+    defer utilities.freeStringArray(allocator, entries);
 
-    for (constructors, 0..) |constructor, i| {
-        constructor_outputs[i] = try outputConstructor(
+    for (constructors, 0..) |c, i| {
+        const enumeration_tag = try outputEnumerationTag(allocator, name, c.tag);
+        defer allocator.free(enumeration_tag);
+
+        const titlecased_tag = try utilities.titleCaseWord(allocator, c.tag);
+        defer allocator.free(titlecased_tag);
+        const payload_validator = try validatorFromConstructor(allocator, prefix, c, open_names);
+        defer allocator.free(payload_validator);
+
+        entries[i] = try fmt.allocPrint(
             allocator,
-            union_name,
-            constructor,
-            &[_][]const u8{},
-            tag_field,
+            "[{s}]: {s}",
+            .{ enumeration_tag, payload_validator },
         );
     }
 
-    return try mem.join(allocator, "\n\n", constructor_outputs);
+    const joined_validators = try mem.join(allocator, ", ", entries);
+    defer allocator.free(joined_validators);
+
+    return try fmt.allocPrint(allocator, "{{{s}}}", .{joined_validators});
 }
 
-fn outputTypeGuardsForConstructors(
+fn outputValidatorSpecificationForEmbeddedUnion(
     allocator: mem.Allocator,
-    union_name: []const u8,
-    constructors: []const Constructor,
+    prefix: []const u8,
+    e: EmbeddedUnion,
     open_names: []const []const u8,
-    tag_field: []const u8,
 ) ![]const u8 {
-    var type_guards = try allocator.alloc([]const u8, constructors.len);
-    defer utilities.freeStringArray(allocator, type_guards);
+    _ = open_names;
+    var entries = try allocator.alloc([]const u8, e.constructors.len);
+    defer utilities.freeStringArray(allocator, entries);
 
-    for (constructors, 0..) |constructor, i| {
-        type_guards[i] = try outputTypeGuardForConstructor(
+    for (e.constructors, 0..) |c, i| {
+        const enumeration_tag = try outputEnumerationTag(allocator, e.name.value, c.tag);
+        defer allocator.free(enumeration_tag);
+
+        const titlecased_tag = try utilities.titleCaseWord(allocator, c.tag);
+        defer allocator.free(titlecased_tag);
+        const payload_validator = try fmt.allocPrint(
             allocator,
-            union_name,
-            constructor,
-            open_names,
-            tag_field,
+            "{s}validate{s}",
+            .{ prefix, titlecased_tag },
+        );
+        defer allocator.free(payload_validator);
+
+        entries[i] = try fmt.allocPrint(
+            allocator,
+            "[{s}]: {s}",
+            .{ enumeration_tag, payload_validator },
         );
     }
 
-    return try mem.join(allocator, "\n\n", type_guards);
+    const joined_validators = try mem.join(allocator, ", ", entries);
+    defer allocator.free(joined_validators);
+
+    return try fmt.allocPrint(allocator, "{{{s}}}", .{joined_validators});
 }
 
-fn outputValidatorsForConstructors(
+pub fn outputGenericUnion(
     allocator: mem.Allocator,
-    union_name: []const u8,
-    constructors: []const Constructor,
-    open_names: []const []const u8,
-    tag_field: []const u8,
+    options: CompilationOptions,
+    generic_union: GenericUnion,
 ) ![]const u8 {
-    var validators = try allocator.alloc([]const u8, constructors.len);
-    defer utilities.freeStringArray(allocator, validators);
+    const name = generic_union.name.value;
 
-    for (constructors, 0..) |constructor, i| {
-        validators[i] = try outputValidatorForConstructor(
+    const open_names = try outputOpenNames(allocator, generic_union.open_names);
+    defer allocator.free(open_names);
+
+    const prefix = try outputConstructorPrefix(allocator, options, name);
+    defer allocator.free(prefix);
+
+    var constructor_names = try allocator.alloc([]const u8, generic_union.constructors.len);
+    defer allocator.free(constructor_names);
+    defer for (constructor_names) |n| allocator.free(n);
+    for (generic_union.constructors, 0..) |constructor, i| {
+        const maybe_names = try outputOpenNamesFromType(
             allocator,
-            union_name,
-            constructor,
-            open_names,
-            tag_field,
+            constructor.parameter,
+            generic_union.open_names,
         );
-    }
+        defer allocator.free(maybe_names);
 
-    return try mem.join(allocator, "\n\n", validators);
-}
+        constructor_names[i] = try fmt.allocPrint(
+            allocator,
+            "{s}{s}{s}",
+            .{ prefix, constructor.tag, maybe_names },
+        );
+    }
 
-fn outputConstructor(
-    allocator: mem.Allocator,
-    union_name: []const u8,
-    constructor: Constructor,
-    open_names: []const []const u8,
-    tag_field: []const u8,
-) ![]const u8 {
-    const tag = constructor.tag;
+    const constructor_names_output = try mem.join(allocator, " | ", constructor_names);
+    defer allocator.free(constructor_names_output);
 
-    const data_specification = try getDataSpecificationFromType(
+    const union_tag_enum_output = try outputUnionTagEnumerationForConstructors(
+        Constructor,
         allocator,
-        constructor.parameter,
-        open_names,
+        options,
+        name,
+        generic_union.constructors,
     );
-    defer if (data_specification) |s| allocator.free(s);
+    defer allocator.free(union_tag_enum_output);
 
-    const open_names_output = try outputOpenNamesFromType(
+    const tagged_structures_output = try outputTaggedMaybeGenericStructures(
         allocator,
-        constructor.parameter,
-        open_names,
+        options,
+        name,
+        generic_union.constructors,
+        generic_union.open_names,
+        generic_union.tag_field,
     );
-    defer allocator.free(open_names_output);
+    defer allocator.free(tagged_structures_output);
 
-    const enumeration_tag_output = try outputEnumerationTag(allocator, union_name, constructor.tag);
-    defer allocator.free(enumeration_tag_output);
+    const constructors_output = try outputGenericConstructors(
+        allocator,
+        options,
+        name,
+        generic_union.constructors,
+        generic_union.open_names,
+        generic_union.tag_field,
+    );
+    defer allocator.free(constructors_output);
 
-    const output_format_with_data =
-        \\export function {s}{s}(data: {s}): {s}{s} {{
-        \\    return {{{s}: {s}, data}};
-        \\}}
-    ;
+    const union_type_guard_output = try withDocComment(
+        allocator,
+        generic_union.doc_comment,
+        "",
+        try outputTypeGuardForGenericUnion(
+            allocator,
+            prefix,
+            generic_union,
+        ),
+    );
+    defer allocator.free(union_type_guard_output);
 
-    const output_format_without_data =
-        \\export function {s}(): {s} {{
-        \\    return {{{s}: {s}}};
-        \\}}
-    ;
+    const type_guards_output = try outputTypeGuardsForConstructors(
+        allocator,
+        name,
+        generic_union.constructors,
+        generic_union.open_names,
+        generic_union.tag_field,
+        generic_union.strict,
+    );
+    defer allocator.free(type_guards_output);
 
-    return if (data_specification) |specification|
-        try fmt.allocPrint(
-            allocator,
-            output_format_with_data,
-            .{
-                tag,
-                open_names_output,
-                specification,
-                tag,
-                open_names_output,
-                tag_field,
-                enumeration_tag_output,
-            },
-        )
-    else
-        try fmt.allocPrint(
+    const union_validator_output = try withDocComment(
+        allocator,
+        generic_union.doc_comment,
+        "",
+        try outputValidatorForGenericUnion(
             allocator,
-            output_format_without_data,
-            .{ tag, tag, tag_field, enumeration_tag_output },
-        );
-}
+            prefix,
+            generic_union,
+        ),
+    );
+    defer allocator.free(union_validator_output);
 
-fn outputEnumerationTag(
-    allocator: mem.Allocator,
-    union_name: []const u8,
-    tag: []const u8,
-) ![]const u8 {
-    return try fmt.allocPrint(allocator, "{s}Tag.{s}", .{ union_name, tag });
-}
-
-fn outputConstructorName(
-    allocator: mem.Allocator,
-    constructor: Constructor,
-    open_names: []const []const u8,
-) ![]const u8 {
-    return try fmt.allocPrint(
+    const validators_output = try outputValidatorsForConstructors(
         allocator,
-        "{s}{s}",
-        .{
-            constructor.tag,
-            try outputOpenNamesFromType(allocator, constructor.parameter, open_names),
-        },
+        name,
+        generic_union.constructors,
+        generic_union.open_names,
+        generic_union.tag_field,
+        generic_union.strict,
     );
-}
-
-fn outputTypeGuardForConstructorWithEmbeddedTypeTag(
-    allocator: mem.Allocator,
-    fields_in_structure: []const Field,
-    tag: []const u8,
-    tag_field: []const u8,
-    enumeration_tag: []const u8,
-) ![]const u8 {
-    var field_type_guard_specifications = try allocator.alloc([]const u8, fields_in_structure.len);
-    defer utilities.freeStringArray(allocator, field_type_guard_specifications);
-
-    for (fields_in_structure, 0..) |f, i| {
-        const specification_format = "{s}: {s}";
-        const nested = try getNestedTypeGuardFromType(allocator, f.type);
-        defer allocator.free(nested);
+    defer allocator.free(validators_output);
 
-        field_type_guard_specifications[i] =
-            try fmt.allocPrint(allocator, specification_format, .{ f.name, nested });
-    }
+    const encoder_output = try withDocComment(
+        allocator,
+        generic_union.doc_comment,
+        "",
+        try outputEncoderForUnion(
+            allocator,
+            options,
+            name,
+            generic_union.open_names,
+            generic_union.constructors,
+            generic_union.tag_field,
+        ),
+    );
+    defer allocator.free(encoder_output);
 
-    const type_guard_format_with_payload =
-        \\export function is{s}(value: unknown): value is {s} {{
-        \\    return svt.isInterface<{s}>(value, {{{s}: {s}, {s}}});
-        \\}}
-    ;
-    const type_guard_format_without_payload =
-        \\export function is{s}(value: unknown): value is {s} {{
-        \\    return svt.isInterface<{s}>(value, {{{s}: {s}}});
-        \\}}
-    ;
+    const decoder_output = try withDocComment(
+        allocator,
+        generic_union.doc_comment,
+        "",
+        try outputDecoderFunction(allocator, name, generic_union.open_names),
+    );
+    defer allocator.free(decoder_output);
 
-    const joined_specifications = try mem.join(
+    const match_output = try outputMatchFunctionsForUnion(
         allocator,
-        ", ",
-        field_type_guard_specifications,
+        options,
+        name,
+        generic_union.open_names,
+        generic_union.constructors,
+        generic_union.tag_field,
     );
-    defer allocator.free(joined_specifications);
+    defer allocator.free(match_output);
+
+    const declarations_output = try outputConstructorDeclarations(allocator, options, name, .{
+        .tagged_structures = tagged_structures_output,
+        .constructors = constructors_output,
+        .union_type_guard = union_type_guard_output,
+        .type_guards = type_guards_output,
+        .union_validator = union_validator_output,
+        .validators = validators_output,
+    });
+    defer allocator.free(declarations_output);
 
-    const titlecased_tag = try utilities.titleCaseWord(allocator, tag);
-    defer allocator.free(titlecased_tag);
+    const output_format =
+        \\export type {s}{s} = {s};
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+        \\
+        \\{s}
+    ;
 
-    return if (fields_in_structure.len != 0)
-        try fmt.allocPrint(
-            allocator,
-            type_guard_format_with_payload,
-            .{
-                titlecased_tag,
-                tag,
-                tag,
-                tag_field,
-                enumeration_tag,
-                joined_specifications,
-            },
-        )
-    else
-        try fmt.allocPrint(
-            allocator,
-            type_guard_format_without_payload,
-            .{
-                titlecased_tag,
-                tag,
-                tag,
-                tag_field,
-                enumeration_tag,
-            },
-        );
+    return try withDocComment(allocator, generic_union.doc_comment, "", try fmt.allocPrint(
+        allocator,
+        output_format,
+        .{
+            name,
+            open_names,
+            constructor_names_output,
+            union_tag_enum_output,
+            declarations_output,
+            encoder_output,
+            decoder_output,
+            match_output,
+        },
+    ));
 }
 
-fn outputValidatorForConstructorWithEmbeddedTypeTag(
+fn outputTypeGuardForPlainStructure(
     allocator: mem.Allocator,
-    fields_in_structure: []const Field,
-    tag: []const u8,
-    tag_field: []const u8,
-    enumeration_tag: []const u8,
+    plain_structure: PlainStructure,
 ) ![]const u8 {
-    var field_validator_specifications = try allocator.alloc([]const u8, fields_in_structure.len);
-    defer utilities.freeStringArray(allocator, field_validator_specifications);
-
-    for (fields_in_structure, 0..) |f, i| {
-        const specification_format = "{s}: {s}";
-        const nested = try getNestedValidatorFromType(allocator, f.type);
-        defer allocator.free(nested);
+    const name = plain_structure.name.value;
 
-        field_validator_specifications[i] =
-            try fmt.allocPrint(
-            allocator,
-            specification_format,
-            .{ f.name, nested },
-        );
-    }
+    const checkers_output = try getTypeGuardsFromFields(allocator, plain_structure.fields);
+    defer allocator.free(checkers_output);
 
-    const validator_format_with_payload =
-        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
-        \\    return svt.validate<{s}>(value, {{{s}: {s}, {s}}});
-        \\}}
-    ;
-    const validator_format_without_payload =
-        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
-        \\    return svt.validate<{s}>(value, {{{s}: {s}}});
+    const output_format =
+        \\export function is{s}(value: unknown): value is {s} {{
+        \\    return {s}<{s}>(value, {{{s}}});
         \\}}
     ;
 
-    const joined_specifications = try mem.join(allocator, ", ", field_validator_specifications);
-    defer allocator.free(joined_specifications);
-
-    const titlecased_tag = try utilities.titleCaseWord(allocator, tag);
-    defer allocator.free(titlecased_tag);
-
-    return if (fields_in_structure.len != 0)
-        try fmt.allocPrint(
-            allocator,
-            validator_format_with_payload,
-            .{
-                titlecased_tag,
-                tag,
-                tag,
-                tag_field,
-                enumeration_tag,
-                joined_specifications,
-            },
-        )
-    else
-        try fmt.allocPrint(
-            allocator,
-            validator_format_without_payload,
-            .{
-                titlecased_tag,
-                tag,
-                tag,
-                tag_field,
-                enumeration_tag,
-            },
-        );
+    return try fmt.allocPrint(
+        allocator,
+        output_format,
+        .{ name, name, interfaceTypeGuard(plain_structure.strict), name, checkers_output },
+    );
 }
 
-fn outputTypeGuardForConstructor(
+fn outputTypeGuardForGenericUnion(
     allocator: mem.Allocator,
-    union_name: []const u8,
-    constructor: Constructor,
-    open_names: []const []const u8,
-    tag_field: []const u8,
+    prefix: []const u8,
+    generic: GenericUnion,
 ) ![]const u8 {
-    const tag = constructor.tag;
-
-    const constructor_open_names = try general.openNamesFromType(
-        allocator,
-        constructor.parameter,
-        open_names,
-    );
-    defer utilities.freeStringList(constructor_open_names);
-
-    const open_names_output = try outputOpenNamesFromType(
-        allocator,
-        constructor.parameter,
-        open_names,
-    );
-    defer allocator.free(open_names_output);
+    const name = generic.name.value;
 
-    const open_names_predicates = try openNamePredicates(allocator, constructor_open_names.items);
+    const open_names_predicates = try openNamePredicates(allocator, generic.open_names);
     defer utilities.freeStringArray(allocator, open_names_predicates);
 
-    const open_name_predicate_types = try allocator.alloc(
-        []const u8,
-        constructor_open_names.items.len,
-    );
+    const open_name_predicate_types = try allocator.alloc([]const u8, generic.open_names.len);
     defer allocator.free(open_name_predicate_types);
     defer for (open_name_predicate_types) |t| allocator.free(t);
     for (open_name_predicate_types, 0..) |*t, i| {
         t.* = try fmt.allocPrint(
             allocator,
             "svt.TypePredicate<{s}>",
-            .{constructor_open_names.items[i]},
+            .{generic.open_names[i]},
         );
     }
 
-    const parameter_outputs = try allocator.alloc([]const u8, constructor_open_names.items.len);
+    const parameter_outputs = try allocator.alloc([]const u8, generic.open_names.len);
     defer allocator.free(parameter_outputs);
     defer for (parameter_outputs) |o| allocator.free(o);
     for (parameter_outputs, 0..) |*o, i| {
@@ -1829,905 +3063,2837 @@ fn outputTypeGuardForConstructor(
     const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
     defer allocator.free(parameters_output);
 
-    const enumeration_tag_output = try outputEnumerationTag(allocator, union_name, constructor.tag);
-    defer allocator.free(enumeration_tag_output);
+    const open_names_output = try mem.join(allocator, ", ", generic.open_names);
+    defer allocator.free(open_names_output);
 
-    const type_guard_output = try getDataTypeGuardFromType(allocator, constructor.parameter);
-    defer allocator.free(type_guard_output);
+    const predicate_list_outputs = try predicatesFromConstructors(
+        allocator,
+        prefix,
+        generic.constructors,
+        generic.open_names,
+    );
+    defer utilities.freeStringArray(allocator, predicate_list_outputs);
 
-    const titlecased_tag = try utilities.titleCaseWord(allocator, tag);
-    defer allocator.free(titlecased_tag);
+    const predicates_output = try mem.join(allocator, ", ", predicate_list_outputs);
+    defer allocator.free(predicates_output);
 
-    const joined_open_names = try mem.join(allocator, "", constructor_open_names.items);
+    const joined_open_names = try mem.join(allocator, "", generic.open_names);
     defer allocator.free(joined_open_names);
 
-    const output_format_with_open_names =
-        \\export function is{s}{s}({s}): svt.TypePredicate<{s}{s}> {{
-        \\    return function is{s}{s}(value: unknown): value is {s}{s} {{
-        \\        return svt.isInterface<{s}{s}>(value, {{{s}: {s}{s}}});
+    const format =
+        \\export function is{s}<{s}>({s}): svt.TypePredicate<{s}<{s}>> {{
+        \\    return function is{s}{s}(value: unknown): value is {s}<{s}> {{
+        \\        return [{s}].some((typePredicate) => typePredicate(value));
         \\    }};
         \\}}
     ;
 
-    const output_format_without_open_names =
-        \\export function is{s}(value: unknown): value is {s} {{
-        \\    return svt.isInterface<{s}>(value, {{{s}: {s}{s}}});
-        \\}}
-    ;
+    return try fmt.allocPrint(
+        allocator,
+        format,
+        .{
+            name,
+            open_names_output,
+            parameters_output,
+            name,
+            open_names_output,
+            name,
+            joined_open_names,
+            name,
+            open_names_output,
+            predicates_output,
+        },
+    );
+}
 
-    return if (constructor_open_names.items.len > 0)
-        try fmt.allocPrint(
+fn predicatesFromConstructors(
+    allocator: mem.Allocator,
+    prefix: []const u8,
+    constructors: []const Constructor,
+    open_names: []const []const u8,
+) ![]const []const u8 {
+    var predicate_list_outputs = try allocator.alloc([]const u8, constructors.len);
+
+    for (constructors, 0..) |constructor, i| {
+        const constructor_open_names = try general.openNamesFromType(
             allocator,
-            output_format_with_open_names,
-            .{
-                titlecased_tag,
-                open_names_output,
-                parameters_output,
-                tag,
-                open_names_output,
-                titlecased_tag,
-                joined_open_names,
-                tag,
-                open_names_output,
-                tag,
-                open_names_output,
-                tag_field,
-                enumeration_tag_output,
-                type_guard_output,
-            },
-        )
-    else
-        try fmt.allocPrint(
+            constructor.parameter,
+            open_names,
+        );
+        defer utilities.freeStringList(constructor_open_names);
+
+        const constructor_open_name_predicates = try openNamePredicates(
             allocator,
-            output_format_without_open_names,
-            .{ titlecased_tag, tag, tag, tag_field, enumeration_tag_output, type_guard_output },
+            constructor_open_names.items,
         );
-}
+        defer utilities.freeStringArray(allocator, constructor_open_name_predicates);
 
-fn outputValidatorForConstructor(
-    allocator: mem.Allocator,
-    union_name: []const u8,
-    constructor: Constructor,
-    open_names: []const []const u8,
-    tag_field: []const u8,
-) ![]const u8 {
-    const tag = constructor.tag;
+        const titlecased_tag = try utilities.titleCaseWord(allocator, constructor.tag);
+        defer allocator.free(titlecased_tag);
 
-    const constructor_open_names = try general.openNamesFromType(
-        allocator,
-        constructor.parameter,
-        open_names,
-    );
-    defer utilities.freeStringList(constructor_open_names);
+        const joined_predicates = try mem.join(
+            allocator,
+            ", ",
+            constructor_open_name_predicates,
+        );
+        defer allocator.free(joined_predicates);
 
-    const open_names_validators = try openNameValidators(allocator, constructor_open_names.items);
-    defer utilities.freeStringArray(allocator, open_names_validators);
+        const output = if (constructor_open_names.items.len > 0)
+            try fmt.allocPrint(
+                allocator,
+                "{s}is{s}({s})",
+                .{ prefix, titlecased_tag, joined_predicates },
+            )
+        else
+            try fmt.allocPrint(allocator, "{s}is{s}", .{ prefix, titlecased_tag });
 
-    const open_names_predicates_output = try mem.join(allocator, ", ", open_names_validators);
-    defer allocator.free(open_names_predicates_output);
+        predicate_list_outputs[i] = output;
+    }
 
-    const open_names_output = try mem.join(allocator, ", ", constructor_open_names.items);
-    defer allocator.free(open_names_output);
+    return predicate_list_outputs;
+}
 
-    const joined_open_names = try mem.join(allocator, "", constructor_open_names.items);
-    defer allocator.free(joined_open_names);
+fn outputValidatorForGenericUnion(
+    allocator: mem.Allocator,
+    prefix: []const u8,
+    generic: GenericUnion,
+) ![]const u8 {
+    const name = generic.name.value;
 
-    const open_name_validator_types = try allocator.alloc(
-        []const u8,
-        constructor_open_names.items.len,
-    );
+    const open_name_validators = try openNameValidators(allocator, generic.open_names);
+    defer utilities.freeStringArray(allocator, open_name_validators);
+
+    const open_name_validator_types = try allocator.alloc([]const u8, generic.open_names.len);
     defer allocator.free(open_name_validator_types);
     defer for (open_name_validator_types) |t| allocator.free(t);
     for (open_name_validator_types, 0..) |*t, i| {
         t.* = try fmt.allocPrint(
             allocator,
             "svt.Validator<{s}>",
-            .{constructor_open_names.items[i]},
+            .{generic.open_names[i]},
         );
     }
 
-    const parameter_outputs = try allocator.alloc([]const u8, constructor_open_names.items.len);
+    const parameter_outputs = try allocator.alloc([]const u8, generic.open_names.len);
     defer allocator.free(parameter_outputs);
     defer for (parameter_outputs) |o| allocator.free(o);
     for (parameter_outputs, 0..) |*o, i| {
         o.* = try fmt.allocPrint(
             allocator,
             "{s}: {s}",
-            .{ open_names_validators[i], open_name_validator_types[i] },
+            .{ open_name_validators[i], open_name_validator_types[i] },
         );
     }
 
     const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
     defer allocator.free(parameters_output);
 
-    const union_enum_tag_output = try outputEnumerationTag(allocator, union_name, constructor.tag);
-    defer allocator.free(union_enum_tag_output);
+    const joined_open_names_with_comma = try mem.join(allocator, ", ", generic.open_names);
+    defer allocator.free(joined_open_names_with_comma);
 
-    const validator_output = try getDataValidatorFromType(allocator, constructor.parameter);
-    defer allocator.free(validator_output);
+    const open_names_output = try fmt.allocPrint(allocator, "{s}", .{joined_open_names_with_comma});
+    defer allocator.free(open_names_output);
 
-    const titlecased_tag = try utilities.titleCaseWord(allocator, constructor.tag);
-    defer allocator.free(titlecased_tag);
+    const validator_specification_output = try outputValidatorSpecification(
+        allocator,
+        prefix,
+        generic.name.value,
+        generic.constructors,
+        generic.open_names,
+    );
+    defer allocator.free(validator_specification_output);
 
-    const format_without_open_names =
-        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
-        \\    return svt.validate<{s}>(value, {{{s}: {s}{s}}});
-        \\}}
-    ;
+    const joined_open_names = try mem.join(allocator, "", generic.open_names);
+    defer allocator.free(joined_open_names);
 
-    const format_with_open_names =
+    const format =
         \\export function validate{s}<{s}>({s}): svt.Validator<{s}<{s}>> {{
         \\    return function validate{s}{s}(value: unknown): svt.ValidationResult<{s}<{s}>> {{
-        \\        return svt.validate<{s}<{s}>>(value, {{{s}: {s}{s}}});
+        \\        return svt.validateWithTypeTag<{s}<{s}>>(value, {s}, "{s}");
         \\    }};
         \\}}
     ;
 
-    return if (constructor_open_names.items.len == 0)
-        try fmt.allocPrint(
-            allocator,
-            format_without_open_names,
-            .{ titlecased_tag, tag, tag, tag_field, union_enum_tag_output, validator_output },
-        )
-    else
-        try fmt.allocPrint(
-            allocator,
-            format_with_open_names,
-            .{
-                titlecased_tag,
-                open_names_output,
-                parameters_output,
-                tag,
-                open_names_output,
-                titlecased_tag,
-                joined_open_names,
-                tag,
-                open_names_output,
-                tag,
-                open_names_output,
-                tag_field,
-                union_enum_tag_output,
-                validator_output,
-            },
-        );
+    return try fmt.allocPrint(
+        allocator,
+        format,
+        .{
+            name,
+            open_names_output,
+            parameters_output,
+            name,
+            open_names_output,
+            name,
+            joined_open_names,
+            name,
+            open_names_output,
+            name,
+            open_names_output,
+            validator_specification_output,
+            generic.tag_field,
+        },
+    );
 }
 
-fn getDataSpecificationFromType(
+fn validatorsFromConstructors(
     allocator: mem.Allocator,
-    t: Type,
+    prefix: []const u8,
+    constructors: []const Constructor,
     open_names: []const []const u8,
-) !?[]const u8 {
-    _ = open_names;
-    const bare_format = "{s}";
-    const array_format = "{s}[]";
-    const optional_format = "{s} | null | undefined";
-
-    return switch (t) {
-        .empty => null,
-        .string => |s| try fmt.allocPrint(allocator, bare_format, .{s}),
-        .reference => |r| try translateReference(allocator, r),
-        .array => |a| output: {
-            const nested = try getNestedDataSpecificationFromType(allocator, a.type.*);
-            defer allocator.free(nested);
-
-            break :output try fmt.allocPrint(allocator, array_format, .{nested});
-        },
-        .slice => |s| output: {
-            const nested = try getNestedDataSpecificationFromType(allocator, s.type.*);
-            defer allocator.free(nested);
-
-            break :output try fmt.allocPrint(allocator, array_format, .{nested});
-        },
-        .pointer => |p| output: {
-            const nested = try getNestedDataSpecificationFromType(allocator, p.type.*);
-            defer allocator.free(nested);
+) ![]const []const u8 {
+    var outputs = try allocator.alloc([]const u8, constructors.len);
 
-            break :output try fmt.allocPrint(allocator, bare_format, .{nested});
-        },
-        .optional => |o| output: {
-            const nested = try getNestedDataSpecificationFromType(allocator, o.type.*);
-            defer allocator.free(nested);
+    for (constructors, 0..) |constructor, i| {
+        outputs[i] = try validatorFromConstructor(allocator, prefix, constructor, open_names);
+    }
 
-            break :output try fmt.allocPrint(allocator, optional_format, .{nested});
-        },
-    };
+    return outputs;
 }
 
-fn getDataTypeGuardFromType(allocator: mem.Allocator, t: Type) ![]const u8 {
-    const bare_format = ", data: {s}";
-    const type_guard_format = ", data: {s}";
-    const builtin_type_guard_format = ", data: svt.is{s}";
-    _ = builtin_type_guard_format;
-    const array_format = ", data: svt.arrayOf({s})";
-    const optional_format = ", data: svt.optional({s})";
-
-    return switch (t) {
-        .empty => "",
-        .string => |s| try fmt.allocPrint(allocator, bare_format, .{s}),
-        .reference => |r| output: {
-            const translated = try translatedTypeGuardReference(allocator, r);
-            defer allocator.free(translated);
+fn validatorFromConstructor(
+    allocator: mem.Allocator,
+    prefix: []const u8,
+    constructor: Constructor,
+    open_names: []const []const u8,
+) ![]const u8 {
+    const constructor_open_names = try general.openNamesFromType(
+        allocator,
+        constructor.parameter,
+        open_names,
+    );
+    defer utilities.freeStringList(constructor_open_names);
 
-            break :output try fmt.allocPrint(
-                allocator,
-                type_guard_format,
-                .{translated},
-            );
-        },
-        .array => |a| output: {
-            const nested = try getNestedTypeGuardFromType(allocator, a.type.*);
-            defer allocator.free(nested);
+    const has_open_names = constructor_open_names.items.len > 0;
 
-            break :output try fmt.allocPrint(allocator, array_format, .{nested});
-        },
-        .slice => |s| output: {
-            const nested = try getNestedTypeGuardFromType(allocator, s.type.*);
-            defer allocator.free(nested);
+    const constructor_open_name_validators = try openNameValidators(
+        allocator,
+        constructor_open_names.items,
+    );
+    defer utilities.freeStringArray(allocator, constructor_open_name_validators);
 
-            break :output try fmt.allocPrint(allocator, array_format, .{nested});
-        },
-        .pointer => |p| output: {
-            const nested = try getNestedTypeGuardFromType(allocator, p.type.*);
-            defer allocator.free(nested);
+    const titlecased_tag = try utilities.titleCaseWord(allocator, constructor.tag);
+    defer allocator.free(titlecased_tag);
 
-            break :output try fmt.allocPrint(allocator, type_guard_format, .{nested});
-        },
-        .optional => |o| output: {
-            const nested = try getNestedTypeGuardFromType(allocator, o.type.*);
-            defer allocator.free(nested);
+    const joined_validators = try mem.join(
+        allocator,
+        ", ",
+        constructor_open_name_validators,
+    );
+    defer allocator.free(joined_validators);
 
-            break :output try fmt.allocPrint(allocator, optional_format, .{nested});
-        },
-    };
+    return if (has_open_names)
+        try fmt.allocPrint(
+            allocator,
+            "{s}validate{s}({s})",
+            .{ prefix, titlecased_tag, joined_validators },
+        )
+    else
+        try fmt.allocPrint(allocator, "{s}validate{s}", .{ prefix, titlecased_tag });
 }
 
-fn getDataValidatorFromType(allocator: mem.Allocator, t: Type) ![]const u8 {
+fn outputTypeGuardForGenericStructure(
+    allocator: mem.Allocator,
+    generic: GenericStructure,
+) ![]const u8 {
+    const name = generic.name.value;
+
+    const open_names = try actualOpenNames(allocator, generic.open_names);
+    defer utilities.freeStringList(open_names);
+
+    const open_names_output = try mem.join(allocator, ", ", open_names.items);
+    defer allocator.free(open_names_output);
+
+    const open_names_together = try mem.join(allocator, "", open_names.items);
+    defer allocator.free(open_names_together);
+
+    const open_names_predicates = try openNamePredicates(allocator, open_names.items);
+    defer utilities.freeStringArray(allocator, open_names_predicates);
+
+    const open_names_predicates_output = try mem.join(allocator, ", ", open_names_predicates);
+    defer allocator.free(open_names_predicates_output);
+
+    const open_name_predicate_types = try allocator.alloc([]const u8, open_names.items.len);
+    defer allocator.free(open_name_predicate_types);
+    defer for (open_name_predicate_types) |t| allocator.free(t);
+    for (open_name_predicate_types, 0..) |*t, i| {
+        t.* = try fmt.allocPrint(allocator, "svt.TypePredicate<{s}>", .{open_names.items[i]});
+    }
+
+    const parameter_outputs = try allocator.alloc([]const u8, open_names.items.len);
+    defer allocator.free(parameter_outputs);
+    defer for (parameter_outputs) |o| allocator.free(o);
+    for (parameter_outputs, 0..) |*o, i| {
+        o.* = try fmt.allocPrint(
+            allocator,
+            "{s}: {s}",
+            .{ open_names_predicates[i], open_name_predicate_types[i] },
+        );
+    }
+
+    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
+    defer allocator.free(parameters_output);
+
+    const fields_output = try getTypeGuardsFromFields(allocator, generic.fields);
+    defer allocator.free(fields_output);
+
+    const format_with_open_names =
+        \\export function is{s}<{s}>({s}): svt.TypePredicate<{s}<{s}>> {{
+        \\    return function is{s}{s}(value: unknown): value is {s}<{s}> {{
+        \\        return {s}<{s}<{s}>>(value, {{{s}}});
+        \\    }};
+        \\}}
+    ;
+
+    return try fmt.allocPrint(
+        allocator,
+        format_with_open_names,
+        .{
+            name,
+            open_names_output,
+            parameters_output,
+            name,
+            open_names_output,
+            name,
+            open_names_together,
+            name,
+            open_names_output,
+            interfaceTypeGuard(generic.strict),
+            name,
+            open_names_output,
+            fields_output,
+        },
+    );
+}
+
+fn outputValidatorForGenericStructure(
+    allocator: mem.Allocator,
+    generic: GenericStructure,
+) ![]const u8 {
+    const name = generic.name.value;
+
+    const open_names = try actualOpenNames(allocator, generic.open_names);
+    defer utilities.freeStringList(open_names);
+
+    const open_names_output = try mem.join(allocator, ", ", open_names.items);
+    defer allocator.free(open_names_output);
+
+    const open_names_together = try mem.join(allocator, "", open_names.items);
+    defer allocator.free(open_names_together);
+
+    const open_names_validators = try openNameValidators(allocator, open_names.items);
+    defer utilities.freeStringArray(allocator, open_names_validators);
+
+    const open_names_predicates_output = try mem.join(allocator, ", ", open_names_validators);
+    defer allocator.free(open_names_predicates_output);
+
+    const open_name_validator_types = try allocator.alloc([]const u8, open_names.items.len);
+    defer allocator.free(open_name_validator_types);
+    defer for (open_name_validator_types) |t| allocator.free(t);
+    for (open_name_validator_types, 0..) |*t, i| {
+        t.* = try fmt.allocPrint(allocator, "svt.Validator<{s}>", .{open_names.items[i]});
+    }
+
+    const parameter_outputs = try allocator.alloc([]const u8, open_names.items.len);
+    defer allocator.free(parameter_outputs);
+    defer for (parameter_outputs) |o| allocator.free(o);
+    for (parameter_outputs, 0..) |*o, i| {
+        o.* = try fmt.allocPrint(
+            allocator,
+            "{s}: {s}",
+            .{ open_names_validators[i], open_name_validator_types[i] },
+        );
+    }
+
+    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
+    defer allocator.free(parameters_output);
+
+    const fields_output = try getValidatorsFromFields(allocator, generic.fields);
+    defer allocator.free(fields_output);
+
+    const validation = try fmt.allocPrint(
+        allocator,
+        "{s}<{s}<{s}>>(value, {{{s}}})",
+        .{ interfaceValidator(generic.strict), name, open_names_output, fields_output },
+    );
+    defer allocator.free(validation);
+
+    const validation_with_code_names = try withCodeNames(allocator, validation, generic.fields);
+    defer allocator.free(validation_with_code_names);
+
+    const format_with_open_names =
+        \\export function validate{s}<{s}>({s}): svt.Validator<{s}<{s}>> {{
+        \\    return function validate{s}{s}(value: unknown): svt.ValidationResult<{s}<{s}>> {{
+        \\        return {s};
+        \\    }};
+        \\}}
+    ;
+
+    return try fmt.allocPrint(
+        allocator,
+        format_with_open_names,
+        .{
+            name,
+            open_names_output,
+            parameters_output,
+            name,
+            open_names_output,
+            name,
+            open_names_together,
+            name,
+            open_names_output,
+            validation_with_code_names,
+        },
+    );
+}
+
+fn openNamePredicates(allocator: mem.Allocator, names: []const []const u8) ![]const []const u8 {
+    var predicates = try allocator.alloc([]const u8, names.len);
+
+    for (names, 0..) |name, i| {
+        predicates[i] = try translatedTypeGuardName(allocator, name);
+    }
+
+    return predicates;
+}
+
+fn openNameValidators(allocator: mem.Allocator, names: []const []const u8) ![]const []const u8 {
+    var validators = try allocator.alloc([]const u8, names.len);
+
+    for (names, 0..) |name, i| {
+        validators[i] = try translatedValidatorName(allocator, name);
+    }
+
+    return validators;
+}
+
+fn outputValidatorForPlainStructure(
+    allocator: mem.Allocator,
+    plain_structure: PlainStructure,
+) ![]const u8 {
+    const name = plain_structure.name.value;
+
+    const validators_output = try getValidatorsFromFields(allocator, plain_structure.fields);
+    defer allocator.free(validators_output);
+
+    const validation = try fmt.allocPrint(
+        allocator,
+        "{s}<{s}>(value, {{{s}}})",
+        .{ interfaceValidator(plain_structure.strict), name, validators_output },
+    );
+    defer allocator.free(validation);
+
+    const validation_with_code_names = try withCodeNames(
+        allocator,
+        validation,
+        plain_structure.fields,
+    );
+    defer allocator.free(validation_with_code_names);
+
+    const output_format =
+        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
+        \\    return {s};
+        \\}}
+    ;
+
+    return try fmt.allocPrint(
+        allocator,
+        output_format,
+        .{ name, name, validation_with_code_names },
+    );
+}
+
+/// Validators take values as they are on the wire, so when fields have other names in code the
+/// validated value gets its keys renamed.
+fn withCodeNames(
+    allocator: mem.Allocator,
+    validation: []const u8,
+    fields: []const Field,
+) ![]const u8 {
+    var code_names = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(code_names);
+
+    for (fields) |field| {
+        if (field.isRenamed()) {
+            try code_names.append(
+                try fmt.allocPrint(allocator, "{s}: \"{s}\"", .{ field.name, field.codeName() }),
+            );
+        }
+    }
+
+    if (code_names.items.len == 0) return try allocator.dupe(u8, validation);
+
+    const joined_code_names = try mem.join(allocator, ", ", code_names.items);
+    defer allocator.free(joined_code_names);
+
+    return try fmt.allocPrint(
+        allocator,
+        "withCodeNames({s}, {{{s}}})",
+        .{ validation, joined_code_names },
+    );
+}
+
+/// Strict definitions reject objects that have keys the definition doesn't know about.
+fn interfaceTypeGuard(strict: bool) []const u8 {
+    return if (strict) "isExactInterface" else "svt.isInterface";
+}
+
+fn interfaceValidator(strict: bool) []const u8 {
+    return if (strict) "validateExactInterface" else "svt.validate";
+}
+
+fn getTypeGuardsFromFields(allocator: mem.Allocator, fields: []const Field) ![]const u8 {
+    var fields_outputs = try allocator.alloc([]const u8, fields.len);
+    defer utilities.freeStringArray(allocator, fields_outputs);
+
+    for (fields, 0..) |field, i| {
+        const type_guard = try getTypeGuardFromType(
+            allocator,
+            requiredKeyValueType(field) orelse field.type,
+        );
+        defer allocator.free(type_guard);
+
+        // Type guards check values as they are in code, as opposed to on the wire.
+        const name = field.codeName();
+        fields_outputs[i] = if (field.optional_key)
+            try fmt.allocPrint(allocator, "{s}: optionalKey({s})", .{ name, type_guard })
+        else if (field.required_key)
+            try fmt.allocPrint(allocator, "{s}: nullable({s})", .{ name, type_guard })
+        else
+            try fmt.allocPrint(allocator, "{s}: {s}", .{ name, type_guard });
+    }
+
+    return try mem.join(allocator, ", ", fields_outputs);
+}
+
+fn getValidatorsFromFields(allocator: mem.Allocator, fields: []const Field) ![]const u8 {
+    var fields_outputs = try allocator.alloc([]const u8, fields.len);
+    defer utilities.freeStringArray(allocator, fields_outputs);
+
+    for (fields, 0..) |field, i| {
+        const validator = try getValidatorFromType(
+            allocator,
+            requiredKeyValueType(field) orelse field.type,
+        );
+        defer allocator.free(validator);
+
+        fields_outputs[i] = if (field.optional_key)
+            try fmt.allocPrint(
+                allocator,
+                "{s}: validateOptionalKey({s})",
+                .{ field.name, validator },
+            )
+        else if (field.required_key)
+            try fmt.allocPrint(allocator, "{s}: validateNullable({s})", .{ field.name, validator })
+        else
+            try fmt.allocPrint(allocator, "{s}: {s}", .{ field.name, validator });
+    }
+
+    return try mem.join(allocator, ", ", fields_outputs);
+}
+
+/// Fields written as `name!: ?Type` have to be present, so their values are only nullable, unlike
+/// other optional types, which are `undefined` when their keys are left out.
+fn requiredKeyValueType(field: Field) ?Type {
+    return if (field.required_key) field.type.optional.type.* else null;
+}
+
+fn getTypeGuardFromType(allocator: mem.Allocator, t: Type) ![]const u8 {
+    const array_format = "svt.arrayOf({s})";
+    const fixed_array_format = "isArrayOfLength({}, {s})";
+    const optional_format = "svt.optional({s})";
+
+    return switch (t) {
+        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
+        .reference => |r| try translatedTypeGuardReference(allocator, r),
+        .array => |a| output: {
+            const nested_validator = try getNestedTypeGuardFromType(allocator, a.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(
+                allocator,
+                fixed_array_format,
+                .{ a.size, nested_validator },
+            );
+        },
+        .slice => |s| output: {
+            const nested_validator = try getNestedTypeGuardFromType(allocator, s.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
+        },
+        .pointer => |p| try getNestedTypeGuardFromType(allocator, p.type.*),
+        .optional => |o| output: {
+            const nested_validator = try getNestedTypeGuardFromType(allocator, o.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(allocator, optional_format, .{nested_validator});
+        },
+        .map => |m| try getMapTypeGuard(allocator, m),
+
+        .empty => debug.panic("Empty type does not seem like it should have a type guard\n", .{}),
+    };
+}
+
+fn getValidatorFromType(allocator: mem.Allocator, t: Type) ![]const u8 {
+    const array_format = "svt.validateArray({s})";
+    const fixed_array_format = "validateArrayOfLength({}, {s})";
+    const optional_format = "svt.validateOptional({s})";
+
+    return switch (t) {
+        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
+        .reference => |r| try translatedValidatorReference(allocator, r),
+        .array => |a| output: {
+            const nested_validator = try getNestedValidatorFromType(allocator, a.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(
+                allocator,
+                fixed_array_format,
+                .{ a.size, nested_validator },
+            );
+        },
+        .slice => |s| output: {
+            const nested_validator = try getNestedValidatorFromType(allocator, s.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
+        },
+        .pointer => |p| try getNestedValidatorFromType(allocator, p.type.*),
+        .optional => |o| output: {
+            const nested_validator = try getNestedValidatorFromType(allocator, o.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(allocator, optional_format, .{nested_validator});
+        },
+        .map => |m| try getMapValidator(allocator, m),
+        .empty => debug.panic("Empty type does not seem like it should have a type guard\n", .{}),
+    };
+}
+
+fn outputConstructors(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    union_name: []const u8,
+    constructors: []const Constructor,
+    tag_field: []const u8,
+) ![]const u8 {
+    var constructor_outputs = try allocator.alloc([]const u8, constructors.len);
+    defer utilities.freeStringArray(allocator, constructor_outputs);
+
+    for (constructors, 0..) |constructor, i| {
+        constructor_outputs[i] = try withDocComment(
+            allocator,
+            constructor.doc_comment,
+            "",
+            try outputConstructor(
+                allocator,
+                options,
+                union_name,
+                constructor,
+                &[_][]const u8{},
+                tag_field,
+            ),
+        );
+    }
+
+    return try mem.join(allocator, "\n\n", constructor_outputs);
+}
+
+fn outputTypeGuardsForConstructors(
+    allocator: mem.Allocator,
+    union_name: []const u8,
+    constructors: []const Constructor,
+    open_names: []const []const u8,
+    tag_field: []const u8,
+    strict: bool,
+) ![]const u8 {
+    var type_guards = try allocator.alloc([]const u8, constructors.len);
+    defer utilities.freeStringArray(allocator, type_guards);
+
+    for (constructors, 0..) |constructor, i| {
+        type_guards[i] = try withDocComment(
+            allocator,
+            constructor.doc_comment,
+            "",
+            try outputTypeGuardForConstructor(
+                allocator,
+                union_name,
+                constructor,
+                open_names,
+                tag_field,
+                strict,
+            ),
+        );
+    }
+
+    return try mem.join(allocator, "\n\n", type_guards);
+}
+
+fn outputValidatorsForConstructors(
+    allocator: mem.Allocator,
+    union_name: []const u8,
+    constructors: []const Constructor,
+    open_names: []const []const u8,
+    tag_field: []const u8,
+    strict: bool,
+) ![]const u8 {
+    var validators = try allocator.alloc([]const u8, constructors.len);
+    defer utilities.freeStringArray(allocator, validators);
+
+    for (constructors, 0..) |constructor, i| {
+        validators[i] = try withDocComment(
+            allocator,
+            constructor.doc_comment,
+            "",
+            try outputValidatorForConstructor(
+                allocator,
+                union_name,
+                constructor,
+                open_names,
+                tag_field,
+                strict,
+            ),
+        );
+    }
+
+    return try mem.join(allocator, "\n\n", validators);
+}
+
+fn outputConstructor(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    union_name: []const u8,
+    constructor: Constructor,
+    open_names: []const []const u8,
+    tag_field: []const u8,
+) ![]const u8 {
+    const tag = constructor.tag;
+
+    const data_specification = try getDataSpecificationFromType(
+        allocator,
+        options,
+        constructor.parameter,
+        open_names,
+    );
+    defer if (data_specification) |s| allocator.free(s);
+
+    const open_names_output = try outputOpenNamesFromType(
+        allocator,
+        constructor.parameter,
+        open_names,
+    );
+    defer allocator.free(open_names_output);
+
+    const enumeration_tag_output = try outputEnumerationTag(allocator, union_name, constructor.tag);
+    defer allocator.free(enumeration_tag_output);
+
+    const output_format_with_data =
+        \\export function {s}{s}(data: {s}): {s}{s} {{
+        \\    return {{{s}: {s}, data}};
+        \\}}
+    ;
+
+    const output_format_without_data =
+        \\export function {s}(): {s} {{
+        \\    return {{{s}: {s}}};
+        \\}}
+    ;
+
+    return if (data_specification) |specification|
+        try fmt.allocPrint(
+            allocator,
+            output_format_with_data,
+            .{
+                tag,
+                open_names_output,
+                specification,
+                tag,
+                open_names_output,
+                tag_field,
+                enumeration_tag_output,
+            },
+        )
+    else
+        try fmt.allocPrint(
+            allocator,
+            output_format_without_data,
+            .{ tag, tag, tag_field, enumeration_tag_output },
+        );
+}
+
+fn outputEnumerationTag(
+    allocator: mem.Allocator,
+    union_name: []const u8,
+    tag: []const u8,
+) ![]const u8 {
+    return try fmt.allocPrint(allocator, "{s}Tag.{s}", .{ union_name, tag });
+}
+
+/// Outputs the type of a tag of a union. With `literal_enums` the tags are the values of an object
+/// rather than members of an `enum`, so their types have to be taken from them.
+fn outputEnumerationTagType(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    union_name: []const u8,
+    tag: []const u8,
+) ![]const u8 {
+    return if (options.literal_enums)
+        try fmt.allocPrint(allocator, "typeof {s}Tag.{s}", .{ union_name, tag })
+    else
+        try outputEnumerationTag(allocator, union_name, tag);
+}
+
+fn outputConstructorName(
+    allocator: mem.Allocator,
+    constructor: Constructor,
+    open_names: []const []const u8,
+) ![]const u8 {
+    return try fmt.allocPrint(
+        allocator,
+        "{s}{s}",
+        .{
+            constructor.tag,
+            try outputOpenNamesFromType(allocator, constructor.parameter, open_names),
+        },
+    );
+}
+
+fn outputTypeGuardForConstructorWithEmbeddedTypeTag(
+    allocator: mem.Allocator,
+    fields_in_structure: []const Field,
+    tag: []const u8,
+    tag_field: []const u8,
+    enumeration_tag: []const u8,
+    strict: bool,
+) ![]const u8 {
+    const type_guard_format_with_payload =
+        \\export function is{s}(value: unknown): value is {s} {{
+        \\    return {s}<{s}>(value, {{{s}: {s}, {s}}});
+        \\}}
+    ;
+    const type_guard_format_without_payload =
+        \\export function is{s}(value: unknown): value is {s} {{
+        \\    return {s}<{s}>(value, {{{s}: {s}}});
+        \\}}
+    ;
+
+    const joined_specifications = try getTypeGuardsFromFields(allocator, fields_in_structure);
+    defer allocator.free(joined_specifications);
+
+    const titlecased_tag = try utilities.titleCaseWord(allocator, tag);
+    defer allocator.free(titlecased_tag);
+
+    return if (fields_in_structure.len != 0)
+        try fmt.allocPrint(
+            allocator,
+            type_guard_format_with_payload,
+            .{
+                titlecased_tag,
+                tag,
+                interfaceTypeGuard(strict),
+                tag,
+                tag_field,
+                enumeration_tag,
+                joined_specifications,
+            },
+        )
+    else
+        try fmt.allocPrint(
+            allocator,
+            type_guard_format_without_payload,
+            .{
+                titlecased_tag,
+                tag,
+                interfaceTypeGuard(strict),
+                tag,
+                tag_field,
+                enumeration_tag,
+            },
+        );
+}
+
+fn outputValidatorForConstructorWithEmbeddedTypeTag(
+    allocator: mem.Allocator,
+    fields_in_structure: []const Field,
+    tag: []const u8,
+    tag_field: []const u8,
+    enumeration_tag: []const u8,
+    strict: bool,
+) ![]const u8 {
+    const validator_format =
+        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
+        \\    return {s};
+        \\}}
+    ;
+
+    const joined_specifications = try getValidatorsFromFields(allocator, fields_in_structure);
+    defer allocator.free(joined_specifications);
+
+    const titlecased_tag = try utilities.titleCaseWord(allocator, tag);
+    defer allocator.free(titlecased_tag);
+
+    const validation = if (fields_in_structure.len != 0)
+        try fmt.allocPrint(
+            allocator,
+            "{s}<{s}>(value, {{{s}: {s}, {s}}})",
+            .{ interfaceValidator(strict), tag, tag_field, enumeration_tag, joined_specifications },
+        )
+    else
+        try fmt.allocPrint(
+            allocator,
+            "{s}<{s}>(value, {{{s}: {s}}})",
+            .{ interfaceValidator(strict), tag, tag_field, enumeration_tag },
+        );
+    defer allocator.free(validation);
+
+    const validation_with_code_names = try withCodeNames(
+        allocator,
+        validation,
+        fields_in_structure,
+    );
+    defer allocator.free(validation_with_code_names);
+
+    return try fmt.allocPrint(
+        allocator,
+        validator_format,
+        .{ titlecased_tag, tag, validation_with_code_names },
+    );
+}
+
+fn outputTypeGuardForConstructor(
+    allocator: mem.Allocator,
+    union_name: []const u8,
+    constructor: Constructor,
+    open_names: []const []const u8,
+    tag_field: []const u8,
+    strict: bool,
+) ![]const u8 {
+    const tag = constructor.tag;
+
+    const constructor_open_names = try general.openNamesFromType(
+        allocator,
+        constructor.parameter,
+        open_names,
+    );
+    defer utilities.freeStringList(constructor_open_names);
+
+    const open_names_output = try outputOpenNamesFromType(
+        allocator,
+        constructor.parameter,
+        open_names,
+    );
+    defer allocator.free(open_names_output);
+
+    const open_names_predicates = try openNamePredicates(allocator, constructor_open_names.items);
+    defer utilities.freeStringArray(allocator, open_names_predicates);
+
+    const open_name_predicate_types = try allocator.alloc(
+        []const u8,
+        constructor_open_names.items.len,
+    );
+    defer allocator.free(open_name_predicate_types);
+    defer for (open_name_predicate_types) |t| allocator.free(t);
+    for (open_name_predicate_types, 0..) |*t, i| {
+        t.* = try fmt.allocPrint(
+            allocator,
+            "svt.TypePredicate<{s}>",
+            .{constructor_open_names.items[i]},
+        );
+    }
+
+    const parameter_outputs = try allocator.alloc([]const u8, constructor_open_names.items.len);
+    defer allocator.free(parameter_outputs);
+    defer for (parameter_outputs) |o| allocator.free(o);
+    for (parameter_outputs, 0..) |*o, i| {
+        o.* = try fmt.allocPrint(
+            allocator,
+            "{s}: {s}",
+            .{ open_names_predicates[i], open_name_predicate_types[i] },
+        );
+    }
+
+    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
+    defer allocator.free(parameters_output);
+
+    const enumeration_tag_output = try outputEnumerationTag(allocator, union_name, constructor.tag);
+    defer allocator.free(enumeration_tag_output);
+
+    const type_guard_output = try getDataTypeGuardFromType(allocator, constructor.parameter);
+    defer allocator.free(type_guard_output);
+
+    const titlecased_tag = try utilities.titleCaseWord(allocator, tag);
+    defer allocator.free(titlecased_tag);
+
+    const joined_open_names = try mem.join(allocator, "", constructor_open_names.items);
+    defer allocator.free(joined_open_names);
+
+    const output_format_with_open_names =
+        \\export function is{s}{s}({s}): svt.TypePredicate<{s}{s}> {{
+        \\    return function is{s}{s}(value: unknown): value is {s}{s} {{
+        \\        return {s}<{s}{s}>(value, {{{s}: {s}{s}}});
+        \\    }};
+        \\}}
+    ;
+
+    const output_format_without_open_names =
+        \\export function is{s}(value: unknown): value is {s} {{
+        \\    return {s}<{s}>(value, {{{s}: {s}{s}}});
+        \\}}
+    ;
+
+    return if (constructor_open_names.items.len > 0)
+        try fmt.allocPrint(
+            allocator,
+            output_format_with_open_names,
+            .{
+                titlecased_tag,
+                open_names_output,
+                parameters_output,
+                tag,
+                open_names_output,
+                titlecased_tag,
+                joined_open_names,
+                tag,
+                open_names_output,
+                interfaceTypeGuard(strict),
+                tag,
+                open_names_output,
+                tag_field,
+                enumeration_tag_output,
+                type_guard_output,
+            },
+        )
+    else
+        try fmt.allocPrint(
+            allocator,
+            output_format_without_open_names,
+            .{
+                titlecased_tag,
+                tag,
+                interfaceTypeGuard(strict),
+                tag,
+                tag_field,
+                enumeration_tag_output,
+                type_guard_output,
+            },
+        );
+}
+
+fn outputValidatorForConstructor(
+    allocator: mem.Allocator,
+    union_name: []const u8,
+    constructor: Constructor,
+    open_names: []const []const u8,
+    tag_field: []const u8,
+    strict: bool,
+) ![]const u8 {
+    const tag = constructor.tag;
+
+    const constructor_open_names = try general.openNamesFromType(
+        allocator,
+        constructor.parameter,
+        open_names,
+    );
+    defer utilities.freeStringList(constructor_open_names);
+
+    const open_names_validators = try openNameValidators(allocator, constructor_open_names.items);
+    defer utilities.freeStringArray(allocator, open_names_validators);
+
+    const open_names_predicates_output = try mem.join(allocator, ", ", open_names_validators);
+    defer allocator.free(open_names_predicates_output);
+
+    const open_names_output = try mem.join(allocator, ", ", constructor_open_names.items);
+    defer allocator.free(open_names_output);
+
+    const joined_open_names = try mem.join(allocator, "", constructor_open_names.items);
+    defer allocator.free(joined_open_names);
+
+    const open_name_validator_types = try allocator.alloc(
+        []const u8,
+        constructor_open_names.items.len,
+    );
+    defer allocator.free(open_name_validator_types);
+    defer for (open_name_validator_types) |t| allocator.free(t);
+    for (open_name_validator_types, 0..) |*t, i| {
+        t.* = try fmt.allocPrint(
+            allocator,
+            "svt.Validator<{s}>",
+            .{constructor_open_names.items[i]},
+        );
+    }
+
+    const parameter_outputs = try allocator.alloc([]const u8, constructor_open_names.items.len);
+    defer allocator.free(parameter_outputs);
+    defer for (parameter_outputs) |o| allocator.free(o);
+    for (parameter_outputs, 0..) |*o, i| {
+        o.* = try fmt.allocPrint(
+            allocator,
+            "{s}: {s}",
+            .{ open_names_validators[i], open_name_validator_types[i] },
+        );
+    }
+
+    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
+    defer allocator.free(parameters_output);
+
+    const union_enum_tag_output = try outputEnumerationTag(allocator, union_name, constructor.tag);
+    defer allocator.free(union_enum_tag_output);
+
+    const validator_output = try getDataValidatorFromType(allocator, constructor.parameter);
+    defer allocator.free(validator_output);
+
+    const titlecased_tag = try utilities.titleCaseWord(allocator, constructor.tag);
+    defer allocator.free(titlecased_tag);
+
+    const format_without_open_names =
+        \\export function validate{s}(value: unknown): svt.ValidationResult<{s}> {{
+        \\    return {s}<{s}>(value, {{{s}: {s}{s}}});
+        \\}}
+    ;
+
+    const format_with_open_names =
+        \\export function validate{s}<{s}>({s}): svt.Validator<{s}<{s}>> {{
+        \\    return function validate{s}{s}(value: unknown): svt.ValidationResult<{s}<{s}>> {{
+        \\        return {s}<{s}<{s}>>(value, {{{s}: {s}{s}}});
+        \\    }};
+        \\}}
+    ;
+
+    return if (constructor_open_names.items.len == 0)
+        try fmt.allocPrint(
+            allocator,
+            format_without_open_names,
+            .{
+                titlecased_tag,
+                tag,
+                interfaceValidator(strict),
+                tag,
+                tag_field,
+                union_enum_tag_output,
+                validator_output,
+            },
+        )
+    else
+        try fmt.allocPrint(
+            allocator,
+            format_with_open_names,
+            .{
+                titlecased_tag,
+                open_names_output,
+                parameters_output,
+                tag,
+                open_names_output,
+                titlecased_tag,
+                joined_open_names,
+                tag,
+                open_names_output,
+                interfaceValidator(strict),
+                tag,
+                open_names_output,
+                tag_field,
+                union_enum_tag_output,
+                validator_output,
+            },
+        );
+}
+
+fn getDataSpecificationFromType(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    t: Type,
+    open_names: []const []const u8,
+) !?[]const u8 {
+    _ = open_names;
+    const bare_format = "{s}";
+    const array_format = "{s}[]";
+    const optional_format = "{s} | null | undefined";
+
+    return switch (t) {
+        .empty => null,
+        .string => |s| try fmt.allocPrint(allocator, bare_format, .{s}),
+        .reference => |r| try translateReference(allocator, options, r),
+        .array => |a| output: {
+            const nested = try getNestedDataSpecificationFromType(allocator, options, a.type.*);
+            defer allocator.free(nested);
+
+            break :output try outputFixedLengthArrayType(allocator, a, nested);
+        },
+        .slice => |s| output: {
+            const nested = try getNestedDataSpecificationFromType(allocator, options, s.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, array_format, .{nested});
+        },
+        .pointer => |p| output: {
+            const nested = try getNestedDataSpecificationFromType(allocator, options, p.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, bare_format, .{nested});
+        },
+        .optional => |o| output: {
+            const nested = try getNestedDataSpecificationFromType(allocator, options, o.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, optional_format, .{nested});
+        },
+        .map => |m| try outputMapType(allocator, options, m),
+    };
+}
+
+fn getDataTypeGuardFromType(allocator: mem.Allocator, t: Type) ![]const u8 {
+    const bare_format = ", data: {s}";
+    const type_guard_format = ", data: {s}";
+    const builtin_type_guard_format = ", data: svt.is{s}";
+    _ = builtin_type_guard_format;
+    const array_format = ", data: svt.arrayOf({s})";
+    const fixed_array_format = ", data: isArrayOfLength({}, {s})";
+    const optional_format = ", data: svt.optional({s})";
+
+    return switch (t) {
+        .empty => "",
+        .string => |s| try fmt.allocPrint(allocator, bare_format, .{s}),
+        .reference => |r| output: {
+            const translated = try translatedTypeGuardReference(allocator, r);
+            defer allocator.free(translated);
+
+            break :output try fmt.allocPrint(
+                allocator,
+                type_guard_format,
+                .{translated},
+            );
+        },
+        .array => |a| output: {
+            const nested = try getNestedTypeGuardFromType(allocator, a.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, fixed_array_format, .{ a.size, nested });
+        },
+        .slice => |s| output: {
+            const nested = try getNestedTypeGuardFromType(allocator, s.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, array_format, .{nested});
+        },
+        .pointer => |p| output: {
+            const nested = try getNestedTypeGuardFromType(allocator, p.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, type_guard_format, .{nested});
+        },
+        .optional => |o| output: {
+            const nested = try getNestedTypeGuardFromType(allocator, o.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, optional_format, .{nested});
+        },
+        .map => |m| output: {
+            const nested = try getMapTypeGuard(allocator, m);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, type_guard_format, .{nested});
+        },
+    };
+}
+
+fn getDataValidatorFromType(allocator: mem.Allocator, t: Type) ![]const u8 {
     const bare_format = ", data: {s}";
     const validator_format = ", data: {s}";
     const builtin_type_guard_format = ", data: svt.validate{s}";
     _ = builtin_type_guard_format;
     const array_format = ", data: svt.validateArray({s})";
+    const fixed_array_format = ", data: validateArrayOfLength({}, {s})";
     const optional_format = ", data: svt.validateOptional({s})";
 
-    return switch (t) {
-        .empty => "",
-        .string => |s| try fmt.allocPrint(allocator, bare_format, .{s}),
-        .reference => |r| output: {
-            const validator = try translatedValidatorReference(allocator, r);
-            defer allocator.free(validator);
+    return switch (t) {
+        .empty => "",
+        .string => |s| try fmt.allocPrint(allocator, bare_format, .{s}),
+        .reference => |r| output: {
+            const validator = try translatedValidatorReference(allocator, r);
+            defer allocator.free(validator);
+
+            break :output try fmt.allocPrint(allocator, validator_format, .{validator});
+        },
+        .array => |a| output: {
+            const validator = try getNestedValidatorFromType(allocator, a.type.*);
+            defer allocator.free(validator);
+
+            break :output try fmt.allocPrint(
+                allocator,
+                fixed_array_format,
+                .{ a.size, validator },
+            );
+        },
+        .slice => |s| output: {
+            const validator = try getNestedValidatorFromType(allocator, s.type.*);
+            defer allocator.free(validator);
+
+            break :output try fmt.allocPrint(allocator, array_format, .{validator});
+        },
+        .pointer => |p| output: {
+            const validator = try getNestedValidatorFromType(allocator, p.type.*);
+            defer allocator.free(validator);
+
+            break :output try fmt.allocPrint(allocator, validator_format, .{validator});
+        },
+        .optional => |o| output: {
+            const validator = try getNestedValidatorFromType(allocator, o.type.*);
+            defer allocator.free(validator);
+
+            break :output try fmt.allocPrint(allocator, optional_format, .{validator});
+        },
+        .map => |m| output: {
+            const validator = try getMapValidator(allocator, m);
+            defer allocator.free(validator);
+
+            break :output try fmt.allocPrint(allocator, validator_format, .{validator});
+        },
+    };
+}
+
+fn getNestedDataSpecificationFromType(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    t: Type,
+) error{OutOfMemory}![]const u8 {
+    const array_format = "{s}[]";
+    const optional_format = "{s} | null | undefined";
+
+    return switch (t) {
+        .empty => debug.panic("Empty nested type invalid for data specification\n", .{}),
+        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
+        .reference => |r| try translateReference(allocator, options, r),
+        .array => |a| output: {
+            const nested = try getNestedDataSpecificationFromType(allocator, options, a.type.*);
+            defer allocator.free(nested);
+
+            break :output try outputFixedLengthArrayType(allocator, a, nested);
+        },
+        .slice => |s| output: {
+            const nested = try getNestedDataSpecificationFromType(allocator, options, s.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, array_format, .{nested});
+        },
+        .pointer => |p| output: {
+            const nested = try getNestedDataSpecificationFromType(allocator, options, p.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, "is{s}", .{nested});
+        },
+        .optional => |o| output: {
+            const nested = try getNestedDataSpecificationFromType(allocator, options, o.type.*);
+            defer allocator.free(nested);
+
+            break :output try fmt.allocPrint(allocator, optional_format, .{nested});
+        },
+        .map => |m| try outputMapType(allocator, options, m),
+    };
+}
+
+fn getNestedTypeGuardFromType(allocator: mem.Allocator, t: Type) error{OutOfMemory}![]const u8 {
+    const array_format = "svt.arrayOf({s})";
+    const fixed_array_format = "isArrayOfLength({}, {s})";
+    const optional_format = "svt.optional({s})";
+
+    return switch (t) {
+        .empty => debug.panic("Empty nested type invalid for type guard\n", .{}),
+        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
+        .reference => |r| try translatedTypeGuardReference(allocator, r),
+        .array => |a| output: {
+            const nested_validator = try getNestedTypeGuardFromType(allocator, a.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(
+                allocator,
+                fixed_array_format,
+                .{ a.size, nested_validator },
+            );
+        },
+        .slice => |s| output: {
+            const nested_validator = try getNestedTypeGuardFromType(allocator, s.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
+        },
+        .pointer => |p| output: {
+            const nested_validator = try getNestedTypeGuardFromType(allocator, p.type.*);
+
+            break :output nested_validator;
+        },
+        .optional => |o| output: {
+            const nested_validator = try getNestedTypeGuardFromType(allocator, o.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(allocator, optional_format, .{nested_validator});
+        },
+        .map => |m| try getMapTypeGuard(allocator, m),
+    };
+}
+
+fn getNestedValidatorFromType(allocator: mem.Allocator, t: Type) error{OutOfMemory}![]const u8 {
+    const array_format = "svt.validateArray({s})";
+    const fixed_array_format = "validateArrayOfLength({}, {s})";
+    const optional_format = "svt.validateOptional({s})";
+
+    return switch (t) {
+        .empty => debug.panic("Empty nested type invalid for validator\n", .{}),
+        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
+        .reference => |r| try translatedValidatorReference(allocator, r),
+        .array => |a| output: {
+            const nested_validator = try getNestedValidatorFromType(allocator, a.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(
+                allocator,
+                fixed_array_format,
+                .{ a.size, nested_validator },
+            );
+        },
+        .slice => |s| output: {
+            const nested_validator = try getNestedValidatorFromType(allocator, s.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
+        },
+        .pointer => |p| output: {
+            const nested_validator = try getNestedValidatorFromType(allocator, p.type.*);
+
+            break :output nested_validator;
+        },
+        .optional => |o| output: {
+            const nested_validator = try getNestedValidatorFromType(allocator, o.type.*);
+            defer allocator.free(nested_validator);
+
+            break :output try fmt.allocPrint(allocator, optional_format, .{nested_validator});
+        },
+        .map => |m| try getMapValidator(allocator, m),
+    };
+}
+
+fn outputCommonOpenNames(
+    allocator: mem.Allocator,
+    as: []const []const u8,
+    bs: []const []const u8,
+) ![]const u8 {
+    const common_names = try general.commonOpenNames(allocator, as, bs);
+    defer common_names.deinit();
+
+    return if (common_names.items.len == 0)
+        ""
+    else
+        try fmt.allocPrint(allocator, "<{s}>", .{try mem.join(allocator, ", ", common_names.items)});
+}
+
+fn outputTaggedStructures(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    union_name: []const u8,
+    constructors: []const Constructor,
+    tag_field: []const u8,
+) ![]const u8 {
+    var tagged_structures_outputs = try allocator.alloc([]const u8, constructors.len);
+    defer utilities.freeStringArray(allocator, tagged_structures_outputs);
+
+    for (constructors, 0..) |constructor, i| {
+        tagged_structures_outputs[i] = try withDocComment(
+            allocator,
+            constructor.doc_comment,
+            "",
+            try outputTaggedStructure(allocator, options, union_name, constructor, tag_field),
+        );
+    }
+
+    return try mem.join(allocator, "\n\n", tagged_structures_outputs);
+}
+
+fn outputTaggedMaybeGenericStructures(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    union_name: []const u8,
+    constructors: []const Constructor,
+    open_names: []const []const u8,
+    tag_field: []const u8,
+) ![]const u8 {
+    var tagged_structures_outputs = try allocator.alloc([]const u8, constructors.len);
+    defer utilities.freeStringArray(allocator, tagged_structures_outputs);
+
+    for (constructors, 0..) |constructor, i| {
+        tagged_structures_outputs[i] = try withDocComment(
+            allocator,
+            constructor.doc_comment,
+            "",
+            try outputTaggedMaybeGenericStructure(
+                allocator,
+                options,
+                union_name,
+                constructor,
+                open_names,
+                tag_field,
+            ),
+        );
+    }
+
+    return try mem.join(allocator, "\n\n", tagged_structures_outputs);
+}
+
+fn outputGenericConstructors(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    union_name: []const u8,
+    constructors: []const Constructor,
+    open_names: []const []const u8,
+    tag_field: []const u8,
+) ![]const u8 {
+    var constructor_outputs = try allocator.alloc([]const u8, constructors.len);
+    defer utilities.freeStringArray(allocator, constructor_outputs);
+
+    for (constructors, 0..) |constructor, i| {
+        constructor_outputs[i] = try withDocComment(
+            allocator,
+            constructor.doc_comment,
+            "",
+            try outputConstructor(
+                allocator,
+                options,
+                union_name,
+                constructor,
+                open_names,
+                tag_field,
+            ),
+        );
+    }
+
+    return try mem.join(allocator, "\n\n", constructor_outputs);
+}
+
+fn outputTaggedStructure(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    union_name: []const u8,
+    constructor: Constructor,
+    tag_field: []const u8,
+) ![]const u8 {
+    const parameter_output = try outputType(allocator, options, constructor.parameter);
+    defer if (parameter_output) |o| allocator.free(o);
+
+    const enumeration_tag_output = try outputEnumerationTagType(
+        allocator,
+        options,
+        union_name,
+        constructor.tag,
+    );
+    defer allocator.free(enumeration_tag_output);
+
+    const output_format_with_parameter =
+        \\export type {s} = {{
+        \\    {s}: {s};
+        \\    data: {s};
+        \\}};
+    ;
+
+    const output_format_without_parameter =
+        \\export type {s} = {{
+        \\    {s}: {s};
+        \\}};
+    ;
+
+    return if (parameter_output) |output|
+        try fmt.allocPrint(
+            allocator,
+            output_format_with_parameter,
+            .{ constructor.tag, tag_field, enumeration_tag_output, output },
+        )
+    else
+        try fmt.allocPrint(
+            allocator,
+            output_format_without_parameter,
+            .{ constructor.tag, tag_field, enumeration_tag_output },
+        );
+}
+
+fn outputTaggedMaybeGenericStructure(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    union_name: []const u8,
+    constructor: Constructor,
+    open_names: []const []const u8,
+    tag_field: []const u8,
+) ![]const u8 {
+    const open_names_output = try outputOpenNamesFromType(
+        allocator,
+        constructor.parameter,
+        open_names,
+    );
+    defer allocator.free(open_names_output);
+
+    const parameter_output = if (try outputType(
+        allocator,
+        options,
+        constructor.parameter,
+    )) |output| p: {
+        defer allocator.free(output);
+        break :p try fmt.allocPrint(allocator, "\n    data: {s};", .{output});
+    } else "";
+    defer allocator.free(parameter_output);
+
+    const enumeration_tag_output = try outputEnumerationTagType(
+        allocator,
+        options,
+        union_name,
+        constructor.tag,
+    );
+    defer allocator.free(enumeration_tag_output);
+
+    const output_format =
+        \\export type {s}{s} = {{
+        \\    {s}: {s};{s}
+        \\}};
+    ;
+
+    return fmt.allocPrint(
+        allocator,
+        output_format,
+        .{
+            constructor.tag,
+            open_names_output,
+            tag_field,
+            enumeration_tag_output,
+            parameter_output,
+        },
+    );
+}
+
+fn outputOpenNamesFromType(
+    allocator: mem.Allocator,
+    t: Type,
+    open_names: []const []const u8,
+) error{OutOfMemory}![]const u8 {
+    const type_open_names = try general.openNamesFromType(allocator, t, open_names);
+    defer utilities.freeStringList(type_open_names);
+
+    const joined_open_names = try mem.join(allocator, ", ", type_open_names.items);
+    defer allocator.free(joined_open_names);
+
+    return if (type_open_names.items.len == 0)
+        ""
+    else
+        try fmt.allocPrint(allocator, "<{s}>", .{joined_open_names});
+}
+
+fn outputType(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    t: Type,
+) error{OutOfMemory}!?[]const u8 {
+    return switch (t) {
+        .empty => null,
+        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
+        .reference => |r| try translateReference(allocator, options, r),
+
+        .array => |d| output: {
+            if (try outputType(allocator, options, d.type.*)) |embedded_type| {
+                defer allocator.free(embedded_type);
+
+                break :output try outputFixedLengthArrayType(allocator, d, embedded_type);
+            } else {
+                debug.panic("Invalid empty type in optional type\n", .{});
+            }
+        },
+
+        .slice => |d| output: {
+            if (try outputType(allocator, options, d.type.*)) |embedded_type| {
+                defer allocator.free(embedded_type);
+
+                switch (d.type.*) {
+                    .optional, .array => break :output try fmt.allocPrint(
+                        allocator,
+                        "({s})[]",
+                        .{embedded_type},
+                    ),
+                    else => break :output try fmt.allocPrint(allocator, "{s}[]", .{embedded_type}),
+                }
+            } else {
+                debug.panic("Invalid empty type in optional type\n", .{});
+            }
+        },
+
+        .pointer => |d| output: {
+            if (try outputType(allocator, options, d.type.*)) |embedded_type| {
+                break :output embedded_type;
+            } else {
+                debug.panic("Invalid empty type in optional type\n", .{});
+            }
+        },
+
+        .optional => |d| output: {
+            if (try outputType(allocator, options, d.type.*)) |embedded_type| {
+                defer allocator.free(embedded_type);
+
+                break :output try fmt.allocPrint(
+                    allocator,
+                    "{s} | null | undefined",
+                    .{embedded_type},
+                );
+            } else {
+                debug.panic("Invalid empty type in optional type\n", .{});
+            }
+        },
+
+        .map => |m| try outputMapType(allocator, options, m),
+    };
+}
+
+/// Maps with a finite set of possible keys are partial, since not every key needs to be present.
+fn outputMapType(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    map: Map,
+) error{OutOfMemory}![]const u8 {
+    const key_output = try outputType(allocator, options, map.key.*) orelse
+        debug.panic("Empty type is not valid for map key\n", .{});
+    defer allocator.free(key_output);
+
+    const value_output = try outputType(allocator, options, map.value.*) orelse
+        debug.panic("Empty type is not valid for map value\n", .{});
+    defer allocator.free(value_output);
+
+    return if (hasFiniteKeys(map.key.*))
+        try fmt.allocPrint(allocator, "Partial<Record<{s}, {s}>>", .{ key_output, value_output })
+    else
+        try fmt.allocPrint(allocator, "Record<{s}, {s}>", .{ key_output, value_output });
+}
+
+fn hasFiniteKeys(t: Type) bool {
+    return switch (t) {
+        .string => true,
+        .reference => |r| switch (r) {
+            .definition => |d| definitionHasFiniteKeys(d),
+            .imported_definition => |id| definitionHasFiniteKeys(id.definition),
+            else => false,
+        },
+        else => false,
+    };
+}
+
+fn definitionHasFiniteKeys(d: Definition) bool {
+    return switch (d) {
+        .enumeration => true,
+        .newtype => |n| hasFiniteKeys(n.type.*),
+        else => false,
+    };
+}
+
+fn getMapTypeGuard(allocator: mem.Allocator, map: Map) error{OutOfMemory}![]const u8 {
+    const key_guard = try getNestedTypeGuardFromType(allocator, map.key.*);
+    defer allocator.free(key_guard);
+
+    const value_guard = try getNestedTypeGuardFromType(allocator, map.value.*);
+    defer allocator.free(value_guard);
+
+    return try fmt.allocPrint(allocator, "isMapOf({s}, {s})", .{ key_guard, value_guard });
+}
+
+fn getMapValidator(allocator: mem.Allocator, map: Map) error{OutOfMemory}![]const u8 {
+    const key_validator = try getNestedValidatorFromType(allocator, map.key.*);
+    defer allocator.free(key_validator);
+
+    const value_validator = try getNestedValidatorFromType(allocator, map.value.*);
+    defer allocator.free(value_validator);
+
+    return try fmt.allocPrint(
+        allocator,
+        "validateMapOf({s}, {s})",
+        .{ key_validator, value_validator },
+    );
+}
+
+/// Fixed-length arrays are represented as arrays intersected with a literal length, such that the
+/// length is part of the type but the value is still usable as a normal array.
+fn outputFixedLengthArrayType(
+    allocator: mem.Allocator,
+    array: Array,
+    embedded_type: []const u8,
+) ![]const u8 {
+    return switch (array.type.*) {
+        .optional, .array => try fmt.allocPrint(
+            allocator,
+            "({s})[] & {{length: {}}}",
+            .{ embedded_type, array.size },
+        ),
+        else => try fmt.allocPrint(
+            allocator,
+            "{s}[] & {{length: {}}}",
+            .{ embedded_type, array.size },
+        ),
+    };
+}
+
+/// Returns all actual open names for a list of names. This means they're not translated and so
+/// won't be assumed to be concrete type arguments.
+fn actualOpenNames(allocator: mem.Allocator, names: []const []const u8) !ArrayList([]const u8) {
+    var open_names = ArrayList([]const u8).init(allocator);
+
+    for (names) |name| {
+        if (!general.isTranslatedName(name)) try open_names.append(try allocator.dupe(u8, name));
+    }
+
+    return open_names;
+}
+
+fn outputOpenNames(allocator: mem.Allocator, names: []const []const u8) ![]const u8 {
+    var translated_names = try allocator.alloc([]const u8, names.len);
+    defer utilities.freeStringArray(allocator, translated_names);
+
+    for (names, 0..) |name, i| translated_names[i] = try allocator.dupe(u8, translateName(name));
+
+    const joined_names = try mem.join(allocator, ", ", translated_names);
+    defer allocator.free(joined_names);
+
+    return try fmt.allocPrint(allocator, "<{s}>", .{joined_names});
+}
+
+fn translateName(name: []const u8) []const u8 {
+    return if (mem.eql(u8, name, "String"))
+        "string"
+    else if (general.isNumberType(name))
+        if (isBigIntBuiltin(Builtin.fromString(name))) "bigint" else "number"
+    else if (mem.eql(u8, name, "Boolean"))
+        "boolean"
+    else
+        name;
+}
+
+fn translateReference(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    reference: TypeReference,
+) error{OutOfMemory}![]const u8 {
+    return switch (reference) {
+        .builtin => |b| switch (b) {
+            .String, .Duration => try allocator.dupe(u8, "string"),
+            .Boolean => try allocator.dupe(u8, "boolean"),
+            .Date, .DateTime => try allocator.dupe(u8, if (options.date_objects) "Date" else "string"),
+            .U64, .U128, .I64, .I128 => try allocator.dupe(u8, "bigint"),
+            .U8,
+            .U16,
+            .U32,
+            .I8,
+            .I16,
+            .I32,
+            .F32,
+            .F64,
+            .F128,
+            => try allocator.dupe(u8, "number"),
+        },
+        .definition => |d| try allocator.dupe(u8, d.name().value),
+        .imported_definition => |id| try outputImportedReference(allocator, id, ""),
+        .applied_name => |applied_name| output: {
+            const open_names = try outputAppliedOpenNames(
+                allocator,
+                options,
+                applied_name.open_names,
+            );
+            defer allocator.free(open_names);
+
+            const reference_output = try translateReference(
+                allocator,
+                options,
+                applied_name.reference.*,
+            );
+            defer allocator.free(reference_output);
+
+            break :output try fmt.allocPrint(
+                allocator,
+                "{s}{s}",
+                .{ reference_output, open_names },
+            );
+        },
+        .loose => |l| try allocator.dupe(u8, l.name),
+        .open => |n| try allocator.dupe(u8, n),
+    };
+}
+
+fn outputAppliedOpenNames(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    applied_open_names: []const AppliedOpenName,
+) error{OutOfMemory}![]const u8 {
+    var outputs = try allocator.alloc([]const u8, applied_open_names.len);
+    defer utilities.freeStringArray(allocator, outputs);
+
+    for (applied_open_names, 0..) |name, i| {
+        outputs[i] = (try outputType(allocator, options, name.reference)).?;
+    }
+
+    const joined_outputs = try mem.join(allocator, ", ", outputs);
+    defer allocator.free(joined_outputs);
+
+    return try fmt.allocPrint(allocator, "<{s}>", .{joined_outputs});
+}
+
+fn translatedTypeGuardName(allocator: mem.Allocator, name: []const u8) ![]const u8 {
+    return if (mem.eql(u8, name, "String"))
+        try allocator.dupe(u8, "svt.isString")
+    else if (general.isNumberType(name))
+        try builtinTypeGuard(allocator, Builtin.fromString(name))
+    else if (mem.eql(u8, name, "Boolean"))
+        try allocator.dupe(u8, "svt.isBoolean")
+    else
+        try fmt.allocPrint(allocator, "is{s}", .{name});
+}
+
+fn translatedTypeGuardReference(
+    allocator: mem.Allocator,
+    reference: TypeReference,
+) error{OutOfMemory}![]const u8 {
+    return switch (reference) {
+        .builtin => |b| switch (b) {
+            .String => try allocator.dupe(u8, "svt.isString"),
+            .Boolean => try allocator.dupe(u8, "svt.isBoolean"),
+            .Date,
+            .DateTime,
+            .Duration,
+            .U8,
+            .U16,
+            .U32,
+            .U64,
+            .U128,
+            .I8,
+            .I16,
+            .I32,
+            .I64,
+            .I128,
+            .F32,
+            .F64,
+            .F128,
+            => try builtinTypeGuard(allocator, b),
+        },
+
+        .definition => |d| try fmt.allocPrint(allocator, "is{s}", .{d.name().value}),
+
+        .imported_definition => |id| try outputImportedReference(allocator, id, "is"),
 
-            break :output try fmt.allocPrint(allocator, validator_format, .{validator});
-        },
-        .array => |a| output: {
-            const validator = try getNestedValidatorFromType(allocator, a.type.*);
-            defer allocator.free(validator);
+        .applied_name => |applied_name| output: {
+            const open_name_predicates = try appliedOpenNamePredicates(allocator, applied_name.open_names);
+            defer utilities.freeStringArray(allocator, open_name_predicates);
 
-            break :output try fmt.allocPrint(allocator, array_format, .{validator});
-        },
-        .slice => |s| output: {
-            const validator = try getNestedValidatorFromType(allocator, s.type.*);
-            defer allocator.free(validator);
+            const joined_predicates = try mem.join(allocator, ", ", open_name_predicates);
+            defer allocator.free(joined_predicates);
 
-            break :output try fmt.allocPrint(allocator, array_format, .{validator});
-        },
-        .pointer => |p| output: {
-            const validator = try getNestedValidatorFromType(allocator, p.type.*);
-            defer allocator.free(validator);
+            const reference_predicate = try translatedTypeGuardReference(
+                allocator,
+                applied_name.reference.*,
+            );
+            defer allocator.free(reference_predicate);
 
-            break :output try fmt.allocPrint(allocator, validator_format, .{validator});
+            break :output try fmt.allocPrint(
+                allocator,
+                "{s}({s})",
+                .{ reference_predicate, joined_predicates },
+            );
         },
-        .optional => |o| output: {
-            const validator = try getNestedValidatorFromType(allocator, o.type.*);
-            defer allocator.free(validator);
 
-            break :output try fmt.allocPrint(allocator, optional_format, .{validator});
-        },
+        .loose => |l| try fmt.allocPrint(allocator, "is{s}", .{l.name}),
+        .open => |n| try fmt.allocPrint(allocator, "is{s}", .{n}),
     };
 }
 
-fn getNestedDataSpecificationFromType(
-    allocator: mem.Allocator,
-    t: Type,
-) error{OutOfMemory}![]const u8 {
-    const array_format = "{s}[]";
-    const optional_format = "{s} | null | undefined";
+const IntegerBounds = struct {
+    minimum: i256,
+    maximum: i256,
+};
+
+/// Returns the range of values an integer builtin can hold, or `null` for non-integer builtins.
+fn integerBounds(b: Builtin) ?IntegerBounds {
+    return switch (b) {
+        .U8 => boundsOf(u8),
+        .U16 => boundsOf(u16),
+        .U32 => boundsOf(u32),
+        .U64 => boundsOf(u64),
+        .U128 => boundsOf(u128),
+        .I8 => boundsOf(i8),
+        .I16 => boundsOf(i16),
+        .I32 => boundsOf(i32),
+        .I64 => boundsOf(i64),
+        .I128 => boundsOf(i128),
+        .String, .Boolean, .F32, .F64, .F128, .Date, .DateTime, .Duration => null,
+    };
+}
 
-    return switch (t) {
-        .empty => debug.panic("Empty nested type invalid for data specification\n", .{}),
-        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
-        .reference => |r| try translateReference(allocator, r),
-        .array => |a| output: {
-            const nested = try getNestedDataSpecificationFromType(allocator, a.type.*);
-            defer allocator.free(nested);
+fn boundsOf(comptime T: type) IntegerBounds {
+    return IntegerBounds{ .minimum = math.minInt(T), .maximum = math.maxInt(T) };
+}
 
-            break :output try fmt.allocPrint(allocator, array_format, .{nested});
-        },
-        .slice => |s| output: {
-            const nested = try getNestedDataSpecificationFromType(allocator, s.type.*);
-            defer allocator.free(nested);
+/// 64- and 128-bit integers can't be represented exactly as a TypeScript `number`, so they're
+/// typed as `bigint` and sent over the wire as decimal strings.
+fn isBigIntBuiltin(b: Builtin) bool {
+    return switch (b) {
+        .U64, .U128, .I64, .I128 => true,
+        else => false,
+    };
+}
 
-            break :output try fmt.allocPrint(allocator, array_format, .{nested});
-        },
-        .pointer => |p| output: {
-            const nested = try getNestedDataSpecificationFromType(allocator, p.type.*);
-            defer allocator.free(nested);
+/// `Date` and `DateTime` can be represented as `Date` objects, see
+/// `CompilationOptions.date_objects`.
+fn isDateBuiltin(b: Builtin) bool {
+    return b == .Date or b == .DateTime;
+}
 
-            break :output try fmt.allocPrint(allocator, "is{s}", .{nested});
-        },
-        .optional => |o| output: {
-            const nested = try getNestedDataSpecificationFromType(allocator, o.type.*);
-            defer allocator.free(nested);
+/// Numeric builtins are checked to be integers within the range of their bit width, or finite
+/// numbers in the case of floating point builtins. Validators for `bigint` builtins accept the
+/// decimal string wire form and convert it.
+fn builtinTypeGuard(allocator: mem.Allocator, b: Builtin) ![]const u8 {
+    return if (integerBounds(b)) |bounds|
+        if (isBigIntBuiltin(b))
+            try fmt.allocPrint(
+                allocator,
+                "isBigIntInRange(\"{}\", \"{}\")",
+                .{ bounds.minimum, bounds.maximum },
+            )
+        else
+            try fmt.allocPrint(
+                allocator,
+                "isIntegerInRange({}, {})",
+                .{ bounds.minimum, bounds.maximum },
+            )
+    else switch (b) {
+        .String => try allocator.dupe(u8, "svt.isString"),
+        .Boolean => try allocator.dupe(u8, "svt.isBoolean"),
+        .Date => try allocator.dupe(u8, "isDate"),
+        .DateTime => try allocator.dupe(u8, "isDateTime"),
+        .Duration => try allocator.dupe(u8, "isDuration"),
+        else => try allocator.dupe(u8, "isFiniteNumber"),
+    };
+}
 
-            break :output try fmt.allocPrint(allocator, optional_format, .{nested});
-        },
+fn builtinValidator(allocator: mem.Allocator, b: Builtin) ![]const u8 {
+    return if (integerBounds(b)) |bounds|
+        if (isBigIntBuiltin(b))
+            try fmt.allocPrint(
+                allocator,
+                "validateBigIntInRange(\"{}\", \"{}\")",
+                .{ bounds.minimum, bounds.maximum },
+            )
+        else
+            try fmt.allocPrint(
+                allocator,
+                "validateIntegerInRange({}, {})",
+                .{ bounds.minimum, bounds.maximum },
+            )
+    else switch (b) {
+        .String => try allocator.dupe(u8, "svt.validateString"),
+        .Boolean => try allocator.dupe(u8, "svt.validateBoolean"),
+        .Date => try allocator.dupe(u8, "validateDate"),
+        .DateTime => try allocator.dupe(u8, "validateDateTime"),
+        .Duration => try allocator.dupe(u8, "validateDuration"),
+        else => try allocator.dupe(u8, "validateFiniteNumber"),
     };
 }
 
-fn getNestedTypeGuardFromType(allocator: mem.Allocator, t: Type) error{OutOfMemory}![]const u8 {
-    const array_format = "svt.arrayOf({s})";
-    const optional_format = "svt.optional({s})";
+fn appliedOpenNamePredicates(
+    allocator: mem.Allocator,
+    applied_open_names: []const AppliedOpenName,
+) error{OutOfMemory}![]const []const u8 {
+    var outputs = try allocator.alloc([]const u8, applied_open_names.len);
 
-    return switch (t) {
-        .empty => debug.panic("Empty nested type invalid for type guard\n", .{}),
-        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
-        .reference => |r| try translatedTypeGuardReference(allocator, r),
-        .array => |a| output: {
-            const nested_validator = try getNestedTypeGuardFromType(allocator, a.type.*);
-            defer allocator.free(nested_validator);
+    for (applied_open_names, 0..) |name, i| {
+        outputs[i] = try getTypeGuardFromType(allocator, name.reference);
+    }
 
-            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
-        },
-        .slice => |s| output: {
-            const nested_validator = try getNestedTypeGuardFromType(allocator, s.type.*);
-            defer allocator.free(nested_validator);
+    return outputs;
+}
 
-            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
-        },
-        .pointer => |p| output: {
-            const nested_validator = try getNestedTypeGuardFromType(allocator, p.type.*);
+fn translatedValidatorName(allocator: mem.Allocator, name: []const u8) ![]const u8 {
+    return if (mem.eql(u8, name, "String"))
+        try allocator.dupe(u8, "svt.validateString")
+    else if (general.isNumberType(name))
+        try builtinValidator(allocator, Builtin.fromString(name))
+    else if (mem.eql(u8, name, "Boolean"))
+        try allocator.dupe(u8, "svt.validateBoolean")
+    else
+        try fmt.allocPrint(allocator, "validate{s}", .{name});
+}
 
-            break :output nested_validator;
+fn translatedValidatorReference(
+    allocator: mem.Allocator,
+    reference: TypeReference,
+) error{OutOfMemory}![]const u8 {
+    const format = "validate{s}";
+
+    return switch (reference) {
+        .builtin => |b| switch (b) {
+            .String => try allocator.dupe(u8, "svt.validateString"),
+            .Boolean => try allocator.dupe(u8, "svt.validateBoolean"),
+            .Date,
+            .DateTime,
+            .Duration,
+            .U8,
+            .U16,
+            .U32,
+            .U64,
+            .U128,
+            .I8,
+            .I16,
+            .I32,
+            .I64,
+            .I128,
+            .F32,
+            .F64,
+            .F128,
+            => try builtinValidator(allocator, b),
         },
-        .optional => |o| output: {
-            const nested_validator = try getNestedTypeGuardFromType(allocator, o.type.*);
-            defer allocator.free(nested_validator);
 
-            break :output try fmt.allocPrint(allocator, optional_format, .{nested_validator});
+        .definition => |d| try fmt.allocPrint(allocator, format, .{d.name().value}),
+
+        .imported_definition => |id| try outputImportedReference(allocator, id, "validate"),
+
+        .applied_name => |applied_name| output: {
+            const open_name_validators = try appliedOpenNameValidators(allocator, applied_name.open_names);
+            defer utilities.freeStringArray(allocator, open_name_validators);
+
+            const joined_validators = try mem.join(allocator, ", ", open_name_validators);
+            defer allocator.free(joined_validators);
+
+            const reference_validator = try translatedValidatorReference(
+                allocator,
+                applied_name.reference.*,
+            );
+            defer allocator.free(reference_validator);
+
+            break :output try fmt.allocPrint(
+                allocator,
+                "{s}({s})",
+                .{ reference_validator, joined_validators },
+            );
         },
+
+        .loose => |l| try fmt.allocPrint(allocator, format, .{l.name}),
+        .open => |n| try fmt.allocPrint(allocator, format, .{n}),
     };
 }
 
-fn getNestedValidatorFromType(allocator: mem.Allocator, t: Type) error{OutOfMemory}![]const u8 {
-    const array_format = "svt.validateArray({s})";
-    const optional_format = "svt.validateOptional({s})";
+fn appliedOpenNameValidators(
+    allocator: mem.Allocator,
+    applied_open_names: []const AppliedOpenName,
+) error{OutOfMemory}![]const []const u8 {
+    var outputs = try allocator.alloc([]const u8, applied_open_names.len);
 
-    return switch (t) {
-        .empty => debug.panic("Empty nested type invalid for validator\n", .{}),
-        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
-        .reference => |r| try translatedValidatorReference(allocator, r),
-        .array => |a| output: {
-            const nested_validator = try getNestedValidatorFromType(allocator, a.type.*);
-            defer allocator.free(nested_validator);
+    for (applied_open_names, 0..) |name, i| {
+        outputs[i] = try getValidatorFromType(allocator, name.reference);
+    }
 
-            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
-        },
-        .slice => |s| output: {
-            const nested_validator = try getNestedValidatorFromType(allocator, s.type.*);
-            defer allocator.free(nested_validator);
+    return outputs;
+}
 
-            break :output try fmt.allocPrint(allocator, array_format, .{nested_validator});
-        },
-        .pointer => |p| output: {
-            const nested_validator = try getNestedValidatorFromType(allocator, p.type.*);
+/// Outputs `encode{name}`, which turns a value into its wire representation. Generic definitions
+/// get a function that takes an encoder for each open name, the same way their type guards take
+/// predicates.
+fn outputEncoderFunction(
+    allocator: mem.Allocator,
+    name: []const u8,
+    open_names: []const []const u8,
+    body_lines: []const []const u8,
+) ![]const u8 {
+    const actual_open_names = try actualOpenNames(allocator, open_names);
+    defer utilities.freeStringList(actual_open_names);
 
-            break :output nested_validator;
-        },
-        .optional => |o| output: {
-            const nested_validator = try getNestedValidatorFromType(allocator, o.type.*);
-            defer allocator.free(nested_validator);
+    const indentation = if (actual_open_names.items.len == 0) "    " else "        ";
 
-            break :output try fmt.allocPrint(allocator, optional_format, .{nested_validator});
+    var indented_lines = try allocator.alloc([]const u8, body_lines.len);
+    defer utilities.freeStringArray(allocator, indented_lines);
+
+    for (body_lines, 0..) |line, i| {
+        indented_lines[i] = if (line.len == 0)
+            try allocator.dupe(u8, line)
+        else
+            try fmt.allocPrint(allocator, "{s}{s}", .{ indentation, line });
+    }
+
+    const body_output = try mem.join(allocator, "\n", indented_lines);
+    defer allocator.free(body_output);
+
+    if (actual_open_names.items.len == 0) {
+        const format =
+            \\export function encode{s}(value: {s}): unknown {{
+            \\{s}
+            \\}}
+        ;
+
+        return try fmt.allocPrint(allocator, format, .{ name, name, body_output });
+    }
+
+    const open_names_output = try mem.join(allocator, ", ", actual_open_names.items);
+    defer allocator.free(open_names_output);
+
+    const open_names_together = try mem.join(allocator, "", actual_open_names.items);
+    defer allocator.free(open_names_together);
+
+    var parameter_outputs = try allocator.alloc([]const u8, actual_open_names.items.len);
+    defer utilities.freeStringArray(allocator, parameter_outputs);
+
+    for (actual_open_names.items, 0..) |open_name, i| {
+        parameter_outputs[i] = try fmt.allocPrint(
+            allocator,
+            "encode{s}: svt.ToJSON<{s}>",
+            .{ open_name, open_name },
+        );
+    }
+
+    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
+    defer allocator.free(parameters_output);
+
+    const format =
+        \\export function encode{s}<{s}>({s}): svt.ToJSON<{s}<{s}>> {{
+        \\    return function encode{s}{s}(value: {s}<{s}>): unknown {{
+        \\{s}
+        \\    }};
+        \\}}
+    ;
+
+    return try fmt.allocPrint(
+        allocator,
+        format,
+        .{
+            name,
+            open_names_output,
+            parameters_output,
+            name,
+            open_names_output,
+            name,
+            open_names_together,
+            name,
+            open_names_output,
+            body_output,
         },
-    };
+    );
 }
 
-fn outputCommonOpenNames(
-    allocator: mem.Allocator,
-    as: []const []const u8,
-    bs: []const []const u8,
-) ![]const u8 {
-    const common_names = try general.commonOpenNames(allocator, as, bs);
-    defer common_names.deinit();
-
-    return if (common_names.items.len == 0)
-        ""
-    else
-        try fmt.allocPrint(allocator, "<{s}>", .{try mem.join(allocator, ", ", common_names.items)});
-}
+/// One case of a `match{Union}` function: the handler for it is called with `argument` when the
+/// union value has the tag `tag`, or without arguments when `parameter_type` is `null`.
+const MatchCase = struct {
+    tag: []const u8,
+    parameter_type: ?[]const u8,
+    argument: []const u8,
+};
 
-fn outputTaggedStructures(
+fn outputMatchFunctionsForUnion(
     allocator: mem.Allocator,
-    union_name: []const u8,
+    options: CompilationOptions,
+    name: []const u8,
+    open_names: []const []const u8,
     constructors: []const Constructor,
     tag_field: []const u8,
 ) ![]const u8 {
-    var tagged_structures_outputs = try allocator.alloc([]const u8, constructors.len);
-    defer utilities.freeStringArray(allocator, tagged_structures_outputs);
+    var cases = try allocator.alloc(MatchCase, constructors.len);
+    defer allocator.free(cases);
+    defer for (cases) |c| if (c.parameter_type) |t| allocator.free(t);
 
     for (constructors, 0..) |constructor, i| {
-        tagged_structures_outputs[i] = try outputTaggedStructure(
-            allocator,
-            union_name,
-            constructor,
-            tag_field,
-        );
+        cases[i] = MatchCase{
+            .tag = constructor.tag,
+            .parameter_type = try outputType(allocator, options, constructor.parameter),
+            .argument = "value.data",
+        };
     }
 
-    return try mem.join(allocator, "\n\n", tagged_structures_outputs);
+    return try outputMatchFunctions(allocator, name, open_names, tag_field, cases);
 }
 
-fn outputTaggedMaybeGenericStructures(
+/// Embedded unions have their payload merged into the value itself, so handlers are given the
+/// whole value, narrowed to the constructor's type.
+fn outputMatchFunctionsForEmbeddedUnion(
     allocator: mem.Allocator,
-    union_name: []const u8,
-    constructors: []const Constructor,
-    open_names: []const []const u8,
-    tag_field: []const u8,
+    prefix: []const u8,
+    embedded: EmbeddedUnion,
 ) ![]const u8 {
-    var tagged_structures_outputs = try allocator.alloc([]const u8, constructors.len);
-    defer utilities.freeStringArray(allocator, tagged_structures_outputs);
+    var cases = try allocator.alloc(MatchCase, embedded.constructors.len);
+    defer allocator.free(cases);
+    defer for (cases) |c| if (c.parameter_type) |t| allocator.free(t);
 
-    for (constructors, 0..) |constructor, i| {
-        tagged_structures_outputs[i] =
-            try outputTaggedMaybeGenericStructure(
-            allocator,
-            union_name,
-            constructor,
-            open_names,
-            tag_field,
-        );
+    for (embedded.constructors, 0..) |constructor, i| {
+        cases[i] = MatchCase{
+            .tag = constructor.tag,
+            .parameter_type = if (constructor.parameter != null)
+                try fmt.allocPrint(allocator, "{s}{s}", .{ prefix, constructor.tag })
+            else
+                null,
+            .argument = "value",
+        };
     }
 
-    return try mem.join(allocator, "\n\n", tagged_structures_outputs);
+    return try outputMatchFunctions(
+        allocator,
+        embedded.name.value,
+        &[_][]const u8{},
+        embedded.tag_field,
+        cases,
+    );
 }
 
-fn outputGenericConstructors(
+/// Outputs a `{Union}Cases` type with one handler per constructor, a `match{Union}` function that
+/// requires all of them and a `match{Union}Partially` function that takes a `_` handler for the
+/// cases that are left out. Since the handlers are required properties, leaving one out of a full
+/// match is a compile error.
+fn outputMatchFunctions(
     allocator: mem.Allocator,
-    union_name: []const u8,
-    constructors: []const Constructor,
+    name: []const u8,
     open_names: []const []const u8,
     tag_field: []const u8,
+    cases: []const MatchCase,
 ) ![]const u8 {
-    var constructor_outputs = try allocator.alloc([]const u8, constructors.len);
-    defer utilities.freeStringArray(allocator, constructor_outputs);
+    const actual_open_names = try actualOpenNames(allocator, open_names);
+    defer utilities.freeStringList(actual_open_names);
 
-    for (constructors, 0..) |constructor, i| {
-        constructor_outputs[i] = try outputConstructor(
-            allocator,
-            union_name,
-            constructor,
-            open_names,
-            tag_field,
-        );
-    }
+    const result_name = try matchResultName(allocator, name, actual_open_names.items, cases);
+    defer allocator.free(result_name);
 
-    return try mem.join(allocator, "\n\n", constructor_outputs);
-}
+    var type_parameters = ArrayList([]const u8).init(allocator);
+    defer type_parameters.deinit();
+    try type_parameters.appendSlice(actual_open_names.items);
+    try type_parameters.append(result_name);
 
-fn outputTaggedStructure(
-    allocator: mem.Allocator,
-    union_name: []const u8,
-    constructor: Constructor,
-    tag_field: []const u8,
-) ![]const u8 {
-    const parameter_output = try outputType(allocator, constructor.parameter);
-    defer if (parameter_output) |o| allocator.free(o);
+    const type_parameters_output = try mem.join(allocator, ", ", type_parameters.items);
+    defer allocator.free(type_parameters_output);
 
-    const enumeration_tag_output = try outputEnumerationTag(allocator, union_name, constructor.tag);
-    defer allocator.free(enumeration_tag_output);
+    const union_type_parameters_output = try mem.join(allocator, ", ", actual_open_names.items);
+    defer allocator.free(union_type_parameters_output);
 
-    const output_format_with_parameter =
-        \\export type {s} = {{
-        \\    {s}: {s};
-        \\    data: {s};
-        \\}};
-    ;
+    const union_type = if (actual_open_names.items.len == 0)
+        try allocator.dupe(u8, name)
+    else
+        try fmt.allocPrint(allocator, "{s}<{s}>", .{ name, union_type_parameters_output });
+    defer allocator.free(union_type);
 
-    const output_format_without_parameter =
-        \\export type {s} = {{
-        \\    {s}: {s};
-        \\}};
-    ;
+    var handler_lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(handler_lines);
 
-    return if (parameter_output) |output|
-        try fmt.allocPrint(
+    var full_case_lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(full_case_lines);
+
+    var partial_case_lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(partial_case_lines);
+
+    for (cases) |c| {
+        const enumeration_tag = try outputEnumerationTag(allocator, name, c.tag);
+        defer allocator.free(enumeration_tag);
+
+        const call = if (c.parameter_type) |parameter_type| call: {
+            try handler_lines.append(try fmt.allocPrint(
+                allocator,
+                "    {s}: (data: {s}) => {s};",
+                .{ c.tag, parameter_type, result_name },
+            ));
+
+            break :call try fmt.allocPrint(allocator, "cases.{s}({s})", .{ c.tag, c.argument });
+        } else call: {
+            try handler_lines.append(try fmt.allocPrint(
+                allocator,
+                "    {s}: () => {s};",
+                .{ c.tag, result_name },
+            ));
+
+            break :call try fmt.allocPrint(allocator, "cases.{s}()", .{c.tag});
+        };
+        defer allocator.free(call);
+
+        try full_case_lines.append(try fmt.allocPrint(
             allocator,
-            output_format_with_parameter,
-            .{ constructor.tag, tag_field, enumeration_tag_output, output },
-        )
-    else
-        try fmt.allocPrint(
+            "        case {s}:\n            return {s};",
+            .{ enumeration_tag, call },
+        ));
+        try partial_case_lines.append(try fmt.allocPrint(
             allocator,
-            output_format_without_parameter,
-            .{ constructor.tag, tag_field, enumeration_tag_output },
-        );
-}
+            "        case {s}:\n            return cases.{s} !== undefined ? {s} : cases._();",
+            .{ enumeration_tag, c.tag, call },
+        ));
+    }
 
-fn outputTaggedMaybeGenericStructure(
-    allocator: mem.Allocator,
-    union_name: []const u8,
-    constructor: Constructor,
-    open_names: []const []const u8,
-    tag_field: []const u8,
-) ![]const u8 {
-    const open_names_output = try outputOpenNamesFromType(
-        allocator,
-        constructor.parameter,
-        open_names,
-    );
-    defer allocator.free(open_names_output);
+    const handlers_output = try mem.join(allocator, "\n", handler_lines.items);
+    defer allocator.free(handlers_output);
 
-    const parameter_output = if (try outputType(allocator, constructor.parameter)) |output| p: {
-        defer allocator.free(output);
-        break :p try fmt.allocPrint(allocator, "\n    data: {s};", .{output});
-    } else "";
-    defer allocator.free(parameter_output);
+    const full_cases_output = try mem.join(allocator, "\n", full_case_lines.items);
+    defer allocator.free(full_cases_output);
 
-    const enumeration_tag_output = try outputEnumerationTag(allocator, union_name, constructor.tag);
-    defer allocator.free(enumeration_tag_output);
+    const partial_cases_output = try mem.join(allocator, "\n", partial_case_lines.items);
+    defer allocator.free(partial_cases_output);
 
-    const output_format =
-        \\export type {s}{s} = {{
-        \\    {s}: {s};{s}
+    const format =
+        \\export type {s}Cases<{s}> = {{
+        \\{s}
         \\}};
+        \\
+        \\export function match{s}<{s}>(value: {s}, cases: {s}Cases<{s}>): {s} {{
+        \\    switch (value.{s}) {{
+        \\{s}
+        \\    }}
+        \\}}
+        \\
+        \\export function match{s}Partially<{s}>(value: {s}, cases: Partial<{s}Cases<{s}>> & {{_: () => {s}}}): {s} {{
+        \\    switch (value.{s}) {{
+        \\{s}
+        \\    }}
+        \\}}
     ;
 
-    return fmt.allocPrint(
+    return try fmt.allocPrint(
         allocator,
-        output_format,
+        format,
         .{
-            constructor.tag,
-            open_names_output,
+            name,
+            type_parameters_output,
+            handlers_output,
+            name,
+            type_parameters_output,
+            union_type,
+            name,
+            type_parameters_output,
+            result_name,
             tag_field,
-            enumeration_tag_output,
-            parameter_output,
+            full_cases_output,
+            name,
+            type_parameters_output,
+            union_type,
+            name,
+            type_parameters_output,
+            result_name,
+            result_name,
+            tag_field,
+            partial_cases_output,
         },
     );
 }
 
-fn outputOpenNamesFromType(
+/// The type parameter for what the handlers of a match return, picked so that it doesn't shadow
+/// the union's own type parameters, the union itself or any type its constructors take. When all
+/// of the usual names are taken a numbered `R` is used instead.
+fn matchResultName(
     allocator: mem.Allocator,
-    t: Type,
+    name: []const u8,
     open_names: []const []const u8,
-) error{OutOfMemory}![]const u8 {
-    const type_open_names = try general.openNamesFromType(allocator, t, open_names);
-    defer utilities.freeStringList(type_open_names);
+    cases: []const MatchCase,
+) ![]const u8 {
+    const candidates = [_][]const u8{ "R", "Result", "MatchResult" };
 
-    const joined_open_names = try mem.join(allocator, ", ", type_open_names.items);
-    defer allocator.free(joined_open_names);
+    for (candidates) |candidate| {
+        if (!isMatchResultNameTaken(candidate, name, open_names, cases)) {
+            return try allocator.dupe(u8, candidate);
+        }
+    }
 
-    return if (type_open_names.items.len == 0)
-        ""
-    else
-        try fmt.allocPrint(allocator, "<{s}>", .{joined_open_names});
+    var number: usize = 1;
+    while (true) : (number += 1) {
+        const candidate = try fmt.allocPrint(allocator, "R{}", .{number});
+        if (!isMatchResultNameTaken(candidate, name, open_names, cases)) return candidate;
+
+        allocator.free(candidate);
+    }
 }
 
-fn outputType(allocator: mem.Allocator, t: Type) error{OutOfMemory}!?[]const u8 {
-    return switch (t) {
-        .empty => null,
-        .string => |s| try fmt.allocPrint(allocator, "\"{s}\"", .{s}),
-        .reference => |r| try translateReference(allocator, r),
+fn isMatchResultNameTaken(
+    candidate: []const u8,
+    name: []const u8,
+    open_names: []const []const u8,
+    cases: []const MatchCase,
+) bool {
+    if (mem.eql(u8, candidate, name)) return true;
 
-        .array => |d| output: {
-            if (try outputType(allocator, d.type.*)) |embedded_type| {
-                defer allocator.free(embedded_type);
+    if (utilities.isStringEqualToOneOf(candidate, open_names)) return true;
 
-                switch (d.type.*) {
-                    .optional => break :output try fmt.allocPrint(
-                        allocator,
-                        "({s})[]",
-                        .{embedded_type},
-                    ),
-                    else => break :output try fmt.allocPrint(allocator, "{s}[]", .{embedded_type}),
-                }
-            } else {
-                debug.panic("Invalid empty type in optional type\n", .{});
-            }
-        },
+    for (cases) |c| {
+        if (c.parameter_type) |parameter_type| {
+            if (containsIdentifier(parameter_type, candidate)) return true;
+        }
+    }
 
-        .slice => |d| output: {
-            if (try outputType(allocator, d.type.*)) |embedded_type| {
-                defer allocator.free(embedded_type);
+    return false;
+}
 
-                switch (d.type.*) {
-                    .optional => break :output try fmt.allocPrint(
-                        allocator,
-                        "({s})[]",
-                        .{embedded_type},
-                    ),
-                    else => break :output try fmt.allocPrint(allocator, "{s}[]", .{embedded_type}),
-                }
-            } else {
-                debug.panic("Invalid empty type in optional type\n", .{});
-            }
-        },
+/// Decoders turn wire JSON into values of the definition's type. Validators already rebuild the
+/// values they check (bigints from their string form, for example), so decoders currently delegate
+/// to them; this is the place to handle representations that differ on the wire.
+fn outputDecoderFunction(
+    allocator: mem.Allocator,
+    name: []const u8,
+    open_names: []const []const u8,
+) ![]const u8 {
+    const actual_open_names = try actualOpenNames(allocator, open_names);
+    defer utilities.freeStringList(actual_open_names);
 
-        .pointer => |d| output: {
-            if (try outputType(allocator, d.type.*)) |embedded_type| {
-                break :output embedded_type;
-            } else {
-                debug.panic("Invalid empty type in optional type\n", .{});
-            }
-        },
+    if (actual_open_names.items.len == 0) {
+        const format =
+            \\export function decode{s}(json: unknown): svt.ValidationResult<{s}> {{
+            \\    return validate{s}(json);
+            \\}}
+        ;
 
-        .optional => |d| output: {
-            if (try outputType(allocator, d.type.*)) |embedded_type| {
-                defer allocator.free(embedded_type);
+        return try fmt.allocPrint(allocator, format, .{ name, name, name });
+    }
 
-                break :output try fmt.allocPrint(
-                    allocator,
-                    "{s} | null | undefined",
-                    .{embedded_type},
-                );
-            } else {
-                debug.panic("Invalid empty type in optional type\n", .{});
-            }
+    const open_names_output = try mem.join(allocator, ", ", actual_open_names.items);
+    defer allocator.free(open_names_output);
+
+    var parameter_outputs = try allocator.alloc([]const u8, actual_open_names.items.len);
+    defer utilities.freeStringArray(allocator, parameter_outputs);
+
+    var argument_outputs = try allocator.alloc([]const u8, actual_open_names.items.len);
+    defer utilities.freeStringArray(allocator, argument_outputs);
+
+    for (actual_open_names.items, 0..) |open_name, i| {
+        parameter_outputs[i] = try fmt.allocPrint(
+            allocator,
+            "decode{s}: svt.Validator<{s}>",
+            .{ open_name, open_name },
+        );
+        argument_outputs[i] = try fmt.allocPrint(allocator, "decode{s}", .{open_name});
+    }
+
+    const parameters_output = try mem.join(allocator, ", ", parameter_outputs);
+    defer allocator.free(parameters_output);
+
+    const arguments_output = try mem.join(allocator, ", ", argument_outputs);
+    defer allocator.free(arguments_output);
+
+    const format =
+        \\export function decode{s}<{s}>({s}): svt.Validator<{s}<{s}>> {{
+        \\    return validate{s}({s});
+        \\}}
+    ;
+
+    return try fmt.allocPrint(
+        allocator,
+        format,
+        .{
+            name,
+            open_names_output,
+            parameters_output,
+            name,
+            open_names_output,
+            name,
+            arguments_output,
         },
-    };
+    );
+}
+
+fn outputEncoderForStructure(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    name: []const u8,
+    open_names: []const []const u8,
+    fields: []const Field,
+) ![]const u8 {
+    const fields_output = try getEncodedFields(allocator, options, fields);
+    defer allocator.free(fields_output);
+
+    const return_line = try fmt.allocPrint(allocator, "return {{{s}}};", .{fields_output});
+    defer allocator.free(return_line);
+
+    return try outputEncoderFunction(allocator, name, open_names, &[_][]const u8{return_line});
 }
 
-/// Returns all actual open names for a list of names. This means they're not translated and so
-/// won't be assumed to be concrete type arguments.
-fn actualOpenNames(allocator: mem.Allocator, names: []const []const u8) !ArrayList([]const u8) {
-    var open_names = ArrayList([]const u8).init(allocator);
+fn outputEncoderForUnion(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    name: []const u8,
+    open_names: []const []const u8,
+    constructors: []const Constructor,
+    tag_field: []const u8,
+) ![]const u8 {
+    var lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(lines);
 
-    for (names) |name| {
-        if (!general.isTranslatedName(name)) try open_names.append(try allocator.dupe(u8, name));
-    }
+    try lines.append(try fmt.allocPrint(allocator, "switch (value.{s}) {{", .{tag_field}));
 
-    return open_names;
-}
+    for (constructors) |constructor| {
+        const enumeration_tag = try outputEnumerationTag(allocator, name, constructor.tag);
+        defer allocator.free(enumeration_tag);
 
-fn outputOpenNames(allocator: mem.Allocator, names: []const []const u8) ![]const u8 {
-    var translated_names = try allocator.alloc([]const u8, names.len);
-    defer utilities.freeStringArray(allocator, translated_names);
+        try lines.append(try fmt.allocPrint(allocator, "    case {s}:", .{enumeration_tag}));
 
-    for (names, 0..) |name, i| translated_names[i] = try allocator.dupe(u8, translateName(name));
+        if (constructor.parameter == .empty) {
+            try lines.append(try fmt.allocPrint(
+                allocator,
+                "        return {{{s}: value.{s}}};",
+                .{ tag_field, tag_field },
+            ));
+        } else {
+            const data_output = try getEncodedValue(
+                allocator,
+                options,
+                constructor.parameter,
+                "value.data",
+            );
+            defer allocator.free(data_output);
 
-    const joined_names = try mem.join(allocator, ", ", translated_names);
-    defer allocator.free(joined_names);
+            try lines.append(try fmt.allocPrint(
+                allocator,
+                "        return {{{s}: value.{s}, data: {s}}};",
+                .{ tag_field, tag_field, data_output },
+            ));
+        }
+    }
 
-    return try fmt.allocPrint(allocator, "<{s}>", .{joined_names});
-}
+    try lines.append(try allocator.dupe(u8, "}"));
 
-fn translateName(name: []const u8) []const u8 {
-    return if (mem.eql(u8, name, "String"))
-        "string"
-    else if (general.isNumberType(name))
-        "number"
-    else if (mem.eql(u8, name, "Boolean"))
-        "boolean"
-    else
-        name;
+    return try outputEncoderFunction(allocator, name, open_names, lines.items);
 }
 
-fn translateReference(
+fn outputEncoderForEmbeddedUnion(
     allocator: mem.Allocator,
-    reference: TypeReference,
-) error{OutOfMemory}![]const u8 {
-    return switch (reference) {
-        .builtin => |b| switch (b) {
-            .String => try allocator.dupe(u8, "string"),
-            .Boolean => try allocator.dupe(u8, "boolean"),
-            .U8,
-            .U16,
-            .U32,
-            .U64,
-            .U128,
-            .I8,
-            .I16,
-            .I32,
-            .I64,
-            .I128,
-            .F32,
-            .F64,
-            .F128,
-            => try allocator.dupe(u8, "number"),
-        },
-        .definition => |d| try allocator.dupe(u8, d.name().value),
-        .imported_definition => |id| id: {
-            const name = id.definition.name().value;
-            _ = name;
+    options: CompilationOptions,
+    embedded: EmbeddedUnion,
+) ![]const u8 {
+    const name = embedded.name.value;
+    const tag_field = embedded.tag_field;
+
+    var lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(lines);
 
-            break :id try fmt.allocPrint(
+    try lines.append(try fmt.allocPrint(allocator, "switch (value.{s}) {{", .{tag_field}));
+
+    for (embedded.constructors) |constructor| {
+        const enumeration_tag = try outputEnumerationTag(allocator, name, constructor.tag);
+        defer allocator.free(enumeration_tag);
+
+        try lines.append(try fmt.allocPrint(allocator, "    case {s}:", .{enumeration_tag}));
+
+        const fields = if (constructor.parameter) |parameter| switch (parameter) {
+            .plain => |p| p.fields,
+            .generic => |g| g.fields,
+        } else &[_]Field{};
+
+        if (fields.len == 0) {
+            try lines.append(try fmt.allocPrint(
                 allocator,
-                "{s}.{s}",
-                .{ id.import_name, id.definition.name().value },
-            );
-        },
-        .applied_name => |applied_name| output: {
-            const open_names = try outputAppliedOpenNames(
+                "        return {{{s}: value.{s}}};",
+                .{ tag_field, tag_field },
+            ));
+        } else {
+            const fields_output = try getEncodedFields(allocator, options, fields);
+            defer allocator.free(fields_output);
+
+            try lines.append(try fmt.allocPrint(
                 allocator,
-                applied_name.open_names,
-            );
-            defer allocator.free(open_names);
+                "        return {{{s}: value.{s}, {s}}};",
+                .{ tag_field, tag_field, fields_output },
+            ));
+        }
+    }
 
-            const reference_output = try translateReference(
-                allocator,
-                applied_name.reference.*,
-            );
-            defer allocator.free(reference_output);
+    try lines.append(try allocator.dupe(u8, "}"));
 
-            break :output try fmt.allocPrint(
-                allocator,
-                "{s}{s}",
-                .{ reference_output, open_names },
-            );
-        },
-        .loose => |l| try allocator.dupe(u8, l.name),
-        .open => |n| try allocator.dupe(u8, n),
-    };
+    return try outputEncoderFunction(allocator, name, &[_][]const u8{}, lines.items);
 }
 
-fn outputAppliedOpenNames(
+/// Untagged unions have no tag to switch on, so the type guards for the values are used to find
+/// out which encoder to apply. Values that are already in their wire representation are returned
+/// as they are.
+fn outputEncoderForUntaggedUnion(
     allocator: mem.Allocator,
-    applied_open_names: []const AppliedOpenName,
-) error{OutOfMemory}![]const u8 {
-    var outputs = try allocator.alloc([]const u8, applied_open_names.len);
-    defer utilities.freeStringArray(allocator, outputs);
+    options: CompilationOptions,
+    u: UntaggedUnion,
+) ![]const u8 {
+    var lines = ArrayList([]const u8).init(allocator);
+    defer utilities.freeStringList(lines);
 
-    for (applied_open_names, 0..) |name, i| {
-        outputs[i] = (try outputType(allocator, name.reference)).?;
+    for (u.values) |value| {
+        if (!encoderNeeded(options, Type{ .reference = value.reference })) continue;
+
+        const type_guard = try translatedTypeGuardReference(allocator, value.reference);
+        defer allocator.free(type_guard);
+
+        const encoder = try translatedEncoderReference(allocator, options, value.reference);
+        defer allocator.free(encoder);
+
+        try lines.append(try fmt.allocPrint(allocator, "if ({s}(value)) {{", .{type_guard}));
+        try lines.append(try fmt.allocPrint(allocator, "    return {s}(value);", .{encoder}));
+        try lines.append(try allocator.dupe(u8, "}"));
+        try lines.append(try allocator.dupe(u8, ""));
     }
 
-    const joined_outputs = try mem.join(allocator, ", ", outputs);
-    defer allocator.free(joined_outputs);
+    try lines.append(try allocator.dupe(u8, "return value;"));
 
-    return try fmt.allocPrint(allocator, "<{s}>", .{joined_outputs});
+    return try outputEncoderFunction(allocator, u.name.value, &[_][]const u8{}, lines.items);
 }
 
-fn translatedTypeGuardName(allocator: mem.Allocator, name: []const u8) ![]const u8 {
-    return if (mem.eql(u8, name, "String"))
-        try allocator.dupe(u8, "svt.isString")
-    else if (general.isNumberType(name))
-        try allocator.dupe(u8, "svt.isNumber")
-    else if (mem.eql(u8, name, "Boolean"))
-        try allocator.dupe(u8, "svt.isBoolean")
-    else
-        try fmt.allocPrint(allocator, "is{s}", .{name});
+fn getEncodedFields(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    fields: []const Field,
+) ![]const u8 {
+    var outputs = try allocator.alloc([]const u8, fields.len);
+    defer utilities.freeStringArray(allocator, outputs);
+
+    for (fields, 0..) |field, i| {
+        const value_output = try fmt.allocPrint(allocator, "value.{s}", .{field.codeName()});
+        defer allocator.free(value_output);
+
+        const encoded_output = if (field.optional_key and encoderNeeded(options, field.type))
+            try getEncodedOptionalKeyValue(allocator, options, field.type, value_output)
+        else
+            try getEncodedValue(allocator, options, field.type, value_output);
+        defer allocator.free(encoded_output);
+
+        outputs[i] = try fmt.allocPrint(allocator, "{s}: {s}", .{ field.name, encoded_output });
+    }
+
+    return try mem.join(allocator, ", ", outputs);
 }
 
-fn translatedTypeGuardReference(
+/// Outputs an expression encoding `value`, which is just `value` itself when the type is already
+/// in its wire representation.
+fn getEncodedValue(
     allocator: mem.Allocator,
-    reference: TypeReference,
-) error{OutOfMemory}![]const u8 {
-    return switch (reference) {
-        .builtin => |b| switch (b) {
-            .String => try allocator.dupe(u8, "svt.isString"),
-            .Boolean => try allocator.dupe(u8, "svt.isBoolean"),
-            .U8,
-            .U16,
-            .U32,
-            .U64,
-            .U128,
-            .I8,
-            .I16,
-            .I32,
-            .I64,
-            .I128,
-            .F32,
-            .F64,
-            .F128,
-            => try allocator.dupe(u8, "svt.isNumber"),
-        },
-
-        .definition => |d| try fmt.allocPrint(allocator, "is{s}", .{d.name().value}),
+    options: CompilationOptions,
+    t: Type,
+    value: []const u8,
+) ![]const u8 {
+    if (!encoderNeeded(options, t)) return try allocator.dupe(u8, value);
 
-        .imported_definition => |id| try fmt.allocPrint(
-            allocator,
-            "{s}.is{s}",
-            .{ id.import_name, id.definition.name().value },
-        ),
+    const encoder = try getEncoderFromType(allocator, options, t);
+    defer allocator.free(encoder);
 
-        .applied_name => |applied_name| output: {
-            const open_name_predicates = try appliedOpenNamePredicates(allocator, applied_name.open_names);
-            defer utilities.freeStringArray(allocator, open_name_predicates);
+    return try fmt.allocPrint(allocator, "{s}({s})", .{ encoder, value });
+}
 
-            const joined_predicates = try mem.join(allocator, ", ", open_name_predicates);
-            defer allocator.free(joined_predicates);
+/// Left out keys have to stay `undefined` when encoded, as opposed to becoming `null`.
+fn getEncodedOptionalKeyValue(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    t: Type,
+    value: []const u8,
+) ![]const u8 {
+    const encoder = try getEncoderFromType(allocator, options, t);
+    defer allocator.free(encoder);
 
-            const reference_predicate = try translatedTypeGuardReference(
-                allocator,
-                applied_name.reference.*,
-            );
-            defer allocator.free(reference_predicate);
+    return try fmt.allocPrint(allocator, "optionalKeyToJson({s})({s})", .{ encoder, value });
+}
 
-            break :output try fmt.allocPrint(
-                allocator,
-                "{s}({s})",
-                .{ reference_predicate, joined_predicates },
-            );
+/// Whether values of a type can be different from their wire representation. References to other
+/// definitions are assumed to need encoding, with the exception of enumerations.
+fn encoderNeeded(options: CompilationOptions, t: Type) bool {
+    return switch (t) {
+        .empty, .string => false,
+        .reference => |r| switch (r) {
+            .builtin => |b| isBigIntBuiltin(b) or (options.date_objects and isDateBuiltin(b)),
+            .definition => |d| d != .declaration,
+            .imported_definition => |id| id.definition != .declaration,
+            .applied_name => |applied_name| !isDeclarationReference(applied_name.reference.*),
+            .loose, .open => true,
         },
-
-        .loose => |l| try fmt.allocPrint(allocator, "is{s}", .{l.name}),
-        .open => |n| try fmt.allocPrint(allocator, "is{s}", .{n}),
+        .array => |a| encoderNeeded(options, a.type.*),
+        .slice => |s| encoderNeeded(options, s.type.*),
+        .pointer => |p| encoderNeeded(options, p.type.*),
+        .optional => |o| encoderNeeded(options, o.type.*),
+        // keys are always strings on the wire, so only the values can need encoding
+        .map => |m| encoderNeeded(options, m.value.*),
     };
 }
 
-fn appliedOpenNamePredicates(
+/// Refers to `prefix` followed by the name of an imported definition, qualified with the name its
+/// module was imported as unless the definition was imported by name.
+fn outputImportedReference(
     allocator: mem.Allocator,
-    applied_open_names: []const AppliedOpenName,
-) error{OutOfMemory}![]const []const u8 {
-    var outputs = try allocator.alloc([]const u8, applied_open_names.len);
+    id: ImportedDefinition,
+    prefix: []const u8,
+) ![]const u8 {
+    const name = id.definition.name().value;
 
-    for (applied_open_names, 0..) |name, i| {
-        outputs[i] = try getTypeGuardFromType(allocator, name.reference);
-    }
+    return if (id.qualifier()) |qualifier|
+        try fmt.allocPrint(allocator, "{s}.{s}{s}", .{ qualifier, prefix, name })
+    else
+        try fmt.allocPrint(allocator, "{s}{s}", .{ prefix, name });
+}
 
-    return outputs;
+/// Declared types are defined outside of gotyno and are expected to be serializable as they are.
+fn isDeclarationReference(reference: TypeReference) bool {
+    return switch (reference) {
+        .definition => |d| d == .declaration,
+        .imported_definition => |id| id.definition == .declaration,
+        else => false,
+    };
 }
 
-fn translatedValidatorName(allocator: mem.Allocator, name: []const u8) ![]const u8 {
-    return if (mem.eql(u8, name, "String"))
-        try allocator.dupe(u8, "svt.validateString")
-    else if (general.isNumberType(name))
-        try allocator.dupe(u8, "svt.validateNumber")
-    else if (mem.eql(u8, name, "Boolean"))
-        try allocator.dupe(u8, "svt.validateBoolean")
-    else
-        try fmt.allocPrint(allocator, "validate{s}", .{name});
+fn getEncoderFromType(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    t: Type,
+) error{OutOfMemory}![]const u8 {
+    return switch (t) {
+        .empty => debug.panic("Empty type is not valid for encoder\n", .{}),
+        .string => try allocator.dupe(u8, "svt.basicToJson"),
+        .reference => |r| try translatedEncoderReference(allocator, options, r),
+        .array => |a| try getNestedEncoderFromType(allocator, options, "svt.arrayToJson", a.type.*),
+        .slice => |s| try getNestedEncoderFromType(allocator, options, "svt.arrayToJson", s.type.*),
+        .pointer => |p| try getEncoderFromType(allocator, options, p.type.*),
+        .optional => |o| try getNestedEncoderFromType(
+            allocator,
+            options,
+            "svt.optionalToJson",
+            o.type.*,
+        ),
+        .map => |m| try getNestedEncoderFromType(allocator, options, "mapToJson", m.value.*),
+    };
 }
 
-fn translatedValidatorReference(
+fn getNestedEncoderFromType(
+    allocator: mem.Allocator,
+    options: CompilationOptions,
+    encoder: []const u8,
+    t: Type,
+) error{OutOfMemory}![]const u8 {
+    const nested_encoder = try getEncoderFromType(allocator, options, t);
+    defer allocator.free(nested_encoder);
+
+    return try fmt.allocPrint(allocator, "{s}({s})", .{ encoder, nested_encoder });
+}
+
+fn translatedEncoderReference(
     allocator: mem.Allocator,
+    options: CompilationOptions,
     reference: TypeReference,
 ) error{OutOfMemory}![]const u8 {
-    const format = "validate{s}";
+    const format = "encode{s}";
+
+    if (isDeclarationReference(reference)) return try allocator.dupe(u8, "encodeUnchanged");
 
     return switch (reference) {
-        .builtin => |b| switch (b) {
-            .String => try allocator.dupe(u8, "svt.validateString"),
-            .Boolean => try allocator.dupe(u8, "svt.validateBoolean"),
-            .U8,
-            .U16,
-            .U32,
-            .U64,
-            .U128,
-            .I8,
-            .I16,
-            .I32,
-            .I64,
-            .I128,
-            .F32,
-            .F64,
-            .F128,
-            => try allocator.dupe(u8, "svt.validateNumber"),
-        },
+        .builtin => |b| if (isBigIntBuiltin(b))
+            try allocator.dupe(u8, "encodeBigInt")
+        else if (options.date_objects and isDateBuiltin(b))
+            try fmt.allocPrint(allocator, "encode{s}", .{b.toString()})
+        else
+            try allocator.dupe(u8, "svt.basicToJson"),
 
         .definition => |d| try fmt.allocPrint(allocator, format, .{d.name().value}),
 
-        .imported_definition => |id| try fmt.allocPrint(
-            allocator,
-            "{s}.validate{s}",
-            .{ id.import_name, id.definition.name().value },
-        ),
+        .imported_definition => |id| try outputImportedReference(allocator, id, "encode"),
 
         .applied_name => |applied_name| output: {
-            const open_name_validators = try appliedOpenNameValidators(allocator, applied_name.open_names);
-            defer utilities.freeStringArray(allocator, open_name_validators);
+            if (isDeclarationReference(applied_name.reference.*)) {
+                break :output try allocator.dupe(u8, "encodeUnchanged");
+            }
 
-            const joined_validators = try mem.join(allocator, ", ", open_name_validators);
-            defer allocator.free(joined_validators);
+            var open_name_encoders = try allocator.alloc([]const u8, applied_name.open_names.len);
+            defer utilities.freeStringArray(allocator, open_name_encoders);
 
-            const reference_validator = try translatedValidatorReference(
+            for (applied_name.open_names, 0..) |name, i| {
+                open_name_encoders[i] = try getEncoderFromType(allocator, options, name.reference);
+            }
+
+            const joined_encoders = try mem.join(allocator, ", ", open_name_encoders);
+            defer allocator.free(joined_encoders);
+
+            const reference_encoder = try translatedEncoderReference(
                 allocator,
+                options,
                 applied_name.reference.*,
             );
-            defer allocator.free(reference_validator);
+            defer allocator.free(reference_encoder);
 
             break :output try fmt.allocPrint(
                 allocator,
                 "{s}({s})",
-                .{ reference_validator, joined_validators },
+                .{ reference_encoder, joined_encoders },
             );
         },
 
@@ -2736,19 +5902,6 @@ fn translatedValidatorReference(
     };
 }
 
-fn appliedOpenNameValidators(
-    allocator: mem.Allocator,
-    applied_open_names: []const AppliedOpenName,
-) error{OutOfMemory}![]const []const u8 {
-    var outputs = try allocator.alloc([]const u8, applied_open_names.len);
-
-    for (applied_open_names, 0..) |name, i| {
-        outputs[i] = try getValidatorFromType(allocator, name.reference);
-    }
-
-    return outputs;
-}
-
 test {
     const typescript_tests = @import("typescript_tests.zig");
 
@@ -1,5 +1,6 @@
 const std = @import("std");
 const mem = std.mem;
+const heap = std.heap;
 const testing = std.testing;
 const debug = std.debug;
 
@@ -57,16 +58,24 @@ test "Outputs `Person` struct correctly" {
         \\    efficiency: number;
         \\    on_vacation: boolean;
         \\    hobbies: string[];
-        \\    last_fifteen_comments: string[];
+        \\    last_fifteen_comments: string[] & {length: 15};
         \\    recruiter: Person | null | undefined;
         \\};
         \\
         \\export function isPerson(value: unknown): value is Person {
-        \\    return svt.isInterface<Person>(value, {type: "Person", name: svt.isString, age: svt.isNumber, efficiency: svt.isNumber, on_vacation: svt.isBoolean, hobbies: svt.arrayOf(svt.isString), last_fifteen_comments: svt.arrayOf(svt.isString), recruiter: svt.optional(isPerson)});
+        \\    return svt.isInterface<Person>(value, {type: "Person", name: svt.isString, age: isIntegerInRange(0, 255), efficiency: isFiniteNumber, on_vacation: svt.isBoolean, hobbies: svt.arrayOf(svt.isString), last_fifteen_comments: isArrayOfLength(15, svt.isString), recruiter: svt.optional(isPerson)});
         \\}
         \\
         \\export function validatePerson(value: unknown): svt.ValidationResult<Person> {
-        \\    return svt.validate<Person>(value, {type: "Person", name: svt.validateString, age: svt.validateNumber, efficiency: svt.validateNumber, on_vacation: svt.validateBoolean, hobbies: svt.validateArray(svt.validateString), last_fifteen_comments: svt.validateArray(svt.validateString), recruiter: svt.validateOptional(validatePerson)});
+        \\    return svt.validate<Person>(value, {type: "Person", name: svt.validateString, age: validateIntegerInRange(0, 255), efficiency: validateFiniteNumber, on_vacation: svt.validateBoolean, hobbies: svt.validateArray(svt.validateString), last_fifteen_comments: validateArrayOfLength(15, svt.validateString), recruiter: svt.validateOptional(validatePerson)});
+        \\}
+        \\
+        \\export function encodePerson(value: Person): unknown {
+        \\    return {type: value.type, name: value.name, age: value.age, efficiency: value.efficiency, on_vacation: value.on_vacation, hobbies: value.hobbies, last_fifteen_comments: value.last_fifteen_comments, recruiter: svt.optionalToJson(encodePerson)(value.recruiter)};
+        \\}
+        \\
+        \\export function decodePerson(json: unknown): svt.ValidationResult<Person> {
+        \\    return validatePerson(json);
         \\}
     ;
 
@@ -83,6 +92,7 @@ test "Outputs `Person` struct correctly" {
 
     const output = try typescript.outputPlainStructure(
         &allocator.allocator,
+        .{},
         (definitions).definitions[0].structure.plain,
     );
 
@@ -113,6 +123,16 @@ test "Outputs `Node` struct correctly" {
         \\        return svt.validate<Node<T, U>>(value, {data: validateT, otherData: validateU});
         \\    };
         \\}
+        \\
+        \\export function encodeNode<T, U>(encodeT: svt.ToJSON<T>, encodeU: svt.ToJSON<U>): svt.ToJSON<Node<T, U>> {
+        \\    return function encodeNodeTU(value: Node<T, U>): unknown {
+        \\        return {data: encodeT(value.data), otherData: encodeU(value.otherData)};
+        \\    };
+        \\}
+        \\
+        \\export function decodeNode<T, U>(decodeT: svt.Validator<T>, decodeU: svt.Validator<U>): svt.Validator<Node<T, U>> {
+        \\    return validateNode(decodeT, decodeU);
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -128,6 +148,7 @@ test "Outputs `Node` struct correctly" {
 
     const output = try typescript.outputGenericStructure(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].structure.generic,
     );
 
@@ -169,7 +190,7 @@ test "Outputs `Event` union correctly" {
         \\
         \\export type SetEmails = {
         \\    type: EventTag.SetEmails;
-        \\    data: Email[];
+        \\    data: Email[] & {length: 5};
         \\};
         \\
         \\export type Close = {
@@ -188,7 +209,7 @@ test "Outputs `Event` union correctly" {
         \\    return {type: EventTag.JoinChannels, data};
         \\}
         \\
-        \\export function SetEmails(data: Email[]): SetEmails {
+        \\export function SetEmails(data: Email[] & {length: 5}): SetEmails {
         \\    return {type: EventTag.SetEmails, data};
         \\}
         \\
@@ -213,7 +234,7 @@ test "Outputs `Event` union correctly" {
         \\}
         \\
         \\export function isSetEmails(value: unknown): value is SetEmails {
-        \\    return svt.isInterface<SetEmails>(value, {type: EventTag.SetEmails, data: svt.arrayOf(isEmail)});
+        \\    return svt.isInterface<SetEmails>(value, {type: EventTag.SetEmails, data: isArrayOfLength(5, isEmail)});
         \\}
         \\
         \\export function isClose(value: unknown): value is Close {
@@ -237,12 +258,69 @@ test "Outputs `Event` union correctly" {
         \\}
         \\
         \\export function validateSetEmails(value: unknown): svt.ValidationResult<SetEmails> {
-        \\    return svt.validate<SetEmails>(value, {type: EventTag.SetEmails, data: svt.validateArray(validateEmail)});
+        \\    return svt.validate<SetEmails>(value, {type: EventTag.SetEmails, data: validateArrayOfLength(5, validateEmail)});
         \\}
         \\
         \\export function validateClose(value: unknown): svt.ValidationResult<Close> {
         \\    return svt.validate<Close>(value, {type: EventTag.Close});
         \\}
+        \\
+        \\export function encodeEvent(value: Event): unknown {
+        \\    switch (value.type) {
+        \\        case EventTag.LogIn:
+        \\            return {type: value.type, data: encodeLogInData(value.data)};
+        \\        case EventTag.LogOut:
+        \\            return {type: value.type, data: encodeUserId(value.data)};
+        \\        case EventTag.JoinChannels:
+        \\            return {type: value.type, data: svt.arrayToJson(encodeChannel)(value.data)};
+        \\        case EventTag.SetEmails:
+        \\            return {type: value.type, data: svt.arrayToJson(encodeEmail)(value.data)};
+        \\        case EventTag.Close:
+        \\            return {type: value.type};
+        \\    }
+        \\}
+        \\
+        \\export function decodeEvent(json: unknown): svt.ValidationResult<Event> {
+        \\    return validateEvent(json);
+        \\}
+        \\
+        \\export type EventCases<R> = {
+        \\    LogIn: (data: LogInData) => R;
+        \\    LogOut: (data: UserId) => R;
+        \\    JoinChannels: (data: Channel[]) => R;
+        \\    SetEmails: (data: Email[] & {length: 5}) => R;
+        \\    Close: () => R;
+        \\};
+        \\
+        \\export function matchEvent<R>(value: Event, cases: EventCases<R>): R {
+        \\    switch (value.type) {
+        \\        case EventTag.LogIn:
+        \\            return cases.LogIn(value.data);
+        \\        case EventTag.LogOut:
+        \\            return cases.LogOut(value.data);
+        \\        case EventTag.JoinChannels:
+        \\            return cases.JoinChannels(value.data);
+        \\        case EventTag.SetEmails:
+        \\            return cases.SetEmails(value.data);
+        \\        case EventTag.Close:
+        \\            return cases.Close();
+        \\    }
+        \\}
+        \\
+        \\export function matchEventPartially<R>(value: Event, cases: Partial<EventCases<R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case EventTag.LogIn:
+        \\            return cases.LogIn !== undefined ? cases.LogIn(value.data) : cases._();
+        \\        case EventTag.LogOut:
+        \\            return cases.LogOut !== undefined ? cases.LogOut(value.data) : cases._();
+        \\        case EventTag.JoinChannels:
+        \\            return cases.JoinChannels !== undefined ? cases.JoinChannels(value.data) : cases._();
+        \\        case EventTag.SetEmails:
+        \\            return cases.SetEmails !== undefined ? cases.SetEmails(value.data) : cases._();
+        \\        case EventTag.Close:
+        \\            return cases.Close !== undefined ? cases.Close() : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -258,6 +336,7 @@ test "Outputs `Event` union correctly" {
 
     const output = try typescript.outputPlainUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[4].@"union".plain,
     );
 
@@ -327,6 +406,44 @@ test "Outputs `Maybe` union correctly" {
         \\export function validateNothing(value: unknown): svt.ValidationResult<nothing> {
         \\    return svt.validate<nothing>(value, {type: MaybeTag.nothing});
         \\}
+        \\
+        \\export function encodeMaybe<T>(encodeT: svt.ToJSON<T>): svt.ToJSON<Maybe<T>> {
+        \\    return function encodeMaybeT(value: Maybe<T>): unknown {
+        \\        switch (value.type) {
+        \\            case MaybeTag.just:
+        \\                return {type: value.type, data: encodeT(value.data)};
+        \\            case MaybeTag.nothing:
+        \\                return {type: value.type};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeMaybe<T>(decodeT: svt.Validator<T>): svt.Validator<Maybe<T>> {
+        \\    return validateMaybe(decodeT);
+        \\}
+        \\
+        \\export type MaybeCases<T, R> = {
+        \\    just: (data: T) => R;
+        \\    nothing: () => R;
+        \\};
+        \\
+        \\export function matchMaybe<T, R>(value: Maybe<T>, cases: MaybeCases<T, R>): R {
+        \\    switch (value.type) {
+        \\        case MaybeTag.just:
+        \\            return cases.just(value.data);
+        \\        case MaybeTag.nothing:
+        \\            return cases.nothing();
+        \\    }
+        \\}
+        \\
+        \\export function matchMaybePartially<T, R>(value: Maybe<T>, cases: Partial<MaybeCases<T, R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case MaybeTag.just:
+        \\            return cases.just !== undefined ? cases.just(value.data) : cases._();
+        \\        case MaybeTag.nothing:
+        \\            return cases.nothing !== undefined ? cases.nothing() : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -342,6 +459,7 @@ test "Outputs `Maybe` union correctly" {
 
     const output = try typescript.outputGenericUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].@"union".generic,
     );
 
@@ -416,6 +534,44 @@ test "Outputs `Either` union correctly" {
         \\        return svt.validate<Right<T>>(value, {type: EitherTag.Right, data: validateT});
         \\    };
         \\}
+        \\
+        \\export function encodeEither<E, T>(encodeE: svt.ToJSON<E>, encodeT: svt.ToJSON<T>): svt.ToJSON<Either<E, T>> {
+        \\    return function encodeEitherET(value: Either<E, T>): unknown {
+        \\        switch (value.type) {
+        \\            case EitherTag.Left:
+        \\                return {type: value.type, data: encodeE(value.data)};
+        \\            case EitherTag.Right:
+        \\                return {type: value.type, data: encodeT(value.data)};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeEither<E, T>(decodeE: svt.Validator<E>, decodeT: svt.Validator<T>): svt.Validator<Either<E, T>> {
+        \\    return validateEither(decodeE, decodeT);
+        \\}
+        \\
+        \\export type EitherCases<E, T, R> = {
+        \\    Left: (data: E) => R;
+        \\    Right: (data: T) => R;
+        \\};
+        \\
+        \\export function matchEither<E, T, R>(value: Either<E, T>, cases: EitherCases<E, T, R>): R {
+        \\    switch (value.type) {
+        \\        case EitherTag.Left:
+        \\            return cases.Left(value.data);
+        \\        case EitherTag.Right:
+        \\            return cases.Right(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchEitherPartially<E, T, R>(value: Either<E, T>, cases: Partial<EitherCases<E, T, R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case EitherTag.Left:
+        \\            return cases.Left !== undefined ? cases.Left(value.data) : cases._();
+        \\        case EitherTag.Right:
+        \\            return cases.Right !== undefined ? cases.Right(value.data) : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -431,6 +587,7 @@ test "Outputs `Either` union correctly" {
 
     const output = try typescript.outputGenericUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].@"union".generic,
     );
 
@@ -456,6 +613,14 @@ test "Outputs struct with concrete `Maybe` correctly" {
         \\export function validateWithMaybe(value: unknown): svt.ValidationResult<WithMaybe> {
         \\    return svt.validate<WithMaybe>(value, {field: validateMaybe(svt.validateString)});
         \\}
+        \\
+        \\export function encodeWithMaybe(value: WithMaybe): unknown {
+        \\    return {field: encodeMaybe(svt.basicToJson)(value.field)};
+        \\}
+        \\
+        \\export function decodeWithMaybe(json: unknown): svt.ValidationResult<WithMaybe> {
+        \\    return validateWithMaybe(json);
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -471,6 +636,7 @@ test "Outputs struct with concrete `Maybe` correctly" {
 
     const output = try typescript.outputPlainStructure(
         &allocator.allocator,
+        .{},
         definitions.definitions[1].structure.plain,
     );
 
@@ -563,6 +729,51 @@ test "Outputs struct with different `Maybe`s correctly" {
         \\        return svt.validate<WithBare<E>>(value, {type: WithMaybeTag.WithBare, data: validateE});
         \\    };
         \\}
+        \\
+        \\export function encodeWithMaybe<T, E>(encodeT: svt.ToJSON<T>, encodeE: svt.ToJSON<E>): svt.ToJSON<WithMaybe<T, E>> {
+        \\    return function encodeWithMaybeTE(value: WithMaybe<T, E>): unknown {
+        \\        switch (value.type) {
+        \\            case WithMaybeTag.WithConcrete:
+        \\                return {type: value.type, data: encodeMaybe(svt.basicToJson)(value.data)};
+        \\            case WithMaybeTag.WithGeneric:
+        \\                return {type: value.type, data: encodeMaybe(encodeT)(value.data)};
+        \\            case WithMaybeTag.WithBare:
+        \\                return {type: value.type, data: encodeE(value.data)};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeWithMaybe<T, E>(decodeT: svt.Validator<T>, decodeE: svt.Validator<E>): svt.Validator<WithMaybe<T, E>> {
+        \\    return validateWithMaybe(decodeT, decodeE);
+        \\}
+        \\
+        \\export type WithMaybeCases<T, E, R> = {
+        \\    WithConcrete: (data: Maybe<string>) => R;
+        \\    WithGeneric: (data: Maybe<T>) => R;
+        \\    WithBare: (data: E) => R;
+        \\};
+        \\
+        \\export function matchWithMaybe<T, E, R>(value: WithMaybe<T, E>, cases: WithMaybeCases<T, E, R>): R {
+        \\    switch (value.type) {
+        \\        case WithMaybeTag.WithConcrete:
+        \\            return cases.WithConcrete(value.data);
+        \\        case WithMaybeTag.WithGeneric:
+        \\            return cases.WithGeneric(value.data);
+        \\        case WithMaybeTag.WithBare:
+        \\            return cases.WithBare(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchWithMaybePartially<T, E, R>(value: WithMaybe<T, E>, cases: Partial<WithMaybeCases<T, E, R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case WithMaybeTag.WithConcrete:
+        \\            return cases.WithConcrete !== undefined ? cases.WithConcrete(value.data) : cases._();
+        \\        case WithMaybeTag.WithGeneric:
+        \\            return cases.WithGeneric !== undefined ? cases.WithGeneric(value.data) : cases._();
+        \\        case WithMaybeTag.WithBare:
+        \\            return cases.WithBare !== undefined ? cases.WithBare(value.data) : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -578,6 +789,7 @@ test "Outputs struct with different `Maybe`s correctly" {
 
     const output = try typescript.outputGenericUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[1].@"union".generic,
     );
 
@@ -647,6 +859,44 @@ test "Outputs `List` union correctly" {
         \\        return svt.validate<Cons<T>>(value, {type: ListTag.Cons, data: validateList(validateT)});
         \\    };
         \\}
+        \\
+        \\export function encodeList<T>(encodeT: svt.ToJSON<T>): svt.ToJSON<List<T>> {
+        \\    return function encodeListT(value: List<T>): unknown {
+        \\        switch (value.type) {
+        \\            case ListTag.Empty:
+        \\                return {type: value.type};
+        \\            case ListTag.Cons:
+        \\                return {type: value.type, data: encodeList(encodeT)(value.data)};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeList<T>(decodeT: svt.Validator<T>): svt.Validator<List<T>> {
+        \\    return validateList(decodeT);
+        \\}
+        \\
+        \\export type ListCases<T, R> = {
+        \\    Empty: () => R;
+        \\    Cons: (data: List<T>) => R;
+        \\};
+        \\
+        \\export function matchList<T, R>(value: List<T>, cases: ListCases<T, R>): R {
+        \\    switch (value.type) {
+        \\        case ListTag.Empty:
+        \\            return cases.Empty();
+        \\        case ListTag.Cons:
+        \\            return cases.Cons(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchListPartially<T, R>(value: List<T>, cases: Partial<ListCases<T, R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case ListTag.Empty:
+        \\            return cases.Empty !== undefined ? cases.Empty() : cases._();
+        \\        case ListTag.Cons:
+        \\            return cases.Cons !== undefined ? cases.Cons(value.data) : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -662,6 +912,7 @@ test "Outputs `List` union correctly" {
 
     const output = try typescript.outputGenericUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].@"union".generic,
     );
 
@@ -681,11 +932,19 @@ test "Outputs struct with optional float value correctly" {
         \\};
         \\
         \\export function isWithOptionalFloat(value: unknown): value is WithOptionalFloat {
-        \\    return svt.isInterface<WithOptionalFloat>(value, {field: svt.optional(svt.isNumber)});
+        \\    return svt.isInterface<WithOptionalFloat>(value, {field: svt.optional(isFiniteNumber)});
         \\}
         \\
         \\export function validateWithOptionalFloat(value: unknown): svt.ValidationResult<WithOptionalFloat> {
-        \\    return svt.validate<WithOptionalFloat>(value, {field: svt.validateOptional(svt.validateNumber)});
+        \\    return svt.validate<WithOptionalFloat>(value, {field: svt.validateOptional(validateFiniteNumber)});
+        \\}
+        \\
+        \\export function encodeWithOptionalFloat(value: WithOptionalFloat): unknown {
+        \\    return {field: value.field};
+        \\}
+        \\
+        \\export function decodeWithOptionalFloat(json: unknown): svt.ValidationResult<WithOptionalFloat> {
+        \\    return validateWithOptionalFloat(json);
         \\}
     ;
 
@@ -702,6 +961,7 @@ test "Outputs struct with optional float value correctly" {
 
     const output = try typescript.outputPlainStructure(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].structure.plain,
     );
 
@@ -787,6 +1047,49 @@ test "lowercase plain union has correct output" {
         \\export function validateOriginal(value: unknown): svt.ValidationResult<original> {
         \\    return svt.validate<original>(value, {type: BackdropSizeTag.original});
         \\}
+        \\
+        \\export function encodeBackdropSize(value: BackdropSize): unknown {
+        \\    switch (value.type) {
+        \\        case BackdropSizeTag.w300:
+        \\            return {type: value.type};
+        \\        case BackdropSizeTag.w1280:
+        \\            return {type: value.type};
+        \\        case BackdropSizeTag.original:
+        \\            return {type: value.type};
+        \\    }
+        \\}
+        \\
+        \\export function decodeBackdropSize(json: unknown): svt.ValidationResult<BackdropSize> {
+        \\    return validateBackdropSize(json);
+        \\}
+        \\
+        \\export type BackdropSizeCases<R> = {
+        \\    w300: () => R;
+        \\    w1280: () => R;
+        \\    original: () => R;
+        \\};
+        \\
+        \\export function matchBackdropSize<R>(value: BackdropSize, cases: BackdropSizeCases<R>): R {
+        \\    switch (value.type) {
+        \\        case BackdropSizeTag.w300:
+        \\            return cases.w300();
+        \\        case BackdropSizeTag.w1280:
+        \\            return cases.w1280();
+        \\        case BackdropSizeTag.original:
+        \\            return cases.original();
+        \\    }
+        \\}
+        \\
+        \\export function matchBackdropSizePartially<R>(value: BackdropSize, cases: Partial<BackdropSizeCases<R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case BackdropSizeTag.w300:
+        \\            return cases.w300 !== undefined ? cases.w300() : cases._();
+        \\        case BackdropSizeTag.w1280:
+        \\            return cases.w1280 !== undefined ? cases.w1280() : cases._();
+        \\        case BackdropSizeTag.original:
+        \\            return cases.original !== undefined ? cases.original() : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -802,6 +1105,7 @@ test "lowercase plain union has correct output" {
 
     const output = try typescript.outputPlainUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].@"union".plain,
     );
 
@@ -830,12 +1134,26 @@ test "basic string-based enumeration is output correctly" {
         \\    original = "original",
         \\}
         \\
+        \\export const allBackdropSize: readonly BackdropSize[] = [BackdropSize.w300, BackdropSize.w1280, BackdropSize.original];
+        \\
         \\export function isBackdropSize(value: unknown): value is BackdropSize {
-        \\    return [BackdropSize.w300, BackdropSize.w1280, BackdropSize.original].some((v) => v === value);
+        \\    return allBackdropSize.some((v) => v === value);
         \\}
         \\
         \\export function validateBackdropSize(value: unknown): svt.ValidationResult<BackdropSize> {
-        \\    return svt.validateOneOfLiterals<BackdropSize>(value, [BackdropSize.w300, BackdropSize.w1280, BackdropSize.original]);
+        \\    return svt.validateOneOfLiterals<BackdropSize>(value, allBackdropSize);
+        \\}
+        \\
+        \\export function parseBackdropSize(value: string): BackdropSize | undefined {
+        \\    return allBackdropSize.find((v) => v === value);
+        \\}
+        \\
+        \\export function encodeBackdropSize(value: BackdropSize): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\export function decodeBackdropSize(json: unknown): svt.ValidationResult<BackdropSize> {
+        \\    return validateBackdropSize(json);
         \\}
     ;
 
@@ -851,6 +1169,7 @@ test "basic string-based enumeration is output correctly" {
 
     const output = try typescript.outputEnumeration(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].enumeration,
     );
 
@@ -885,11 +1204,27 @@ test "Basic untagged union is output correctly" {
         \\export type KnownFor = KnownForMovie | KnownForShow | string | number;
         \\
         \\export function isKnownFor(value: unknown): value is KnownFor {
-        \\    return [isKnownForMovie, isKnownForShow, svt.isString, svt.isNumber].some((typePredicate) => typePredicate(value));
+        \\    return [isKnownForMovie, isKnownForShow, svt.isString, isFiniteNumber].some((typePredicate) => typePredicate(value));
         \\}
         \\
         \\export function validateKnownFor(value: unknown): svt.ValidationResult<KnownFor> {
-        \\    return svt.validateOneOf<KnownFor>(value, [validateKnownForMovie, validateKnownForShow, svt.validateString, svt.validateNumber]);
+        \\    return svt.validateOneOf<KnownFor>(value, [validateKnownForMovie, validateKnownForShow, svt.validateString, validateFiniteNumber]);
+        \\}
+        \\
+        \\export function encodeKnownFor(value: KnownFor): unknown {
+        \\    if (isKnownForMovie(value)) {
+        \\        return encodeKnownForMovie(value);
+        \\    }
+        \\
+        \\    if (isKnownForShow(value)) {
+        \\        return encodeKnownForShow(value);
+        \\    }
+        \\
+        \\    return value;
+        \\}
+        \\
+        \\export function decodeKnownFor(json: unknown): svt.ValidationResult<KnownFor> {
+        \\    return validateKnownFor(json);
         \\}
     ;
 
@@ -905,6 +1240,7 @@ test "Basic untagged union is output correctly" {
 
     const output = try typescript.outputUntaggedUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[2].untagged_union,
     );
 
@@ -982,6 +1318,42 @@ test "Tagged union with tag specifier is output correctly" {
         \\export function validateKnownForShow(value: unknown): svt.ValidationResult<KnownForShow> {
         \\    return svt.validate<KnownForShow>(value, {kind: KnownForTag.KnownForShow, data: validateShow});
         \\}
+        \\
+        \\export function encodeKnownFor(value: KnownFor): unknown {
+        \\    switch (value.kind) {
+        \\        case KnownForTag.KnownForMovie:
+        \\            return {kind: value.kind, data: encodeMovie(value.data)};
+        \\        case KnownForTag.KnownForShow:
+        \\            return {kind: value.kind, data: encodeShow(value.data)};
+        \\    }
+        \\}
+        \\
+        \\export function decodeKnownFor(json: unknown): svt.ValidationResult<KnownFor> {
+        \\    return validateKnownFor(json);
+        \\}
+        \\
+        \\export type KnownForCases<R> = {
+        \\    KnownForMovie: (data: Movie) => R;
+        \\    KnownForShow: (data: Show) => R;
+        \\};
+        \\
+        \\export function matchKnownFor<R>(value: KnownFor, cases: KnownForCases<R>): R {
+        \\    switch (value.kind) {
+        \\        case KnownForTag.KnownForMovie:
+        \\            return cases.KnownForMovie(value.data);
+        \\        case KnownForTag.KnownForShow:
+        \\            return cases.KnownForShow(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchKnownForPartially<R>(value: KnownFor, cases: Partial<KnownForCases<R>> & {_: () => R}): R {
+        \\    switch (value.kind) {
+        \\        case KnownForTag.KnownForMovie:
+        \\            return cases.KnownForMovie !== undefined ? cases.KnownForMovie(value.data) : cases._();
+        \\        case KnownForTag.KnownForShow:
+        \\            return cases.KnownForShow !== undefined ? cases.KnownForShow(value.data) : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -996,6 +1368,7 @@ test "Tagged union with tag specifier is output correctly" {
 
     const output = try typescript.outputPlainUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[2].@"union".plain,
     );
 
@@ -1072,6 +1445,44 @@ test "Tagged generic union with tag specifier is output correctly" {
         \\export function validateNone(value: unknown): svt.ValidationResult<None> {
         \\    return svt.validate<None>(value, {kind: OptionTag.None});
         \\}
+        \\
+        \\export function encodeOption<T>(encodeT: svt.ToJSON<T>): svt.ToJSON<Option<T>> {
+        \\    return function encodeOptionT(value: Option<T>): unknown {
+        \\        switch (value.kind) {
+        \\            case OptionTag.Some:
+        \\                return {kind: value.kind, data: encodeT(value.data)};
+        \\            case OptionTag.None:
+        \\                return {kind: value.kind};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeOption<T>(decodeT: svt.Validator<T>): svt.Validator<Option<T>> {
+        \\    return validateOption(decodeT);
+        \\}
+        \\
+        \\export type OptionCases<T, R> = {
+        \\    Some: (data: T) => R;
+        \\    None: () => R;
+        \\};
+        \\
+        \\export function matchOption<T, R>(value: Option<T>, cases: OptionCases<T, R>): R {
+        \\    switch (value.kind) {
+        \\        case OptionTag.Some:
+        \\            return cases.Some(value.data);
+        \\        case OptionTag.None:
+        \\            return cases.None();
+        \\    }
+        \\}
+        \\
+        \\export function matchOptionPartially<T, R>(value: Option<T>, cases: Partial<OptionCases<T, R>> & {_: () => R}): R {
+        \\    switch (value.kind) {
+        \\        case OptionTag.Some:
+        \\            return cases.Some !== undefined ? cases.Some(value.data) : cases._();
+        \\        case OptionTag.None:
+        \\            return cases.None !== undefined ? cases.None() : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -1086,6 +1497,7 @@ test "Tagged generic union with tag specifier is output correctly" {
 
     const output = try typescript.outputGenericUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].@"union".generic,
     );
 
@@ -1161,7 +1573,7 @@ test "Union with embedded tag is output correctly" {
         \\}
         \\
         \\export function isWithTwo(value: unknown): value is WithTwo {
-        \\    return svt.isInterface<WithTwo>(value, {media_type: EmbeddedTag.WithTwo, field2: svt.isNumber, field3: svt.isBoolean});
+        \\    return svt.isInterface<WithTwo>(value, {media_type: EmbeddedTag.WithTwo, field2: isFiniteNumber, field3: svt.isBoolean});
         \\}
         \\
         \\export function isEmpty(value: unknown): value is Empty {
@@ -1177,12 +1589,55 @@ test "Union with embedded tag is output correctly" {
         \\}
         \\
         \\export function validateWithTwo(value: unknown): svt.ValidationResult<WithTwo> {
-        \\    return svt.validate<WithTwo>(value, {media_type: EmbeddedTag.WithTwo, field2: svt.validateNumber, field3: svt.validateBoolean});
+        \\    return svt.validate<WithTwo>(value, {media_type: EmbeddedTag.WithTwo, field2: validateFiniteNumber, field3: svt.validateBoolean});
         \\}
         \\
         \\export function validateEmpty(value: unknown): svt.ValidationResult<Empty> {
         \\    return svt.validate<Empty>(value, {media_type: EmbeddedTag.Empty});
         \\}
+        \\
+        \\export function encodeEmbedded(value: Embedded): unknown {
+        \\    switch (value.media_type) {
+        \\        case EmbeddedTag.WithOne:
+        \\            return {media_type: value.media_type, field1: value.field1};
+        \\        case EmbeddedTag.WithTwo:
+        \\            return {media_type: value.media_type, field2: value.field2, field3: value.field3};
+        \\        case EmbeddedTag.Empty:
+        \\            return {media_type: value.media_type};
+        \\    }
+        \\}
+        \\
+        \\export function decodeEmbedded(json: unknown): svt.ValidationResult<Embedded> {
+        \\    return validateEmbedded(json);
+        \\}
+        \\
+        \\export type EmbeddedCases<R> = {
+        \\    WithOne: (data: WithOne) => R;
+        \\    WithTwo: (data: WithTwo) => R;
+        \\    Empty: () => R;
+        \\};
+        \\
+        \\export function matchEmbedded<R>(value: Embedded, cases: EmbeddedCases<R>): R {
+        \\    switch (value.media_type) {
+        \\        case EmbeddedTag.WithOne:
+        \\            return cases.WithOne(value);
+        \\        case EmbeddedTag.WithTwo:
+        \\            return cases.WithTwo(value);
+        \\        case EmbeddedTag.Empty:
+        \\            return cases.Empty();
+        \\    }
+        \\}
+        \\
+        \\export function matchEmbeddedPartially<R>(value: Embedded, cases: Partial<EmbeddedCases<R>> & {_: () => R}): R {
+        \\    switch (value.media_type) {
+        \\        case EmbeddedTag.WithOne:
+        \\            return cases.WithOne !== undefined ? cases.WithOne(value) : cases._();
+        \\        case EmbeddedTag.WithTwo:
+        \\            return cases.WithTwo !== undefined ? cases.WithTwo(value) : cases._();
+        \\        case EmbeddedTag.Empty:
+        \\            return cases.Empty !== undefined ? cases.Empty() : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -1197,6 +1652,7 @@ test "Union with embedded tag is output correctly" {
 
     const output = try typescript.outputEmbeddedUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[2].@"union".embedded,
     );
 
@@ -1272,7 +1728,7 @@ test "Union with embedded tag and lowercase constructors is output correctly" {
         \\}
         \\
         \\export function isTv(value: unknown): value is tv {
-        \\    return svt.isInterface<tv>(value, {media_type: EmbeddedTag.tv, field2: svt.isNumber, field3: svt.isBoolean});
+        \\    return svt.isInterface<tv>(value, {media_type: EmbeddedTag.tv, field2: isFiniteNumber, field3: svt.isBoolean});
         \\}
         \\
         \\export function isEmpty(value: unknown): value is Empty {
@@ -1288,12 +1744,55 @@ test "Union with embedded tag and lowercase constructors is output correctly" {
         \\}
         \\
         \\export function validateTv(value: unknown): svt.ValidationResult<tv> {
-        \\    return svt.validate<tv>(value, {media_type: EmbeddedTag.tv, field2: svt.validateNumber, field3: svt.validateBoolean});
+        \\    return svt.validate<tv>(value, {media_type: EmbeddedTag.tv, field2: validateFiniteNumber, field3: svt.validateBoolean});
         \\}
         \\
         \\export function validateEmpty(value: unknown): svt.ValidationResult<Empty> {
         \\    return svt.validate<Empty>(value, {media_type: EmbeddedTag.Empty});
         \\}
+        \\
+        \\export function encodeEmbedded(value: Embedded): unknown {
+        \\    switch (value.media_type) {
+        \\        case EmbeddedTag.movie:
+        \\            return {media_type: value.media_type, field1: value.field1};
+        \\        case EmbeddedTag.tv:
+        \\            return {media_type: value.media_type, field2: value.field2, field3: value.field3};
+        \\        case EmbeddedTag.Empty:
+        \\            return {media_type: value.media_type};
+        \\    }
+        \\}
+        \\
+        \\export function decodeEmbedded(json: unknown): svt.ValidationResult<Embedded> {
+        \\    return validateEmbedded(json);
+        \\}
+        \\
+        \\export type EmbeddedCases<R> = {
+        \\    movie: (data: movie) => R;
+        \\    tv: (data: tv) => R;
+        \\    Empty: () => R;
+        \\};
+        \\
+        \\export function matchEmbedded<R>(value: Embedded, cases: EmbeddedCases<R>): R {
+        \\    switch (value.media_type) {
+        \\        case EmbeddedTag.movie:
+        \\            return cases.movie(value);
+        \\        case EmbeddedTag.tv:
+        \\            return cases.tv(value);
+        \\        case EmbeddedTag.Empty:
+        \\            return cases.Empty();
+        \\    }
+        \\}
+        \\
+        \\export function matchEmbeddedPartially<R>(value: Embedded, cases: Partial<EmbeddedCases<R>> & {_: () => R}): R {
+        \\    switch (value.media_type) {
+        \\        case EmbeddedTag.movie:
+        \\            return cases.movie !== undefined ? cases.movie(value) : cases._();
+        \\        case EmbeddedTag.tv:
+        \\            return cases.tv !== undefined ? cases.tv(value) : cases._();
+        \\        case EmbeddedTag.Empty:
+        \\            return cases.Empty !== undefined ? cases.Empty() : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -1308,6 +1807,7 @@ test "Union with embedded tag and lowercase constructors is output correctly" {
 
     const output = try typescript.outputEmbeddedUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[2].@"union".embedded,
     );
 
@@ -1347,6 +1847,7 @@ test "Imports are output correctly" {
 
     const output_1 = try typescript.outputImport(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].import,
     );
 
@@ -1354,6 +1855,7 @@ test "Imports are output correctly" {
 
     const output_2 = try typescript.outputImport(
         &allocator.allocator,
+        .{},
         definitions.definitions[1].import,
     );
 
@@ -1411,6 +1913,7 @@ test "Parsing an imported reference works even with nested ones" {
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
 
@@ -1433,10 +1936,19 @@ test "Parsing an imported reference works even with nested ones" {
         \\export function validateTwo(value: unknown): svt.ValidationResult<Two> {
         \\    return svt.validate<Two>(value, {fieldHolding: validateHoldsSomething(module1.validateMaybe(module1.validateEither(svt.validateString, validatePlainStruct)))});
         \\}
+        \\
+        \\export function encodeTwo(value: Two): unknown {
+        \\    return {fieldHolding: encodeHoldsSomething(module1.encodeMaybe(module1.encodeEither(svt.basicToJson, encodePlainStruct)))(value.fieldHolding)};
+        \\}
+        \\
+        \\export function decodeTwo(json: unknown): svt.ValidationResult<Two> {
+        \\    return validateTwo(json);
+        \\}
     ;
 
     const two_output = try typescript.outputPlainStructure(
         &allocator.allocator,
+        .{},
         module2.definitions[3].structure.plain,
     );
 
@@ -1477,6 +1989,7 @@ test "Parsing a slice type as an applied name works output correctly" {
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
 
@@ -1496,10 +2009,19 @@ test "Parsing a slice type as an applied name works output correctly" {
         \\export function validateHasMaybe(value: unknown): svt.ValidationResult<HasMaybe> {
         \\    return svt.validate<HasMaybe>(value, {field: validateMaybe(svt.validateArray(validatePlain))});
         \\}
+        \\
+        \\export function encodeHasMaybe(value: HasMaybe): unknown {
+        \\    return {field: encodeMaybe(svt.arrayToJson(encodePlain))(value.field)};
+        \\}
+        \\
+        \\export function decodeHasMaybe(json: unknown): svt.ValidationResult<HasMaybe> {
+        \\    return validateHasMaybe(json);
+        \\}
     ;
 
     const output = try typescript.outputPlainStructure(
         &allocator.allocator,
+        .{},
         module1.definitions[2].structure.plain,
     );
 
@@ -1547,6 +2069,7 @@ test "Parsing a slice type of an imported definition as an applied name works ou
         &allocator.allocator,
         &allocator.allocator,
         &buffers,
+        .{},
         &parsing_error,
     );
 
@@ -1569,10 +2092,19 @@ test "Parsing a slice type of an imported definition as an applied name works ou
         \\export function validateHasMaybe(value: unknown): svt.ValidationResult<HasMaybe> {
         \\    return svt.validate<HasMaybe>(value, {field: validateMaybe(svt.validateArray(module1.validatePlain))});
         \\}
+        \\
+        \\export function encodeHasMaybe(value: HasMaybe): unknown {
+        \\    return {field: encodeMaybe(svt.arrayToJson(module1.encodePlain))(value.field)};
+        \\}
+        \\
+        \\export function decodeHasMaybe(json: unknown): svt.ValidationResult<HasMaybe> {
+        \\    return validateHasMaybe(json);
+        \\}
     ;
 
     const output = try typescript.outputPlainStructure(
         &allocator.allocator,
+        .{},
         module2.definitions[2].structure.plain,
     );
 
@@ -1598,17 +2130,25 @@ test "Optional slice fields are valid and are output correctly" {
     const expected_output =
         \\export type Structure = {
         \\    field1: string[] | null | undefined;
-        \\    field2: string[][];
+        \\    field2: string[][] & {length: 5};
         \\    field3: string | null | undefined;
         \\    field4: (string | null | undefined)[];
         \\};
         \\
         \\export function isStructure(value: unknown): value is Structure {
-        \\    return svt.isInterface<Structure>(value, {field1: svt.optional(svt.arrayOf(svt.isString)), field2: svt.arrayOf(svt.arrayOf(svt.isString)), field3: svt.optional(svt.isString), field4: svt.arrayOf(svt.optional(svt.isString))});
+        \\    return svt.isInterface<Structure>(value, {field1: svt.optional(svt.arrayOf(svt.isString)), field2: isArrayOfLength(5, svt.arrayOf(svt.isString)), field3: svt.optional(svt.isString), field4: svt.arrayOf(svt.optional(svt.isString))});
         \\}
         \\
         \\export function validateStructure(value: unknown): svt.ValidationResult<Structure> {
-        \\    return svt.validate<Structure>(value, {field1: svt.validateOptional(svt.validateArray(svt.validateString)), field2: svt.validateArray(svt.validateArray(svt.validateString)), field3: svt.validateOptional(svt.validateString), field4: svt.validateArray(svt.validateOptional(svt.validateString))});
+        \\    return svt.validate<Structure>(value, {field1: svt.validateOptional(svt.validateArray(svt.validateString)), field2: validateArrayOfLength(5, svt.validateArray(svt.validateString)), field3: svt.validateOptional(svt.validateString), field4: svt.validateArray(svt.validateOptional(svt.validateString))});
+        \\}
+        \\
+        \\export function encodeStructure(value: Structure): unknown {
+        \\    return {field1: value.field1, field2: value.field2, field3: value.field3, field4: value.field4};
+        \\}
+        \\
+        \\export function decodeStructure(json: unknown): svt.ValidationResult<Structure> {
+        \\    return validateStructure(json);
         \\}
     ;
 
@@ -1625,6 +2165,7 @@ test "Optional slice fields are valid and are output correctly" {
 
     const output = try typescript.outputPlainStructure(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].structure.plain,
     );
 
@@ -1694,6 +2235,42 @@ test "Optional constructor parameters have correct translation" {
         \\export function validateTwo(value: unknown): svt.ValidationResult<Two> {
         \\    return svt.validate<Two>(value, {type: HasOptionalParametersTag.Two, data: svt.validateString});
         \\}
+        \\
+        \\export function encodeHasOptionalParameters(value: HasOptionalParameters): unknown {
+        \\    switch (value.type) {
+        \\        case HasOptionalParametersTag.One:
+        \\            return {type: value.type, data: value.data};
+        \\        case HasOptionalParametersTag.Two:
+        \\            return {type: value.type, data: value.data};
+        \\    }
+        \\}
+        \\
+        \\export function decodeHasOptionalParameters(json: unknown): svt.ValidationResult<HasOptionalParameters> {
+        \\    return validateHasOptionalParameters(json);
+        \\}
+        \\
+        \\export type HasOptionalParametersCases<R> = {
+        \\    One: (data: string | null | undefined) => R;
+        \\    Two: (data: string) => R;
+        \\};
+        \\
+        \\export function matchHasOptionalParameters<R>(value: HasOptionalParameters, cases: HasOptionalParametersCases<R>): R {
+        \\    switch (value.type) {
+        \\        case HasOptionalParametersTag.One:
+        \\            return cases.One(value.data);
+        \\        case HasOptionalParametersTag.Two:
+        \\            return cases.Two(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchHasOptionalParametersPartially<R>(value: HasOptionalParameters, cases: Partial<HasOptionalParametersCases<R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case HasOptionalParametersTag.One:
+        \\            return cases.One !== undefined ? cases.One(value.data) : cases._();
+        \\        case HasOptionalParametersTag.Two:
+        \\            return cases.Two !== undefined ? cases.Two(value.data) : cases._();
+        \\    }
+        \\}
     ;
 
     var parsing_error: ParsingError = undefined;
@@ -1709,6 +2286,7 @@ test "Optional constructor parameters have correct translation" {
 
     const output = try typescript.outputPlainUnion(
         &allocator.allocator,
+        .{},
         definitions.definitions[0].@"union".plain,
     );
 
@@ -1718,3 +2296,3704 @@ test "Optional constructor parameters have correct translation" {
     allocator.allocator.free(output);
     testing_utilities.expectNoLeaks(&allocator);
 }
+
+test "Fixed-length arrays are output with their length and helpers are only output when used" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Matrix {
+        \\    rows: [2][3]F32
+        \\    labels: [][2]?String
+        \\}
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\function isArrayOfLength<T, N extends number>(length: N, predicate: svt.TypePredicate<T>): svt.TypePredicate<T[] & {length: N}> {
+        \\    return function isArrayOfLengthN(value: unknown): value is T[] & {length: N} {
+        \\        return svt.arrayOf(predicate)(value) && value.length === length;
+        \\    };
+        \\}
+        \\
+        \\function validateArrayOfLength<T, N extends number>(length: N, validator: svt.Validator<T>): svt.Validator<T[] & {length: N}> {
+        \\    return function validateArrayOfLengthN(value: unknown): svt.ValidationResult<T[] & {length: N}> {
+        \\        if (Array.isArray(value) && value.length !== length) {
+        \\            return svt.Invalid(`Expected array of length ${length}, got array of length ${value.length}`);
+        \\        }
+        \\
+        \\        return svt.validateArray(validator)(value) as svt.ValidationResult<T[] & {length: N}>;
+        \\    };
+        \\}
+        \\
+        \\function isFiniteNumber(value: unknown): value is number {
+        \\    return Number.isFinite(value);
+        \\}
+        \\
+        \\function validateFiniteNumber(value: unknown): svt.ValidationResult<number> {
+        \\    if (Number.isFinite(value)) {
+        \\        return svt.Valid(value as number);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected finite number, got: ${value}`);
+        \\}
+        \\
+        \\export type Matrix = {
+        \\    rows: (number[] & {length: 3})[] & {length: 2};
+        \\    labels: ((string | null | undefined)[] & {length: 2})[];
+        \\};
+        \\
+        \\export function isMatrix(value: unknown): value is Matrix {
+        \\    return svt.isInterface<Matrix>(value, {rows: isArrayOfLength(2, isArrayOfLength(3, isFiniteNumber)), labels: svt.arrayOf(isArrayOfLength(2, svt.optional(svt.isString)))});
+        \\}
+        \\
+        \\export function validateMatrix(value: unknown): svt.ValidationResult<Matrix> {
+        \\    return svt.validate<Matrix>(value, {rows: validateArrayOfLength(2, validateArrayOfLength(3, validateFiniteNumber)), labels: svt.validateArray(validateArrayOfLength(2, svt.validateOptional(svt.validateString)))});
+        \\}
+        \\
+        \\export function encodeMatrix(value: Matrix): unknown {
+        \\    return {rows: value.rows, labels: value.labels};
+        \\}
+        \\
+        \\export function decodeMatrix(json: unknown): svt.ValidationResult<Matrix> {
+        \\    return validateMatrix(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Helpers are output based on the types used and not on the names of definitions" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct ArrayOfLength {
+        \\    name: String
+        \\}
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\export type ArrayOfLength = {
+        \\    name: string;
+        \\};
+        \\
+        \\export function isArrayOfLength(value: unknown): value is ArrayOfLength {
+        \\    return svt.isInterface<ArrayOfLength>(value, {name: svt.isString});
+        \\}
+        \\
+        \\export function validateArrayOfLength(value: unknown): svt.ValidationResult<ArrayOfLength> {
+        \\    return svt.validate<ArrayOfLength>(value, {name: svt.validateString});
+        \\}
+        \\
+        \\export function encodeArrayOfLength(value: ArrayOfLength): unknown {
+        \\    return {name: value.name};
+        \\}
+        \\
+        \\export function decodeArrayOfLength(json: unknown): svt.ValidationResult<ArrayOfLength> {
+        \\    return validateArrayOfLength(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Numeric builtins have range checks in type guards and validators" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Numbers {
+        \\    unsigned: U16
+        \\    signed: ?I8
+        \\    list: []I32
+        \\    float: F64
+        \\}
+    ;
+
+    const expected_output =
+        \\export type Numbers = {
+        \\    unsigned: number;
+        \\    signed: number | null | undefined;
+        \\    list: number[];
+        \\    float: number;
+        \\};
+        \\
+        \\export function isNumbers(value: unknown): value is Numbers {
+        \\    return svt.isInterface<Numbers>(value, {unsigned: isIntegerInRange(0, 65535), signed: svt.optional(isIntegerInRange(-128, 127)), list: svt.arrayOf(isIntegerInRange(-2147483648, 2147483647)), float: isFiniteNumber});
+        \\}
+        \\
+        \\export function validateNumbers(value: unknown): svt.ValidationResult<Numbers> {
+        \\    return svt.validate<Numbers>(value, {unsigned: validateIntegerInRange(0, 65535), signed: svt.validateOptional(validateIntegerInRange(-128, 127)), list: svt.validateArray(validateIntegerInRange(-2147483648, 2147483647)), float: validateFiniteNumber});
+        \\}
+        \\
+        \\export function encodeNumbers(value: Numbers): unknown {
+        \\    return {unsigned: value.unsigned, signed: value.signed, list: value.list, float: value.float};
+        \\}
+        \\
+        \\export function decodeNumbers(json: unknown): svt.ValidationResult<Numbers> {
+        \\    return validateNumbers(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.outputPlainStructure(
+        allocator,
+        .{},
+        module.definitions[0].structure.plain,
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "64- and 128-bit integers are output as bigints and encoded as strings" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\union Maybe <T>{
+        \\    Nothing
+        \\    Just: T
+        \\}
+        \\
+        \\struct Ledger {
+        \\    id: U64
+        \\    history: []?I64
+        \\    latest: Maybe<U128>
+        \\}
+        \\
+        \\union Entry {
+        \\    Credit: I128
+        \\    Cancelled
+        \\}
+    ;
+
+    const expected_ledger_output =
+        \\export type Ledger = {
+        \\    id: bigint;
+        \\    history: (bigint | null | undefined)[];
+        \\    latest: Maybe<bigint>;
+        \\};
+        \\
+        \\export function isLedger(value: unknown): value is Ledger {
+        \\    return svt.isInterface<Ledger>(value, {id: isBigIntInRange("0", "18446744073709551615"), history: svt.arrayOf(svt.optional(isBigIntInRange("-9223372036854775808", "9223372036854775807"))), latest: isMaybe(isBigIntInRange("0", "340282366920938463463374607431768211455"))});
+        \\}
+        \\
+        \\export function validateLedger(value: unknown): svt.ValidationResult<Ledger> {
+        \\    return svt.validate<Ledger>(value, {id: validateBigIntInRange("0", "18446744073709551615"), history: svt.validateArray(svt.validateOptional(validateBigIntInRange("-9223372036854775808", "9223372036854775807"))), latest: validateMaybe(validateBigIntInRange("0", "340282366920938463463374607431768211455"))});
+        \\}
+        \\
+        \\export function encodeLedger(value: Ledger): unknown {
+        \\    return {id: encodeBigInt(value.id), history: svt.arrayToJson(svt.optionalToJson(encodeBigInt))(value.history), latest: encodeMaybe(encodeBigInt)(value.latest)};
+        \\}
+        \\
+        \\export function decodeLedger(json: unknown): svt.ValidationResult<Ledger> {
+        \\    return validateLedger(json);
+        \\}
+    ;
+
+    const expected_entry_output =
+        \\export type Entry = Credit | Cancelled;
+        \\
+        \\export enum EntryTag {
+        \\    Credit = "Credit",
+        \\    Cancelled = "Cancelled",
+        \\}
+        \\
+        \\export type Credit = {
+        \\    type: EntryTag.Credit;
+        \\    data: bigint;
+        \\};
+        \\
+        \\export type Cancelled = {
+        \\    type: EntryTag.Cancelled;
+        \\};
+        \\
+        \\export function Credit(data: bigint): Credit {
+        \\    return {type: EntryTag.Credit, data};
+        \\}
+        \\
+        \\export function Cancelled(): Cancelled {
+        \\    return {type: EntryTag.Cancelled};
+        \\}
+        \\
+        \\export function isEntry(value: unknown): value is Entry {
+        \\    return [isCredit, isCancelled].some((typePredicate) => typePredicate(value));
+        \\}
+        \\
+        \\export function isCredit(value: unknown): value is Credit {
+        \\    return svt.isInterface<Credit>(value, {type: EntryTag.Credit, data: isBigIntInRange("-170141183460469231731687303715884105728", "170141183460469231731687303715884105727")});
+        \\}
+        \\
+        \\export function isCancelled(value: unknown): value is Cancelled {
+        \\    return svt.isInterface<Cancelled>(value, {type: EntryTag.Cancelled});
+        \\}
+        \\
+        \\export function validateEntry(value: unknown): svt.ValidationResult<Entry> {
+        \\    return svt.validateWithTypeTag<Entry>(value, {[EntryTag.Credit]: validateCredit, [EntryTag.Cancelled]: validateCancelled}, "type");
+        \\}
+        \\
+        \\export function validateCredit(value: unknown): svt.ValidationResult<Credit> {
+        \\    return svt.validate<Credit>(value, {type: EntryTag.Credit, data: validateBigIntInRange("-170141183460469231731687303715884105728", "170141183460469231731687303715884105727")});
+        \\}
+        \\
+        \\export function validateCancelled(value: unknown): svt.ValidationResult<Cancelled> {
+        \\    return svt.validate<Cancelled>(value, {type: EntryTag.Cancelled});
+        \\}
+        \\
+        \\export function encodeEntry(value: Entry): unknown {
+        \\    switch (value.type) {
+        \\        case EntryTag.Credit:
+        \\            return {type: value.type, data: encodeBigInt(value.data)};
+        \\        case EntryTag.Cancelled:
+        \\            return {type: value.type};
+        \\    }
+        \\}
+        \\
+        \\export function decodeEntry(json: unknown): svt.ValidationResult<Entry> {
+        \\    return validateEntry(json);
+        \\}
+        \\
+        \\export type EntryCases<R> = {
+        \\    Credit: (data: bigint) => R;
+        \\    Cancelled: () => R;
+        \\};
+        \\
+        \\export function matchEntry<R>(value: Entry, cases: EntryCases<R>): R {
+        \\    switch (value.type) {
+        \\        case EntryTag.Credit:
+        \\            return cases.Credit(value.data);
+        \\        case EntryTag.Cancelled:
+        \\            return cases.Cancelled();
+        \\    }
+        \\}
+        \\
+        \\export function matchEntryPartially<R>(value: Entry, cases: Partial<EntryCases<R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case EntryTag.Credit:
+        \\            return cases.Credit !== undefined ? cases.Credit(value.data) : cases._();
+        \\        case EntryTag.Cancelled:
+        \\            return cases.Cancelled !== undefined ? cases.Cancelled() : cases._();
+        \\    }
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const ledger_output = try typescript.outputPlainStructure(
+        allocator,
+        .{},
+        module.definitions[1].structure.plain,
+    );
+
+    try testing.expectEqualStrings(expected_ledger_output, ledger_output);
+
+    const entry_output = try typescript.outputPlainUnion(
+        allocator,
+        .{},
+        module.definitions[2].@"union".plain,
+    );
+
+    try testing.expectEqualStrings(expected_entry_output, entry_output);
+}
+
+test "Declarations re-export external types and reuse their type guards and validators" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\declare money.Money
+        \\
+        \\declare external.Option<T>
+        \\
+        \\declare external.Result<T, E>
+        \\
+        \\union Maybe <T>{
+        \\    Nothing
+        \\    Just: T
+        \\}
+        \\
+        \\struct Wallet {
+        \\    balance: Money
+        \\    history: []Money
+        \\    pending: Option<Money>
+        \\    last: Result<Money, String>
+        \\    next: Maybe<Money>
+        \\}
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\import * as _money from "./money";
+        \\
+        \\export type Money = _money.Money;
+        \\
+        \\export const isMoney = _money.isMoney;
+        \\
+        \\export const validateMoney = _money.validateMoney;
+        \\
+        \\import * as _external from "./external";
+        \\
+        \\export type Option<T> = _external.Option<T>;
+        \\
+        \\export const isOption = _external.isOption;
+        \\
+        \\export const validateOption = _external.validateOption;
+        \\
+        \\export type Result<T, E> = _external.Result<T, E>;
+        \\
+        \\export const isResult = _external.isResult;
+        \\
+        \\export const validateResult = _external.validateResult;
+        \\
+        \\function encodeUnchanged(value: unknown): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\export type Maybe<T> = Nothing | Just<T>;
+        \\
+        \\export enum MaybeTag {
+        \\    Nothing = "Nothing",
+        \\    Just = "Just",
+        \\}
+        \\
+        \\export type Nothing = {
+        \\    type: MaybeTag.Nothing;
+        \\};
+        \\
+        \\export type Just<T> = {
+        \\    type: MaybeTag.Just;
+        \\    data: T;
+        \\};
+        \\
+        \\export function Nothing(): Nothing {
+        \\    return {type: MaybeTag.Nothing};
+        \\}
+        \\
+        \\export function Just<T>(data: T): Just<T> {
+        \\    return {type: MaybeTag.Just, data};
+        \\}
+        \\
+        \\export function isMaybe<T>(isT: svt.TypePredicate<T>): svt.TypePredicate<Maybe<T>> {
+        \\    return function isMaybeT(value: unknown): value is Maybe<T> {
+        \\        return [isNothing, isJust(isT)].some((typePredicate) => typePredicate(value));
+        \\    };
+        \\}
+        \\
+        \\export function isNothing(value: unknown): value is Nothing {
+        \\    return svt.isInterface<Nothing>(value, {type: MaybeTag.Nothing});
+        \\}
+        \\
+        \\export function isJust<T>(isT: svt.TypePredicate<T>): svt.TypePredicate<Just<T>> {
+        \\    return function isJustT(value: unknown): value is Just<T> {
+        \\        return svt.isInterface<Just<T>>(value, {type: MaybeTag.Just, data: isT});
+        \\    };
+        \\}
+        \\
+        \\export function validateMaybe<T>(validateT: svt.Validator<T>): svt.Validator<Maybe<T>> {
+        \\    return function validateMaybeT(value: unknown): svt.ValidationResult<Maybe<T>> {
+        \\        return svt.validateWithTypeTag<Maybe<T>>(value, {[MaybeTag.Nothing]: validateNothing, [MaybeTag.Just]: validateJust(validateT)}, "type");
+        \\    };
+        \\}
+        \\
+        \\export function validateNothing(value: unknown): svt.ValidationResult<Nothing> {
+        \\    return svt.validate<Nothing>(value, {type: MaybeTag.Nothing});
+        \\}
+        \\
+        \\export function validateJust<T>(validateT: svt.Validator<T>): svt.Validator<Just<T>> {
+        \\    return function validateJustT(value: unknown): svt.ValidationResult<Just<T>> {
+        \\        return svt.validate<Just<T>>(value, {type: MaybeTag.Just, data: validateT});
+        \\    };
+        \\}
+        \\
+        \\export function encodeMaybe<T>(encodeT: svt.ToJSON<T>): svt.ToJSON<Maybe<T>> {
+        \\    return function encodeMaybeT(value: Maybe<T>): unknown {
+        \\        switch (value.type) {
+        \\            case MaybeTag.Nothing:
+        \\                return {type: value.type};
+        \\            case MaybeTag.Just:
+        \\                return {type: value.type, data: encodeT(value.data)};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeMaybe<T>(decodeT: svt.Validator<T>): svt.Validator<Maybe<T>> {
+        \\    return validateMaybe(decodeT);
+        \\}
+        \\
+        \\export type MaybeCases<T, R> = {
+        \\    Nothing: () => R;
+        \\    Just: (data: T) => R;
+        \\};
+        \\
+        \\export function matchMaybe<T, R>(value: Maybe<T>, cases: MaybeCases<T, R>): R {
+        \\    switch (value.type) {
+        \\        case MaybeTag.Nothing:
+        \\            return cases.Nothing();
+        \\        case MaybeTag.Just:
+        \\            return cases.Just(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchMaybePartially<T, R>(value: Maybe<T>, cases: Partial<MaybeCases<T, R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case MaybeTag.Nothing:
+        \\            return cases.Nothing !== undefined ? cases.Nothing() : cases._();
+        \\        case MaybeTag.Just:
+        \\            return cases.Just !== undefined ? cases.Just(value.data) : cases._();
+        \\    }
+        \\}
+        \\
+        \\export type Wallet = {
+        \\    balance: Money;
+        \\    history: Money[];
+        \\    pending: Option<Money>;
+        \\    last: Result<Money, string>;
+        \\    next: Maybe<Money>;
+        \\};
+        \\
+        \\export function isWallet(value: unknown): value is Wallet {
+        \\    return svt.isInterface<Wallet>(value, {balance: isMoney, history: svt.arrayOf(isMoney), pending: isOption(isMoney), last: isResult(isMoney, svt.isString), next: isMaybe(isMoney)});
+        \\}
+        \\
+        \\export function validateWallet(value: unknown): svt.ValidationResult<Wallet> {
+        \\    return svt.validate<Wallet>(value, {balance: validateMoney, history: svt.validateArray(validateMoney), pending: validateOption(validateMoney), last: validateResult(validateMoney, svt.validateString), next: validateMaybe(validateMoney)});
+        \\}
+        \\
+        \\export function encodeWallet(value: Wallet): unknown {
+        \\    return {balance: value.balance, history: value.history, pending: value.pending, last: value.last, next: encodeMaybe(encodeUnchanged)(value.next)};
+        \\}
+        \\
+        \\export function decodeWallet(json: unknown): svt.ValidationResult<Wallet> {
+        \\    return validateWallet(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Match functions use a result type parameter that doesn't shadow the union's own" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\union Either <L, R>{
+        \\    Left: L
+        \\    Right: R
+        \\}
+    ;
+
+    const expected_output =
+        \\export type Either<L, R> = Left<L> | Right<R>;
+        \\
+        \\export enum EitherTag {
+        \\    Left = "Left",
+        \\    Right = "Right",
+        \\}
+        \\
+        \\export type Left<L> = {
+        \\    type: EitherTag.Left;
+        \\    data: L;
+        \\};
+        \\
+        \\export type Right<R> = {
+        \\    type: EitherTag.Right;
+        \\    data: R;
+        \\};
+        \\
+        \\export function Left<L>(data: L): Left<L> {
+        \\    return {type: EitherTag.Left, data};
+        \\}
+        \\
+        \\export function Right<R>(data: R): Right<R> {
+        \\    return {type: EitherTag.Right, data};
+        \\}
+        \\
+        \\export function isEither<L, R>(isL: svt.TypePredicate<L>, isR: svt.TypePredicate<R>): svt.TypePredicate<Either<L, R>> {
+        \\    return function isEitherLR(value: unknown): value is Either<L, R> {
+        \\        return [isLeft(isL), isRight(isR)].some((typePredicate) => typePredicate(value));
+        \\    };
+        \\}
+        \\
+        \\export function isLeft<L>(isL: svt.TypePredicate<L>): svt.TypePredicate<Left<L>> {
+        \\    return function isLeftL(value: unknown): value is Left<L> {
+        \\        return svt.isInterface<Left<L>>(value, {type: EitherTag.Left, data: isL});
+        \\    };
+        \\}
+        \\
+        \\export function isRight<R>(isR: svt.TypePredicate<R>): svt.TypePredicate<Right<R>> {
+        \\    return function isRightR(value: unknown): value is Right<R> {
+        \\        return svt.isInterface<Right<R>>(value, {type: EitherTag.Right, data: isR});
+        \\    };
+        \\}
+        \\
+        \\export function validateEither<L, R>(validateL: svt.Validator<L>, validateR: svt.Validator<R>): svt.Validator<Either<L, R>> {
+        \\    return function validateEitherLR(value: unknown): svt.ValidationResult<Either<L, R>> {
+        \\        return svt.validateWithTypeTag<Either<L, R>>(value, {[EitherTag.Left]: validateLeft(validateL), [EitherTag.Right]: validateRight(validateR)}, "type");
+        \\    };
+        \\}
+        \\
+        \\export function validateLeft<L>(validateL: svt.Validator<L>): svt.Validator<Left<L>> {
+        \\    return function validateLeftL(value: unknown): svt.ValidationResult<Left<L>> {
+        \\        return svt.validate<Left<L>>(value, {type: EitherTag.Left, data: validateL});
+        \\    };
+        \\}
+        \\
+        \\export function validateRight<R>(validateR: svt.Validator<R>): svt.Validator<Right<R>> {
+        \\    return function validateRightR(value: unknown): svt.ValidationResult<Right<R>> {
+        \\        return svt.validate<Right<R>>(value, {type: EitherTag.Right, data: validateR});
+        \\    };
+        \\}
+        \\
+        \\export function encodeEither<L, R>(encodeL: svt.ToJSON<L>, encodeR: svt.ToJSON<R>): svt.ToJSON<Either<L, R>> {
+        \\    return function encodeEitherLR(value: Either<L, R>): unknown {
+        \\        switch (value.type) {
+        \\            case EitherTag.Left:
+        \\                return {type: value.type, data: encodeL(value.data)};
+        \\            case EitherTag.Right:
+        \\                return {type: value.type, data: encodeR(value.data)};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeEither<L, R>(decodeL: svt.Validator<L>, decodeR: svt.Validator<R>): svt.Validator<Either<L, R>> {
+        \\    return validateEither(decodeL, decodeR);
+        \\}
+        \\
+        \\export type EitherCases<L, R, Result> = {
+        \\    Left: (data: L) => Result;
+        \\    Right: (data: R) => Result;
+        \\};
+        \\
+        \\export function matchEither<L, R, Result>(value: Either<L, R>, cases: EitherCases<L, R, Result>): Result {
+        \\    switch (value.type) {
+        \\        case EitherTag.Left:
+        \\            return cases.Left(value.data);
+        \\        case EitherTag.Right:
+        \\            return cases.Right(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchEitherPartially<L, R, Result>(value: Either<L, R>, cases: Partial<EitherCases<L, R, Result>> & {_: () => Result}): Result {
+        \\    switch (value.type) {
+        \\        case EitherTag.Left:
+        \\            return cases.Left !== undefined ? cases.Left(value.data) : cases._();
+        \\        case EitherTag.Right:
+        \\            return cases.Right !== undefined ? cases.Right(value.data) : cases._();
+        \\    }
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.outputGenericUnion(
+        allocator,
+        .{},
+        module.definitions[0].@"union".generic,
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Match functions don't name their result type parameter after the union itself" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\union R {
+        \\    Value: String
+        \\    Missing
+        \\}
+    ;
+
+    const expected_output =
+        \\export type R = Value | Missing;
+        \\
+        \\export enum RTag {
+        \\    Value = "Value",
+        \\    Missing = "Missing",
+        \\}
+        \\
+        \\export type Value = {
+        \\    type: RTag.Value;
+        \\    data: string;
+        \\};
+        \\
+        \\export type Missing = {
+        \\    type: RTag.Missing;
+        \\};
+        \\
+        \\export function Value(data: string): Value {
+        \\    return {type: RTag.Value, data};
+        \\}
+        \\
+        \\export function Missing(): Missing {
+        \\    return {type: RTag.Missing};
+        \\}
+        \\
+        \\export function isR(value: unknown): value is R {
+        \\    return [isValue, isMissing].some((typePredicate) => typePredicate(value));
+        \\}
+        \\
+        \\export function isValue(value: unknown): value is Value {
+        \\    return svt.isInterface<Value>(value, {type: RTag.Value, data: svt.isString});
+        \\}
+        \\
+        \\export function isMissing(value: unknown): value is Missing {
+        \\    return svt.isInterface<Missing>(value, {type: RTag.Missing});
+        \\}
+        \\
+        \\export function validateR(value: unknown): svt.ValidationResult<R> {
+        \\    return svt.validateWithTypeTag<R>(value, {[RTag.Value]: validateValue, [RTag.Missing]: validateMissing}, "type");
+        \\}
+        \\
+        \\export function validateValue(value: unknown): svt.ValidationResult<Value> {
+        \\    return svt.validate<Value>(value, {type: RTag.Value, data: svt.validateString});
+        \\}
+        \\
+        \\export function validateMissing(value: unknown): svt.ValidationResult<Missing> {
+        \\    return svt.validate<Missing>(value, {type: RTag.Missing});
+        \\}
+        \\
+        \\export function encodeR(value: R): unknown {
+        \\    switch (value.type) {
+        \\        case RTag.Value:
+        \\            return {type: value.type, data: value.data};
+        \\        case RTag.Missing:
+        \\            return {type: value.type};
+        \\    }
+        \\}
+        \\
+        \\export function decodeR(json: unknown): svt.ValidationResult<R> {
+        \\    return validateR(json);
+        \\}
+        \\
+        \\export type RCases<Result> = {
+        \\    Value: (data: string) => Result;
+        \\    Missing: () => Result;
+        \\};
+        \\
+        \\export function matchR<Result>(value: R, cases: RCases<Result>): Result {
+        \\    switch (value.type) {
+        \\        case RTag.Value:
+        \\            return cases.Value(value.data);
+        \\        case RTag.Missing:
+        \\            return cases.Missing();
+        \\    }
+        \\}
+        \\
+        \\export function matchRPartially<Result>(value: R, cases: Partial<RCases<Result>> & {_: () => Result}): Result {
+        \\    switch (value.type) {
+        \\        case RTag.Value:
+        \\            return cases.Value !== undefined ? cases.Value(value.data) : cases._();
+        \\        case RTag.Missing:
+        \\            return cases.Missing !== undefined ? cases.Missing() : cases._();
+        \\    }
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.outputPlainUnion(
+        allocator,
+        .{},
+        module.definitions[0].@"union".plain,
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Match functions number their result type parameter when the usual names are all taken" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct MatchResult {
+        \\    message: String
+        \\}
+        \\
+        \\union Result <R>{
+        \\    Ok: R
+        \\    Failed: MatchResult
+        \\}
+    ;
+
+    const expected_output =
+        \\export type Result<R> = Ok<R> | Failed;
+        \\
+        \\export enum ResultTag {
+        \\    Ok = "Ok",
+        \\    Failed = "Failed",
+        \\}
+        \\
+        \\export type Ok<R> = {
+        \\    type: ResultTag.Ok;
+        \\    data: R;
+        \\};
+        \\
+        \\export type Failed = {
+        \\    type: ResultTag.Failed;
+        \\    data: MatchResult;
+        \\};
+        \\
+        \\export function Ok<R>(data: R): Ok<R> {
+        \\    return {type: ResultTag.Ok, data};
+        \\}
+        \\
+        \\export function Failed(data: MatchResult): Failed {
+        \\    return {type: ResultTag.Failed, data};
+        \\}
+        \\
+        \\export function isResult<R>(isR: svt.TypePredicate<R>): svt.TypePredicate<Result<R>> {
+        \\    return function isResultR(value: unknown): value is Result<R> {
+        \\        return [isOk(isR), isFailed].some((typePredicate) => typePredicate(value));
+        \\    };
+        \\}
+        \\
+        \\export function isOk<R>(isR: svt.TypePredicate<R>): svt.TypePredicate<Ok<R>> {
+        \\    return function isOkR(value: unknown): value is Ok<R> {
+        \\        return svt.isInterface<Ok<R>>(value, {type: ResultTag.Ok, data: isR});
+        \\    };
+        \\}
+        \\
+        \\export function isFailed(value: unknown): value is Failed {
+        \\    return svt.isInterface<Failed>(value, {type: ResultTag.Failed, data: isMatchResult});
+        \\}
+        \\
+        \\export function validateResult<R>(validateR: svt.Validator<R>): svt.Validator<Result<R>> {
+        \\    return function validateResultR(value: unknown): svt.ValidationResult<Result<R>> {
+        \\        return svt.validateWithTypeTag<Result<R>>(value, {[ResultTag.Ok]: validateOk(validateR), [ResultTag.Failed]: validateFailed}, "type");
+        \\    };
+        \\}
+        \\
+        \\export function validateOk<R>(validateR: svt.Validator<R>): svt.Validator<Ok<R>> {
+        \\    return function validateOkR(value: unknown): svt.ValidationResult<Ok<R>> {
+        \\        return svt.validate<Ok<R>>(value, {type: ResultTag.Ok, data: validateR});
+        \\    };
+        \\}
+        \\
+        \\export function validateFailed(value: unknown): svt.ValidationResult<Failed> {
+        \\    return svt.validate<Failed>(value, {type: ResultTag.Failed, data: validateMatchResult});
+        \\}
+        \\
+        \\export function encodeResult<R>(encodeR: svt.ToJSON<R>): svt.ToJSON<Result<R>> {
+        \\    return function encodeResultR(value: Result<R>): unknown {
+        \\        switch (value.type) {
+        \\            case ResultTag.Ok:
+        \\                return {type: value.type, data: encodeR(value.data)};
+        \\            case ResultTag.Failed:
+        \\                return {type: value.type, data: encodeMatchResult(value.data)};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeResult<R>(decodeR: svt.Validator<R>): svt.Validator<Result<R>> {
+        \\    return validateResult(decodeR);
+        \\}
+        \\
+        \\export type ResultCases<R, R1> = {
+        \\    Ok: (data: R) => R1;
+        \\    Failed: (data: MatchResult) => R1;
+        \\};
+        \\
+        \\export function matchResult<R, R1>(value: Result<R>, cases: ResultCases<R, R1>): R1 {
+        \\    switch (value.type) {
+        \\        case ResultTag.Ok:
+        \\            return cases.Ok(value.data);
+        \\        case ResultTag.Failed:
+        \\            return cases.Failed(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchResultPartially<R, R1>(value: Result<R>, cases: Partial<ResultCases<R, R1>> & {_: () => R1}): R1 {
+        \\    switch (value.type) {
+        \\        case ResultTag.Ok:
+        \\            return cases.Ok !== undefined ? cases.Ok(value.data) : cases._();
+        \\        case ResultTag.Failed:
+        \\            return cases.Failed !== undefined ? cases.Failed(value.data) : cases._();
+        \\    }
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.outputGenericUnion(
+        allocator,
+        .{},
+        module.definitions[1].@"union".generic,
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Runtime module option imports the runtime and it only contains what is used" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Named {
+        \\    name: String
+        \\}
+    ;
+
+    const expected_output =
+        \\import * as svt from "./gotyno_runtime";
+        \\
+        \\export type Named = {
+        \\    name: string;
+        \\};
+        \\
+        \\export function isNamed(value: unknown): value is Named {
+        \\    return svt.isInterface<Named>(value, {name: svt.isString});
+        \\}
+        \\
+        \\export function validateNamed(value: unknown): svt.ValidationResult<Named> {
+        \\    return svt.validate<Named>(value, {name: svt.validateString});
+        \\}
+        \\
+        \\export function encodeNamed(value: Named): unknown {
+        \\    return {name: value.name};
+        \\}
+        \\
+        \\export function decodeNamed(json: unknown): svt.ValidationResult<Named> {
+        \\    return validateNamed(json);
+        \\}
+    ;
+
+    const expected_runtime_output =
+        \\export type ValidationResult<T> = Valid<T> | Invalid<T>;
+        \\
+        \\export type Validator<T> = (value: unknown) => ValidationResult<T>;
+        \\
+        \\export type TypePredicate<T> = (value: unknown) => value is T;
+        \\
+        \\export type ToJSON<T> = (value: T) => unknown;
+        \\
+        \\export type ErrorMap = {[key: string]: string | ErrorMap};
+        \\
+        \\export type Literal = number | string | boolean | bigint | undefined | null;
+        \\
+        \\export type InterfaceSpecification = {[key: string]: Literal | TypePredicate<unknown>};
+        \\
+        \\export type ValidationSpecification = {[key: string]: Literal | Validator<unknown>};
+        \\
+        \\export type Valid<T> = {type: "Valid"; valid: true; value: T};
+        \\
+        \\export type Invalid<T> = {type: "Invalid"; valid: false; errors: ErrorMap | string};
+        \\
+        \\export function Valid<T>(value: T): Valid<T> {
+        \\    return {type: "Valid", valid: true, value};
+        \\}
+        \\
+        \\export function Invalid<T>(errors: ErrorMap | string): Invalid<T> {
+        \\    return {type: "Invalid", valid: false, errors};
+        \\}
+        \\
+        \\function isObject(value: unknown): value is {[key: string]: unknown} {
+        \\    return typeof value === "object" && value !== null;
+        \\}
+        \\
+        \\export function isInterface<T>(value: unknown, specification: InterfaceSpecification): value is T {
+        \\    if (!isObject(value)) {
+        \\        return false;
+        \\    }
+        \\
+        \\    return Object.keys(specification).every((key) => {
+        \\        const checker = specification[key];
+        \\
+        \\        return typeof checker === "function" ? checker(value[key]) : value[key] === checker;
+        \\    });
+        \\}
+        \\
+        \\export function validate<T>(value: unknown, specification: ValidationSpecification): ValidationResult<T> {
+        \\    if (!isObject(value)) {
+        \\        return Invalid("is not a StringMap/object");
+        \\    }
+        \\
+        \\    const errors: ErrorMap = {};
+        \\    const validated: {[key: string]: unknown} = {};
+        \\    let hasErrors = false;
+        \\
+        \\    for (const key of Object.keys(specification)) {
+        \\        const validator = specification[key];
+        \\        const result: ValidationResult<unknown> = typeof validator === "function"
+        \\            ? validator(value[key])
+        \\            : value[key] === validator
+        \\            ? Valid(value[key])
+        \\            : Invalid(`Does not match literal '${validator}' (${typeof validator})`);
+        \\
+        \\        if (result.valid) {
+        \\            validated[key] = result.value;
+        \\        } else {
+        \\            hasErrors = true;
+        \\            errors[key] = result.errors;
+        \\        }
+        \\    }
+        \\
+        \\    return hasErrors ? Invalid(errors) : Valid(validated as T);
+        \\}
+        \\
+        \\export function isString(value: unknown): value is string {
+        \\    return typeof value === "string";
+        \\}
+        \\
+        \\export function validateString(value: unknown): ValidationResult<string> {
+        \\    return typeof value === "string" ? Valid(value) : Invalid("is not string");
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(
+        allocator,
+        module.definitions,
+        .{ .runtime_module = "gotyno_runtime" },
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+
+    const runtime_output = try typescript.outputRuntimeModule(allocator, &[_][]const u8{output});
+
+    try testing.expectEqualStrings(expected_runtime_output, runtime_output);
+
+    // the runtime is at the root of the output, like modules without dots in their names
+    const nested_output = try typescript.compileDefinitions(
+        allocator,
+        module.definitions,
+        .{ .runtime_module = "gotyno_runtime", .module_name = "billing.invoice" },
+    );
+
+    try testing.expect(
+        mem.startsWith(u8, nested_output, "import * as svt from \"../gotyno_runtime\";\n"),
+    );
+}
+
+test "Strict definitions reject unknown keys, except for the embedded tag" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct(strict) Credentials {
+        \\    username: String
+        \\}
+        \\
+        \\union(tag = kind, embedded, strict) Command {
+        \\    Login: Credentials
+        \\    Logout
+        \\}
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\function isExactInterface<T>(value: unknown, specification: svt.InterfaceSpecification): value is T {
+        \\    return svt.isInterface<T>(value, specification) &&
+        \\        Object.keys(value as object).every((key) => Object.prototype.hasOwnProperty.call(specification, key));
+        \\}
+        \\
+        \\function validateExactInterface<T>(value: unknown, specification: svt.ValidationSpecification): svt.ValidationResult<T> {
+        \\    const result = svt.validate<T>(value, specification);
+        \\
+        \\    if (typeof value !== "object" || value === null) {
+        \\        return result;
+        \\    }
+        \\
+        \\    const unknownKeys = Object.keys(value).filter((key) => !Object.prototype.hasOwnProperty.call(specification, key));
+        \\
+        \\    if (unknownKeys.length === 0) {
+        \\        return result;
+        \\    }
+        \\
+        \\    const errors: svt.ErrorMap = result.valid || typeof result.errors === "string" ? {} : {...result.errors};
+        \\    for (const key of unknownKeys) {
+        \\        errors[key] = `Unknown key '${key}'`;
+        \\    }
+        \\
+        \\    return svt.Invalid(errors);
+        \\}
+        \\
+        \\export type Credentials = {
+        \\    username: string;
+        \\};
+        \\
+        \\export function isCredentials(value: unknown): value is Credentials {
+        \\    return isExactInterface<Credentials>(value, {username: svt.isString});
+        \\}
+        \\
+        \\export function validateCredentials(value: unknown): svt.ValidationResult<Credentials> {
+        \\    return validateExactInterface<Credentials>(value, {username: svt.validateString});
+        \\}
+        \\
+        \\export function encodeCredentials(value: Credentials): unknown {
+        \\    return {username: value.username};
+        \\}
+        \\
+        \\export function decodeCredentials(json: unknown): svt.ValidationResult<Credentials> {
+        \\    return validateCredentials(json);
+        \\}
+        \\
+        \\export type Command = Login | Logout;
+        \\
+        \\export enum CommandTag {
+        \\    Login = "Login",
+        \\    Logout = "Logout",
+        \\}
+        \\
+        \\export type Login = {
+        \\    kind: CommandTag.Login;
+        \\    username: string;
+        \\};
+        \\
+        \\export type Logout = {
+        \\    kind: CommandTag.Logout;
+        \\};
+        \\
+        \\export function Login(data: Credentials): Login {
+        \\    return {kind: CommandTag.Login, ...data};
+        \\}
+        \\
+        \\export function Logout(): Logout {
+        \\    return {kind: CommandTag.Logout};
+        \\}
+        \\
+        \\export function isCommand(value: unknown): value is Command {
+        \\    return [isLogin, isLogout].some((typePredicate) => typePredicate(value));
+        \\}
+        \\
+        \\export function isLogin(value: unknown): value is Login {
+        \\    return isExactInterface<Login>(value, {kind: CommandTag.Login, username: svt.isString});
+        \\}
+        \\
+        \\export function isLogout(value: unknown): value is Logout {
+        \\    return isExactInterface<Logout>(value, {kind: CommandTag.Logout});
+        \\}
+        \\
+        \\export function validateCommand(value: unknown): svt.ValidationResult<Command> {
+        \\    return svt.validateWithTypeTag<Command>(value, {[CommandTag.Login]: validateLogin, [CommandTag.Logout]: validateLogout}, "kind");
+        \\}
+        \\
+        \\export function validateLogin(value: unknown): svt.ValidationResult<Login> {
+        \\    return validateExactInterface<Login>(value, {kind: CommandTag.Login, username: svt.validateString});
+        \\}
+        \\
+        \\export function validateLogout(value: unknown): svt.ValidationResult<Logout> {
+        \\    return validateExactInterface<Logout>(value, {kind: CommandTag.Logout});
+        \\}
+        \\
+        \\export function encodeCommand(value: Command): unknown {
+        \\    switch (value.kind) {
+        \\        case CommandTag.Login:
+        \\            return {kind: value.kind, username: value.username};
+        \\        case CommandTag.Logout:
+        \\            return {kind: value.kind};
+        \\    }
+        \\}
+        \\
+        \\export function decodeCommand(json: unknown): svt.ValidationResult<Command> {
+        \\    return validateCommand(json);
+        \\}
+        \\
+        \\export type CommandCases<R> = {
+        \\    Login: (data: Login) => R;
+        \\    Logout: () => R;
+        \\};
+        \\
+        \\export function matchCommand<R>(value: Command, cases: CommandCases<R>): R {
+        \\    switch (value.kind) {
+        \\        case CommandTag.Login:
+        \\            return cases.Login(value);
+        \\        case CommandTag.Logout:
+        \\            return cases.Logout();
+        \\    }
+        \\}
+        \\
+        \\export function matchCommandPartially<R>(value: Command, cases: Partial<CommandCases<R>> & {_: () => R}): R {
+        \\    switch (value.kind) {
+        \\        case CommandTag.Login:
+        \\            return cases.Login !== undefined ? cases.Login(value) : cases._();
+        \\        case CommandTag.Logout:
+        \\            return cases.Logout !== undefined ? cases.Logout() : cases._();
+        \\    }
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Strict compilation option makes all structures and unions strict" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Named {
+        \\    name: String
+        \\}
+        \\
+        \\union Maybe <T>{
+        \\    Nothing
+        \\    Just: T
+        \\}
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\function isExactInterface<T>(value: unknown, specification: svt.InterfaceSpecification): value is T {
+        \\    return svt.isInterface<T>(value, specification) &&
+        \\        Object.keys(value as object).every((key) => Object.prototype.hasOwnProperty.call(specification, key));
+        \\}
+        \\
+        \\function validateExactInterface<T>(value: unknown, specification: svt.ValidationSpecification): svt.ValidationResult<T> {
+        \\    const result = svt.validate<T>(value, specification);
+        \\
+        \\    if (typeof value !== "object" || value === null) {
+        \\        return result;
+        \\    }
+        \\
+        \\    const unknownKeys = Object.keys(value).filter((key) => !Object.prototype.hasOwnProperty.call(specification, key));
+        \\
+        \\    if (unknownKeys.length === 0) {
+        \\        return result;
+        \\    }
+        \\
+        \\    const errors: svt.ErrorMap = result.valid || typeof result.errors === "string" ? {} : {...result.errors};
+        \\    for (const key of unknownKeys) {
+        \\        errors[key] = `Unknown key '${key}'`;
+        \\    }
+        \\
+        \\    return svt.Invalid(errors);
+        \\}
+        \\
+        \\export type Named = {
+        \\    name: string;
+        \\};
+        \\
+        \\export function isNamed(value: unknown): value is Named {
+        \\    return isExactInterface<Named>(value, {name: svt.isString});
+        \\}
+        \\
+        \\export function validateNamed(value: unknown): svt.ValidationResult<Named> {
+        \\    return validateExactInterface<Named>(value, {name: svt.validateString});
+        \\}
+        \\
+        \\export function encodeNamed(value: Named): unknown {
+        \\    return {name: value.name};
+        \\}
+        \\
+        \\export function decodeNamed(json: unknown): svt.ValidationResult<Named> {
+        \\    return validateNamed(json);
+        \\}
+        \\
+        \\export type Maybe<T> = Nothing | Just<T>;
+        \\
+        \\export enum MaybeTag {
+        \\    Nothing = "Nothing",
+        \\    Just = "Just",
+        \\}
+        \\
+        \\export type Nothing = {
+        \\    type: MaybeTag.Nothing;
+        \\};
+        \\
+        \\export type Just<T> = {
+        \\    type: MaybeTag.Just;
+        \\    data: T;
+        \\};
+        \\
+        \\export function Nothing(): Nothing {
+        \\    return {type: MaybeTag.Nothing};
+        \\}
+        \\
+        \\export function Just<T>(data: T): Just<T> {
+        \\    return {type: MaybeTag.Just, data};
+        \\}
+        \\
+        \\export function isMaybe<T>(isT: svt.TypePredicate<T>): svt.TypePredicate<Maybe<T>> {
+        \\    return function isMaybeT(value: unknown): value is Maybe<T> {
+        \\        return [isNothing, isJust(isT)].some((typePredicate) => typePredicate(value));
+        \\    };
+        \\}
+        \\
+        \\export function isNothing(value: unknown): value is Nothing {
+        \\    return isExactInterface<Nothing>(value, {type: MaybeTag.Nothing});
+        \\}
+        \\
+        \\export function isJust<T>(isT: svt.TypePredicate<T>): svt.TypePredicate<Just<T>> {
+        \\    return function isJustT(value: unknown): value is Just<T> {
+        \\        return isExactInterface<Just<T>>(value, {type: MaybeTag.Just, data: isT});
+        \\    };
+        \\}
+        \\
+        \\export function validateMaybe<T>(validateT: svt.Validator<T>): svt.Validator<Maybe<T>> {
+        \\    return function validateMaybeT(value: unknown): svt.ValidationResult<Maybe<T>> {
+        \\        return svt.validateWithTypeTag<Maybe<T>>(value, {[MaybeTag.Nothing]: validateNothing, [MaybeTag.Just]: validateJust(validateT)}, "type");
+        \\    };
+        \\}
+        \\
+        \\export function validateNothing(value: unknown): svt.ValidationResult<Nothing> {
+        \\    return validateExactInterface<Nothing>(value, {type: MaybeTag.Nothing});
+        \\}
+        \\
+        \\export function validateJust<T>(validateT: svt.Validator<T>): svt.Validator<Just<T>> {
+        \\    return function validateJustT(value: unknown): svt.ValidationResult<Just<T>> {
+        \\        return validateExactInterface<Just<T>>(value, {type: MaybeTag.Just, data: validateT});
+        \\    };
+        \\}
+        \\
+        \\export function encodeMaybe<T>(encodeT: svt.ToJSON<T>): svt.ToJSON<Maybe<T>> {
+        \\    return function encodeMaybeT(value: Maybe<T>): unknown {
+        \\        switch (value.type) {
+        \\            case MaybeTag.Nothing:
+        \\                return {type: value.type};
+        \\            case MaybeTag.Just:
+        \\                return {type: value.type, data: encodeT(value.data)};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeMaybe<T>(decodeT: svt.Validator<T>): svt.Validator<Maybe<T>> {
+        \\    return validateMaybe(decodeT);
+        \\}
+        \\
+        \\export type MaybeCases<T, R> = {
+        \\    Nothing: () => R;
+        \\    Just: (data: T) => R;
+        \\};
+        \\
+        \\export function matchMaybe<T, R>(value: Maybe<T>, cases: MaybeCases<T, R>): R {
+        \\    switch (value.type) {
+        \\        case MaybeTag.Nothing:
+        \\            return cases.Nothing();
+        \\        case MaybeTag.Just:
+        \\            return cases.Just(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchMaybePartially<T, R>(value: Maybe<T>, cases: Partial<MaybeCases<T, R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case MaybeTag.Nothing:
+        \\            return cases.Nothing !== undefined ? cases.Nothing() : cases._();
+        \\        case MaybeTag.Just:
+        \\            return cases.Just !== undefined ? cases.Just(value.data) : cases._();
+        \\    }
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(
+        allocator,
+        module.definitions,
+        .{ .strict = true },
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Optional keys, required keys with nullable values and optional values are output and validated separately" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Profile {
+        \\    name: String
+        \\    nickname?: String
+        \\    middle_name!: ?String
+        \\    title: ?String
+        \\    website?: ?String
+        \\    balance?: U64
+        \\}
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\function isBigIntInRange(minimum: string, maximum: string): svt.TypePredicate<bigint> {
+        \\    return function isBigIntInRangeMinimumMaximum(value: unknown): value is bigint {
+        \\        return typeof value === "bigint" && value >= BigInt(minimum) && value <= BigInt(maximum);
+        \\    };
+        \\}
+        \\
+        \\function validateBigIntInRange(minimum: string, maximum: string): svt.Validator<bigint> {
+        \\    return function validateBigIntInRangeMinimumMaximum(value: unknown): svt.ValidationResult<bigint> {
+        \\        const bigIntValue = typeof value === "string" && /^-?[0-9]+$/.test(value) ? BigInt(value) : value;
+        \\
+        \\        if (typeof bigIntValue === "bigint" && bigIntValue >= BigInt(minimum) && bigIntValue <= BigInt(maximum)) {
+        \\            return svt.Valid(bigIntValue);
+        \\        }
+        \\
+        \\        return svt.Invalid(`Expected integer string in range [${minimum}, ${maximum}], got: ${value}`);
+        \\    };
+        \\}
+        \\
+        \\function encodeBigInt(value: bigint): string {
+        \\    return value.toString();
+        \\}
+        \\
+        \\function nullable<T>(predicate: svt.TypePredicate<T>): svt.TypePredicate<T | null> {
+        \\    return function isNullOrT(value: unknown): value is T | null {
+        \\        return value === null || predicate(value);
+        \\    };
+        \\}
+        \\
+        \\function validateNullable<T>(validator: svt.Validator<T>): svt.Validator<T | null> {
+        \\    return function validateNullOrT(value: unknown): svt.ValidationResult<T | null> {
+        \\        if (value === null) {
+        \\            return svt.Valid(null);
+        \\        }
+        \\
+        \\        const result = validator(value);
+        \\
+        \\        return result.valid ? result : svt.Invalid(result.errors + " or null");
+        \\    };
+        \\}
+        \\
+        \\function optionalKey<T>(checker: svt.TypePredicate<T> | svt.Literal): svt.TypePredicate<T | undefined> {
+        \\    return function isAbsentOrT(value: unknown): value is T | undefined {
+        \\        return value === undefined || (typeof checker === "function" ? checker(value) : value === checker);
+        \\    };
+        \\}
+        \\
+        \\function validateOptionalKey<T>(validator: svt.Validator<T> | svt.Literal): svt.Validator<T | undefined> {
+        \\    return function validateAbsentOrT(value: unknown): svt.ValidationResult<T | undefined> {
+        \\        if (value === undefined) {
+        \\            return svt.Valid(undefined);
+        \\        }
+        \\
+        \\        const result: svt.ValidationResult<T> = typeof validator === "function"
+        \\            ? validator(value)
+        \\            : value === validator
+        \\            ? svt.Valid(value as T)
+        \\            : svt.Invalid(`Does not match literal '${validator}' (${typeof validator})`);
+        \\
+        \\        return result.valid ? result : svt.Invalid(result.errors + " or absent");
+        \\    };
+        \\}
+        \\
+        \\function optionalKeyToJson<T>(tToJson: svt.ToJSON<T>): svt.ToJSON<T | undefined> {
+        \\    return function optionalKeyTToJson(value: T | undefined): unknown {
+        \\        return value === undefined ? undefined : tToJson(value);
+        \\    };
+        \\}
+        \\
+        \\export type Profile = {
+        \\    name: string;
+        \\    nickname?: string;
+        \\    middle_name: string | null;
+        \\    title: string | null | undefined;
+        \\    website?: string | null | undefined;
+        \\    balance?: bigint;
+        \\};
+        \\
+        \\export function isProfile(value: unknown): value is Profile {
+        \\    return svt.isInterface<Profile>(value, {name: svt.isString, nickname: optionalKey(svt.isString), middle_name: nullable(svt.isString), title: svt.optional(svt.isString), website: optionalKey(svt.optional(svt.isString)), balance: optionalKey(isBigIntInRange("0", "18446744073709551615"))});
+        \\}
+        \\
+        \\export function validateProfile(value: unknown): svt.ValidationResult<Profile> {
+        \\    return svt.validate<Profile>(value, {name: svt.validateString, nickname: validateOptionalKey(svt.validateString), middle_name: validateNullable(svt.validateString), title: svt.validateOptional(svt.validateString), website: validateOptionalKey(svt.validateOptional(svt.validateString)), balance: validateOptionalKey(validateBigIntInRange("0", "18446744073709551615"))});
+        \\}
+        \\
+        \\export function encodeProfile(value: Profile): unknown {
+        \\    return {name: value.name, nickname: value.nickname, middle_name: value.middle_name, title: value.title, website: value.website, balance: optionalKeyToJson(encodeBigInt)(value.balance)};
+        \\}
+        \\
+        \\export function decodeProfile(json: unknown): svt.ValidationResult<Profile> {
+        \\    return validateProfile(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Decoders validate JSON and generic ones take decoders for their type parameters" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Pair <T, U>{
+        \\    first: T
+        \\    second: U
+        \\}
+        \\
+        \\struct Tally {
+        \\    counts: Pair<String, U64>
+        \\}
+    ;
+
+    const expected_pair_output =
+        \\export type Pair<T, U> = {
+        \\    first: T;
+        \\    second: U;
+        \\};
+        \\
+        \\export function isPair<T, U>(isT: svt.TypePredicate<T>, isU: svt.TypePredicate<U>): svt.TypePredicate<Pair<T, U>> {
+        \\    return function isPairTU(value: unknown): value is Pair<T, U> {
+        \\        return svt.isInterface<Pair<T, U>>(value, {first: isT, second: isU});
+        \\    };
+        \\}
+        \\
+        \\export function validatePair<T, U>(validateT: svt.Validator<T>, validateU: svt.Validator<U>): svt.Validator<Pair<T, U>> {
+        \\    return function validatePairTU(value: unknown): svt.ValidationResult<Pair<T, U>> {
+        \\        return svt.validate<Pair<T, U>>(value, {first: validateT, second: validateU});
+        \\    };
+        \\}
+        \\
+        \\export function encodePair<T, U>(encodeT: svt.ToJSON<T>, encodeU: svt.ToJSON<U>): svt.ToJSON<Pair<T, U>> {
+        \\    return function encodePairTU(value: Pair<T, U>): unknown {
+        \\        return {first: encodeT(value.first), second: encodeU(value.second)};
+        \\    };
+        \\}
+        \\
+        \\export function decodePair<T, U>(decodeT: svt.Validator<T>, decodeU: svt.Validator<U>): svt.Validator<Pair<T, U>> {
+        \\    return validatePair(decodeT, decodeU);
+        \\}
+    ;
+
+    const expected_tally_output =
+        \\export type Tally = {
+        \\    counts: Pair<string, bigint>;
+        \\};
+        \\
+        \\export function isTally(value: unknown): value is Tally {
+        \\    return svt.isInterface<Tally>(value, {counts: isPair(svt.isString, isBigIntInRange("0", "18446744073709551615"))});
+        \\}
+        \\
+        \\export function validateTally(value: unknown): svt.ValidationResult<Tally> {
+        \\    return svt.validate<Tally>(value, {counts: validatePair(svt.validateString, validateBigIntInRange("0", "18446744073709551615"))});
+        \\}
+        \\
+        \\export function encodeTally(value: Tally): unknown {
+        \\    return {counts: encodePair(svt.basicToJson, encodeBigInt)(value.counts)};
+        \\}
+        \\
+        \\export function decodeTally(json: unknown): svt.ValidationResult<Tally> {
+        \\    return validateTally(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const pair_output = try typescript.outputGenericStructure(
+        allocator,
+        .{},
+        module.definitions[0].structure.generic,
+    );
+
+    try testing.expectEqualStrings(expected_pair_output, pair_output);
+
+    const tally_output = try typescript.outputPlainStructure(
+        allocator,
+        .{},
+        module.definitions[1].structure.plain,
+    );
+
+    try testing.expectEqualStrings(expected_tally_output, tally_output);
+}
+
+test "Enumerations have encoders that output their values as they are" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\enum Level {
+        \\    low = 1
+        \\    high = 2
+        \\}
+        \\
+        \\struct Setting {
+        \\    level: Level
+        \\    fallbacks: []?Level
+        \\}
+    ;
+
+    const expected_level_output =
+        \\export enum Level {
+        \\    low = 1,
+        \\    high = 2,
+        \\}
+        \\
+        \\export const allLevel: readonly Level[] = [Level.low, Level.high];
+        \\
+        \\export function isLevel(value: unknown): value is Level {
+        \\    return allLevel.some((v) => v === value);
+        \\}
+        \\
+        \\export function validateLevel(value: unknown): svt.ValidationResult<Level> {
+        \\    return svt.validateOneOfLiterals<Level>(value, allLevel);
+        \\}
+        \\
+        \\export function parseLevel(value: string): Level | undefined {
+        \\    return allLevel.find((v) => String(v) === value);
+        \\}
+        \\
+        \\export function encodeLevel(value: Level): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\export function decodeLevel(json: unknown): svt.ValidationResult<Level> {
+        \\    return validateLevel(json);
+        \\}
+    ;
+
+    const expected_setting_output =
+        \\export type Setting = {
+        \\    level: Level;
+        \\    fallbacks: (Level | null | undefined)[];
+        \\};
+        \\
+        \\export function isSetting(value: unknown): value is Setting {
+        \\    return svt.isInterface<Setting>(value, {level: isLevel, fallbacks: svt.arrayOf(svt.optional(isLevel))});
+        \\}
+        \\
+        \\export function validateSetting(value: unknown): svt.ValidationResult<Setting> {
+        \\    return svt.validate<Setting>(value, {level: validateLevel, fallbacks: svt.validateArray(svt.validateOptional(validateLevel))});
+        \\}
+        \\
+        \\export function encodeSetting(value: Setting): unknown {
+        \\    return {level: encodeLevel(value.level), fallbacks: svt.arrayToJson(svt.optionalToJson(encodeLevel))(value.fallbacks)};
+        \\}
+        \\
+        \\export function decodeSetting(json: unknown): svt.ValidationResult<Setting> {
+        \\    return validateSetting(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const level_output = try typescript.outputEnumeration(
+        allocator,
+        .{},
+        module.definitions[0].enumeration,
+    );
+
+    try testing.expectEqualStrings(expected_level_output, level_output);
+
+    const setting_output = try typescript.outputPlainStructure(
+        allocator,
+        .{},
+        module.definitions[1].structure.plain,
+    );
+
+    try testing.expectEqualStrings(expected_setting_output, setting_output);
+}
+
+test "Renamed fields use their code names in types and wire names in validators and encoders" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\naming camelCase
+        \\
+        \\struct Movie {
+        \\    title: String
+        \\    poster_path: ?String
+        \\    id as movieId: U32
+        \\}
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\function isIntegerInRange(minimum: number, maximum: number): svt.TypePredicate<number> {
+        \\    return function isIntegerInRangeMinimumMaximum(value: unknown): value is number {
+        \\        return Number.isInteger(value) && (value as number) >= minimum && (value as number) <= maximum;
+        \\    };
+        \\}
+        \\
+        \\function validateIntegerInRange(minimum: number, maximum: number): svt.Validator<number> {
+        \\    return function validateIntegerInRangeMinimumMaximum(value: unknown): svt.ValidationResult<number> {
+        \\        if (Number.isInteger(value) && (value as number) >= minimum && (value as number) <= maximum) {
+        \\            return svt.Valid(value as number);
+        \\        }
+        \\
+        \\        return svt.Invalid(`Expected integer in range [${minimum}, ${maximum}], got: ${value}`);
+        \\    };
+        \\}
+        \\
+        \\function withCodeNames<T>(result: svt.ValidationResult<T>, codeNames: {[key: string]: string}): svt.ValidationResult<T> {
+        \\    if (!result.valid) {
+        \\        return result;
+        \\    }
+        \\
+        \\    const value = result.value as unknown as {[key: string]: unknown};
+        \\    const renamed: {[key: string]: unknown} = {};
+        \\    for (const key of Object.keys(value)) {
+        \\        renamed[Object.prototype.hasOwnProperty.call(codeNames, key) ? codeNames[key] : key] = value[key];
+        \\    }
+        \\
+        \\    return svt.Valid(renamed as unknown as T);
+        \\}
+        \\
+        \\export type Movie = {
+        \\    title: string;
+        \\    posterPath: string | null | undefined;
+        \\    movieId: number;
+        \\};
+        \\
+        \\export function isMovie(value: unknown): value is Movie {
+        \\    return svt.isInterface<Movie>(value, {title: svt.isString, posterPath: svt.optional(svt.isString), movieId: isIntegerInRange(0, 4294967295)});
+        \\}
+        \\
+        \\export function validateMovie(value: unknown): svt.ValidationResult<Movie> {
+        \\    return withCodeNames(svt.validate<Movie>(value, {title: svt.validateString, poster_path: svt.validateOptional(svt.validateString), id: validateIntegerInRange(0, 4294967295)}), {poster_path: "posterPath", id: "movieId"});
+        \\}
+        \\
+        \\export function encodeMovie(value: Movie): unknown {
+        \\    return {title: value.title, poster_path: value.posterPath, id: value.movieId};
+        \\}
+        \\
+        \\export function decodeMovie(json: unknown): svt.ValidationResult<Movie> {
+        \\    return validateMovie(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Doc comments are output as TSDoc comments on types and the functions generated for them" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\/// Someone using the application.
+        \\///
+        \\/// Only ever created by `*/signUp`.
+        \\struct User {
+        \\    /// Shown to other users
+        \\    name: String
+        \\}
+        \\
+        \\/// How a request went
+        \\union Outcome {
+        \\    /// The request was handled
+        \\    Handled: User
+        \\    Dropped
+        \\}
+        \\
+        \\/// What a user may do
+        \\enum Role {
+        \\    /// Can do anything
+        \\    admin = "admin"
+        \\}
+        \\
+        \\/// Identifies a user
+        \\newtype UserId = String
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\/**
+        \\ * Someone using the application.
+        \\ *
+        \\ * Only ever created by `*\/signUp`.
+        \\ */
+        \\export type User = {
+        \\    /** Shown to other users */
+        \\    name: string;
+        \\};
+        \\
+        \\/**
+        \\ * Someone using the application.
+        \\ *
+        \\ * Only ever created by `*\/signUp`.
+        \\ */
+        \\export function isUser(value: unknown): value is User {
+        \\    return svt.isInterface<User>(value, {name: svt.isString});
+        \\}
+        \\
+        \\/**
+        \\ * Someone using the application.
+        \\ *
+        \\ * Only ever created by `*\/signUp`.
+        \\ */
+        \\export function validateUser(value: unknown): svt.ValidationResult<User> {
+        \\    return svt.validate<User>(value, {name: svt.validateString});
+        \\}
+        \\
+        \\/**
+        \\ * Someone using the application.
+        \\ *
+        \\ * Only ever created by `*\/signUp`.
+        \\ */
+        \\export function encodeUser(value: User): unknown {
+        \\    return {name: value.name};
+        \\}
+        \\
+        \\/**
+        \\ * Someone using the application.
+        \\ *
+        \\ * Only ever created by `*\/signUp`.
+        \\ */
+        \\export function decodeUser(json: unknown): svt.ValidationResult<User> {
+        \\    return validateUser(json);
+        \\}
+        \\
+        \\/** How a request went */
+        \\export type Outcome = Handled | Dropped;
+        \\
+        \\export enum OutcomeTag {
+        \\    Handled = "Handled",
+        \\    Dropped = "Dropped",
+        \\}
+        \\
+        \\/** The request was handled */
+        \\export type Handled = {
+        \\    type: OutcomeTag.Handled;
+        \\    data: User;
+        \\};
+        \\
+        \\export type Dropped = {
+        \\    type: OutcomeTag.Dropped;
+        \\};
+        \\
+        \\/** The request was handled */
+        \\export function Handled(data: User): Handled {
+        \\    return {type: OutcomeTag.Handled, data};
+        \\}
+        \\
+        \\export function Dropped(): Dropped {
+        \\    return {type: OutcomeTag.Dropped};
+        \\}
+        \\
+        \\/** How a request went */
+        \\export function isOutcome(value: unknown): value is Outcome {
+        \\    return [isHandled, isDropped].some((typePredicate) => typePredicate(value));
+        \\}
+        \\
+        \\/** The request was handled */
+        \\export function isHandled(value: unknown): value is Handled {
+        \\    return svt.isInterface<Handled>(value, {type: OutcomeTag.Handled, data: isUser});
+        \\}
+        \\
+        \\export function isDropped(value: unknown): value is Dropped {
+        \\    return svt.isInterface<Dropped>(value, {type: OutcomeTag.Dropped});
+        \\}
+        \\
+        \\/** How a request went */
+        \\export function validateOutcome(value: unknown): svt.ValidationResult<Outcome> {
+        \\    return svt.validateWithTypeTag<Outcome>(value, {[OutcomeTag.Handled]: validateHandled, [OutcomeTag.Dropped]: validateDropped}, "type");
+        \\}
+        \\
+        \\/** The request was handled */
+        \\export function validateHandled(value: unknown): svt.ValidationResult<Handled> {
+        \\    return svt.validate<Handled>(value, {type: OutcomeTag.Handled, data: validateUser});
+        \\}
+        \\
+        \\export function validateDropped(value: unknown): svt.ValidationResult<Dropped> {
+        \\    return svt.validate<Dropped>(value, {type: OutcomeTag.Dropped});
+        \\}
+        \\
+        \\/** How a request went */
+        \\export function encodeOutcome(value: Outcome): unknown {
+        \\    switch (value.type) {
+        \\        case OutcomeTag.Handled:
+        \\            return {type: value.type, data: encodeUser(value.data)};
+        \\        case OutcomeTag.Dropped:
+        \\            return {type: value.type};
+        \\    }
+        \\}
+        \\
+        \\/** How a request went */
+        \\export function decodeOutcome(json: unknown): svt.ValidationResult<Outcome> {
+        \\    return validateOutcome(json);
+        \\}
+        \\
+        \\export type OutcomeCases<R> = {
+        \\    Handled: (data: User) => R;
+        \\    Dropped: () => R;
+        \\};
+        \\
+        \\export function matchOutcome<R>(value: Outcome, cases: OutcomeCases<R>): R {
+        \\    switch (value.type) {
+        \\        case OutcomeTag.Handled:
+        \\            return cases.Handled(value.data);
+        \\        case OutcomeTag.Dropped:
+        \\            return cases.Dropped();
+        \\    }
+        \\}
+        \\
+        \\export function matchOutcomePartially<R>(value: Outcome, cases: Partial<OutcomeCases<R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case OutcomeTag.Handled:
+        \\            return cases.Handled !== undefined ? cases.Handled(value.data) : cases._();
+        \\        case OutcomeTag.Dropped:
+        \\            return cases.Dropped !== undefined ? cases.Dropped() : cases._();
+        \\    }
+        \\}
+        \\
+        \\/** What a user may do */
+        \\export enum Role {
+        \\    /** Can do anything */
+        \\    admin = "admin",
+        \\}
+        \\
+        \\export const allRole: readonly Role[] = [Role.admin];
+        \\
+        \\/** What a user may do */
+        \\export function isRole(value: unknown): value is Role {
+        \\    return allRole.some((v) => v === value);
+        \\}
+        \\
+        \\/** What a user may do */
+        \\export function validateRole(value: unknown): svt.ValidationResult<Role> {
+        \\    return svt.validateOneOfLiterals<Role>(value, allRole);
+        \\}
+        \\
+        \\/** What a user may do */
+        \\export function parseRole(value: string): Role | undefined {
+        \\    return allRole.find((v) => v === value);
+        \\}
+        \\
+        \\/** What a user may do */
+        \\export function encodeRole(value: Role): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\/** What a user may do */
+        \\export function decodeRole(json: unknown): svt.ValidationResult<Role> {
+        \\    return validateRole(json);
+        \\}
+        \\
+        \\/** Identifies a user */
+        \\export type UserId = string & {__brand: "UserId"};
+        \\
+        \\/** Identifies a user */
+        \\export function UserId(value: string): UserId {
+        \\    return value as UserId;
+        \\}
+        \\
+        \\/** Identifies a user */
+        \\export function isUserId(value: unknown): value is UserId {
+        \\    return svt.isString(value);
+        \\}
+        \\
+        \\/** Identifies a user */
+        \\export function validateUserId(value: unknown): svt.ValidationResult<UserId> {
+        \\    return svt.validateString(value) as svt.ValidationResult<UserId>;
+        \\}
+        \\
+        \\/** Identifies a user */
+        \\export function encodeUserId(value: UserId): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\/** Identifies a user */
+        \\export function decodeUserId(json: unknown): svt.ValidationResult<UserId> {
+        \\    return validateUserId(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Newtypes are output as branded types with a constructor and checks of the underlying type" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\union Maybe <T>{
+        \\    Nothing
+        \\    Just: T
+        \\}
+        \\
+        \\newtype UserId = String
+        \\newtype Nickname = Maybe<String>
+        \\newtype Note = ?String
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\export type UserId = string & {__brand: "UserId"};
+        \\
+        \\export function UserId(value: string): UserId {
+        \\    return value as UserId;
+        \\}
+        \\
+        \\export function isUserId(value: unknown): value is UserId {
+        \\    return svt.isString(value);
+        \\}
+        \\
+        \\export function validateUserId(value: unknown): svt.ValidationResult<UserId> {
+        \\    return svt.validateString(value) as svt.ValidationResult<UserId>;
+        \\}
+        \\
+        \\export function encodeUserId(value: UserId): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\export function decodeUserId(json: unknown): svt.ValidationResult<UserId> {
+        \\    return validateUserId(json);
+        \\}
+        \\
+        \\export type Nickname = Maybe<string> & {__brand: "Nickname"};
+        \\
+        \\export function Nickname(value: Maybe<string>): Nickname {
+        \\    return value as Nickname;
+        \\}
+        \\
+        \\export function isNickname(value: unknown): value is Nickname {
+        \\    return isMaybe(svt.isString)(value);
+        \\}
+        \\
+        \\export function validateNickname(value: unknown): svt.ValidationResult<Nickname> {
+        \\    return validateMaybe(svt.validateString)(value) as svt.ValidationResult<Nickname>;
+        \\}
+        \\
+        \\export function encodeNickname(value: Nickname): unknown {
+        \\    return encodeMaybe(svt.basicToJson)(value);
+        \\}
+        \\
+        \\export function decodeNickname(json: unknown): svt.ValidationResult<Nickname> {
+        \\    return validateNickname(json);
+        \\}
+        \\
+        \\export type Note = string & {__brand: "Note"} | null | undefined;
+        \\
+        \\export function Note(value: string | null | undefined): Note {
+        \\    return value as Note;
+        \\}
+        \\
+        \\export function isNote(value: unknown): value is Note {
+        \\    return svt.optional(svt.isString)(value);
+        \\}
+        \\
+        \\export function validateNote(value: unknown): svt.ValidationResult<Note> {
+        \\    return svt.validateOptional(svt.validateString)(value) as svt.ValidationResult<Note>;
+        \\}
+        \\
+        \\export function encodeNote(value: Note): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\export function decodeNote(json: unknown): svt.ValidationResult<Note> {
+        \\    return validateNote(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions[1..], .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Maps are output as records with every entry checked and values encoded" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\enum Color {
+        \\    red = "red"
+        \\    green = "green"
+        \\}
+        \\
+        \\struct Inventory {
+        \\    counts: Map<String, U64>
+        \\    labels: Map<Color, String>
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\function isBigIntInRange(minimum: string, maximum: string): svt.TypePredicate<bigint> {
+        \\    return function isBigIntInRangeMinimumMaximum(value: unknown): value is bigint {
+        \\        return typeof value === "bigint" && value >= BigInt(minimum) && value <= BigInt(maximum);
+        \\    };
+        \\}
+        \\
+        \\function validateBigIntInRange(minimum: string, maximum: string): svt.Validator<bigint> {
+        \\    return function validateBigIntInRangeMinimumMaximum(value: unknown): svt.ValidationResult<bigint> {
+        \\        const bigIntValue = typeof value === "string" && /^-?[0-9]+$/.test(value) ? BigInt(value) : value;
+        \\
+        \\        if (typeof bigIntValue === "bigint" && bigIntValue >= BigInt(minimum) && bigIntValue <= BigInt(maximum)) {
+        \\            return svt.Valid(bigIntValue);
+        \\        }
+        \\
+        \\        return svt.Invalid(`Expected integer string in range [${minimum}, ${maximum}], got: ${value}`);
+        \\    };
+        \\}
+        \\
+        \\function encodeBigInt(value: bigint): string {
+        \\    return value.toString();
+        \\}
+        \\
+        \\function isMapOf<K extends string, V>(keyChecker: svt.TypePredicate<K> | svt.Literal, predicate: svt.TypePredicate<V>): svt.TypePredicate<Partial<Record<K, V>>> {
+        \\    return function isMapOfKV(value: unknown): value is Partial<Record<K, V>> {
+        \\        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        \\            return false;
+        \\        }
+        \\
+        \\        return Object.entries(value).every(([key, v]) =>
+        \\            (typeof keyChecker === "function" ? keyChecker(key) : key === keyChecker) && predicate(v)
+        \\        );
+        \\    };
+        \\}
+        \\
+        \\function validateMapOf<K extends string, V>(keyValidator: svt.Validator<K> | svt.Literal, validator: svt.Validator<V>): svt.Validator<Partial<Record<K, V>>> {
+        \\    return function validateMapOfKV(value: unknown): svt.ValidationResult<Partial<Record<K, V>>> {
+        \\        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        \\            return svt.Invalid("is not an object");
+        \\        }
+        \\
+        \\        const errors: svt.ErrorMap = {};
+        \\        let hasErrors = false;
+        \\        const validated: Partial<Record<K, V>> = {};
+        \\        for (const [key, v] of Object.entries(value)) {
+        \\            const keyResult: svt.ValidationResult<K> = typeof keyValidator === "function"
+        \\                ? keyValidator(key)
+        \\                : key === keyValidator
+        \\                ? svt.Valid(key as K)
+        \\                : svt.Invalid(`Does not match literal '${keyValidator}'`);
+        \\            if (!keyResult.valid) {
+        \\                errors[key] = `Invalid key '${key}': ${keyResult.errors}`;
+        \\                hasErrors = true;
+        \\                continue;
+        \\            }
+        \\
+        \\            const result = validator(v);
+        \\            if (!result.valid) {
+        \\                errors[key] = result.errors;
+        \\                hasErrors = true;
+        \\                continue;
+        \\            }
+        \\
+        \\            validated[keyResult.value] = result.value;
+        \\        }
+        \\
+        \\        return hasErrors ? svt.Invalid(errors) : svt.Valid(validated);
+        \\    };
+        \\}
+        \\
+        \\function mapToJson<V>(vToJson: svt.ToJSON<V>): svt.ToJSON<{[key: string]: unknown}> {
+        \\    return function mapOfVToJson(value: {[key: string]: unknown}): unknown {
+        \\        const json: {[key: string]: unknown} = {};
+        \\        for (const [key, v] of Object.entries(value)) {
+        \\            if (v !== undefined) {
+        \\                json[key] = vToJson(v as V);
+        \\            }
+        \\        }
+        \\
+        \\        return json;
+        \\    };
+        \\}
+        \\
+        \\export type Inventory = {
+        \\    counts: Record<string, bigint>;
+        \\    labels: Partial<Record<Color, string>>;
+        \\};
+        \\
+        \\export function isInventory(value: unknown): value is Inventory {
+        \\    return svt.isInterface<Inventory>(value, {counts: isMapOf(svt.isString, isBigIntInRange("0", "18446744073709551615")), labels: isMapOf(isColor, svt.isString)});
+        \\}
+        \\
+        \\export function validateInventory(value: unknown): svt.ValidationResult<Inventory> {
+        \\    return svt.validate<Inventory>(value, {counts: validateMapOf(svt.validateString, validateBigIntInRange("0", "18446744073709551615")), labels: validateMapOf(validateColor, svt.validateString)});
+        \\}
+        \\
+        \\export function encodeInventory(value: Inventory): unknown {
+        \\    return {counts: mapToJson(encodeBigInt)(value.counts), labels: value.labels};
+        \\}
+        \\
+        \\export function decodeInventory(json: unknown): svt.ValidationResult<Inventory> {
+        \\    return validateInventory(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions[1..], .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Dates and durations are validated ISO-8601 strings, or `Date` objects with `date_objects`" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\struct Episode {
+        \\    airDate: ?Date
+        \\    updatedAt: DateTime
+        \\    runtime: Duration
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\function isDate(value: unknown): value is string {
+        \\    return typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+        \\        !Number.isNaN(Date.parse(value)) &&
+        \\        new Date(value).toISOString().startsWith(value);
+        \\}
+        \\
+        \\function validateDate(value: unknown): svt.ValidationResult<string> {
+        \\    if (
+        \\        typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+        \\        !Number.isNaN(Date.parse(value)) &&
+        \\        new Date(value).toISOString().startsWith(value)
+        \\    ) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 date, got: ${value}`);
+        \\}
+        \\
+        \\function isDateTime(value: unknown): value is string {
+        \\    return typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value) &&
+        \\        !Number.isNaN(Date.parse(value)) &&
+        \\        new Date(value.slice(0, 10)).toISOString().startsWith(value.slice(0, 10));
+        \\}
+        \\
+        \\function validateDateTime(value: unknown): svt.ValidationResult<string> {
+        \\    if (
+        \\        typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value) &&
+        \\        !Number.isNaN(Date.parse(value)) &&
+        \\        new Date(value.slice(0, 10)).toISOString().startsWith(value.slice(0, 10))
+        \\    ) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 date and time with offset, got: ${value}`);
+        \\}
+        \\
+        \\function isDuration(value: unknown): value is string {
+        \\    return typeof value === "string" &&
+        \\        /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value);
+        \\}
+        \\
+        \\function validateDuration(value: unknown): svt.ValidationResult<string> {
+        \\    if (
+        \\        typeof value === "string" &&
+        \\        /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value)
+        \\    ) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 duration, got: ${value}`);
+        \\}
+        \\
+        \\export type Episode = {
+        \\    airDate: string | null | undefined;
+        \\    updatedAt: string;
+        \\    runtime: string;
+        \\};
+        \\
+        \\export function isEpisode(value: unknown): value is Episode {
+        \\    return svt.isInterface<Episode>(value, {airDate: svt.optional(isDate), updatedAt: isDateTime, runtime: isDuration});
+        \\}
+        \\
+        \\export function validateEpisode(value: unknown): svt.ValidationResult<Episode> {
+        \\    return svt.validate<Episode>(value, {airDate: svt.validateOptional(validateDate), updatedAt: validateDateTime, runtime: validateDuration});
+        \\}
+        \\
+        \\export function encodeEpisode(value: Episode): unknown {
+        \\    return {airDate: value.airDate, updatedAt: value.updatedAt, runtime: value.runtime};
+        \\}
+        \\
+        \\export function decodeEpisode(json: unknown): svt.ValidationResult<Episode> {
+        \\    return validateEpisode(json);
+        \\}
+    ;
+
+    const expected_date_objects_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\function isDate(value: unknown): value is Date {
+        \\    return value instanceof Date && !Number.isNaN(value.getTime());
+        \\}
+        \\
+        \\function validateDate(value: unknown): svt.ValidationResult<Date> {
+        \\    if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        \\        const date = new Date(value);
+        \\        if (!Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)) {
+        \\            return svt.Valid(date);
+        \\        }
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 date, got: ${value}`);
+        \\}
+        \\
+        \\function encodeDate(value: Date): string {
+        \\    return value.toISOString().slice(0, 10);
+        \\}
+        \\
+        \\function isDateTime(value: unknown): value is Date {
+        \\    return value instanceof Date && !Number.isNaN(value.getTime());
+        \\}
+        \\
+        \\function validateDateTime(value: unknown): svt.ValidationResult<Date> {
+        \\    if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    if (
+        \\        typeof value === "string" &&
+        \\        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value) &&
+        \\        new Date(value.slice(0, 10)).toISOString().startsWith(value.slice(0, 10))
+        \\    ) {
+        \\        const date = new Date(value);
+        \\        if (!Number.isNaN(date.getTime())) {
+        \\            return svt.Valid(date);
+        \\        }
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 date and time with offset, got: ${value}`);
+        \\}
+        \\
+        \\function encodeDateTime(value: Date): string {
+        \\    return value.toISOString();
+        \\}
+        \\
+        \\function isDuration(value: unknown): value is string {
+        \\    return typeof value === "string" &&
+        \\        /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value);
+        \\}
+        \\
+        \\function validateDuration(value: unknown): svt.ValidationResult<string> {
+        \\    if (
+        \\        typeof value === "string" &&
+        \\        /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value)
+        \\    ) {
+        \\        return svt.Valid(value);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected ISO-8601 duration, got: ${value}`);
+        \\}
+        \\
+        \\export type Episode = {
+        \\    airDate: Date | null | undefined;
+        \\    updatedAt: Date;
+        \\    runtime: string;
+        \\};
+        \\
+        \\export function isEpisode(value: unknown): value is Episode {
+        \\    return svt.isInterface<Episode>(value, {airDate: svt.optional(isDate), updatedAt: isDateTime, runtime: isDuration});
+        \\}
+        \\
+        \\export function validateEpisode(value: unknown): svt.ValidationResult<Episode> {
+        \\    return svt.validate<Episode>(value, {airDate: svt.validateOptional(validateDate), updatedAt: validateDateTime, runtime: validateDuration});
+        \\}
+        \\
+        \\export function encodeEpisode(value: Episode): unknown {
+        \\    return {airDate: svt.optionalToJson(encodeDate)(value.airDate), updatedAt: encodeDateTime(value.updatedAt), runtime: value.runtime};
+        \\}
+        \\
+        \\export function decodeEpisode(json: unknown): svt.ValidationResult<Episode> {
+        \\    return validateEpisode(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+    try testing.expectEqualStrings(expected_output, output);
+
+    const date_objects_output = try typescript.compileDefinitions(
+        allocator,
+        module.definitions,
+        .{ .date_objects = true },
+    );
+    try testing.expectEqualStrings(expected_date_objects_output, date_objects_output);
+}
+
+test "Enumerations with integer values are output as numeric enums checked against their values" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\enum Priority {
+        \\    low = 1
+        \\    medium = 5
+        \\    high = 10
+        \\}
+        \\
+        \\struct Task {
+        \\    priority: Priority
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\export enum Priority {
+        \\    low = 1,
+        \\    medium = 5,
+        \\    high = 10,
+        \\}
+        \\
+        \\export const allPriority: readonly Priority[] = [Priority.low, Priority.medium, Priority.high];
+        \\
+        \\export function isPriority(value: unknown): value is Priority {
+        \\    return allPriority.some((v) => v === value);
+        \\}
+        \\
+        \\export function validatePriority(value: unknown): svt.ValidationResult<Priority> {
+        \\    return svt.validateOneOfLiterals<Priority>(value, allPriority);
+        \\}
+        \\
+        \\export function parsePriority(value: string): Priority | undefined {
+        \\    return allPriority.find((v) => String(v) === value);
+        \\}
+        \\
+        \\export function encodePriority(value: Priority): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\export function decodePriority(json: unknown): svt.ValidationResult<Priority> {
+        \\    return validatePriority(json);
+        \\}
+        \\
+        \\export type Task = {
+        \\    priority: Priority;
+        \\};
+        \\
+        \\export function isTask(value: unknown): value is Task {
+        \\    return svt.isInterface<Task>(value, {priority: isPriority});
+        \\}
+        \\
+        \\export function validateTask(value: unknown): svt.ValidationResult<Task> {
+        \\    return svt.validate<Task>(value, {priority: validatePriority});
+        \\}
+        \\
+        \\export function encodeTask(value: Task): unknown {
+        \\    return {priority: encodePriority(value.priority)};
+        \\}
+        \\
+        \\export function decodeTask(json: unknown): svt.ValidationResult<Task> {
+        \\    return validateTask(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Enumerations export their values and a parser, and are `as const` objects with `literal_enums`" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\enum StillSize {
+        \\    w92 = "w92"
+        \\    /// Full resolution.
+        \\    original = "original"
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\export enum StillSize {
+        \\    w92 = "w92",
+        \\    /** Full resolution. */
+        \\    original = "original",
+        \\}
+        \\
+        \\export const allStillSize: readonly StillSize[] = [StillSize.w92, StillSize.original];
+        \\
+        \\export function isStillSize(value: unknown): value is StillSize {
+        \\    return allStillSize.some((v) => v === value);
+        \\}
+        \\
+        \\export function validateStillSize(value: unknown): svt.ValidationResult<StillSize> {
+        \\    return svt.validateOneOfLiterals<StillSize>(value, allStillSize);
+        \\}
+        \\
+        \\export function parseStillSize(value: string): StillSize | undefined {
+        \\    return allStillSize.find((v) => v === value);
+        \\}
+        \\
+        \\export function encodeStillSize(value: StillSize): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\export function decodeStillSize(json: unknown): svt.ValidationResult<StillSize> {
+        \\    return validateStillSize(json);
+        \\}
+    ;
+
+    const expected_literal_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\export const StillSize = {
+        \\    w92: "w92",
+        \\    /** Full resolution. */
+        \\    original: "original",
+        \\} as const;
+        \\
+        \\export type StillSize = (typeof StillSize)[keyof typeof StillSize];
+        \\
+        \\export const allStillSize: readonly StillSize[] = [StillSize.w92, StillSize.original];
+        \\
+        \\export function isStillSize(value: unknown): value is StillSize {
+        \\    return allStillSize.some((v) => v === value);
+        \\}
+        \\
+        \\export function validateStillSize(value: unknown): svt.ValidationResult<StillSize> {
+        \\    return svt.validateOneOfLiterals<StillSize>(value, allStillSize);
+        \\}
+        \\
+        \\export function parseStillSize(value: string): StillSize | undefined {
+        \\    return allStillSize.find((v) => v === value);
+        \\}
+        \\
+        \\export function encodeStillSize(value: StillSize): unknown {
+        \\    return value;
+        \\}
+        \\
+        \\export function decodeStillSize(json: unknown): svt.ValidationResult<StillSize> {
+        \\    return validateStillSize(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+
+    const literal_output = try typescript.compileDefinitions(
+        allocator,
+        module.definitions,
+        .{ .literal_enums = true },
+    );
+
+    try testing.expectEqualStrings(expected_literal_output, literal_output);
+}
+
+test "Union tags are `as const` objects too with `literal_enums`, with types taken from their values" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\union Shape {
+        \\    Circle: F32
+        \\    Empty
+        \\}
+        \\
+        \\union Maybe <T>{
+        \\    Nothing
+        \\    Just: T
+        \\}
+        \\
+        \\struct Point {
+        \\    x: F32
+        \\}
+        \\
+        \\union(tag = kind, embedded) Located {
+        \\    At: Point
+        \\    Nowhere
+        \\}
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\function isFiniteNumber(value: unknown): value is number {
+        \\    return Number.isFinite(value);
+        \\}
+        \\
+        \\function validateFiniteNumber(value: unknown): svt.ValidationResult<number> {
+        \\    if (Number.isFinite(value)) {
+        \\        return svt.Valid(value as number);
+        \\    }
+        \\
+        \\    return svt.Invalid(`Expected finite number, got: ${value}`);
+        \\}
+        \\
+        \\export type Shape = Circle | Empty;
+        \\
+        \\export const ShapeTag = {
+        \\    Circle: "Circle",
+        \\    Empty: "Empty",
+        \\} as const;
+        \\
+        \\export type ShapeTag = (typeof ShapeTag)[keyof typeof ShapeTag];
+        \\
+        \\export type Circle = {
+        \\    type: typeof ShapeTag.Circle;
+        \\    data: number;
+        \\};
+        \\
+        \\export type Empty = {
+        \\    type: typeof ShapeTag.Empty;
+        \\};
+        \\
+        \\export function Circle(data: number): Circle {
+        \\    return {type: ShapeTag.Circle, data};
+        \\}
+        \\
+        \\export function Empty(): Empty {
+        \\    return {type: ShapeTag.Empty};
+        \\}
+        \\
+        \\export function isShape(value: unknown): value is Shape {
+        \\    return [isCircle, isEmpty].some((typePredicate) => typePredicate(value));
+        \\}
+        \\
+        \\export function isCircle(value: unknown): value is Circle {
+        \\    return svt.isInterface<Circle>(value, {type: ShapeTag.Circle, data: isFiniteNumber});
+        \\}
+        \\
+        \\export function isEmpty(value: unknown): value is Empty {
+        \\    return svt.isInterface<Empty>(value, {type: ShapeTag.Empty});
+        \\}
+        \\
+        \\export function validateShape(value: unknown): svt.ValidationResult<Shape> {
+        \\    return svt.validateWithTypeTag<Shape>(value, {[ShapeTag.Circle]: validateCircle, [ShapeTag.Empty]: validateEmpty}, "type");
+        \\}
+        \\
+        \\export function validateCircle(value: unknown): svt.ValidationResult<Circle> {
+        \\    return svt.validate<Circle>(value, {type: ShapeTag.Circle, data: validateFiniteNumber});
+        \\}
+        \\
+        \\export function validateEmpty(value: unknown): svt.ValidationResult<Empty> {
+        \\    return svt.validate<Empty>(value, {type: ShapeTag.Empty});
+        \\}
+        \\
+        \\export function encodeShape(value: Shape): unknown {
+        \\    switch (value.type) {
+        \\        case ShapeTag.Circle:
+        \\            return {type: value.type, data: value.data};
+        \\        case ShapeTag.Empty:
+        \\            return {type: value.type};
+        \\    }
+        \\}
+        \\
+        \\export function decodeShape(json: unknown): svt.ValidationResult<Shape> {
+        \\    return validateShape(json);
+        \\}
+        \\
+        \\export type ShapeCases<R> = {
+        \\    Circle: (data: number) => R;
+        \\    Empty: () => R;
+        \\};
+        \\
+        \\export function matchShape<R>(value: Shape, cases: ShapeCases<R>): R {
+        \\    switch (value.type) {
+        \\        case ShapeTag.Circle:
+        \\            return cases.Circle(value.data);
+        \\        case ShapeTag.Empty:
+        \\            return cases.Empty();
+        \\    }
+        \\}
+        \\
+        \\export function matchShapePartially<R>(value: Shape, cases: Partial<ShapeCases<R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case ShapeTag.Circle:
+        \\            return cases.Circle !== undefined ? cases.Circle(value.data) : cases._();
+        \\        case ShapeTag.Empty:
+        \\            return cases.Empty !== undefined ? cases.Empty() : cases._();
+        \\    }
+        \\}
+        \\
+        \\export type Maybe<T> = Nothing | Just<T>;
+        \\
+        \\export const MaybeTag = {
+        \\    Nothing: "Nothing",
+        \\    Just: "Just",
+        \\} as const;
+        \\
+        \\export type MaybeTag = (typeof MaybeTag)[keyof typeof MaybeTag];
+        \\
+        \\export type Nothing = {
+        \\    type: typeof MaybeTag.Nothing;
+        \\};
+        \\
+        \\export type Just<T> = {
+        \\    type: typeof MaybeTag.Just;
+        \\    data: T;
+        \\};
+        \\
+        \\export function Nothing(): Nothing {
+        \\    return {type: MaybeTag.Nothing};
+        \\}
+        \\
+        \\export function Just<T>(data: T): Just<T> {
+        \\    return {type: MaybeTag.Just, data};
+        \\}
+        \\
+        \\export function isMaybe<T>(isT: svt.TypePredicate<T>): svt.TypePredicate<Maybe<T>> {
+        \\    return function isMaybeT(value: unknown): value is Maybe<T> {
+        \\        return [isNothing, isJust(isT)].some((typePredicate) => typePredicate(value));
+        \\    };
+        \\}
+        \\
+        \\export function isNothing(value: unknown): value is Nothing {
+        \\    return svt.isInterface<Nothing>(value, {type: MaybeTag.Nothing});
+        \\}
+        \\
+        \\export function isJust<T>(isT: svt.TypePredicate<T>): svt.TypePredicate<Just<T>> {
+        \\    return function isJustT(value: unknown): value is Just<T> {
+        \\        return svt.isInterface<Just<T>>(value, {type: MaybeTag.Just, data: isT});
+        \\    };
+        \\}
+        \\
+        \\export function validateMaybe<T>(validateT: svt.Validator<T>): svt.Validator<Maybe<T>> {
+        \\    return function validateMaybeT(value: unknown): svt.ValidationResult<Maybe<T>> {
+        \\        return svt.validateWithTypeTag<Maybe<T>>(value, {[MaybeTag.Nothing]: validateNothing, [MaybeTag.Just]: validateJust(validateT)}, "type");
+        \\    };
+        \\}
+        \\
+        \\export function validateNothing(value: unknown): svt.ValidationResult<Nothing> {
+        \\    return svt.validate<Nothing>(value, {type: MaybeTag.Nothing});
+        \\}
+        \\
+        \\export function validateJust<T>(validateT: svt.Validator<T>): svt.Validator<Just<T>> {
+        \\    return function validateJustT(value: unknown): svt.ValidationResult<Just<T>> {
+        \\        return svt.validate<Just<T>>(value, {type: MaybeTag.Just, data: validateT});
+        \\    };
+        \\}
+        \\
+        \\export function encodeMaybe<T>(encodeT: svt.ToJSON<T>): svt.ToJSON<Maybe<T>> {
+        \\    return function encodeMaybeT(value: Maybe<T>): unknown {
+        \\        switch (value.type) {
+        \\            case MaybeTag.Nothing:
+        \\                return {type: value.type};
+        \\            case MaybeTag.Just:
+        \\                return {type: value.type, data: encodeT(value.data)};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeMaybe<T>(decodeT: svt.Validator<T>): svt.Validator<Maybe<T>> {
+        \\    return validateMaybe(decodeT);
+        \\}
+        \\
+        \\export type MaybeCases<T, R> = {
+        \\    Nothing: () => R;
+        \\    Just: (data: T) => R;
+        \\};
+        \\
+        \\export function matchMaybe<T, R>(value: Maybe<T>, cases: MaybeCases<T, R>): R {
+        \\    switch (value.type) {
+        \\        case MaybeTag.Nothing:
+        \\            return cases.Nothing();
+        \\        case MaybeTag.Just:
+        \\            return cases.Just(value.data);
+        \\    }
+        \\}
+        \\
+        \\export function matchMaybePartially<T, R>(value: Maybe<T>, cases: Partial<MaybeCases<T, R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case MaybeTag.Nothing:
+        \\            return cases.Nothing !== undefined ? cases.Nothing() : cases._();
+        \\        case MaybeTag.Just:
+        \\            return cases.Just !== undefined ? cases.Just(value.data) : cases._();
+        \\    }
+        \\}
+        \\
+        \\export type Point = {
+        \\    x: number;
+        \\};
+        \\
+        \\export function isPoint(value: unknown): value is Point {
+        \\    return svt.isInterface<Point>(value, {x: isFiniteNumber});
+        \\}
+        \\
+        \\export function validatePoint(value: unknown): svt.ValidationResult<Point> {
+        \\    return svt.validate<Point>(value, {x: validateFiniteNumber});
+        \\}
+        \\
+        \\export function encodePoint(value: Point): unknown {
+        \\    return {x: value.x};
+        \\}
+        \\
+        \\export function decodePoint(json: unknown): svt.ValidationResult<Point> {
+        \\    return validatePoint(json);
+        \\}
+        \\
+        \\export type Located = At | Nowhere;
+        \\
+        \\export const LocatedTag = {
+        \\    At: "At",
+        \\    Nowhere: "Nowhere",
+        \\} as const;
+        \\
+        \\export type LocatedTag = (typeof LocatedTag)[keyof typeof LocatedTag];
+        \\
+        \\export type At = {
+        \\    kind: typeof LocatedTag.At;
+        \\    x: number;
+        \\};
+        \\
+        \\export type Nowhere = {
+        \\    kind: typeof LocatedTag.Nowhere;
+        \\};
+        \\
+        \\export function At(data: Point): At {
+        \\    return {kind: LocatedTag.At, ...data};
+        \\}
+        \\
+        \\export function Nowhere(): Nowhere {
+        \\    return {kind: LocatedTag.Nowhere};
+        \\}
+        \\
+        \\export function isLocated(value: unknown): value is Located {
+        \\    return [isAt, isNowhere].some((typePredicate) => typePredicate(value));
+        \\}
+        \\
+        \\export function isAt(value: unknown): value is At {
+        \\    return svt.isInterface<At>(value, {kind: LocatedTag.At, x: isFiniteNumber});
+        \\}
+        \\
+        \\export function isNowhere(value: unknown): value is Nowhere {
+        \\    return svt.isInterface<Nowhere>(value, {kind: LocatedTag.Nowhere});
+        \\}
+        \\
+        \\export function validateLocated(value: unknown): svt.ValidationResult<Located> {
+        \\    return svt.validateWithTypeTag<Located>(value, {[LocatedTag.At]: validateAt, [LocatedTag.Nowhere]: validateNowhere}, "kind");
+        \\}
+        \\
+        \\export function validateAt(value: unknown): svt.ValidationResult<At> {
+        \\    return svt.validate<At>(value, {kind: LocatedTag.At, x: validateFiniteNumber});
+        \\}
+        \\
+        \\export function validateNowhere(value: unknown): svt.ValidationResult<Nowhere> {
+        \\    return svt.validate<Nowhere>(value, {kind: LocatedTag.Nowhere});
+        \\}
+        \\
+        \\export function encodeLocated(value: Located): unknown {
+        \\    switch (value.kind) {
+        \\        case LocatedTag.At:
+        \\            return {kind: value.kind, x: value.x};
+        \\        case LocatedTag.Nowhere:
+        \\            return {kind: value.kind};
+        \\    }
+        \\}
+        \\
+        \\export function decodeLocated(json: unknown): svt.ValidationResult<Located> {
+        \\    return validateLocated(json);
+        \\}
+        \\
+        \\export type LocatedCases<R> = {
+        \\    At: (data: At) => R;
+        \\    Nowhere: () => R;
+        \\};
+        \\
+        \\export function matchLocated<R>(value: Located, cases: LocatedCases<R>): R {
+        \\    switch (value.kind) {
+        \\        case LocatedTag.At:
+        \\            return cases.At(value);
+        \\        case LocatedTag.Nowhere:
+        \\            return cases.Nowhere();
+        \\    }
+        \\}
+        \\
+        \\export function matchLocatedPartially<R>(value: Located, cases: Partial<LocatedCases<R>> & {_: () => R}): R {
+        \\    switch (value.kind) {
+        \\        case LocatedTag.At:
+        \\            return cases.At !== undefined ? cases.At(value) : cases._();
+        \\        case LocatedTag.Nowhere:
+        \\            return cases.Nowhere !== undefined ? cases.Nowhere() : cases._();
+        \\    }
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(
+        allocator,
+        module.definitions,
+        .{ .literal_enums = true },
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Unions with `namespaced_unions` put constructors, type guards and validators in a namespace" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\union Outcome {
+        \\    Ok: String
+        \\    Failed
+        \\}
+        \\
+        \\union Lookup <T>{
+        \\    Ok: T
+        \\    None
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\export type Outcome = Outcome.Ok | Outcome.Failed;
+        \\
+        \\export enum OutcomeTag {
+        \\    Ok = "Ok",
+        \\    Failed = "Failed",
+        \\}
+        \\
+        \\export namespace Outcome {
+        \\    export type Ok = {
+        \\        type: OutcomeTag.Ok;
+        \\        data: string;
+        \\    };
+        \\
+        \\    export type Failed = {
+        \\        type: OutcomeTag.Failed;
+        \\    };
+        \\
+        \\    export function Ok(data: string): Ok {
+        \\        return {type: OutcomeTag.Ok, data};
+        \\    }
+        \\
+        \\    export function Failed(): Failed {
+        \\        return {type: OutcomeTag.Failed};
+        \\    }
+        \\
+        \\    export function isOk(value: unknown): value is Ok {
+        \\        return svt.isInterface<Ok>(value, {type: OutcomeTag.Ok, data: svt.isString});
+        \\    }
+        \\
+        \\    export function isFailed(value: unknown): value is Failed {
+        \\        return svt.isInterface<Failed>(value, {type: OutcomeTag.Failed});
+        \\    }
+        \\
+        \\    export function validateOk(value: unknown): svt.ValidationResult<Ok> {
+        \\        return svt.validate<Ok>(value, {type: OutcomeTag.Ok, data: svt.validateString});
+        \\    }
+        \\
+        \\    export function validateFailed(value: unknown): svt.ValidationResult<Failed> {
+        \\        return svt.validate<Failed>(value, {type: OutcomeTag.Failed});
+        \\    }
+        \\}
+        \\
+        \\export function isOutcome(value: unknown): value is Outcome {
+        \\    return [Outcome.isOk, Outcome.isFailed].some((typePredicate) => typePredicate(value));
+        \\}
+        \\
+        \\export function validateOutcome(value: unknown): svt.ValidationResult<Outcome> {
+        \\    return svt.validateWithTypeTag<Outcome>(value, {[OutcomeTag.Ok]: Outcome.validateOk, [OutcomeTag.Failed]: Outcome.validateFailed}, "type");
+        \\}
+        \\
+        \\export function encodeOutcome(value: Outcome): unknown {
+        \\    switch (value.type) {
+        \\        case OutcomeTag.Ok:
+        \\            return {type: value.type, data: value.data};
+        \\        case OutcomeTag.Failed:
+        \\            return {type: value.type};
+        \\    }
+        \\}
+        \\
+        \\export function decodeOutcome(json: unknown): svt.ValidationResult<Outcome> {
+        \\    return validateOutcome(json);
+        \\}
+        \\
+        \\export type OutcomeCases<R> = {
+        \\    Ok: (data: string) => R;
+        \\    Failed: () => R;
+        \\};
+        \\
+        \\export function matchOutcome<R>(value: Outcome, cases: OutcomeCases<R>): R {
+        \\    switch (value.type) {
+        \\        case OutcomeTag.Ok:
+        \\            return cases.Ok(value.data);
+        \\        case OutcomeTag.Failed:
+        \\            return cases.Failed();
+        \\    }
+        \\}
+        \\
+        \\export function matchOutcomePartially<R>(value: Outcome, cases: Partial<OutcomeCases<R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case OutcomeTag.Ok:
+        \\            return cases.Ok !== undefined ? cases.Ok(value.data) : cases._();
+        \\        case OutcomeTag.Failed:
+        \\            return cases.Failed !== undefined ? cases.Failed() : cases._();
+        \\    }
+        \\}
+        \\
+        \\export type Lookup<T> = Lookup.Ok<T> | Lookup.None;
+        \\
+        \\export enum LookupTag {
+        \\    Ok = "Ok",
+        \\    None = "None",
+        \\}
+        \\
+        \\export namespace Lookup {
+        \\    export type Ok<T> = {
+        \\        type: LookupTag.Ok;
+        \\        data: T;
+        \\    };
+        \\
+        \\    export type None = {
+        \\        type: LookupTag.None;
+        \\    };
+        \\
+        \\    export function Ok<T>(data: T): Ok<T> {
+        \\        return {type: LookupTag.Ok, data};
+        \\    }
+        \\
+        \\    export function None(): None {
+        \\        return {type: LookupTag.None};
+        \\    }
+        \\
+        \\    export function isOk<T>(isT: svt.TypePredicate<T>): svt.TypePredicate<Ok<T>> {
+        \\        return function isOkT(value: unknown): value is Ok<T> {
+        \\            return svt.isInterface<Ok<T>>(value, {type: LookupTag.Ok, data: isT});
+        \\        };
+        \\    }
+        \\
+        \\    export function isNone(value: unknown): value is None {
+        \\        return svt.isInterface<None>(value, {type: LookupTag.None});
+        \\    }
+        \\
+        \\    export function validateOk<T>(validateT: svt.Validator<T>): svt.Validator<Ok<T>> {
+        \\        return function validateOkT(value: unknown): svt.ValidationResult<Ok<T>> {
+        \\            return svt.validate<Ok<T>>(value, {type: LookupTag.Ok, data: validateT});
+        \\        };
+        \\    }
+        \\
+        \\    export function validateNone(value: unknown): svt.ValidationResult<None> {
+        \\        return svt.validate<None>(value, {type: LookupTag.None});
+        \\    }
+        \\}
+        \\
+        \\export function isLookup<T>(isT: svt.TypePredicate<T>): svt.TypePredicate<Lookup<T>> {
+        \\    return function isLookupT(value: unknown): value is Lookup<T> {
+        \\        return [Lookup.isOk(isT), Lookup.isNone].some((typePredicate) => typePredicate(value));
+        \\    };
+        \\}
+        \\
+        \\export function validateLookup<T>(validateT: svt.Validator<T>): svt.Validator<Lookup<T>> {
+        \\    return function validateLookupT(value: unknown): svt.ValidationResult<Lookup<T>> {
+        \\        return svt.validateWithTypeTag<Lookup<T>>(value, {[LookupTag.Ok]: Lookup.validateOk(validateT), [LookupTag.None]: Lookup.validateNone}, "type");
+        \\    };
+        \\}
+        \\
+        \\export function encodeLookup<T>(encodeT: svt.ToJSON<T>): svt.ToJSON<Lookup<T>> {
+        \\    return function encodeLookupT(value: Lookup<T>): unknown {
+        \\        switch (value.type) {
+        \\            case LookupTag.Ok:
+        \\                return {type: value.type, data: encodeT(value.data)};
+        \\            case LookupTag.None:
+        \\                return {type: value.type};
+        \\        }
+        \\    };
+        \\}
+        \\
+        \\export function decodeLookup<T>(decodeT: svt.Validator<T>): svt.Validator<Lookup<T>> {
+        \\    return validateLookup(decodeT);
+        \\}
+        \\
+        \\export type LookupCases<T, R> = {
+        \\    Ok: (data: T) => R;
+        \\    None: () => R;
+        \\};
+        \\
+        \\export function matchLookup<T, R>(value: Lookup<T>, cases: LookupCases<T, R>): R {
+        \\    switch (value.type) {
+        \\        case LookupTag.Ok:
+        \\            return cases.Ok(value.data);
+        \\        case LookupTag.None:
+        \\            return cases.None();
+        \\    }
+        \\}
+        \\
+        \\export function matchLookupPartially<T, R>(value: Lookup<T>, cases: Partial<LookupCases<T, R>> & {_: () => R}): R {
+        \\    switch (value.type) {
+        \\        case LookupTag.Ok:
+        \\            return cases.Ok !== undefined ? cases.Ok(value.data) : cases._();
+        \\        case LookupTag.None:
+        \\            return cases.None !== undefined ? cases.None() : cases._();
+        \\    }
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithOptions(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        .{ .namespaced_constructors = true },
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(
+        allocator,
+        module.definitions,
+        .{ .namespaced_unions = true },
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Imports of other modules and the index module end with the chosen import extension" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\import other
+        \\
+        \\declare external.Plan
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "./gotyno_runtime.js";
+        \\
+        \\import * as other from "./other.js";
+        \\
+        \\import * as _external from "./external.js";
+        \\
+        \\export type Plan = _external.Plan;
+        \\
+        \\export const isPlan = _external.isPlan;
+        \\
+        \\export const validatePlan = _external.validatePlan;
+    ;
+
+    const expected_index_output =
+        \\export * as basic from "./basic.js";
+        \\export * as other from "./other.js";
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(
+        allocator,
+        module.definitions,
+        .{ .runtime_module = "gotyno_runtime", .import_extension = .js },
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+
+    const index_output = try typescript.outputIndexModule(
+        allocator,
+        .{ .import_extension = .js },
+        &[_][]const u8{ "basic", "other" },
+    );
+
+    try testing.expectEqualStrings(expected_index_output, index_output);
+}
+
+test "Runtime helpers are output after all of the module's imports" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const definition_buffer =
+        \\import other
+        \\
+        \\struct Triple {
+        \\    values: [3]String
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\import * as other from "./other";
+        \\
+        \\function isArrayOfLength<T, N extends number>(length: N, predicate: svt.TypePredicate<T>): svt.TypePredicate<T[] & {length: N}> {
+        \\    return function isArrayOfLengthN(value: unknown): value is T[] & {length: N} {
+        \\        return svt.arrayOf(predicate)(value) && value.length === length;
+        \\    };
+        \\}
+        \\
+        \\function validateArrayOfLength<T, N extends number>(length: N, validator: svt.Validator<T>): svt.Validator<T[] & {length: N}> {
+        \\    return function validateArrayOfLengthN(value: unknown): svt.ValidationResult<T[] & {length: N}> {
+        \\        if (Array.isArray(value) && value.length !== length) {
+        \\            return svt.Invalid(`Expected array of length ${length}, got array of length ${value.length}`);
+        \\        }
+        \\
+        \\        return svt.validateArray(validator)(value) as svt.ValidationResult<T[] & {length: N}>;
+        \\    };
+        \\}
+        \\
+        \\export type Triple = {
+        \\    values: string[] & {length: 3};
+        \\};
+        \\
+        \\export function isTriple(value: unknown): value is Triple {
+        \\    return svt.isInterface<Triple>(value, {values: isArrayOfLength(3, svt.isString)});
+        \\}
+        \\
+        \\export function validateTriple(value: unknown): svt.ValidationResult<Triple> {
+        \\    return svt.validate<Triple>(value, {values: validateArrayOfLength(3, svt.validateString)});
+        \\}
+        \\
+        \\export function encodeTriple(value: Triple): unknown {
+        \\    return {values: value.values};
+        \\}
+        \\
+        \\export function decodeTriple(json: unknown): svt.ValidationResult<Triple> {
+        \\    return validateTriple(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const module = try parser.parseWithDescribedError(
+        allocator,
+        allocator,
+        "test.gotyno",
+        definition_buffer,
+        null,
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(allocator, module.definitions, .{});
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Aliased imports qualify references with the alias and selective imports use names directly" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const basic_buffer =
+        \\struct Event {
+        \\    name: String
+        \\}
+        \\
+        \\declare external.Plan
+        \\
+    ;
+
+    const aliased_buffer =
+        \\import basic as b
+        \\
+        \\struct Holder {
+        \\    event: b.Event
+        \\}
+        \\
+    ;
+
+    const selective_buffer =
+        \\import basic (Event, Plan)
+        \\
+        \\struct Holder {
+        \\    event: Event
+        \\    plan: Plan
+        \\}
+        \\
+    ;
+
+    const expected_aliased_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\import * as b from "./basic";
+        \\
+        \\export type Holder = {
+        \\    event: b.Event;
+        \\};
+        \\
+        \\export function isHolder(value: unknown): value is Holder {
+        \\    return svt.isInterface<Holder>(value, {event: b.isEvent});
+        \\}
+        \\
+        \\export function validateHolder(value: unknown): svt.ValidationResult<Holder> {
+        \\    return svt.validate<Holder>(value, {event: b.validateEvent});
+        \\}
+        \\
+        \\export function encodeHolder(value: Holder): unknown {
+        \\    return {event: b.encodeEvent(value.event)};
+        \\}
+        \\
+        \\export function decodeHolder(json: unknown): svt.ValidationResult<Holder> {
+        \\    return validateHolder(json);
+        \\}
+    ;
+
+    const expected_selective_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\import {type Event, isEvent, validateEvent, encodeEvent, type Plan, isPlan, validatePlan} from "./basic";
+        \\
+        \\export type Holder = {
+        \\    event: Event;
+        \\    plan: Plan;
+        \\};
+        \\
+        \\export function isHolder(value: unknown): value is Holder {
+        \\    return svt.isInterface<Holder>(value, {event: isEvent, plan: isPlan});
+        \\}
+        \\
+        \\export function validateHolder(value: unknown): svt.ValidationResult<Holder> {
+        \\    return svt.validate<Holder>(value, {event: validateEvent, plan: validatePlan});
+        \\}
+        \\
+        \\export function encodeHolder(value: Holder): unknown {
+        \\    return {event: encodeEvent(value.event), plan: value.plan};
+        \\}
+        \\
+        \\export function decodeHolder(json: unknown): svt.ValidationResult<Holder> {
+        \\    return validateHolder(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const modules = try parser.parseModules(
+        allocator,
+        allocator,
+        &[_]BufferData{
+            .{ .filename = "basic.gotyno", .buffer = basic_buffer },
+            .{ .filename = "aliased.gotyno", .buffer = aliased_buffer },
+            .{ .filename = "selective.gotyno", .buffer = selective_buffer },
+        },
+        .{},
+        &parsing_error,
+    );
+
+    const aliased_output = try typescript.compileDefinitions(
+        allocator,
+        modules.get("aliased").?.definitions,
+        .{},
+    );
+
+    try testing.expectEqualStrings(expected_aliased_output, aliased_output);
+
+    const selective_output = try typescript.compileDefinitions(
+        allocator,
+        modules.get("selective").?.definitions,
+        .{},
+    );
+
+    try testing.expectEqualStrings(expected_selective_output, selective_output);
+}
+
+test "Declared modules are bound to names that imports can't use" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const accounts_buffer =
+        \\struct Account {
+        \\    id: String
+        \\}
+        \\
+    ;
+
+    const wallet_buffer =
+        \\import accounts as money
+        \\
+        \\declare money.Money
+        \\
+        \\struct Wallet {
+        \\    owner: money.Account
+        \\    balance: Money
+        \\}
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\import * as money from "./accounts";
+        \\
+        \\import * as _money from "./money";
+        \\
+        \\export type Money = _money.Money;
+        \\
+        \\export const isMoney = _money.isMoney;
+        \\
+        \\export const validateMoney = _money.validateMoney;
+        \\
+        \\export type Wallet = {
+        \\    owner: money.Account;
+        \\    balance: Money;
+        \\};
+        \\
+        \\export function isWallet(value: unknown): value is Wallet {
+        \\    return svt.isInterface<Wallet>(value, {owner: money.isAccount, balance: isMoney});
+        \\}
+        \\
+        \\export function validateWallet(value: unknown): svt.ValidationResult<Wallet> {
+        \\    return svt.validate<Wallet>(value, {owner: money.validateAccount, balance: validateMoney});
+        \\}
+        \\
+        \\export function encodeWallet(value: Wallet): unknown {
+        \\    return {owner: money.encodeAccount(value.owner), balance: value.balance};
+        \\}
+        \\
+        \\export function decodeWallet(json: unknown): svt.ValidationResult<Wallet> {
+        \\    return validateWallet(json);
+        \\}
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const modules = try parser.parseModules(
+        allocator,
+        allocator,
+        &[_]BufferData{
+            .{ .filename = "accounts.gotyno", .buffer = accounts_buffer },
+            .{ .filename = "wallet.gotyno", .buffer = wallet_buffer },
+        },
+        .{},
+        &parsing_error,
+    );
+
+    const output = try typescript.compileDefinitions(
+        allocator,
+        modules.get("wallet").?.definitions,
+        .{},
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+}
+
+test "Imports of hierarchical modules are relative to the directory of the importing module" {
+    var arena = heap.ArenaAllocator.init(testing.allocator);
+    defer arena.deinit();
+    const allocator = arena.allocator();
+
+    const common_buffer =
+        \\struct Money {
+        \\    amount: I32
+        \\}
+        \\
+    ;
+
+    const tax_buffer =
+        \\struct Tax {
+        \\    rate: F32
+        \\}
+        \\
+    ;
+
+    const invoice_buffer =
+        \\import shared.common
+        \\import billing.tax (Tax)
+        \\
+    ;
+
+    const expected_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\import * as common from "../shared/common.js";
+        \\
+        \\import {type Tax, isTax, validateTax, encodeTax} from "./tax.js";
+    ;
+
+    const expected_root_output =
+        \\import * as svt from "simple-validation-tools";
+        \\
+        \\import * as common from "./shared/common";
+        \\
+        \\import {type Tax, isTax, validateTax, encodeTax} from "./billing/tax";
+    ;
+
+    var parsing_error: ParsingError = undefined;
+
+    const modules = try parser.parseModules(
+        allocator,
+        allocator,
+        &[_]BufferData{
+            .{ .filename = "schemas/shared/common.gotyno", .buffer = common_buffer },
+            .{ .filename = "schemas/billing/tax.gotyno", .buffer = tax_buffer },
+            .{ .filename = "schemas/billing/invoice.gotyno", .buffer = invoice_buffer },
+        },
+        .{ .module_roots = &[_][]const u8{"schemas"} },
+        &parsing_error,
+    );
+
+    const invoice_definitions = modules.get("billing.invoice").?.definitions;
+
+    const output = try typescript.compileDefinitions(
+        allocator,
+        invoice_definitions,
+        .{ .module_name = "billing.invoice", .import_extension = .js },
+    );
+
+    try testing.expectEqualStrings(expected_output, output);
+
+    const root_output = try typescript.compileDefinitions(allocator, invoice_definitions, .{});
+
+    try testing.expectEqualStrings(expected_root_output, root_output);
+}
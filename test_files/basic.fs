@@ -348,11 +348,11 @@ type KnownForMovie =
         Encode.object
             [
                 "media_type", Encode.string "movie"
-                "poster_path", (Encode.option Encode.string value.poster_path)
+                "poster_path", Encode.option Encode.string value.poster_path
                 "id", Encode.uint32 value.id
-                "title", (Encode.option Encode.string value.title)
+                "title", Encode.option Encode.string value.title
                 "vote_average", Encode.float32 value.vote_average
-                "release_date", (Encode.option Encode.string value.release_date)
+                "release_date", Encode.option Encode.string value.release_date
                 "overview", Encode.string value.overview
             ]
 
@@ -384,12 +384,12 @@ type KnownForShow =
         Encode.object
             [
                 "media_type", Encode.string "tv"
-                "poster_path", (Encode.option Encode.string value.poster_path)
+                "poster_path", Encode.option Encode.string value.poster_path
                 "id", Encode.uint32 value.id
                 "vote_average", Encode.float32 value.vote_average
                 "overview", Encode.string value.overview
-                "first_air_date", (Encode.option Encode.string value.first_air_date)
-                "name", (Encode.option Encode.string value.name)
+                "first_air_date", Encode.option Encode.string value.first_air_date
+                "name", Encode.option Encode.string value.name
             ]
 
 type KnownFor =
@@ -458,11 +458,11 @@ type KnownForMovieWithoutTypeTag =
     static member Encoder value =
         Encode.object
             [
-                "poster_path", (Encode.option Encode.string value.poster_path)
+                "poster_path", Encode.option Encode.string value.poster_path
                 "id", Encode.uint32 value.id
-                "title", (Encode.option Encode.string value.title)
+                "title", Encode.option Encode.string value.title
                 "vote_average", Encode.float32 value.vote_average
-                "release_date", (Encode.option Encode.string value.release_date)
+                "release_date", Encode.option Encode.string value.release_date
                 "overview", Encode.string value.overview
             ]
 
@@ -491,12 +491,12 @@ type KnownForShowWithoutTypeTag =
     static member Encoder value =
         Encode.object
             [
-                "poster_path", (Encode.option Encode.string value.poster_path)
+                "poster_path", Encode.option Encode.string value.poster_path
                 "id", Encode.uint32 value.id
                 "vote_average", Encode.float32 value.vote_average
                 "overview", Encode.string value.overview
-                "first_air_date", (Encode.option Encode.string value.first_air_date)
-                "name", (Encode.option Encode.string value.name)
+                "first_air_date", Encode.option Encode.string value.first_air_date
+                "name", Encode.option Encode.string value.name
             ]
 
 type KnownForEmbedded =
@@ -541,11 +541,11 @@ type KnownForEmbedded =
             Encode.object
                 [
                     "media_type", Encode.string "Movie"
-                    "poster_path", (Encode.option Encode.string payload.poster_path)
+                    "poster_path", Encode.option Encode.string payload.poster_path
                     "id", Encode.uint32 payload.id
-                    "title", (Encode.option Encode.string payload.title)
+                    "title", Encode.option Encode.string payload.title
                     "vote_average", Encode.float32 payload.vote_average
-                    "release_date", (Encode.option Encode.string payload.release_date)
+                    "release_date", Encode.option Encode.string payload.release_date
                     "overview", Encode.string payload.overview
                 ]
 
@@ -553,10 +553,10 @@ type KnownForEmbedded =
             Encode.object
                 [
                     "media_type", Encode.string "TV"
-                    "poster_path", (Encode.option Encode.string payload.poster_path)
+                    "poster_path", Encode.option Encode.string payload.poster_path
                     "id", Encode.uint32 payload.id
                     "vote_average", Encode.float32 payload.vote_average
                     "overview", Encode.string payload.overview
-                    "first_air_date", (Encode.option Encode.string payload.first_air_date)
-                    "name", (Encode.option Encode.string payload.name)
+                    "first_air_date", Encode.option Encode.string payload.first_air_date
+                    "name", Encode.option Encode.string payload.name
                 ]
\ No newline at end of file
@@ -2,8 +2,6 @@ module Import_test
 
 open Thoth.Json.Net
 
-
-
 type HoldsSomething<'t> =
     {
         holdingField: 't
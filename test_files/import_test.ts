@@ -18,6 +18,16 @@ export function validateHoldsSomething<T>(validateT: svt.Validator<T>): svt.Vali
     };
 }
 
+export function encodeHoldsSomething<T>(encodeT: svt.ToJSON<T>): svt.ToJSON<HoldsSomething<T>> {
+    return function encodeHoldsSomethingT(value: HoldsSomething<T>): unknown {
+        return {holdingField: encodeT(value.holdingField)};
+    };
+}
+
+export function decodeHoldsSomething<T>(decodeT: svt.Validator<T>): svt.Validator<HoldsSomething<T>> {
+    return validateHoldsSomething(decodeT);
+}
+
 export type StructureUsingImport = {
     event: basic.Event;
 };
@@ -30,6 +40,14 @@ export function validateStructureUsingImport(value: unknown): svt.ValidationResu
     return svt.validate<StructureUsingImport>(value, {event: basic.validateEvent});
 }
 
+export function encodeStructureUsingImport(value: StructureUsingImport): unknown {
+    return {event: basic.encodeEvent(value.event)};
+}
+
+export function decodeStructureUsingImport(json: unknown): svt.ValidationResult<StructureUsingImport> {
+    return validateStructureUsingImport(json);
+}
+
 export type UnionUsingImport = CoolEvent | Other;
 
 export enum UnionUsingImportTag {
@@ -79,6 +97,42 @@ export function validateOther(value: unknown): svt.ValidationResult<Other> {
     return svt.validate<Other>(value, {type: UnionUsingImportTag.Other, data: basic.validatePerson});
 }
 
+export function encodeUnionUsingImport(value: UnionUsingImport): unknown {
+    switch (value.type) {
+        case UnionUsingImportTag.CoolEvent:
+            return {type: value.type, data: basic.encodeEvent(value.data)};
+        case UnionUsingImportTag.Other:
+            return {type: value.type, data: basic.encodePerson(value.data)};
+    }
+}
+
+export function decodeUnionUsingImport(json: unknown): svt.ValidationResult<UnionUsingImport> {
+    return validateUnionUsingImport(json);
+}
+
+export type UnionUsingImportCases<R> = {
+    CoolEvent: (data: basic.Event) => R;
+    Other: (data: basic.Person) => R;
+};
+
+export function matchUnionUsingImport<R>(value: UnionUsingImport, cases: UnionUsingImportCases<R>): R {
+    switch (value.type) {
+        case UnionUsingImportTag.CoolEvent:
+            return cases.CoolEvent(value.data);
+        case UnionUsingImportTag.Other:
+            return cases.Other(value.data);
+    }
+}
+
+export function matchUnionUsingImportPartially<R>(value: UnionUsingImport, cases: Partial<UnionUsingImportCases<R>> & {_: () => R}): R {
+    switch (value.type) {
+        case UnionUsingImportTag.CoolEvent:
+            return cases.CoolEvent !== undefined ? cases.CoolEvent(value.data) : cases._();
+        case UnionUsingImportTag.Other:
+            return cases.Other !== undefined ? cases.Other(value.data) : cases._();
+    }
+}
+
 export type AllConcrete = {
     field: HoldsSomething<basic.Either<basic.Maybe<StructureUsingImport>, UnionUsingImport>>;
 };
@@ -89,4 +143,12 @@ export function isAllConcrete(value: unknown): value is AllConcrete {
 
 export function validateAllConcrete(value: unknown): svt.ValidationResult<AllConcrete> {
     return svt.validate<AllConcrete>(value, {field: validateHoldsSomething(basic.validateEither(basic.validateMaybe(validateStructureUsingImport), validateUnionUsingImport))});
+}
+
+export function encodeAllConcrete(value: AllConcrete): unknown {
+    return {field: encodeHoldsSomething(basic.encodeEither(basic.encodeMaybe(encodeStructureUsingImport), encodeUnionUsingImport))(value.field)};
+}
+
+export function decodeAllConcrete(json: unknown): svt.ValidationResult<AllConcrete> {
+    return validateAllConcrete(json);
 }
\ No newline at end of file
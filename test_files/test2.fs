@@ -1,3 +1,7 @@
+module Test2
+
+open Thoth.Json.Net
+
 type LogInData =
     {
         username: string
@@ -7,8 +11,8 @@ type LogInData =
     static member Decoder: Decoder<LogInData> =
         Decode.object (fun get ->
             {
-              username = get.Required.Field "username" Decode.string
-              password = get.Required.Field "password" Decode.string
+                username = get.Required.Field "username" Decode.string
+                password = get.Required.Field "password" Decode.string
             }
         )
 
@@ -27,7 +31,7 @@ type UserId =
     static member Decoder: Decoder<UserId> =
         Decode.object (fun get ->
             {
-              value = get.Required.Field "value" Decode.string
+                value = get.Required.Field "value" Decode.string
             }
         )
 
@@ -46,8 +50,8 @@ type Channel =
     static member Decoder: Decoder<Channel> =
         Decode.object (fun get ->
             {
-              name = get.Required.Field "name" Decode.string
-              ``private`` = get.Required.Field "private" Decode.bool
+                name = get.Required.Field "name" Decode.string
+                ``private`` = get.Required.Field "private" Decode.bool
             }
         )
 
@@ -66,7 +70,7 @@ type Email =
     static member Decoder: Decoder<Email> =
         Decode.object (fun get ->
             {
-              value = get.Required.Field "value" Decode.string
+                value = get.Required.Field "value" Decode.string
             }
         )
 
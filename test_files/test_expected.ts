@@ -1,5 +1,49 @@
 import * as svt from "simple-validation-tools";
 
+function isArrayOfLength<T, N extends number>(length: N, predicate: svt.TypePredicate<T>): svt.TypePredicate<T[] & {length: N}> {
+    return function isArrayOfLengthN(value: unknown): value is T[] & {length: N} {
+        return svt.arrayOf(predicate)(value) && value.length === length;
+    };
+}
+
+function validateArrayOfLength<T, N extends number>(length: N, validator: svt.Validator<T>): svt.Validator<T[] & {length: N}> {
+    return function validateArrayOfLengthN(value: unknown): svt.ValidationResult<T[] & {length: N}> {
+        if (Array.isArray(value) && value.length !== length) {
+            return svt.Invalid(`Expected array of length ${length}, got array of length ${value.length}`);
+        }
+
+        return svt.validateArray(validator)(value) as svt.ValidationResult<T[] & {length: N}>;
+    };
+}
+
+function isIntegerInRange(minimum: number, maximum: number): svt.TypePredicate<number> {
+    return function isIntegerInRangeMinimumMaximum(value: unknown): value is number {
+        return Number.isInteger(value) && (value as number) >= minimum && (value as number) <= maximum;
+    };
+}
+
+function validateIntegerInRange(minimum: number, maximum: number): svt.Validator<number> {
+    return function validateIntegerInRangeMinimumMaximum(value: unknown): svt.ValidationResult<number> {
+        if (Number.isInteger(value) && (value as number) >= minimum && (value as number) <= maximum) {
+            return svt.Valid(value as number);
+        }
+
+        return svt.Invalid(`Expected integer in range [${minimum}, ${maximum}], got: ${value}`);
+    };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return Number.isFinite(value);
+}
+
+function validateFiniteNumber(value: unknown): svt.ValidationResult<number> {
+    if (Number.isFinite(value)) {
+        return svt.Valid(value as number);
+    }
+
+    return svt.Invalid(`Expected finite number, got: ${value}`);
+}
+
 export type Recruiter = {
     name: string;
 };
@@ -12,6 +56,14 @@ export function validateRecruiter(value: unknown): svt.ValidationResult<Recruite
     return svt.validate<Recruiter>(value, {name: svt.validateString});
 }
 
+export function encodeRecruiter(value: Recruiter): unknown {
+    return {name: value.name};
+}
+
+export function decodeRecruiter(json: unknown): svt.ValidationResult<Recruiter> {
+    return validateRecruiter(json);
+}
+
 export type Maybe<T> = Nothing | Just<T>;
 
 export enum MaybeTag {
@@ -68,23 +120,69 @@ export function validateJust<T>(validateT: svt.Validator<T>): svt.Validator<Just
     };
 }
 
+export function encodeMaybe<T>(encodeT: svt.ToJSON<T>): svt.ToJSON<Maybe<T>> {
+    return function encodeMaybeT(value: Maybe<T>): unknown {
+        switch (value.type) {
+            case MaybeTag.Nothing:
+                return {type: value.type};
+            case MaybeTag.Just:
+                return {type: value.type, data: encodeT(value.data)};
+        }
+    };
+}
+
+export function decodeMaybe<T>(decodeT: svt.Validator<T>): svt.Validator<Maybe<T>> {
+    return validateMaybe(decodeT);
+}
+
+export type MaybeCases<T, R> = {
+    Nothing: () => R;
+    Just: (data: T) => R;
+};
+
+export function matchMaybe<T, R>(value: Maybe<T>, cases: MaybeCases<T, R>): R {
+    switch (value.type) {
+        case MaybeTag.Nothing:
+            return cases.Nothing();
+        case MaybeTag.Just:
+            return cases.Just(value.data);
+    }
+}
+
+export function matchMaybePartially<T, R>(value: Maybe<T>, cases: Partial<MaybeCases<T, R>> & {_: () => R}): R {
+    switch (value.type) {
+        case MaybeTag.Nothing:
+            return cases.Nothing !== undefined ? cases.Nothing() : cases._();
+        case MaybeTag.Just:
+            return cases.Just !== undefined ? cases.Just(value.data) : cases._();
+    }
+}
+
 export type Person = {
     name: string;
     age: number;
     efficiency: number;
     on_vacation: boolean;
     hobbies: string[];
-    last_fifteen_comments: string[];
+    last_fifteen_comments: string[] & {length: 15};
     recruiter: Recruiter;
     spouse: Maybe<Person>;
 };
 
 export function isPerson(value: unknown): value is Person {
-    return svt.isInterface<Person>(value, {name: svt.isString, age: svt.isNumber, efficiency: svt.isNumber, on_vacation: svt.isBoolean, hobbies: svt.arrayOf(svt.isString), last_fifteen_comments: svt.arrayOf(svt.isString), recruiter: isRecruiter, spouse: isMaybe(isPerson)});
+    return svt.isInterface<Person>(value, {name: svt.isString, age: isIntegerInRange(0, 255), efficiency: isFiniteNumber, on_vacation: svt.isBoolean, hobbies: svt.arrayOf(svt.isString), last_fifteen_comments: isArrayOfLength(15, svt.isString), recruiter: isRecruiter, spouse: isMaybe(isPerson)});
 }
 
 export function validatePerson(value: unknown): svt.ValidationResult<Person> {
-    return svt.validate<Person>(value, {name: svt.validateString, age: svt.validateNumber, efficiency: svt.validateNumber, on_vacation: svt.validateBoolean, hobbies: svt.validateArray(svt.validateString), last_fifteen_comments: svt.validateArray(svt.validateString), recruiter: validateRecruiter, spouse: validateMaybe(validatePerson)});
+    return svt.validate<Person>(value, {name: svt.validateString, age: validateIntegerInRange(0, 255), efficiency: validateFiniteNumber, on_vacation: svt.validateBoolean, hobbies: svt.validateArray(svt.validateString), last_fifteen_comments: validateArrayOfLength(15, svt.validateString), recruiter: validateRecruiter, spouse: validateMaybe(validatePerson)});
+}
+
+export function encodePerson(value: Person): unknown {
+    return {name: value.name, age: value.age, efficiency: value.efficiency, on_vacation: value.on_vacation, hobbies: value.hobbies, last_fifteen_comments: value.last_fifteen_comments, recruiter: encodeRecruiter(value.recruiter), spouse: encodeMaybe(encodePerson)(value.spouse)};
+}
+
+export function decodePerson(json: unknown): svt.ValidationResult<Person> {
+    return validatePerson(json);
 }
 
 export type LogInData = {
@@ -100,6 +198,14 @@ export function validateLogInData(value: unknown): svt.ValidationResult<LogInDat
     return svt.validate<LogInData>(value, {username: svt.validateString, password: svt.validateString});
 }
 
+export function encodeLogInData(value: LogInData): unknown {
+    return {username: value.username, password: value.password};
+}
+
+export function decodeLogInData(json: unknown): svt.ValidationResult<LogInData> {
+    return validateLogInData(json);
+}
+
 export type UserId = {
     value: string;
 };
@@ -112,6 +218,14 @@ export function validateUserId(value: unknown): svt.ValidationResult<UserId> {
     return svt.validate<UserId>(value, {value: svt.validateString});
 }
 
+export function encodeUserId(value: UserId): unknown {
+    return {value: value.value};
+}
+
+export function decodeUserId(json: unknown): svt.ValidationResult<UserId> {
+    return validateUserId(json);
+}
+
 export type Channel = {
     name: string;
     private: boolean;
@@ -125,6 +239,14 @@ export function validateChannel(value: unknown): svt.ValidationResult<Channel> {
     return svt.validate<Channel>(value, {name: svt.validateString, private: svt.validateBoolean});
 }
 
+export function encodeChannel(value: Channel): unknown {
+    return {name: value.name, private: value.private};
+}
+
+export function decodeChannel(json: unknown): svt.ValidationResult<Channel> {
+    return validateChannel(json);
+}
+
 export type Email = {
     value: string;
 };
@@ -137,6 +259,14 @@ export function validateEmail(value: unknown): svt.ValidationResult<Email> {
     return svt.validate<Email>(value, {value: svt.validateString});
 }
 
+export function encodeEmail(value: Email): unknown {
+    return {value: value.value};
+}
+
+export function decodeEmail(json: unknown): svt.ValidationResult<Email> {
+    return validateEmail(json);
+}
+
 export type Event = LogIn | LogOut | JoinChannels | SetEmails;
 
 export enum EventTag {
@@ -163,7 +293,7 @@ export type JoinChannels = {
 
 export type SetEmails = {
     type: EventTag.SetEmails;
-    data: Email[];
+    data: Email[] & {length: 5};
 };
 
 export function LogIn(data: LogInData): LogIn {
@@ -178,7 +308,7 @@ export function JoinChannels(data: Channel[]): JoinChannels {
     return {type: EventTag.JoinChannels, data};
 }
 
-export function SetEmails(data: Email[]): SetEmails {
+export function SetEmails(data: Email[] & {length: 5}): SetEmails {
     return {type: EventTag.SetEmails, data};
 }
 
@@ -199,7 +329,7 @@ export function isJoinChannels(value: unknown): value is JoinChannels {
 }
 
 export function isSetEmails(value: unknown): value is SetEmails {
-    return svt.isInterface<SetEmails>(value, {type: EventTag.SetEmails, data: svt.arrayOf(isEmail)});
+    return svt.isInterface<SetEmails>(value, {type: EventTag.SetEmails, data: isArrayOfLength(5, isEmail)});
 }
 
 export function validateEvent(value: unknown): svt.ValidationResult<Event> {
@@ -219,7 +349,57 @@ export function validateJoinChannels(value: unknown): svt.ValidationResult<JoinC
 }
 
 export function validateSetEmails(value: unknown): svt.ValidationResult<SetEmails> {
-    return svt.validate<SetEmails>(value, {type: EventTag.SetEmails, data: svt.validateArray(validateEmail)});
+    return svt.validate<SetEmails>(value, {type: EventTag.SetEmails, data: validateArrayOfLength(5, validateEmail)});
+}
+
+export function encodeEvent(value: Event): unknown {
+    switch (value.type) {
+        case EventTag.LogIn:
+            return {type: value.type, data: encodeLogInData(value.data)};
+        case EventTag.LogOut:
+            return {type: value.type, data: encodeUserId(value.data)};
+        case EventTag.JoinChannels:
+            return {type: value.type, data: svt.arrayToJson(encodeChannel)(value.data)};
+        case EventTag.SetEmails:
+            return {type: value.type, data: svt.arrayToJson(encodeEmail)(value.data)};
+    }
+}
+
+export function decodeEvent(json: unknown): svt.ValidationResult<Event> {
+    return validateEvent(json);
+}
+
+export type EventCases<R> = {
+    LogIn: (data: LogInData) => R;
+    LogOut: (data: UserId) => R;
+    JoinChannels: (data: Channel[]) => R;
+    SetEmails: (data: Email[] & {length: 5}) => R;
+};
+
+export function matchEvent<R>(value: Event, cases: EventCases<R>): R {
+    switch (value.type) {
+        case EventTag.LogIn:
+            return cases.LogIn(value.data);
+        case EventTag.LogOut:
+            return cases.LogOut(value.data);
+        case EventTag.JoinChannels:
+            return cases.JoinChannels(value.data);
+        case EventTag.SetEmails:
+            return cases.SetEmails(value.data);
+    }
+}
+
+export function matchEventPartially<R>(value: Event, cases: Partial<EventCases<R>> & {_: () => R}): R {
+    switch (value.type) {
+        case EventTag.LogIn:
+            return cases.LogIn !== undefined ? cases.LogIn(value.data) : cases._();
+        case EventTag.LogOut:
+            return cases.LogOut !== undefined ? cases.LogOut(value.data) : cases._();
+        case EventTag.JoinChannels:
+            return cases.JoinChannels !== undefined ? cases.JoinChannels(value.data) : cases._();
+        case EventTag.SetEmails:
+            return cases.SetEmails !== undefined ? cases.SetEmails(value.data) : cases._();
+    }
 }
 
 export type Either<L, R> = Left<L> | Right<R>;
@@ -283,6 +463,44 @@ export function validateRight<R>(validateR: svt.Validator<R>): svt.Validator<Rig
     };
 }
 
+export function encodeEither<L, R>(encodeL: svt.ToJSON<L>, encodeR: svt.ToJSON<R>): svt.ToJSON<Either<L, R>> {
+    return function encodeEitherLR(value: Either<L, R>): unknown {
+        switch (value.type) {
+            case EitherTag.Left:
+                return {type: value.type, data: encodeL(value.data)};
+            case EitherTag.Right:
+                return {type: value.type, data: encodeR(value.data)};
+        }
+    };
+}
+
+export function decodeEither<L, R>(decodeL: svt.Validator<L>, decodeR: svt.Validator<R>): svt.Validator<Either<L, R>> {
+    return validateEither(decodeL, decodeR);
+}
+
+export type EitherCases<L, R, Result> = {
+    Left: (data: L) => Result;
+    Right: (data: R) => Result;
+};
+
+export function matchEither<L, R, Result>(value: Either<L, R>, cases: EitherCases<L, R, Result>): Result {
+    switch (value.type) {
+        case EitherTag.Left:
+            return cases.Left(value.data);
+        case EitherTag.Right:
+            return cases.Right(value.data);
+    }
+}
+
+export function matchEitherPartially<L, R, Result>(value: Either<L, R>, cases: Partial<EitherCases<L, R, Result>> & {_: () => Result}): Result {
+    switch (value.type) {
+        case EitherTag.Left:
+            return cases.Left !== undefined ? cases.Left(value.data) : cases._();
+        case EitherTag.Right:
+            return cases.Right !== undefined ? cases.Right(value.data) : cases._();
+    }
+}
+
 export enum StillSize {
     w92 = "w92",
     w185 = "w185",
@@ -291,12 +509,26 @@ export enum StillSize {
     original = "original",
 }
 
+export const allStillSize: readonly StillSize[] = [StillSize.w92, StillSize.w185, StillSize.w300, StillSize.h632, StillSize.original];
+
 export function isStillSize(value: unknown): value is StillSize {
-    return [StillSize.w92, StillSize.w185, StillSize.w300, StillSize.h632, StillSize.original].some((v) => v === value);
+    return allStillSize.some((v) => v === value);
 }
 
 export function validateStillSize(value: unknown): svt.ValidationResult<StillSize> {
-    return svt.validateOneOfLiterals<StillSize>(value, [StillSize.w92, StillSize.w185, StillSize.w300, StillSize.h632, StillSize.original]);
+    return svt.validateOneOfLiterals<StillSize>(value, allStillSize);
+}
+
+export function parseStillSize(value: string): StillSize | undefined {
+    return allStillSize.find((v) => v === value);
+}
+
+export function encodeStillSize(value: StillSize): unknown {
+    return value;
+}
+
+export function decodeStillSize(json: unknown): svt.ValidationResult<StillSize> {
+    return validateStillSize(json);
 }
 
 export enum BackdropSize {
@@ -306,12 +538,26 @@ export enum BackdropSize {
     original = "original",
 }
 
+export const allBackdropSize: readonly BackdropSize[] = [BackdropSize.w300, BackdropSize.w780, BackdropSize.w1280, BackdropSize.original];
+
 export function isBackdropSize(value: unknown): value is BackdropSize {
-    return [BackdropSize.w300, BackdropSize.w780, BackdropSize.w1280, BackdropSize.original].some((v) => v === value);
+    return allBackdropSize.some((v) => v === value);
 }
 
 export function validateBackdropSize(value: unknown): svt.ValidationResult<BackdropSize> {
-    return svt.validateOneOfLiterals<BackdropSize>(value, [BackdropSize.w300, BackdropSize.w780, BackdropSize.w1280, BackdropSize.original]);
+    return svt.validateOneOfLiterals<BackdropSize>(value, allBackdropSize);
+}
+
+export function parseBackdropSize(value: string): BackdropSize | undefined {
+    return allBackdropSize.find((v) => v === value);
+}
+
+export function encodeBackdropSize(value: BackdropSize): unknown {
+    return value;
+}
+
+export function decodeBackdropSize(json: unknown): svt.ValidationResult<BackdropSize> {
+    return validateBackdropSize(json);
 }
 
 export type ImageConfigurationData = {
@@ -329,6 +575,14 @@ export function validateImageConfigurationData(value: unknown): svt.ValidationRe
     return svt.validate<ImageConfigurationData>(value, {base_url: svt.validateString, secure_base_url: svt.validateString, still_sizes: svt.validateArray(validateStillSize), backdrop_sizes: svt.validateArray(validateBackdropSize)});
 }
 
+export function encodeImageConfigurationData(value: ImageConfigurationData): unknown {
+    return {base_url: value.base_url, secure_base_url: value.secure_base_url, still_sizes: svt.arrayToJson(encodeStillSize)(value.still_sizes), backdrop_sizes: svt.arrayToJson(encodeBackdropSize)(value.backdrop_sizes)};
+}
+
+export function decodeImageConfigurationData(json: unknown): svt.ValidationResult<ImageConfigurationData> {
+    return validateImageConfigurationData(json);
+}
+
 export type ConfigurationData = {
     images: ImageConfigurationData;
     change_keys: string[];
@@ -342,6 +596,14 @@ export function validateConfigurationData(value: unknown): svt.ValidationResult<
     return svt.validate<ConfigurationData>(value, {images: validateImageConfigurationData, change_keys: svt.validateArray(svt.validateString)});
 }
 
+export function encodeConfigurationData(value: ConfigurationData): unknown {
+    return {images: encodeImageConfigurationData(value.images), change_keys: value.change_keys};
+}
+
+export function decodeConfigurationData(json: unknown): svt.ValidationResult<ConfigurationData> {
+    return validateConfigurationData(json);
+}
+
 export type KnownForMovie = {
     media_type: "movie";
     poster_path: string | null | undefined;
@@ -353,11 +615,19 @@ export type KnownForMovie = {
 };
 
 export function isKnownForMovie(value: unknown): value is KnownForMovie {
-    return svt.isInterface<KnownForMovie>(value, {media_type: "movie", poster_path: svt.optional(svt.isString), id: svt.isNumber, title: svt.optional(svt.isString), vote_average: svt.isNumber, release_date: svt.optional(svt.isString), overview: svt.isString});
+    return svt.isInterface<KnownForMovie>(value, {media_type: "movie", poster_path: svt.optional(svt.isString), id: isIntegerInRange(0, 4294967295), title: svt.optional(svt.isString), vote_average: isFiniteNumber, release_date: svt.optional(svt.isString), overview: svt.isString});
 }
 
 export function validateKnownForMovie(value: unknown): svt.ValidationResult<KnownForMovie> {
-    return svt.validate<KnownForMovie>(value, {media_type: "movie", poster_path: svt.validateOptional(svt.validateString), id: svt.validateNumber, title: svt.validateOptional(svt.validateString), vote_average: svt.validateNumber, release_date: svt.validateOptional(svt.validateString), overview: svt.validateString});
+    return svt.validate<KnownForMovie>(value, {media_type: "movie", poster_path: svt.validateOptional(svt.validateString), id: validateIntegerInRange(0, 4294967295), title: svt.validateOptional(svt.validateString), vote_average: validateFiniteNumber, release_date: svt.validateOptional(svt.validateString), overview: svt.validateString});
+}
+
+export function encodeKnownForMovie(value: KnownForMovie): unknown {
+    return {media_type: value.media_type, poster_path: value.poster_path, id: value.id, title: value.title, vote_average: value.vote_average, release_date: value.release_date, overview: value.overview};
+}
+
+export function decodeKnownForMovie(json: unknown): svt.ValidationResult<KnownForMovie> {
+    return validateKnownForMovie(json);
 }
 
 export type KnownForShow = {
@@ -371,21 +641,45 @@ export type KnownForShow = {
 };
 
 export function isKnownForShow(value: unknown): value is KnownForShow {
-    return svt.isInterface<KnownForShow>(value, {media_type: "tv", poster_path: svt.optional(svt.isString), id: svt.isNumber, vote_average: svt.isNumber, overview: svt.isString, first_air_date: svt.optional(svt.isString), name: svt.optional(svt.isString)});
+    return svt.isInterface<KnownForShow>(value, {media_type: "tv", poster_path: svt.optional(svt.isString), id: isIntegerInRange(0, 4294967295), vote_average: isFiniteNumber, overview: svt.isString, first_air_date: svt.optional(svt.isString), name: svt.optional(svt.isString)});
 }
 
 export function validateKnownForShow(value: unknown): svt.ValidationResult<KnownForShow> {
-    return svt.validate<KnownForShow>(value, {media_type: "tv", poster_path: svt.validateOptional(svt.validateString), id: svt.validateNumber, vote_average: svt.validateNumber, overview: svt.validateString, first_air_date: svt.validateOptional(svt.validateString), name: svt.validateOptional(svt.validateString)});
+    return svt.validate<KnownForShow>(value, {media_type: "tv", poster_path: svt.validateOptional(svt.validateString), id: validateIntegerInRange(0, 4294967295), vote_average: validateFiniteNumber, overview: svt.validateString, first_air_date: svt.validateOptional(svt.validateString), name: svt.validateOptional(svt.validateString)});
+}
+
+export function encodeKnownForShow(value: KnownForShow): unknown {
+    return {media_type: value.media_type, poster_path: value.poster_path, id: value.id, vote_average: value.vote_average, overview: value.overview, first_air_date: value.first_air_date, name: value.name};
+}
+
+export function decodeKnownForShow(json: unknown): svt.ValidationResult<KnownForShow> {
+    return validateKnownForShow(json);
 }
 
 export type KnownFor = KnownForShow | KnownForMovie | string | number;
 
 export function isKnownFor(value: unknown): value is KnownFor {
-    return [isKnownForShow, isKnownForMovie, svt.isString, svt.isNumber].some((typePredicate) => typePredicate(value));
+    return [isKnownForShow, isKnownForMovie, svt.isString, isFiniteNumber].some((typePredicate) => typePredicate(value));
 }
 
 export function validateKnownFor(value: unknown): svt.ValidationResult<KnownFor> {
-    return svt.validateOneOf<KnownFor>(value, [validateKnownForShow, validateKnownForMovie, svt.validateString, svt.validateNumber]);
+    return svt.validateOneOf<KnownFor>(value, [validateKnownForShow, validateKnownForMovie, svt.validateString, validateFiniteNumber]);
+}
+
+export function encodeKnownFor(value: KnownFor): unknown {
+    if (isKnownForShow(value)) {
+        return encodeKnownForShow(value);
+    }
+
+    if (isKnownForMovie(value)) {
+        return encodeKnownForMovie(value);
+    }
+
+    return value;
+}
+
+export function decodeKnownFor(json: unknown): svt.ValidationResult<KnownFor> {
+    return validateKnownFor(json);
 }
 
 export type KnownForMovieWithoutTypeTag = {
@@ -398,11 +692,19 @@ export type KnownForMovieWithoutTypeTag = {
 };
 
 export function isKnownForMovieWithoutTypeTag(value: unknown): value is KnownForMovieWithoutTypeTag {
-    return svt.isInterface<KnownForMovieWithoutTypeTag>(value, {poster_path: svt.optional(svt.isString), id: svt.isNumber, title: svt.optional(svt.isString), vote_average: svt.isNumber, release_date: svt.optional(svt.isString), overview: svt.isString});
+    return svt.isInterface<KnownForMovieWithoutTypeTag>(value, {poster_path: svt.optional(svt.isString), id: isIntegerInRange(0, 4294967295), title: svt.optional(svt.isString), vote_average: isFiniteNumber, release_date: svt.optional(svt.isString), overview: svt.isString});
 }
 
 export function validateKnownForMovieWithoutTypeTag(value: unknown): svt.ValidationResult<KnownForMovieWithoutTypeTag> {
-    return svt.validate<KnownForMovieWithoutTypeTag>(value, {poster_path: svt.validateOptional(svt.validateString), id: svt.validateNumber, title: svt.validateOptional(svt.validateString), vote_average: svt.validateNumber, release_date: svt.validateOptional(svt.validateString), overview: svt.validateString});
+    return svt.validate<KnownForMovieWithoutTypeTag>(value, {poster_path: svt.validateOptional(svt.validateString), id: validateIntegerInRange(0, 4294967295), title: svt.validateOptional(svt.validateString), vote_average: validateFiniteNumber, release_date: svt.validateOptional(svt.validateString), overview: svt.validateString});
+}
+
+export function encodeKnownForMovieWithoutTypeTag(value: KnownForMovieWithoutTypeTag): unknown {
+    return {poster_path: value.poster_path, id: value.id, title: value.title, vote_average: value.vote_average, release_date: value.release_date, overview: value.overview};
+}
+
+export function decodeKnownForMovieWithoutTypeTag(json: unknown): svt.ValidationResult<KnownForMovieWithoutTypeTag> {
+    return validateKnownForMovieWithoutTypeTag(json);
 }
 
 export type KnownForShowWithoutTypeTag = {
@@ -415,11 +717,19 @@ export type KnownForShowWithoutTypeTag = {
 };
 
 export function isKnownForShowWithoutTypeTag(value: unknown): value is KnownForShowWithoutTypeTag {
-    return svt.isInterface<KnownForShowWithoutTypeTag>(value, {poster_path: svt.optional(svt.isString), id: svt.isNumber, vote_average: svt.isNumber, overview: svt.isString, first_air_date: svt.optional(svt.isString), name: svt.optional(svt.isString)});
+    return svt.isInterface<KnownForShowWithoutTypeTag>(value, {poster_path: svt.optional(svt.isString), id: isIntegerInRange(0, 4294967295), vote_average: isFiniteNumber, overview: svt.isString, first_air_date: svt.optional(svt.isString), name: svt.optional(svt.isString)});
 }
 
 export function validateKnownForShowWithoutTypeTag(value: unknown): svt.ValidationResult<KnownForShowWithoutTypeTag> {
-    return svt.validate<KnownForShowWithoutTypeTag>(value, {poster_path: svt.validateOptional(svt.validateString), id: svt.validateNumber, vote_average: svt.validateNumber, overview: svt.validateString, first_air_date: svt.validateOptional(svt.validateString), name: svt.validateOptional(svt.validateString)});
+    return svt.validate<KnownForShowWithoutTypeTag>(value, {poster_path: svt.validateOptional(svt.validateString), id: validateIntegerInRange(0, 4294967295), vote_average: validateFiniteNumber, overview: svt.validateString, first_air_date: svt.validateOptional(svt.validateString), name: svt.validateOptional(svt.validateString)});
+}
+
+export function encodeKnownForShowWithoutTypeTag(value: KnownForShowWithoutTypeTag): unknown {
+    return {poster_path: value.poster_path, id: value.id, vote_average: value.vote_average, overview: value.overview, first_air_date: value.first_air_date, name: value.name};
+}
+
+export function decodeKnownForShowWithoutTypeTag(json: unknown): svt.ValidationResult<KnownForShowWithoutTypeTag> {
+    return validateKnownForShowWithoutTypeTag(json);
 }
 
 export type KnownForEmbedded = Movie | TV;
@@ -462,11 +772,11 @@ export function isKnownForEmbedded(value: unknown): value is KnownForEmbedded {
 }
 
 export function isMovie(value: unknown): value is Movie {
-    return svt.isInterface<Movie>(value, {media_type: KnownForEmbeddedTag.Movie, poster_path: svt.optional(svt.isString), id: svt.isNumber, title: svt.optional(svt.isString), vote_average: svt.isNumber, release_date: svt.optional(svt.isString), overview: svt.isString});
+    return svt.isInterface<Movie>(value, {media_type: KnownForEmbeddedTag.Movie, poster_path: svt.optional(svt.isString), id: isIntegerInRange(0, 4294967295), title: svt.optional(svt.isString), vote_average: isFiniteNumber, release_date: svt.optional(svt.isString), overview: svt.isString});
 }
 
 export function isTV(value: unknown): value is TV {
-    return svt.isInterface<TV>(value, {media_type: KnownForEmbeddedTag.TV, poster_path: svt.optional(svt.isString), id: svt.isNumber, vote_average: svt.isNumber, overview: svt.isString, first_air_date: svt.optional(svt.isString), name: svt.optional(svt.isString)});
+    return svt.isInterface<TV>(value, {media_type: KnownForEmbeddedTag.TV, poster_path: svt.optional(svt.isString), id: isIntegerInRange(0, 4294967295), vote_average: isFiniteNumber, overview: svt.isString, first_air_date: svt.optional(svt.isString), name: svt.optional(svt.isString)});
 }
 
 export function validateKnownForEmbedded(value: unknown): svt.ValidationResult<KnownForEmbedded> {
@@ -474,9 +784,45 @@ export function validateKnownForEmbedded(value: unknown): svt.ValidationResult<K
 }
 
 export function validateMovie(value: unknown): svt.ValidationResult<Movie> {
-    return svt.validate<Movie>(value, {media_type: KnownForEmbeddedTag.Movie, poster_path: svt.validateOptional(svt.validateString), id: svt.validateNumber, title: svt.validateOptional(svt.validateString), vote_average: svt.validateNumber, release_date: svt.validateOptional(svt.validateString), overview: svt.validateString});
+    return svt.validate<Movie>(value, {media_type: KnownForEmbeddedTag.Movie, poster_path: svt.validateOptional(svt.validateString), id: validateIntegerInRange(0, 4294967295), title: svt.validateOptional(svt.validateString), vote_average: validateFiniteNumber, release_date: svt.validateOptional(svt.validateString), overview: svt.validateString});
 }
 
 export function validateTV(value: unknown): svt.ValidationResult<TV> {
-    return svt.validate<TV>(value, {media_type: KnownForEmbeddedTag.TV, poster_path: svt.validateOptional(svt.validateString), id: svt.validateNumber, vote_average: svt.validateNumber, overview: svt.validateString, first_air_date: svt.validateOptional(svt.validateString), name: svt.validateOptional(svt.validateString)});
+    return svt.validate<TV>(value, {media_type: KnownForEmbeddedTag.TV, poster_path: svt.validateOptional(svt.validateString), id: validateIntegerInRange(0, 4294967295), vote_average: validateFiniteNumber, overview: svt.validateString, first_air_date: svt.validateOptional(svt.validateString), name: svt.validateOptional(svt.validateString)});
+}
+
+export function encodeKnownForEmbedded(value: KnownForEmbedded): unknown {
+    switch (value.media_type) {
+        case KnownForEmbeddedTag.Movie:
+            return {media_type: value.media_type, poster_path: value.poster_path, id: value.id, title: value.title, vote_average: value.vote_average, release_date: value.release_date, overview: value.overview};
+        case KnownForEmbeddedTag.TV:
+            return {media_type: value.media_type, poster_path: value.poster_path, id: value.id, vote_average: value.vote_average, overview: value.overview, first_air_date: value.first_air_date, name: value.name};
+    }
+}
+
+export function decodeKnownForEmbedded(json: unknown): svt.ValidationResult<KnownForEmbedded> {
+    return validateKnownForEmbedded(json);
+}
+
+export type KnownForEmbeddedCases<R> = {
+    Movie: (data: Movie) => R;
+    TV: (data: TV) => R;
+};
+
+export function matchKnownForEmbedded<R>(value: KnownForEmbedded, cases: KnownForEmbeddedCases<R>): R {
+    switch (value.media_type) {
+        case KnownForEmbeddedTag.Movie:
+            return cases.Movie(value);
+        case KnownForEmbeddedTag.TV:
+            return cases.TV(value);
+    }
+}
+
+export function matchKnownForEmbeddedPartially<R>(value: KnownForEmbedded, cases: Partial<KnownForEmbeddedCases<R>> & {_: () => R}): R {
+    switch (value.media_type) {
+        case KnownForEmbeddedTag.Movie:
+            return cases.Movie !== undefined ? cases.Movie(value) : cases._();
+        case KnownForEmbeddedTag.TV:
+            return cases.TV !== undefined ? cases.TV(value) : cases._();
+    }
 }
\ No newline at end of file